@@ -0,0 +1,144 @@
+import {
+  fromIni,
+  fromTemporaryCredentials,
+} from "@aws-sdk/credential-providers";
+import { pick } from "remeda";
+import type { AWSCredentialOptions } from "./types.js";
+
+type CredentialProvider = ReturnType<typeof fromIni>;
+
+export interface AWSClientConfig {
+  region?: string;
+  credentials?: CredentialProvider;
+}
+
+// Session name shown in CloudTrail for assumed roles
+const ROLE_SESSION_NAME = "ecs-pf-session";
+
+// Providers are shared per (profile, role, external id, region) so that every
+// client created during one run reuses the same assumed-role session
+const providerCache = new Map<string, CredentialProvider>();
+
+function hasCredentialOptions(
+  credentials: AWSCredentialOptions | undefined,
+): credentials is AWSCredentialOptions {
+  return !!(credentials?.profile || credentials?.roleArn);
+}
+
+/**
+ * Extract credential options from parsed command options
+ */
+export function pickCredentialOptions(
+  options: AWSCredentialOptions,
+): AWSCredentialOptions {
+  return pick(options, ["profile", "roleArn", "externalId"]);
+}
+
+/**
+ * Build a credential provider for the given profile / assume-role options
+ */
+export function createCredentialProvider(
+  credentials: AWSCredentialOptions,
+  region?: string,
+): CredentialProvider | undefined {
+  if (!hasCredentialOptions(credentials)) {
+    return undefined;
+  }
+
+  const { profile, roleArn, externalId } = credentials;
+  const cacheKey = JSON.stringify([profile, roleArn, externalId, region]);
+  const cached = providerCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const baseProvider = profile ? fromIni({ profile }) : undefined;
+  const provider = roleArn
+    ? fromTemporaryCredentials({
+        params: {
+          RoleArn: roleArn,
+          RoleSessionName: ROLE_SESSION_NAME,
+          ExternalId: externalId,
+        },
+        masterCredentials: baseProvider,
+        clientConfig: region ? { region } : undefined,
+      })
+    : baseProvider;
+
+  if (provider) {
+    providerCache.set(cacheKey, provider);
+  }
+  return provider;
+}
+
+/**
+ * Build SDK client configuration with optional profile / assume-role credentials
+ */
+export function createAWSClientConfig(
+  region: string | undefined,
+  credentials?: AWSCredentialOptions,
+): AWSClientConfig {
+  const provider = credentials
+    ? createCredentialProvider(credentials, region)
+    : undefined;
+
+  return {
+    ...(region ? { region } : {}),
+    ...(provider ? { credentials: provider } : {}),
+  };
+}
+
+/**
+ * Build the environment for spawned AWS CLI processes.
+ * The AWS CLI has no flag for assuming a role, so the role is resolved here and
+ * handed over as temporary credentials. A plain profile is passed as --profile.
+ */
+export async function resolveAWSCLIEnvironment(
+  credentials?: AWSCredentialOptions,
+): Promise<NodeJS.ProcessEnv> {
+  const provider =
+    credentials?.roleArn && createCredentialProvider(credentials);
+  if (!provider) {
+    return process.env;
+  }
+
+  const identity = await provider();
+  const { AWS_PROFILE: _profile, ...baseEnv } = process.env;
+  return {
+    ...baseEnv,
+    AWS_ACCESS_KEY_ID: identity.accessKeyId,
+    AWS_SECRET_ACCESS_KEY: identity.secretAccessKey,
+    ...(identity.sessionToken
+      ? { AWS_SESSION_TOKEN: identity.sessionToken }
+      : {}),
+  };
+}
+
+/**
+ * Format credential options as ecs-pf CLI flags (with a leading space when non-empty)
+ */
+export function formatCredentialFlags(
+  credentials?: AWSCredentialOptions,
+): string {
+  if (!credentials) {
+    return "";
+  }
+
+  const { profile, roleArn, externalId } = credentials;
+  return [
+    profile ? ` --profile ${profile}` : "",
+    roleArn ? ` --role-arn ${roleArn}` : "",
+    roleArn && externalId ? ` --external-id ${externalId}` : "",
+  ].join("");
+}
+
+/**
+ * Format credential options as AWS CLI flags (assumed roles are passed via environment)
+ */
+export function formatAWSCLICredentialFlags(
+  credentials?: AWSCredentialOptions,
+): string {
+  return credentials?.profile && !credentials.roleArn
+    ? ` --profile ${credentials.profile}`
+    : "";
+}
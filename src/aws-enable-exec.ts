@@ -1,22 +1,55 @@
+import { setTimeout as sleep } from "node:timers/promises";
 import { EC2Client } from "@aws-sdk/client-ec2";
 import { ECSClient } from "@aws-sdk/client-ecs";
+import { IAMClient } from "@aws-sdk/client-iam";
+import { STSClient } from "@aws-sdk/client-sts";
 import { search } from "@inquirer/prompts";
 import { isEmpty } from "remeda";
 import {
-  enableECSExecForService,
-  enableECSExecForServices,
+  createAWSClientConfig,
+  formatAWSCLICredentialFlags,
+  pickCredentialOptions,
+} from "./aws-credentials.js";
+import {
   getAllECSServices,
   getAWSRegions,
+  getCallerIdentity,
   getECSClusters,
+  getECSServicesWithExec,
   getECSServicesWithoutExec,
+  getServiceDeploymentStatus,
+  getServiceTaskExecReadiness,
+  setECSExecForService,
+  setECSExecForServices,
 } from "./aws-services.js";
+import { formatTable } from "./core/ui/display-utils.js";
+import {
+  appendExecJournal,
+  generateJournalEntryId,
+  getRevertableEntries,
+  loadExecJournal,
+} from "./exec-journal.js";
 import { searchRegions, searchServices } from "./search.js";
+import {
+  applyExecTaskRolePolicy,
+  buildExecTaskRolePolicy,
+  checkServiceTaskRole,
+  EXEC_TASK_ROLE_POLICY_NAME,
+  formatPutRolePolicyCommand,
+  SSM_MESSAGES_ACTIONS,
+} from "./task-role-policy.js";
 import type {
+  AWSCredentialOptions,
   ECSCluster,
   ECSService,
   EnableExecResult,
+  EnableExecRollout,
+  ExecJournalEntry,
   ProcessClusterServicesParams,
+  RegionName,
+  TaskRoleCheck,
   ValidatedEnableExecOptions,
+  ValidatedRevertOptions,
 } from "./types.js";
 import {
   parseClusterArn,
@@ -25,34 +58,64 @@ import {
   parseRegionName,
   unwrapBrandedString,
 } from "./types.js";
-import { displayFriendlyError, messages } from "./utils/index.js";
+import {
+  displayFriendlyError,
+  emitJSON,
+  getPromptContext,
+  isJSONOutput,
+  messages,
+} from "./utils/index.js";
 
 // UI Configuration constants
 const DEFAULT_PAGE_SIZE = 50;
+const ROLLOUT_POLL_INTERVAL_MS = 15_000;
+const ROLLOUT_TIMEOUT_MS = 15 * 60_000;
 
 /**
  * Enable ECS exec for services (direct execution with provided options)
  */
 export async function enableECSExec(
   options: ValidatedEnableExecOptions,
+): Promise<void> {
+  await changeECSExec(options, true);
+}
+
+/**
+ * Disable ECS exec for services, with the same modes as enable-exec
+ */
+export async function disableECSExec(
+  options: ValidatedEnableExecOptions,
+): Promise<void> {
+  await changeECSExec(options, false);
+}
+
+async function changeECSExec(
+  options: ValidatedEnableExecOptions,
+  enable: boolean,
 ): Promise<void> {
   let selectedRegion: string | undefined = options.region;
+  const credentials = pickCredentialOptions(options);
 
   // If region is not provided, select interactively
   if (!selectedRegion) {
-    const ec2Client = new EC2Client({});
+    const ec2Client = new EC2Client(
+      createAWSClientConfig(undefined, credentials),
+    );
     const regionsResult = await getAWSRegions(ec2Client);
 
     if (!regionsResult.success) {
       throw new Error(regionsResult.error);
     }
 
-    const selectedRegionValue = await search({
-      message: "Select AWS region:",
-      source: async (input) =>
-        await searchRegions(regionsResult.data, input || ""),
-      pageSize: DEFAULT_PAGE_SIZE,
-    });
+    const selectedRegionValue = await search(
+      {
+        message: "Select AWS region:",
+        source: async (input) =>
+          await searchRegions(regionsResult.data, input || ""),
+        pageSize: DEFAULT_PAGE_SIZE,
+      },
+      getPromptContext(),
+    );
 
     if (typeof selectedRegionValue !== "string") {
       throw new Error("Invalid region selection");
@@ -66,20 +129,57 @@ export async function enableECSExec(
     throw new Error(`Invalid region: ${selectedRegion}`);
   }
 
-  const ecsClient = new ECSClient({
-    region: unwrapBrandedString(regionResult.data),
-  });
+  const ecsClient = new ECSClient(
+    createAWSClientConfig(unwrapBrandedString(regionResult.data), credentials),
+  );
+
+  const journal: ExecJournalContext = {
+    action: enable ? "enable" : "disable",
+    region: regionResult.data,
+    credentials,
+    forceNewDeployment: options.forceNewDeployment,
+  };
 
   try {
+    let results: EnableExecResult[];
     if (options.cluster && options.service) {
-      // Enable exec for specific service in specific cluster
-      await enableExecForSpecificService(ecsClient, options);
+      // Change exec for specific service in specific cluster
+      results = await changeExecForSpecificService(
+        ecsClient,
+        options,
+        enable,
+        journal,
+      );
     } else if (options.cluster) {
-      // Enable exec for all services in specific cluster
-      await enableExecForClusterServices(ecsClient, options);
+      // Change exec for all services in specific cluster
+      results = await changeExecForClusterServices(
+        ecsClient,
+        options,
+        enable,
+        journal,
+      );
     } else {
       // Interactive mode - let user select cluster and services
-      await enableExecInteractive(ecsClient, options);
+      results = await changeExecInteractive(
+        ecsClient,
+        options,
+        enable,
+        journal,
+      );
+    }
+
+    if (enable) {
+      await checkExecTaskRoles(
+        ecsClient,
+        new IAMClient(
+          createAWSClientConfig(
+            unwrapBrandedString(regionResult.data),
+            credentials,
+          ),
+        ),
+        results,
+        options,
+      );
     }
   } catch (error) {
     displayFriendlyError(error);
@@ -88,12 +188,14 @@ export async function enableECSExec(
 }
 
 /**
- * Enable exec for specific service in specific cluster
+ * Change exec for specific service in specific cluster
  */
-async function enableExecForSpecificService(
+async function changeExecForSpecificService(
   ecsClient: ECSClient,
   options: ValidatedEnableExecOptions,
-): Promise<void> {
+  enable: boolean,
+  journal: ExecJournalContext,
+): Promise<EnableExecResult[]> {
   if (!options.cluster || !options.service) {
     throw new Error("Both cluster and service must be specified");
   }
@@ -102,37 +204,49 @@ async function enableExecForSpecificService(
   const serviceName = options.service;
 
   messages.info(
-    `Enabling exec for service "${serviceName}" in cluster "${clusterName}"...`,
+    `${enable ? "Enabling" : "Disabling"} exec for service "${serviceName}" in cluster "${clusterName}"...`,
   );
 
   if (options.dryRun) {
     messages.info("DRY RUN: Would execute the following AWS command:");
     messages.info(
-      `aws ecs update-service --cluster ${clusterName} --service ${serviceName} --enable-execute-command`,
+      `aws ecs update-service --cluster ${clusterName} --service ${serviceName} ${formatExecFlag(enable)}${formatForceNewDeploymentFlag(options)}${formatAWSCLICredentialFlags(options)}`,
     );
-    return;
+    return [];
   }
 
-  const result = await enableECSExecForService(
+  const result = await setECSExecForService(
     ecsClient,
     clusterName,
     serviceName,
+    enable,
+    options,
   );
 
   if (!result.success) {
     throw new Error(result.error);
   }
+  await recordExecChanges([result.data], journal);
 
-  displayEnableExecResult(result.data);
+  const [finalResult = result.data] = await waitForRollouts(
+    ecsClient,
+    [result.data],
+    options,
+    enable,
+  );
+  displayEnableExecResult(finalResult, enable);
+  return [finalResult];
 }
 
 /**
- * Enable exec for all services in specific cluster
+ * Change exec for all services in specific cluster
  */
-async function enableExecForClusterServices(
+async function changeExecForClusterServices(
   ecsClient: ECSClient,
   options: ValidatedEnableExecOptions,
-): Promise<void> {
+  enable: boolean,
+  journal: ExecJournalContext,
+): Promise<EnableExecResult[]> {
   if (!options.cluster) {
     throw new Error("Cluster must be specified");
   }
@@ -154,19 +268,27 @@ async function enableExecForClusterServices(
     clusterArn: clusterArnResult.data,
   };
 
-  await processClusterServices({ ecsClient, cluster, options });
+  return processClusterServices(
+    { ecsClient, cluster, options, enable },
+    journal,
+  );
 }
 
 /**
- * Interactive mode for enabling exec
+ * Interactive mode for enabling or disabling exec
  */
-async function enableExecInteractive(
+async function changeExecInteractive(
   ecsClient: ECSClient,
   options: ValidatedEnableExecOptions,
-): Promise<void> {
-  messages.info("Starting interactive ECS exec enablement...");
+  enable: boolean,
+  journal: ExecJournalContext,
+): Promise<EnableExecResult[]> {
+  const verb = enable ? "enable" : "disable";
+  messages.info(
+    `Starting interactive ECS exec ${enable ? "enablement" : "disablement"}...`,
+  );
 
-  // Step 1: Get all services without exec enabled
+  // Step 1: Get all services whose exec flag can be changed
   messages.warning("Getting ECS clusters...");
 
   // First get clusters to show progress
@@ -187,34 +309,38 @@ async function enableExecInteractive(
 
   messages.clearPreviousLine();
   messages.info(
-    `Found ${allServicesResult.data.length} total services. Filtering exec-disabled services...`,
+    `Found ${allServicesResult.data.length} total services. Filtering exec-${enable ? "disabled" : "enabled"} services...`,
   );
 
-  // Filter services without exec enabled
-  const servicesWithoutExec = allServicesResult.data.filter(
-    (service) => !service.enableExecuteCommand,
+  // Only services not already in the requested state
+  const candidateServices = allServicesResult.data.filter(
+    (service) => service.enableExecuteCommand !== enable,
   );
 
   // Clear the loading message
   messages.clearPreviousLine();
 
-  if (isEmpty(servicesWithoutExec)) {
-    messages.success("All services in all clusters already have exec enabled!");
-    return;
+  if (isEmpty(candidateServices)) {
+    messages.success(
+      `All services in all clusters already have exec ${enable ? "enabled" : "disabled"}!`,
+    );
+    return [];
   }
 
   messages.info(
-    `Found ${servicesWithoutExec.length} services without exec enabled across all clusters`,
+    `Found ${candidateServices.length} services ${enable ? "without" : "with"} exec enabled across all clusters`,
   );
 
-  // Step 2: Select services to enable exec
-  const selectedServices = await search({
-    message:
-      "Select services to enable exec (you can select multiple services):",
-    source: async (input) =>
-      await searchServices(servicesWithoutExec, input || ""),
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+  // Step 2: Select service to change
+  const selectedServices = await search(
+    {
+      message: `Select services to ${verb} exec (you can select multiple services):`,
+      source: async (input) =>
+        await searchServices(candidateServices, input || ""),
+      pageSize: DEFAULT_PAGE_SIZE,
+    },
+    getPromptContext(),
+  );
 
   if (
     !selectedServices ||
@@ -227,14 +353,14 @@ async function enableExecInteractive(
   const service = selectedServices as ECSService;
 
   if (options.dryRun) {
-    messages.info("DRY RUN: Would enable exec for the following service:");
+    messages.info(`DRY RUN: Would ${verb} exec for the following service:`);
     messages.info(
-      `  aws ecs update-service --cluster ${service.clusterName} --service ${service.serviceName} --enable-execute-command`,
+      `  aws ecs update-service --cluster ${service.clusterName} --service ${service.serviceName} ${formatExecFlag(enable)}${formatForceNewDeploymentFlag(options)}${formatAWSCLICredentialFlags(options)}`,
     );
-    return;
+    return [];
   }
 
-  // Enable exec for the selected service
+  // Change exec for the selected service
   const clusterNameStr = unwrapBrandedString(service.clusterName);
   const serviceNameStr = unwrapBrandedString(service.serviceName);
 
@@ -242,17 +368,27 @@ async function enableExecInteractive(
     throw new Error("Invalid cluster or service name");
   }
 
-  const result = await enableECSExecForService(
+  const result = await setECSExecForService(
     ecsClient,
     clusterNameStr,
     serviceNameStr,
+    enable,
+    options,
   );
 
   if (!result.success) {
     throw new Error(result.error);
   }
+  await recordExecChanges([result.data], journal);
 
-  displayEnableExecResult(result.data);
+  const [finalResult = result.data] = await waitForRollouts(
+    ecsClient,
+    [result.data],
+    options,
+    enable,
+  );
+  displayEnableExecResult(finalResult, enable);
+  return [finalResult];
 }
 
 /**
@@ -260,42 +396,50 @@ async function enableExecInteractive(
  */
 async function processClusterServices(
   params: ProcessClusterServicesParams,
-): Promise<void> {
+  journal: ExecJournalContext,
+): Promise<EnableExecResult[]> {
   // Parse and validate parameters
   const parseResult = parseProcessClusterServicesParams(params);
   if (!parseResult.success) {
     throw new Error(parseResult.error);
   }
 
-  const { ecsClient, cluster, options } = parseResult.data;
+  const { ecsClient, cluster, options, enable } = parseResult.data;
+  const verb = enable ? "enable" : "disable";
   messages.info(`Processing cluster: ${cluster.clusterName}`);
 
-  const servicesResult = await getECSServicesWithoutExec(ecsClient, cluster);
+  const servicesResult = enable
+    ? await getECSServicesWithoutExec(ecsClient, cluster)
+    : await getECSServicesWithExec(ecsClient, cluster);
 
   if (!servicesResult.success) {
     messages.error(
       `Failed to get services for cluster ${cluster.clusterName}: ${servicesResult.error}`,
     );
-    return;
+    return [];
   }
 
   if (isEmpty(servicesResult.data)) {
     messages.success(
-      `  All services in cluster "${cluster.clusterName}" already have exec enabled`,
+      `  All services in cluster "${cluster.clusterName}" already have exec ${enable ? "enabled" : "disabled"}`,
     );
-    return;
+    return [];
   }
 
   messages.info(
-    `  Found ${servicesResult.data.length} services without exec enabled`,
+    `  Found ${servicesResult.data.length} services ${enable ? "without" : "with"} exec enabled`,
   );
 
   if (options.dryRun) {
-    messages.info("  DRY RUN: Would enable exec for:");
+    messages.info(
+      options.forceNewDeployment
+        ? `  DRY RUN: Would ${verb} exec and force a new deployment for:`
+        : `  DRY RUN: Would ${verb} exec for:`,
+    );
     for (const service of servicesResult.data) {
       messages.info(`    ${service.serviceName}`);
     }
-    return;
+    return [];
   }
 
   const serviceNames = servicesResult.data
@@ -305,39 +449,530 @@ async function processClusterServices(
   if (!clusterNameStr) {
     throw new Error("Invalid cluster name");
   }
-  const results = await enableECSExecForServices(
+  const results = await setECSExecForServices(
     ecsClient,
     clusterNameStr,
     serviceNames,
+    enable,
+    options,
   );
 
   if (!results.success) {
     messages.error(
-      `Failed to enable exec for cluster ${cluster.clusterName}: ${results.error}`,
+      `Failed to ${verb} exec for cluster ${cluster.clusterName}: ${results.error}`,
+    );
+    return [];
+  }
+  await recordExecChanges(results.data, journal);
+
+  const finalResults = await waitForRollouts(
+    ecsClient,
+    results.data,
+    options,
+    enable,
+  );
+  displayEnableExecResults(finalResults, enable);
+  return finalResults;
+}
+
+/**
+ * Check that the task role of each enabled service allows ECS Exec,
+ * and print or attach a minimal inline policy when it does not
+ */
+async function checkExecTaskRoles(
+  ecsClient: ECSClient,
+  iamClient: IAMClient,
+  results: EnableExecResult[],
+  options: ValidatedEnableExecOptions,
+): Promise<void> {
+  const services = results.filter((result) => result.success);
+  if (isEmpty(services)) {
+    return;
+  }
+
+  messages.info("Checking task role permissions for ECS Exec...");
+  const checks = await Promise.all(
+    services.map((result) =>
+      checkServiceTaskRole(
+        { ecsClient, iamClient },
+        result.clusterName,
+        result.serviceName,
+      ),
+    ),
+  );
+
+  let hasFixableRole = false;
+  for (const check of checks) {
+    displayTaskRoleCheck(check);
+    if (!check.taskRoleArn || isEmpty(check.missingActions)) {
+      continue;
+    }
+    hasFixableRole = true;
+
+    if (options.applyPolicy) {
+      const applyResult = await applyExecTaskRolePolicy(iamClient, check);
+      if (applyResult.success) {
+        messages.success(
+          `    Added inline policy "${EXEC_TASK_ROLE_POLICY_NAME}" to ${check.taskRoleArn}`,
+        );
+      } else {
+        messages.error(`    ${applyResult.error}`);
+      }
+    } else if (options.printPolicy) {
+      messages.info(
+        `    Minimal inline policy "${EXEC_TASK_ROLE_POLICY_NAME}":`,
+      );
+      for (const line of buildExecTaskRolePolicy(check.missingActions).split(
+        "\n",
+      )) {
+        messages.log(`      ${line}`);
+      }
+      messages.info("    Attach it with:");
+      messages.log(
+        `      ${formatPutRolePolicyCommand(check.taskRoleArn, check.missingActions, formatAWSCLICredentialFlags(options))}`,
+      );
+    }
+  }
+
+  if (hasFixableRole && !options.applyPolicy && !options.printPolicy) {
+    messages.warning(
+      "Re-run with --print-policy to see a minimal inline policy, or --apply-policy to attach it to the task role.",
+    );
+  }
+  messages.empty();
+}
+
+function displayTaskRoleCheck(check: TaskRoleCheck): void {
+  if (check.error) {
+    messages.warning(
+      `  ! ${check.serviceName}: could not check the task role (${check.error})`,
+    );
+  } else if (!check.taskRoleArn) {
+    messages.error(
+      `  ✗ ${check.serviceName}: no task role; ECS Exec needs one that allows ${SSM_MESSAGES_ACTIONS.join(", ")}`,
+    );
+  } else if (isEmpty(check.missingActions)) {
+    messages.success(
+      `  ✓ ${check.serviceName}: ${check.taskRoleArn} allows ssmmessages`,
+    );
+  } else {
+    messages.error(
+      `  ✗ ${check.serviceName}: ${check.taskRoleArn} does not allow ${check.missingActions.join(", ")}`,
+    );
+  }
+}
+
+/**
+ * Restore a service to the exec state recorded before a journal entry,
+ * or list the journal with --list
+ */
+export async function revertECSExec(
+  options: ValidatedRevertOptions,
+  entryId?: string,
+): Promise<void> {
+  const journalResult = await loadExecJournal();
+  if (!journalResult.success) {
+    throw new Error(journalResult.error);
+  }
+  const entries = journalResult.data;
+
+  if (options.list) {
+    displayExecJournal(entries);
+    return;
+  }
+
+  const revertable = getRevertableEntries(entries);
+  const entry = entryId
+    ? entries.find((candidate) => candidate.id === entryId)
+    : await selectJournalEntry(revertable);
+  if (!entry) {
+    throw new Error(`Exec journal entry not found: ${entryId}`);
+  }
+  if (entry.previousState === entry.newState) {
+    throw new Error(
+      `Entry ${entry.id} did not change exec for ${entry.service}, so there is nothing to revert`,
+    );
+  }
+  if (!revertable.includes(entry)) {
+    throw new Error(`Entry ${entry.id} has already been reverted`);
+  }
+
+  const credentials = pickCredentialOptions(options);
+  const account = await resolveAccountId(entry.region, credentials);
+  if (entry.account && account && entry.account !== account) {
+    throw new Error(
+      `Entry ${entry.id} was recorded in account ${entry.account}, but the current credentials belong to account ${account}`,
+    );
+  }
+
+  const enable = entry.previousState;
+  messages.info(
+    `Reverting ${entry.id}: ${enable ? "enabling" : "disabling"} exec for service "${entry.service}" in cluster "${entry.cluster}"...`,
+  );
+
+  if (options.dryRun) {
+    messages.info("DRY RUN: Would execute the following AWS command:");
+    messages.info(
+      `aws ecs update-service --region ${entry.region} --cluster ${entry.cluster} --service ${entry.service} ${formatExecFlag(enable)}${formatForceNewDeploymentFlag(entry)}${formatAWSCLICredentialFlags(options)}`,
     );
     return;
   }
 
-  displayEnableExecResults(results.data);
+  const ecsClient = new ECSClient(
+    createAWSClientConfig(entry.region, credentials),
+  );
+  const result = await setECSExecForService(
+    ecsClient,
+    entry.cluster,
+    entry.service,
+    enable,
+    { forceNewDeployment: entry.forceNewDeployment },
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  await recordExecChanges([result.data], {
+    action: "revert",
+    region: entry.region,
+    credentials,
+    forceNewDeployment: entry.forceNewDeployment,
+    revertOf: entry.id,
+  });
+
+  const [finalResult = result.data] = await waitForRollouts(
+    ecsClient,
+    [result.data],
+    entry,
+    enable,
+  );
+  displayEnableExecResult(finalResult, enable);
+}
+
+async function selectJournalEntry(
+  revertable: ExecJournalEntry[],
+): Promise<ExecJournalEntry> {
+  if (isEmpty(revertable)) {
+    throw new Error("No exec changes to revert");
+  }
+
+  const selectedId = await search(
+    {
+      message: "Select a change to revert:",
+      source: async (input) => {
+        const term = (input || "").trim().toLowerCase();
+        return revertable
+          .map((entry) => ({
+            name: formatJournalEntry(entry),
+            value: entry.id,
+          }))
+          .filter((choice) => choice.name.toLowerCase().includes(term));
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
+    },
+    getPromptContext(),
+  );
+  const entry = revertable.find((candidate) => candidate.id === selectedId);
+  if (!entry) {
+    throw new Error("Invalid journal entry selection");
+  }
+  return entry;
+}
+
+function formatJournalEntry(entry: ExecJournalEntry): string {
+  return `${entry.id}  ${entry.timestamp}  ${entry.action} ${entry.cluster}/${entry.service} (${entry.region})`;
+}
+
+function displayExecJournal(entries: ExecJournalEntry[]): void {
+  if (isJSONOutput()) {
+    const revertable = getRevertableEntries(entries);
+    emitJSON("exec-journal", {
+      entries: entries.map((entry) => ({
+        ...entry,
+        revertable: revertable.includes(entry),
+      })),
+    });
+    return;
+  }
+  if (isEmpty(entries)) {
+    messages.info("No exec changes recorded yet");
+    return;
+  }
+
+  const revertable = getRevertableEntries(entries);
+  const formatState = (enabled: boolean) => (enabled ? "on" : "off");
+  messages.empty();
+  for (const line of formatTable([
+    [
+      "ID",
+      "TIME",
+      "ACTION",
+      "ACCOUNT",
+      "REGION",
+      "SERVICE",
+      "EXEC",
+      "REVERTABLE",
+    ],
+    ...entries.map((entry) => [
+      entry.id,
+      entry.timestamp,
+      entry.revertOf ? `revert ${entry.revertOf}` : entry.action,
+      entry.account ?? "-",
+      entry.region,
+      `${entry.cluster}/${entry.service}`,
+      `${formatState(entry.previousState)} → ${formatState(entry.newState)}`,
+      revertable.includes(entry) ? "yes" : "",
+    ]),
+  ])) {
+    messages.log(line);
+  }
+  messages.empty();
+}
+
+/**
+ * Account ID behind the credentials, for the journal (undefined when it cannot be resolved)
+ */
+async function resolveAccountId(
+  region: string,
+  credentials: AWSCredentialOptions,
+): Promise<string | undefined> {
+  const identityResult = await getCallerIdentity(
+    new STSClient(createAWSClientConfig(region, credentials)),
+  );
+  // arn:aws:sts::<account>:assumed-role/<role>/<session>
+  return identityResult.success
+    ? identityResult.data.split(":")[4] || undefined
+    : undefined;
+}
+
+interface ExecJournalContext {
+  action: ExecJournalEntry["action"];
+  region: RegionName;
+  credentials: AWSCredentialOptions;
+  forceNewDeployment?: boolean;
+  revertOf?: string;
+}
+
+/**
+ * Append the services that were actually updated to the exec journal.
+ * Called right after UpdateService, before any rollout wait, so an interrupted
+ * wait still leaves an audit record that revert can undo
+ */
+async function recordExecChanges(
+  results: EnableExecResult[],
+  context: ExecJournalContext,
+): Promise<void> {
+  // A revert is recorded even when nothing changed, so the entry is not offered again
+  const changed = results.filter(
+    (result) =>
+      result.success &&
+      (result.previousState !== result.newState ||
+        context.forceNewDeployment ||
+        context.revertOf),
+  );
+  if (isEmpty(changed)) {
+    return;
+  }
+
+  const account = await resolveAccountId(context.region, context.credentials);
+  const timestamp = new Date().toISOString();
+  const journalResult = await appendExecJournal(
+    changed.map((result) => ({
+      id: generateJournalEntryId(),
+      timestamp,
+      action: context.action,
+      account,
+      region: context.region,
+      cluster: result.clusterName,
+      service: result.serviceName,
+      previousState: result.previousState,
+      newState: result.newState,
+      forceNewDeployment: context.forceNewDeployment,
+      revertOf: context.revertOf,
+    })),
+  );
+  if (!journalResult.success) {
+    messages.warning(`Could not record the change: ${journalResult.error}`);
+    return;
+  }
+  messages.info(
+    "Recorded in the exec journal (see ecs-pf revert --list, undo with ecs-pf revert)",
+  );
+}
+
+function formatExecFlag(enable: boolean): string {
+  return enable ? "--enable-execute-command" : "--disable-execute-command";
+}
+
+function formatForceNewDeploymentFlag(options: {
+  forceNewDeployment?: boolean;
+}): string {
+  return options.forceNewDeployment ? " --force-new-deployment" : "";
+}
+
+/**
+ * Wait for the deployments forced by --force-new-deployment, one per updated service
+ */
+async function waitForRollouts(
+  ecsClient: ECSClient,
+  results: EnableExecResult[],
+  options: { forceNewDeployment?: boolean },
+  enable: boolean,
+): Promise<EnableExecResult[]> {
+  if (!options.forceNewDeployment || !results.some((r) => r.success)) {
+    return results;
+  }
+
+  messages.info("Waiting for the new tasks to roll out...");
+  return Promise.all(
+    results.map(async (result) =>
+      result.success
+        ? {
+            ...result,
+            rollout: await waitForExecRollout(
+              ecsClient,
+              result.clusterName,
+              result.serviceName,
+              undefined,
+              enable,
+            ),
+          }
+        : result,
+    ),
+  );
+}
+
+/**
+ * Poll the service's deployments until the rollout completes, fails or times out,
+ * then check whether the new tasks run with ECS Exec
+ */
+export async function waitForExecRollout(
+  ecsClient: ECSClient,
+  clusterName: string,
+  serviceName: string,
+  timing: { intervalMs: number; timeoutMs: number } = {
+    intervalMs: ROLLOUT_POLL_INTERVAL_MS,
+    timeoutMs: ROLLOUT_TIMEOUT_MS,
+  },
+  enable = true,
+): Promise<EnableExecRollout> {
+  const deadline = Date.now() + timing.timeoutMs;
+  let lastProgress = "";
+
+  while (true) {
+    const statusResult = await getServiceDeploymentStatus(
+      ecsClient,
+      clusterName,
+      serviceName,
+    );
+    if (!statusResult.success) {
+      return {
+        state: "failed",
+        detail: statusResult.error,
+        execTasksRunning: false,
+      };
+    }
+    const status = statusResult.data;
+
+    const progress = `${status.runningCount}/${status.desiredCount} new tasks running${status.activeDeployments > 0 ? `, ${status.activeDeployments} old deployment(s) draining` : ""}`;
+    if (progress !== lastProgress) {
+      messages.info(`  ${serviceName}: ${progress}`);
+      lastProgress = progress;
+    }
+
+    if (status.rolloutState === "FAILED") {
+      return {
+        state: "failed",
+        detail: status.rolloutStateReason ?? "Deployment failed",
+        execTasksRunning: false,
+      };
+    }
+    // Without a rolloutState (external deployment controllers), wait for the old tasks to drain
+    const completed =
+      status.rolloutState === "COMPLETED" ||
+      (!status.rolloutState &&
+        status.activeDeployments === 0 &&
+        status.runningCount >= status.desiredCount);
+    if (completed) {
+      return {
+        state: "completed",
+        detail: `${status.runningCount} new tasks running`,
+        execTasksRunning: await hasExecTasks(
+          ecsClient,
+          clusterName,
+          serviceName,
+          enable,
+        ),
+      };
+    }
+
+    if (Date.now() >= deadline) {
+      return {
+        state: "timed-out",
+        detail: `Still rolling out after ${Math.round(timing.timeoutMs / 60_000)} minutes (${progress})`,
+        execTasksRunning: await hasExecTasks(
+          ecsClient,
+          clusterName,
+          serviceName,
+          enable,
+        ),
+      };
+    }
+    await sleep(timing.intervalMs);
+  }
+}
+
+/**
+ * After enabling: every running task has exec and an agent is running.
+ * After disabling: some running task still has exec.
+ */
+async function hasExecTasks(
+  ecsClient: ECSClient,
+  clusterName: string,
+  serviceName: string,
+  enable: boolean,
+): Promise<boolean> {
+  const readinessResult = await getServiceTaskExecReadiness(
+    ecsClient,
+    clusterName,
+    serviceName,
+  );
+  if (!readinessResult.success) return !enable;
+  const readiness = readinessResult.data;
+  if (!enable) {
+    return readiness.some((task) => task.status !== "exec-disabled");
+  }
+  return (
+    readiness.every((task) => task.status !== "exec-disabled") &&
+    readiness.some((task) => task.status === "ready")
+  );
 }
 
 /**
  * Display single enable exec result
  */
-function displayEnableExecResult(result: EnableExecResult): void {
+function displayEnableExecResult(
+  result: EnableExecResult,
+  enable = true,
+): void {
+  const state = enable ? "enabled" : "disabled";
   messages.empty();
 
   if (result.success) {
-    if (result.previousState) {
-      messages.info(`Service "${result.serviceName}" already had exec enabled`);
+    if (result.previousState === enable && !result.rollout) {
+      messages.info(
+        `Service "${result.serviceName}" already had exec ${state}`,
+      );
     } else {
       messages.success(
-        `Successfully enabled exec for service "${result.serviceName}"`,
+        result.previousState === enable
+          ? `Redeployed service "${result.serviceName}" (exec was already ${state})`
+          : `Successfully ${state} exec for service "${result.serviceName}"`,
       );
     }
+    displayRolloutOutcome(result, enable);
   } else {
     messages.error(
-      `Failed to enable exec for service "${result.serviceName}": ${result.error}`,
+      `Failed to ${enable ? "enable" : "disable"} exec for service "${result.serviceName}": ${result.error}`,
     );
   }
 
@@ -347,24 +982,31 @@ function displayEnableExecResult(result: EnableExecResult): void {
 /**
  * Display multiple enable exec results
  */
-function displayEnableExecResults(results: EnableExecResult[]): void {
+function displayEnableExecResults(
+  results: EnableExecResult[],
+  enable = true,
+): void {
+  const state = enable ? "enabled" : "disabled";
   messages.empty();
-  messages.info("Enable exec results:");
+  messages.info(`${enable ? "Enable" : "Disable"} exec results:`);
   messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
 
   let successCount = 0;
-  let alreadyEnabledCount = 0;
+  let alreadyChangedCount = 0;
   let failureCount = 0;
 
   for (const result of results) {
     if (result.success) {
-      if (result.previousState) {
-        messages.info(`  ✓ ${result.serviceName} (already enabled)`);
-        alreadyEnabledCount++;
+      if (result.previousState === enable) {
+        messages.info(`  ✓ ${result.serviceName} (already ${state})`);
+        alreadyChangedCount++;
       } else {
-        messages.success(`  ✓ ${result.serviceName} (enabled)`);
+        messages.success(`  ✓ ${result.serviceName} (${state})`);
         successCount++;
       }
+      if (result.rollout) {
+        displayRolloutOutcome(result, enable);
+      }
     } else {
       messages.error(`  ✗ ${result.serviceName} (failed: ${result.error})`);
       failureCount++;
@@ -373,7 +1015,61 @@ function displayEnableExecResults(results: EnableExecResult[]): void {
 
   messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
   messages.info(
-    `Summary: ${successCount} enabled, ${alreadyEnabledCount} already enabled, ${failureCount} failed`,
+    `Summary: ${successCount} ${state}, ${alreadyChangedCount} already ${state}, ${failureCount} failed`,
   );
+  if (
+    results.some(
+      (result) =>
+        result.success && result.previousState !== enable && !result.rollout,
+    )
+  ) {
+    displayRedeployHint(enable);
+  }
   messages.empty();
 }
+
+/**
+ * Report how the forced redeployment of a service ended
+ */
+function displayRolloutOutcome(
+  result: EnableExecResult,
+  enable: boolean,
+): void {
+  const { rollout } = result;
+  if (!rollout) {
+    if (result.success && result.previousState !== enable) {
+      displayRedeployHint(enable);
+    }
+    return;
+  }
+
+  if (rollout.state === "failed") {
+    messages.error(`    Rollout failed: ${rollout.detail}`);
+    return;
+  }
+  if (rollout.state === "timed-out") {
+    messages.warning(`    ${rollout.detail}`);
+  }
+
+  if (enable && rollout.execTasksRunning) {
+    messages.success(`    Tasks with ECS Exec are running (${rollout.detail})`);
+  } else if (enable) {
+    messages.warning(
+      "    The running tasks are not ready for ECS Exec yet (check with: ecs-pf doctor)",
+    );
+  } else if (rollout.execTasksRunning) {
+    messages.warning("    Some running tasks still have ECS Exec enabled");
+  } else {
+    messages.success(
+      `    No running task has ECS Exec any more (${rollout.detail})`,
+    );
+  }
+}
+
+function displayRedeployHint(enable: boolean): void {
+  messages.warning(
+    enable
+      ? "Running tasks get ECS Exec only when they are replaced. Re-run with --force-new-deployment, or redeploy the service yourself."
+      : "Running tasks keep ECS Exec until they are replaced. Re-run with --force-new-deployment, or redeploy the service yourself.",
+  );
+}
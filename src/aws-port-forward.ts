@@ -1,3 +1,5 @@
 // Re-export the main connection functions from the modular implementation
 export { connectToRDS } from "./core/connection-flow.js";
+export { forwardWithSimpleUI } from "./core/forward-ui-flow.js";
+export { connectMultipleWithSimpleUI } from "./core/multi-forward-flow.js";
 export { connectToRDSWithSimpleUI } from "./core/simple-ui-flow.js";
@@ -0,0 +1,128 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { safeParse } from "valibot";
+import { INI_KEY_VALUE, INI_SECTION_HEADER } from "./regex.js";
+import {
+  type AWSProfile,
+  AWSProfileSchema,
+  failure,
+  type Result,
+  success,
+} from "./types.js";
+
+type IniSections = Map<string, Record<string, string>>;
+
+/**
+ * Parse INI text into sections of key/value pairs
+ */
+function parseIni(text: string): IniSections {
+  const sections: IniSections = new Map();
+  let current: Record<string, string> | undefined;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) {
+      continue;
+    }
+
+    const header = INI_SECTION_HEADER.exec(line);
+    if (header?.[1]) {
+      current = sections.get(header[1]) ?? {};
+      sections.set(header[1], current);
+      continue;
+    }
+
+    const entry = INI_KEY_VALUE.exec(line);
+    if (current && entry?.[1]) {
+      current[entry[1].trim()] = (entry[2] ?? "").trim();
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Resolve the profile name of a ~/.aws/config section.
+ * Only "[default]" and "[profile name]" describe profiles; "[sso-session x]" etc. are skipped.
+ */
+function configSectionToProfileName(section: string): string | undefined {
+  if (section === "default") return section;
+  if (section.startsWith("profile ")) {
+    return section.slice("profile ".length).trim();
+  }
+  return undefined;
+}
+
+/**
+ * Build profiles from the contents of ~/.aws/config and ~/.aws/credentials
+ */
+export function parseAWSProfiles(
+  configText: string,
+  credentialsText: string,
+): AWSProfile[] {
+  const merged = new Map<string, Record<string, string>>();
+
+  for (const [section, values] of parseIni(configText)) {
+    const profileName = configSectionToProfileName(section);
+    if (profileName) {
+      merged.set(profileName, { ...merged.get(profileName), ...values });
+    }
+  }
+
+  // ~/.aws/credentials uses bare profile names; settings in config take precedence
+  for (const [profileName, values] of parseIni(credentialsText)) {
+    merged.set(profileName, { ...values, ...merged.get(profileName) });
+  }
+
+  return [...merged].flatMap(([profileName, values]) => {
+    const parsed = safeParse(AWSProfileSchema, {
+      profileName,
+      isSSO: !!(values.sso_session || values.sso_start_url),
+      ssoAccountId: values.sso_account_id || undefined,
+      ssoRoleName: values.sso_role_name || undefined,
+    });
+    if (!parsed.success) return [];
+
+    // A malformed region should not hide the profile itself
+    const withRegion = safeParse(AWSProfileSchema, {
+      ...parsed.output,
+      region: values.region,
+    });
+    return [withRegion.success ? withRegion.output : parsed.output];
+  });
+}
+
+async function readOptionalFile(path: string): Promise<string> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return "";
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load AWS profiles from the shared config and credentials files
+ */
+export async function loadAWSProfiles(): Promise<Result<AWSProfile[], string>> {
+  const configPath =
+    process.env.AWS_CONFIG_FILE || join(homedir(), ".aws", "config");
+  const credentialsPath =
+    process.env.AWS_SHARED_CREDENTIALS_FILE ||
+    join(homedir(), ".aws", "credentials");
+
+  try {
+    const [configText, credentialsText] = await Promise.all([
+      readOptionalFile(configPath),
+      readOptionalFile(credentialsPath),
+    ]);
+    return success(parseAWSProfiles(configText, credentialsText));
+  } catch (error) {
+    return failure(
+      `Failed to read AWS profiles: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
@@ -1,29 +1,64 @@
-import { DescribeRegionsCommand, type EC2Client } from "@aws-sdk/client-ec2";
+import {
+  DescribeNetworkInterfacesCommand,
+  DescribeRegionsCommand,
+  DescribeSecurityGroupsCommand,
+  type EC2Client,
+} from "@aws-sdk/client-ec2";
 import {
   DescribeClustersCommand,
   DescribeServicesCommand,
+  DescribeTaskDefinitionCommand,
   DescribeTasksCommand,
   type ECSClient,
   ListClustersCommand,
   ListServicesCommand,
   ListTasksCommand,
+  type Service,
+  type Task,
   UpdateServiceCommand,
 } from "@aws-sdk/client-ecs";
 import {
+  type CacheCluster,
+  DescribeCacheClustersCommand,
+  DescribeReplicationGroupsCommand,
+  type ElastiCacheClient,
+  type Endpoint,
+} from "@aws-sdk/client-elasticache";
+import {
+  type IAMClient,
+  PutRolePolicyCommand,
+  SimulatePrincipalPolicyCommand,
+} from "@aws-sdk/client-iam";
+import {
+  type DBCluster,
+  DescribeDBClustersCommand,
   DescribeDBInstancesCommand,
+  DescribeDBSubnetGroupsCommand,
   type RDSClient,
 } from "@aws-sdk/client-rds";
-import { isEmpty } from "remeda";
+import { DescribeSessionsCommand, type SSMClient } from "@aws-sdk/client-ssm";
+import { GetCallerIdentityCommand, type STSClient } from "@aws-sdk/client-sts";
+import { chunk, isEmpty } from "remeda";
 import type {
   AWSRegion,
   ContainerName,
+  ContainerPortMapping,
   ECSCluster,
+  ECSContainerPorts,
   ECSService,
   ECSTask,
   ECSTaskContainersParams,
   EnableExecResult,
+  ExecReadiness,
+  NetworkInterfaceInfo,
+  RDSEndpointType,
   RDSInstance,
   Result,
+  SecurityGroupInfo,
+  ServiceDeploymentStatus,
+  TaskArn,
+  TaskDefinitionEnvironmentEntry,
+  TaskExecStatus,
 } from "./types.js";
 import {
   failure,
@@ -43,7 +78,190 @@ import {
   parseTaskStatus,
   success,
 } from "./types.js";
-import { messages } from "./utils/index.js";
+import {
+  getDefaultPortForEngine,
+  getUIOutput,
+  messages,
+} from "./utils/index.js";
+
+// AWS API limits for batched describe calls
+const DESCRIBE_CLUSTERS_MAX = 100;
+const DESCRIBE_SERVICES_MAX = 10;
+const DESCRIBE_TASKS_MAX = 100;
+const DESCRIBE_FILTER_VALUES_MAX = 200;
+
+// Clusters checked for exec capability at once (each check lists services and tasks)
+const EXEC_CHECK_BATCH_SIZE = 5;
+
+interface Page<T> {
+  items?: T[];
+  nextToken?: string;
+}
+
+/**
+ * Follow a paginated AWS listing until no continuation token is returned
+ */
+async function collectAllPages<T>(
+  fetchPage: (nextToken?: string) => Promise<Page<T>>,
+): Promise<T[]> {
+  const collected: T[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const page = await fetchPage(nextToken);
+    collected.push(...(page.items ?? []));
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return collected;
+}
+
+/**
+ * Follow a paginated AWS listing until a page passes the check, leaving the rest unfetched
+ */
+async function someInPages<T>(
+  fetchPage: (nextToken?: string) => Promise<Page<T>>,
+  check: (items: T[]) => Promise<boolean>,
+): Promise<boolean> {
+  let nextToken: string | undefined;
+
+  do {
+    const page = await fetchPage(nextToken);
+    if (page.items && page.items.length > 0 && (await check(page.items))) {
+      return true;
+    }
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return false;
+}
+
+/**
+ * List every service ARN in a cluster, following nextToken
+ */
+async function listAllServiceArns(
+  ecsClient: ECSClient,
+  clusterName: string,
+): Promise<string[]> {
+  return collectAllPages(async (nextToken) => {
+    const response = await ecsClient.send(
+      new ListServicesCommand({ cluster: clusterName, nextToken }),
+    );
+    return { items: response.serviceArns, nextToken: response.nextToken };
+  });
+}
+
+/**
+ * List every RUNNING task ARN for a service, following nextToken
+ */
+async function listAllRunningTaskArns(
+  ecsClient: ECSClient,
+  clusterName: string,
+  serviceName: string,
+): Promise<string[]> {
+  return collectAllPages(async (nextToken) => {
+    const response = await ecsClient.send(
+      new ListTasksCommand({
+        cluster: clusterName,
+        serviceName,
+        desiredStatus: "RUNNING",
+        nextToken,
+      }),
+    );
+    return { items: response.taskArns, nextToken: response.nextToken };
+  });
+}
+
+/**
+ * Describe tasks in chunks of DescribeTasks' maximum batch size
+ */
+async function describeTasksInChunks(
+  ecsClient: ECSClient,
+  clusterName: string,
+  taskArns: string[],
+): Promise<Task[]> {
+  const responses = await Promise.all(
+    chunk(taskArns, DESCRIBE_TASKS_MAX).map((taskArnChunk) =>
+      ecsClient.send(
+        new DescribeTasksCommand({ cluster: clusterName, tasks: taskArnChunk }),
+      ),
+    ),
+  );
+  return responses.flatMap((response) => response.tasks ?? []);
+}
+
+/**
+ * Read the ENI ID and private IP from an awsvpc task's network attachment
+ */
+function getTaskNetworkDetails(
+  task: Task,
+): Pick<ECSTask, "networkInterfaceId" | "privateIpAddress"> {
+  const attachment = task.attachments?.find(
+    (a) => a.type === "ElasticNetworkInterface",
+  );
+  const detail = (name: string) =>
+    attachment?.details?.find((d) => d.name === name)?.value;
+  return {
+    networkInterfaceId: detail("networkInterfaceId"),
+    privateIpAddress: detail("privateIPv4Address"),
+  };
+}
+
+/**
+ * ExecuteCommandAgent status of each container (MISSING when it has none)
+ */
+function getExecuteCommandAgents(
+  task: Task,
+): { containerName: string; status: string }[] {
+  return (task.containers ?? []).map((container) => ({
+    containerName: container.name ?? "unknown",
+    status:
+      container.managedAgents?.find(
+        (agent) => agent.name === "ExecuteCommandAgent",
+      )?.lastStatus ?? "MISSING",
+  }));
+}
+
+/**
+ * Decide from DescribeTasks output whether ECS Exec sessions can start on a task
+ */
+function getExecReadiness(task: Task): ExecReadiness {
+  if (!task.enableExecuteCommand) {
+    return {
+      status: "exec-disabled",
+      reason: "ECS Exec is not enabled for this task (see ecs-pf enable-exec)",
+    };
+  }
+  const agents = getExecuteCommandAgents(task);
+  if (!agents.some((agent) => agent.status === "RUNNING")) {
+    return {
+      status: "agent-not-running",
+      reason: `ExecuteCommandAgent is not running (${agents.map((agent) => `${agent.containerName}: ${agent.status}`).join(", ")})`,
+    };
+  }
+  return { status: "ready", reason: "ExecuteCommandAgent is running" };
+}
+
+/**
+ * Describe services in chunks of DescribeServices' maximum batch size
+ */
+async function describeServicesInChunks(
+  ecsClient: ECSClient,
+  clusterName: string,
+  serviceArns: string[],
+): Promise<Service[]> {
+  const responses = await Promise.all(
+    chunk(serviceArns, DESCRIBE_SERVICES_MAX).map((serviceArnChunk) =>
+      ecsClient.send(
+        new DescribeServicesCommand({
+          cluster: clusterName,
+          services: serviceArnChunk,
+        }),
+      ),
+    ),
+  );
+  return responses.flatMap((response) => response.services ?? []);
+}
 
 export async function getECSClustersWithExecCapability(
   ecsClient: ECSClient,
@@ -52,15 +270,24 @@ export async function getECSClustersWithExecCapability(
   if (!allClustersResult.success) {
     return allClustersResult;
   }
-  const allClusters = allClustersResult.data;
-  const execCheckPromises = allClusters.map(async (cluster: ECSCluster) => {
-    const hasExecCapability = await checkECSExecCapability(ecsClient, cluster);
-    return { cluster, hasExecCapability };
-  });
-  const execCheckResults = await Promise.all(execCheckPromises);
-  const clustersWithExec = execCheckResults
-    .filter(({ hasExecCapability }) => hasExecCapability)
-    .map(({ cluster }) => cluster);
+  const clustersWithExec: ECSCluster[] = [];
+  for (const batch of chunk(allClustersResult.data, EXEC_CHECK_BATCH_SIZE)) {
+    const execCheckResults = await Promise.all(
+      batch.map(async (cluster: ECSCluster) => ({
+        cluster,
+        execResult: await checkECSExecCapability(ecsClient, cluster),
+      })),
+    );
+    for (const { cluster, execResult } of execCheckResults) {
+      if (!execResult.success) {
+        // Throttling or missing permissions do not mean exec is off, so keep the cluster
+        messages.warning(`${execResult.error} (listing it anyway)`);
+        clustersWithExec.push(cluster);
+      } else if (execResult.data) {
+        clustersWithExec.push(cluster);
+      }
+    }
+  }
   return success(clustersWithExec);
 }
 
@@ -89,6 +316,12 @@ export async function getRDSInstances(
   return getRDSInstancesResult(rdsClient);
 }
 
+export async function getElastiCacheEndpoints(
+  elastiCacheClient: ElastiCacheClient,
+): Promise<Result<RDSInstance[], string>> {
+  return getElastiCacheEndpointsResult(elastiCacheClient);
+}
+
 export async function getECSTasksWithExecCapability(
   ecsClient: ECSClient,
   cluster: ECSCluster,
@@ -103,6 +336,296 @@ export async function getECSTasksWithExecCapability(
   return success(runningTasks);
 }
 
+/**
+ * Count active Session Manager sessions per target (ecs:cluster_task_runtime)
+ */
+export async function getActiveSessionCounts(
+  ssmClient: SSMClient,
+  targets: TaskArn[],
+): Promise<Result<Map<TaskArn, number>, string>> {
+  try {
+    const counts = new Map<TaskArn, number>();
+    for (const target of targets) {
+      const sessions = await collectAllPages(async (nextToken) => {
+        const response = await ssmClient.send(
+          new DescribeSessionsCommand({
+            State: "Active",
+            Filters: [{ key: "Target", value: target }],
+            NextToken: nextToken,
+          }),
+        );
+        return { items: response.Sessions, nextToken: response.NextToken };
+      });
+      counts.set(target, sessions.length);
+    }
+    return success(counts);
+  } catch (error) {
+    if (error instanceof Error && error.name === "AccessDeniedException") {
+      return failure(
+        "Access denied to SSM sessions. Please check ssm:DescribeSessions permission.",
+      );
+    }
+    return failure(
+      `Failed to get active sessions: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * List the running containers of a task with the port mappings from its task definition
+ */
+export async function getECSTaskContainerPorts(
+  params: ECSTaskContainersParams,
+): Promise<Result<ECSContainerPorts[], string>> {
+  const { ecsClient, clusterName, taskArn } = params;
+  const client = ecsClient as ECSClient;
+
+  try {
+    const response = await client.send(
+      new DescribeTasksCommand({ cluster: clusterName, tasks: [taskArn] }),
+    );
+    const task = response.tasks?.[0];
+    if (!task) {
+      return failure("Task not found");
+    }
+
+    // Port mappings are only suggestions, so a task definition we cannot read is not fatal
+    const portMappingsByContainer = new Map<string, ContainerPortMapping[]>();
+    if (task.taskDefinitionArn) {
+      try {
+        const definitionResponse = await client.send(
+          new DescribeTaskDefinitionCommand({
+            taskDefinition: task.taskDefinitionArn,
+          }),
+        );
+        for (const definition of definitionResponse.taskDefinition
+          ?.containerDefinitions ?? []) {
+          if (!definition.name) continue;
+          const portMappings: ContainerPortMapping[] = [];
+          for (const mapping of definition.portMappings ?? []) {
+            const portResult = parsePort(mapping.containerPort ?? 0);
+            if (portResult.success) {
+              portMappings.push({
+                containerPort: portResult.data,
+                protocol: mapping.protocol ?? "tcp",
+                name: mapping.name,
+              });
+            }
+          }
+          portMappingsByContainer.set(definition.name, portMappings);
+        }
+      } catch (error) {
+        messages.warning(
+          `Could not read task definition ports: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    const containers: ECSContainerPorts[] = [];
+    for (const container of task.containers ?? []) {
+      if (!container.name || container.lastStatus !== "RUNNING") continue;
+      const containerNameResult = parseContainerName(container.name);
+      const runtimeIdResult = parseRuntimeId(container.runtimeId || "");
+      if (containerNameResult.success && runtimeIdResult.success) {
+        containers.push({
+          containerName: containerNameResult.data,
+          runtimeId: runtimeIdResult.data,
+          portMappings: portMappingsByContainer.get(container.name) ?? [],
+        });
+      }
+    }
+    return success(containers);
+  } catch (error) {
+    if (error instanceof Error && error.name === "TaskNotFoundException") {
+      return failure(
+        `ECS task not found. Please verify the task exists and is running.`,
+      );
+    }
+    return failure(
+      `Failed to get task containers: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Read the environment variables and secret references of every container in a task definition
+ */
+export async function getTaskDefinitionEnvironment(
+  ecsClient: ECSClient,
+  taskDefinitionArn: string,
+): Promise<Result<TaskDefinitionEnvironmentEntry[], string>> {
+  try {
+    const response = await ecsClient.send(
+      new DescribeTaskDefinitionCommand({ taskDefinition: taskDefinitionArn }),
+    );
+    const entries: TaskDefinitionEnvironmentEntry[] = [];
+    for (const definition of response.taskDefinition?.containerDefinitions ??
+      []) {
+      const containerName = definition.name ?? "unknown";
+      for (const variable of definition.environment ?? []) {
+        if (variable.name && variable.value) {
+          entries.push({
+            containerName,
+            name: variable.name,
+            value: variable.value,
+            source: "environment",
+          });
+        }
+      }
+      for (const secret of definition.secrets ?? []) {
+        if (secret.name && secret.valueFrom) {
+          entries.push({
+            containerName,
+            name: secret.name,
+            value: secret.valueFrom,
+            source: "secret",
+          });
+        }
+      }
+    }
+    return success(entries);
+  } catch (error) {
+    if (error instanceof Error && error.name === "AccessDeniedException") {
+      return failure(
+        "Access denied to task definitions. Please check ecs:DescribeTaskDefinition permission.",
+      );
+    }
+    return failure(
+      `Failed to get task definition: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Read whether a task can be reached with ECS Exec: the exec flag, each
+ * container's ExecuteCommandAgent and the task role from its task definition
+ */
+export async function getTaskExecStatus(
+  ecsClient: ECSClient,
+  clusterName: string,
+  taskArn: string,
+): Promise<Result<TaskExecStatus, string>> {
+  try {
+    const response = await ecsClient.send(
+      new DescribeTasksCommand({ cluster: clusterName, tasks: [taskArn] }),
+    );
+    const task = response.tasks?.[0];
+    if (!task) {
+      return failure(`ECS task not found: ${taskArn}`);
+    }
+
+    let taskRoleArn = task.overrides?.taskRoleArn;
+    if (!taskRoleArn && task.taskDefinitionArn) {
+      const definitionResponse = await ecsClient.send(
+        new DescribeTaskDefinitionCommand({
+          taskDefinition: task.taskDefinitionArn,
+        }),
+      );
+      taskRoleArn = definitionResponse.taskDefinition?.taskRoleArn;
+    }
+
+    return success({
+      enableExecuteCommand: task.enableExecuteCommand ?? false,
+      agents: getExecuteCommandAgents(task),
+      taskRoleArn,
+    });
+  } catch (error) {
+    return failure(
+      `Failed to describe task: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Resolve the identity behind the current credentials
+ */
+export async function getCallerIdentity(
+  stsClient: STSClient,
+): Promise<Result<string, string>> {
+  try {
+    const response = await stsClient.send(new GetCallerIdentityCommand({}));
+    return success(response.Arn ?? response.UserId ?? "unknown");
+  } catch (error) {
+    return failure(
+      `Failed to resolve AWS credentials: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Evaluate whether a principal's IAM policies allow each action
+ */
+export async function simulatePrincipalActions(
+  iamClient: IAMClient,
+  principalArn: string,
+  actions: string[],
+): Promise<Result<{ action: string; allowed: boolean }[], string>> {
+  try {
+    const results = await collectAllPages(async (marker) => {
+      const response = await iamClient.send(
+        new SimulatePrincipalPolicyCommand({
+          PolicySourceArn: principalArn,
+          ActionNames: actions,
+          Marker: marker,
+        }),
+      );
+      return {
+        items: response.EvaluationResults,
+        nextToken: response.IsTruncated ? response.Marker : undefined,
+      };
+    });
+    return success(
+      actions.map((action) => ({
+        action,
+        allowed: results.some(
+          (result) =>
+            result.EvalActionName === action &&
+            result.EvalDecision === "allowed",
+        ),
+      })),
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === "AccessDenied") {
+      return failure(
+        "Access denied to IAM policy simulation. Please check iam:SimulatePrincipalPolicy permission.",
+      );
+    }
+    return failure(
+      `Failed to simulate IAM policy: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Add or replace an inline policy on an IAM role
+ */
+export async function putRoleInlinePolicy(
+  iamClient: IAMClient,
+  roleName: string,
+  policyName: string,
+  policyDocument: string,
+): Promise<Result<void, string>> {
+  try {
+    await iamClient.send(
+      new PutRolePolicyCommand({
+        RoleName: roleName,
+        PolicyName: policyName,
+        PolicyDocument: policyDocument,
+      }),
+    );
+    return success(undefined);
+  } catch (error) {
+    if (error instanceof Error && error.name === "AccessDenied") {
+      return failure(
+        `Access denied to update role "${roleName}". Please check iam:PutRolePolicy permission.`,
+      );
+    }
+    return failure(
+      `Failed to update role "${roleName}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
 export async function getECSTaskContainers(
   params: ECSTaskContainersParams,
 ): Promise<Result<ContainerName[], string>> {
@@ -156,35 +679,46 @@ async function getECSClustersResult(
   ecsClient: ECSClient,
 ): Promise<Result<ECSCluster[], string>> {
   try {
-    const listCommand = new ListClustersCommand({});
-    const listResponse = await ecsClient.send(listCommand);
+    const clusterArns = await collectAllPages(async (nextToken) => {
+      const listResponse = await ecsClient.send(
+        new ListClustersCommand({ nextToken }),
+      );
+      return {
+        items: listResponse.clusterArns,
+        nextToken: listResponse.nextToken,
+      };
+    });
 
-    if (!listResponse.clusterArns || isEmpty(listResponse.clusterArns)) {
+    if (isEmpty(clusterArns)) {
       return success([]);
     }
 
     // Get detailed cluster information
-    const describeCommand = new DescribeClustersCommand({
-      clusters: listResponse.clusterArns,
-    });
-    const describeResponse = await ecsClient.send(describeCommand);
+    const describeResponses = await Promise.all(
+      chunk(clusterArns, DESCRIBE_CLUSTERS_MAX).map((clusterArnChunk) =>
+        ecsClient.send(
+          new DescribeClustersCommand({ clusters: clusterArnChunk }),
+        ),
+      ),
+    );
+    const describedClusters = describeResponses.flatMap(
+      (response) => response.clusters ?? [],
+    );
 
     const clusters: ECSCluster[] = [];
-    if (describeResponse.clusters) {
-      for (const cluster of describeResponse.clusters) {
-        if (cluster.clusterName && cluster.clusterArn) {
-          // Parse cluster data safely with branded types
-          const clusterNameResult = parseClusterName(cluster.clusterName);
-          const clusterArnResult = parseClusterArn(cluster.clusterArn);
-
-          if (clusterNameResult.success && clusterArnResult.success) {
-            clusters.push({
-              clusterName: clusterNameResult.data,
-              clusterArn: clusterArnResult.data,
-            });
-          }
-          // Skip invalid clusters instead of throwing error
+    for (const cluster of describedClusters) {
+      if (cluster.clusterName && cluster.clusterArn) {
+        // Parse cluster data safely with branded types
+        const clusterNameResult = parseClusterName(cluster.clusterName);
+        const clusterArnResult = parseClusterArn(cluster.clusterArn);
+
+        if (clusterNameResult.success && clusterArnResult.success) {
+          clusters.push({
+            clusterName: clusterNameResult.data,
+            clusterArn: clusterArnResult.data,
+          });
         }
+        // Skip invalid clusters instead of throwing error
       }
     }
 
@@ -216,91 +750,92 @@ async function getECSTasksResult(
 ): Promise<Result<ECSTask[], string>> {
   try {
     // Get services first
-    const servicesCommand = new ListServicesCommand({
-      cluster: cluster.clusterName,
-    });
-    const servicesResponse = await ecsClient.send(servicesCommand);
+    const serviceArns = await listAllServiceArns(
+      ecsClient,
+      cluster.clusterName,
+    );
 
     const tasks: ECSTask[] = [];
 
-    if (servicesResponse.serviceArns) {
-      // Get tasks for each service
-      for (const serviceArn of servicesResponse.serviceArns) {
-        const serviceNameStr = serviceArn.split("/").pop() || serviceArn;
-        const serviceNameResult = parseServiceName(serviceNameStr);
+    // Get tasks for each service
+    for (const serviceArn of serviceArns) {
+      const serviceNameStr = serviceArn.split("/").pop() || serviceArn;
+      const serviceNameResult = parseServiceName(serviceNameStr);
 
-        if (!serviceNameResult.success) {
-          continue; // Skip invalid service names
-        }
+      if (!serviceNameResult.success) {
+        continue; // Skip invalid service names
+      }
 
-        const tasksCommand = new ListTasksCommand({
-          cluster: cluster.clusterName,
-          serviceName: serviceNameStr,
-          desiredStatus: "RUNNING",
-        });
-        const tasksResponse = await ecsClient.send(tasksCommand);
+      const taskArns = await listAllRunningTaskArns(
+        ecsClient,
+        cluster.clusterName,
+        serviceNameStr,
+      );
 
-        if (tasksResponse.taskArns) {
-          // Get task details
-          const describeCommand = new DescribeTasksCommand({
-            cluster: cluster.clusterName,
-            tasks: tasksResponse.taskArns,
-          });
-          const describeResponse = await ecsClient.send(describeCommand);
-
-          if (describeResponse.tasks) {
-            for (const task of describeResponse.tasks) {
-              if (
-                task.taskArn &&
-                task.containers &&
-                task.containers.length > 0 &&
-                task.lastStatus === "RUNNING"
-              ) {
-                const taskIdStr = task.taskArn.split("/").pop() || task.taskArn;
-                const clusterFullNameStr =
-                  cluster.clusterArn.split("/").pop() || cluster.clusterName;
-                // Get RuntimeID (from first container)
-                const runtimeIdStr = task.containers[0]?.runtimeId || "";
-
-                // Parse all components safely
-                const taskIdResult = parseTaskId(taskIdStr);
-                const clusterNameResult = parseClusterName(clusterFullNameStr);
-                const runtimeIdResult = parseRuntimeId(runtimeIdStr);
-                const realTaskArnResult = parseTaskArn(task.taskArn);
-                const taskStatusResult = parseTaskStatus(
-                  task.lastStatus || "UNKNOWN",
-                );
-
-                if (
-                  runtimeIdResult.success &&
-                  taskIdResult.success &&
-                  clusterNameResult.success &&
-                  realTaskArnResult.success &&
-                  taskStatusResult.success &&
-                  serviceNameResult.success
-                ) {
-                  // Format for ECS Exec: ecs:cluster_name_task_id_runtime_id
-                  const targetArnStr = `ecs:${clusterFullNameStr}_${taskIdStr}_${runtimeIdStr}`;
-                  const targetArnResult = parseTaskArn(targetArnStr);
-
-                  if (targetArnResult.success) {
-                    // Create simple display name - just service name
-                    const displayName = serviceNameStr;
-
-                    tasks.push({
-                      taskArn: targetArnResult.data,
-                      realTaskArn: realTaskArnResult.data,
-                      displayName: displayName,
-                      runtimeId: runtimeIdResult.data,
-                      taskId: taskIdResult.data,
-                      clusterName: clusterNameResult.data,
-                      serviceName: serviceNameResult.data,
-                      taskStatus: taskStatusResult.data,
-                      createdAt: task.createdAt,
-                    });
-                  }
-                }
-              }
+      if (isEmpty(taskArns)) {
+        continue;
+      }
+
+      // Get task details
+      const describedTasks = await describeTasksInChunks(
+        ecsClient,
+        cluster.clusterName,
+        taskArns,
+      );
+
+      for (const task of describedTasks) {
+        if (
+          task.taskArn &&
+          task.containers &&
+          task.containers.length > 0 &&
+          task.lastStatus === "RUNNING"
+        ) {
+          const taskIdStr = task.taskArn.split("/").pop() || task.taskArn;
+          const clusterFullNameStr =
+            cluster.clusterArn.split("/").pop() || cluster.clusterName;
+          // Get RuntimeID (from first container)
+          const runtimeIdStr = task.containers[0]?.runtimeId || "";
+
+          // Parse all components safely
+          const taskIdResult = parseTaskId(taskIdStr);
+          const clusterNameResult = parseClusterName(clusterFullNameStr);
+          const runtimeIdResult = parseRuntimeId(runtimeIdStr);
+          const realTaskArnResult = parseTaskArn(task.taskArn);
+          const taskStatusResult = parseTaskStatus(
+            task.lastStatus || "UNKNOWN",
+          );
+
+          if (
+            runtimeIdResult.success &&
+            taskIdResult.success &&
+            clusterNameResult.success &&
+            realTaskArnResult.success &&
+            taskStatusResult.success &&
+            serviceNameResult.success
+          ) {
+            // Format for ECS Exec: ecs:cluster_name_task_id_runtime_id
+            const targetArnStr = `ecs:${clusterFullNameStr}_${taskIdStr}_${runtimeIdStr}`;
+            const targetArnResult = parseTaskArn(targetArnStr);
+
+            if (targetArnResult.success) {
+              // Create simple display name - just service name
+              const displayName = serviceNameStr;
+
+              tasks.push({
+                taskArn: targetArnResult.data,
+                realTaskArn: realTaskArnResult.data,
+                displayName: displayName,
+                runtimeId: runtimeIdResult.data,
+                taskId: taskIdResult.data,
+                clusterName: clusterNameResult.data,
+                serviceName: serviceNameResult.data,
+                taskStatus: taskStatusResult.data,
+                healthStatus: task.healthStatus,
+                createdAt: task.createdAt,
+                taskDefinitionArn: task.taskDefinitionArn,
+                ...getTaskNetworkDetails(task),
+                execReadiness: getExecReadiness(task),
+              });
             }
           }
         }
@@ -330,6 +865,123 @@ async function getECSTasksResult(
   }
 }
 
+/**
+ * Get the VPC, security groups and private IP of network interfaces.
+ * Interfaces that no longer exist (e.g. of stopped tasks) are left out instead of failing the lookup
+ */
+export async function getNetworkInterfaces(
+  ec2Client: EC2Client,
+  networkInterfaceIds: string[],
+): Promise<Result<NetworkInterfaceInfo[], string>> {
+  if (isEmpty(networkInterfaceIds)) {
+    return success([]);
+  }
+  try {
+    // A filter ignores unknown IDs, where NetworkInterfaceIds would reject the whole call
+    const pages = await Promise.all(
+      chunk(networkInterfaceIds, DESCRIBE_FILTER_VALUES_MAX).map((idChunk) =>
+        collectAllPages(async (nextToken) => {
+          const response = await ec2Client.send(
+            new DescribeNetworkInterfacesCommand({
+              Filters: [{ Name: "network-interface-id", Values: idChunk }],
+              NextToken: nextToken,
+            }),
+          );
+          return {
+            items: response.NetworkInterfaces,
+            nextToken: response.NextToken,
+          };
+        }),
+      ),
+    );
+    const interfaces = pages.flat();
+    return success(
+      interfaces.flatMap((eni) =>
+        eni.NetworkInterfaceId
+          ? [
+              {
+                networkInterfaceId: eni.NetworkInterfaceId,
+                vpcId: eni.VpcId,
+                securityGroupIds: (eni.Groups ?? []).flatMap((group) =>
+                  group.GroupId ? [group.GroupId] : [],
+                ),
+                privateIpAddress: eni.PrivateIpAddress,
+              },
+            ]
+          : [],
+      ),
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === "UnauthorizedOperation") {
+      return failure(
+        "Access denied to network interfaces. Please check ec2:DescribeNetworkInterfaces permission.",
+      );
+    }
+    return failure(
+      `Failed to get network interfaces: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Get the ingress rules of security groups
+ */
+export async function getSecurityGroups(
+  ec2Client: EC2Client,
+  groupIds: string[],
+): Promise<Result<SecurityGroupInfo[], string>> {
+  if (isEmpty(groupIds)) {
+    return success([]);
+  }
+  try {
+    const groups = await collectAllPages(async (nextToken) => {
+      const response = await ec2Client.send(
+        new DescribeSecurityGroupsCommand({
+          GroupIds: groupIds,
+          NextToken: nextToken,
+        }),
+      );
+      return { items: response.SecurityGroups, nextToken: response.NextToken };
+    });
+    return success(
+      groups.flatMap((group) =>
+        group.GroupId
+          ? [
+              {
+                groupId: group.GroupId,
+                vpcId: group.VpcId,
+                ingressRules: (group.IpPermissions ?? []).map((permission) => ({
+                  protocol: permission.IpProtocol ?? "-1",
+                  fromPort: permission.FromPort,
+                  toPort: permission.ToPort,
+                  sourceGroupIds: (permission.UserIdGroupPairs ?? []).flatMap(
+                    (pair) => (pair.GroupId ? [pair.GroupId] : []),
+                  ),
+                  cidrs: (permission.IpRanges ?? []).flatMap((range) =>
+                    range.CidrIp ? [range.CidrIp] : [],
+                  ),
+                  prefixListIds: (permission.PrefixListIds ?? []).flatMap(
+                    (prefixList) =>
+                      prefixList.PrefixListId ? [prefixList.PrefixListId] : [],
+                  ),
+                })),
+              },
+            ]
+          : [],
+      ),
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === "UnauthorizedOperation") {
+      return failure(
+        "Access denied to security groups. Please check ec2:DescribeSecurityGroups permission.",
+      );
+    }
+    return failure(
+      `Failed to get security groups: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
 async function getAWSRegionsResult(
   ec2Client: EC2Client,
 ): Promise<Result<AWSRegion[], string>> {
@@ -354,29 +1006,10 @@ async function getAWSRegionsResult(
       }
     }
 
-    // Place commonly used regions at the top
-    const priorityRegions = [
-      "ap-northeast-1",
-      "ap-northeast-2",
-      "us-east-1",
-      "us-west-2",
-      "eu-west-1",
-    ];
-
-    const sortedRegions = regions.sort((a, b) => {
-      const aIndex = priorityRegions.indexOf(a.regionName);
-      const bIndex = priorityRegions.indexOf(b.regionName);
-
-      if (aIndex !== -1 && bIndex !== -1) {
-        return aIndex - bIndex;
-      } else if (aIndex !== -1) {
-        return -1;
-      } else if (bIndex !== -1) {
-        return 1;
-      } else {
-        return a.regionName.localeCompare(b.regionName);
-      }
-    });
+    // Return regions in alphabetical order
+    const sortedRegions = regions.sort((a, b) =>
+      a.regionName.localeCompare(b.regionName),
+    );
 
     return success(sortedRegions);
   } catch (error) {
@@ -400,50 +1033,70 @@ async function getRDSInstancesResult(
   rdsClient: RDSClient,
 ): Promise<Result<RDSInstance[], string>> {
   try {
-    const command = new DescribeDBInstancesCommand({});
-    const response = await rdsClient.send(command);
+    const dbInstances = await collectAllPages(async (marker) => {
+      const response = await rdsClient.send(
+        new DescribeDBInstancesCommand({ Marker: marker }),
+      );
+      return { items: response.DBInstances, nextToken: response.Marker };
+    });
 
     const rdsInstances: RDSInstance[] = [];
 
-    if (response.DBInstances) {
-      for (const db of response.DBInstances) {
+    for (const db of dbInstances) {
+      if (
+        db.DBInstanceIdentifier &&
+        db.Endpoint?.Address &&
+        db.Engine &&
+        db.DBInstanceStatus === "available"
+      ) {
+        // Parse all DB instance components safely
+        const dbIdResult = parseDBInstanceIdentifier(db.DBInstanceIdentifier);
+        const endpointResult = parseDBEndpoint(db.Endpoint.Address);
+        const portResult = parsePort(db.Endpoint.Port || 5432);
+        const engineResult = parseDatabaseEngine(db.Engine);
+
         if (
-          db.DBInstanceIdentifier &&
-          db.Endpoint?.Address &&
-          db.Engine &&
-          db.DBInstanceStatus === "available"
+          dbIdResult.success &&
+          endpointResult.success &&
+          portResult.success &&
+          engineResult.success
         ) {
-          // Parse all DB instance components safely
-          const dbIdResult = parseDBInstanceIdentifier(db.DBInstanceIdentifier);
-          const endpointResult = parseDBEndpoint(db.Endpoint.Address);
-          const portResult = parsePort(db.Endpoint.Port || 5432);
-          const engineResult = parseDatabaseEngine(db.Engine);
-
-          if (
-            dbIdResult.success &&
-            endpointResult.success &&
-            portResult.success &&
-            engineResult.success
-          ) {
-            rdsInstances.push({
-              dbInstanceIdentifier: dbIdResult.data,
-              endpoint: endpointResult.data,
-              port: portResult.data,
-              engine: engineResult.data,
-              dbInstanceClass: db.DBInstanceClass || "unknown",
-              dbInstanceStatus: "available", // We already filtered for this
-              allocatedStorage: db.AllocatedStorage || 0,
-              availabilityZone: db.AvailabilityZone || "unknown",
-              vpcSecurityGroups:
-                db.VpcSecurityGroups?.map(
-                  (sg) => sg.VpcSecurityGroupId || "",
-                ) || [],
-              dbSubnetGroup: db.DBSubnetGroup?.DBSubnetGroupName || undefined,
-              createdTime: db.InstanceCreateTime || undefined,
-            });
-          }
-          // Skip instances with invalid data instead of throwing error
+          rdsInstances.push({
+            dbInstanceIdentifier: dbIdResult.data,
+            endpoint: endpointResult.data,
+            port: portResult.data,
+            engine: engineResult.data,
+            dbInstanceClass: db.DBInstanceClass || "unknown",
+            dbInstanceStatus: "available", // We already filtered for this
+            allocatedStorage: db.AllocatedStorage || 0,
+            availabilityZone: db.AvailabilityZone || "unknown",
+            vpcSecurityGroups:
+              db.VpcSecurityGroups?.map((sg) => sg.VpcSecurityGroupId || "") ||
+              [],
+            dbSubnetGroup: db.DBSubnetGroup?.DBSubnetGroupName || undefined,
+            vpcId: db.DBSubnetGroup?.VpcId || undefined,
+            createdTime: db.InstanceCreateTime || undefined,
+            endpointType: "instance",
+          });
         }
+        // Skip instances with invalid data instead of throwing error
+      }
+    }
+
+    try {
+      rdsInstances.push(...(await getClusterEndpoints(rdsClient)));
+    } catch (error) {
+      // Instances are still usable when only cluster listing is denied
+      if (
+        error instanceof Error &&
+        (error.name === "UnauthorizedOperation" ||
+          error.name === "AccessDenied")
+      ) {
+        messages.warning(
+          "Access denied to RDS clusters, showing DB instances only",
+        );
+      } else {
+        throw error;
       }
     }
 
@@ -470,36 +1123,347 @@ async function getRDSInstancesResult(
   }
 }
 
-export async function checkECSExecCapability(
-  ecsClient: ECSClient,
-  cluster: ECSCluster,
-): Promise<boolean> {
+/**
+ * List the writer, reader and custom endpoints of every available DB cluster
+ */
+async function getClusterEndpoints(
+  rdsClient: RDSClient,
+): Promise<RDSInstance[]> {
+  const dbClusters = await collectAllPages(async (marker) => {
+    const response = await rdsClient.send(
+      new DescribeDBClustersCommand({ Marker: marker }),
+    );
+    return { items: response.DBClusters, nextToken: response.Marker };
+  });
+  // DescribeDBClusters only names the subnet group, so look up its VPC
+  const subnetGroupVpcIds = await getDBSubnetGroupVpcIds(
+    rdsClient,
+    dbClusters.flatMap((cluster) =>
+      cluster.DBSubnetGroup ? [cluster.DBSubnetGroup] : [],
+    ),
+  );
+
+  const endpoints: RDSInstance[] = [];
+  for (const cluster of dbClusters) {
+    if (
+      !cluster.DBClusterIdentifier ||
+      !cluster.Engine ||
+      cluster.Status !== "available"
+    ) {
+      continue;
+    }
+
+    const candidates: {
+      type: RDSEndpointType;
+      name: string;
+      address?: string;
+    }[] = [
+      { type: "writer", name: "writer", address: cluster.Endpoint },
+      { type: "reader", name: "reader", address: cluster.ReaderEndpoint },
+      // Custom endpoint addresses start with the endpoint's own identifier
+      ...(cluster.CustomEndpoints ?? []).map((address) => ({
+        type: "custom" as const,
+        name: address.split(".")[0] ?? address,
+        address,
+      })),
+    ];
+
+    for (const candidate of candidates) {
+      if (!candidate.address) continue;
+      const endpoint = toClusterEndpoint(
+        cluster,
+        candidate.type,
+        candidate.name,
+        candidate.address,
+        cluster.DBSubnetGroup
+          ? subnetGroupVpcIds.get(cluster.DBSubnetGroup)
+          : undefined,
+      );
+      if (endpoint) endpoints.push(endpoint);
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * VPC of each named DB subnet group (groups that cannot be described are left out)
+ */
+async function getDBSubnetGroupVpcIds(
+  rdsClient: RDSClient,
+  subnetGroupNames: string[],
+): Promise<Map<string, string>> {
+  const entries = await Promise.all(
+    [...new Set(subnetGroupNames)].map(async (name) => {
+      try {
+        const response = await rdsClient.send(
+          new DescribeDBSubnetGroupsCommand({ DBSubnetGroupName: name }),
+        );
+        const vpcId = response.DBSubnetGroups?.[0]?.VpcId;
+        return vpcId ? [[name, vpcId] as const] : [];
+      } catch {
+        return [];
+      }
+    }),
+  );
+  return new Map(entries.flat());
+}
+
+/**
+ * Describe one cluster endpoint as a selectable target, identified as "<cluster>:<endpoint>"
+ */
+function toClusterEndpoint(
+  cluster: DBCluster,
+  endpointType: RDSEndpointType,
+  name: string,
+  address: string,
+  vpcId?: string,
+): RDSInstance | undefined {
+  const clusterIdResult = parseDBInstanceIdentifier(
+    cluster.DBClusterIdentifier || "",
+  );
+  const idResult = parseDBInstanceIdentifier(
+    `${cluster.DBClusterIdentifier}:${name}`,
+  );
+  const endpointResult = parseDBEndpoint(address);
+  const portResult = parsePort(cluster.Port || 5432);
+  const engineResult = parseDatabaseEngine(cluster.Engine || "");
+
+  if (
+    !clusterIdResult.success ||
+    !idResult.success ||
+    !endpointResult.success ||
+    !portResult.success ||
+    !engineResult.success
+  ) {
+    return undefined;
+  }
+
+  return {
+    dbInstanceIdentifier: idResult.data,
+    endpoint: endpointResult.data,
+    port: portResult.data,
+    engine: engineResult.data,
+    dbInstanceClass: cluster.DBClusterInstanceClass || "unknown",
+    dbInstanceStatus: "available",
+    allocatedStorage: cluster.AllocatedStorage || 0,
+    availabilityZone: cluster.AvailabilityZones?.join(",") || "unknown",
+    vpcSecurityGroups:
+      cluster.VpcSecurityGroups?.map((sg) => sg.VpcSecurityGroupId || "") || [],
+    dbSubnetGroup: cluster.DBSubnetGroup || undefined,
+    vpcId,
+    createdTime: cluster.ClusterCreateTime || undefined,
+    endpointType,
+    dbClusterIdentifier: clusterIdResult.data,
+  };
+}
+
+/**
+ * List replication group endpoints (primary, reader or configuration) and the
+ * endpoints of standalone cache clusters as forwardable targets
+ */
+async function getElastiCacheEndpointsResult(
+  elastiCacheClient: ElastiCacheClient,
+): Promise<Result<RDSInstance[], string>> {
   try {
-    // Get cluster configuration
-    const describeCommand = new DescribeClustersCommand({
-      clusters: [cluster.clusterArn],
-      include: ["CONFIGURATIONS"],
+    const cacheClusters = await collectAllPages(async (marker) => {
+      const response = await elastiCacheClient.send(
+        new DescribeCacheClustersCommand({
+          Marker: marker,
+          ShowCacheNodeInfo: true,
+        }),
+      );
+      return { items: response.CacheClusters, nextToken: response.Marker };
     });
-    const response = await ecsClient.send(describeCommand);
+    const replicationGroups = await collectAllPages(async (marker) => {
+      const response = await elastiCacheClient.send(
+        new DescribeReplicationGroupsCommand({ Marker: marker }),
+      );
+      return {
+        items: response.ReplicationGroups,
+        nextToken: response.Marker,
+      };
+    });
+
+    const endpoints: RDSInstance[] = [];
 
-    if (!response.clusters || isEmpty(response.clusters)) {
-      return false;
+    for (const group of replicationGroups) {
+      if (!group.ReplicationGroupId || group.Status !== "available") continue;
+
+      // Security groups and subnet group live on the member clusters
+      const member = cacheClusters.find(
+        (cluster) => cluster.ReplicationGroupId === group.ReplicationGroupId,
+      );
+      const nodeGroup = group.NodeGroups?.[0];
+      const candidates: { type: RDSEndpointType; endpoint?: Endpoint }[] =
+        group.ClusterEnabled
+          ? [{ type: "configuration", endpoint: group.ConfigurationEndpoint }]
+          : [
+              { type: "primary", endpoint: nodeGroup?.PrimaryEndpoint },
+              { type: "reader", endpoint: nodeGroup?.ReaderEndpoint },
+            ];
+
+      for (const candidate of candidates) {
+        const endpoint = toCacheEndpoint({
+          id: group.ReplicationGroupId,
+          endpointType: candidate.type,
+          endpoint: candidate.endpoint,
+          engine: group.Engine || member?.Engine || "redis",
+          nodeType: group.CacheNodeType,
+          createdTime: group.ReplicationGroupCreateTime,
+          member,
+        });
+        if (endpoint) endpoints.push(endpoint);
+      }
     }
 
-    const clusterData = response.clusters[0];
+    for (const cluster of cacheClusters) {
+      if (
+        !cluster.CacheClusterId ||
+        cluster.ReplicationGroupId ||
+        cluster.CacheClusterStatus !== "available"
+      ) {
+        continue;
+      }
 
-    // Check if the cluster has execute command configuration
-    if (clusterData?.configuration?.executeCommandConfiguration) {
-      return true;
+      // Memcached clusters have a configuration endpoint; a lone Redis node only has its node endpoint
+      const endpoint = toCacheEndpoint({
+        id: cluster.CacheClusterId,
+        endpointType: cluster.ConfigurationEndpoint ? "configuration" : "node",
+        endpoint:
+          cluster.ConfigurationEndpoint ?? cluster.CacheNodes?.[0]?.Endpoint,
+        engine: cluster.Engine || "redis",
+        nodeType: cluster.CacheNodeType,
+        createdTime: cluster.CacheClusterCreateTime,
+        member: cluster,
+      });
+      if (endpoint) endpoints.push(endpoint);
+    }
+
+    return success(
+      endpoints.sort((a, b) =>
+        a.dbInstanceIdentifier.localeCompare(b.dbInstanceIdentifier),
+      ),
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      if (
+        error.name === "UnauthorizedOperation" ||
+        error.name === "AccessDenied" ||
+        error.name === "AccessDeniedException"
+      ) {
+        return failure(
+          "Access denied to ElastiCache. Please check your IAM policies.",
+        );
+      }
+    }
+    return failure(
+      `Failed to get ElastiCache endpoints: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Describe one cache endpoint as a selectable target, identified as "<cache>:<endpoint>"
+ */
+function toCacheEndpoint(params: {
+  id: string;
+  endpointType: RDSEndpointType;
+  endpoint?: Endpoint;
+  engine: string;
+  nodeType?: string;
+  createdTime?: Date;
+  member?: CacheCluster;
+}): RDSInstance | undefined {
+  const { id, endpointType, endpoint, engine, member } = params;
+  if (!endpoint?.Address) return undefined;
+
+  const cacheIdResult = parseDBInstanceIdentifier(id);
+  const idResult = parseDBInstanceIdentifier(`${id}:${endpointType}`);
+  const endpointResult = parseDBEndpoint(endpoint.Address);
+  const portResult = parsePort(
+    endpoint.Port || getDefaultPortForEngine(engine),
+  );
+  const engineResult = parseDatabaseEngine(engine);
+
+  if (
+    !cacheIdResult.success ||
+    !idResult.success ||
+    !endpointResult.success ||
+    !portResult.success ||
+    !engineResult.success
+  ) {
+    return undefined;
+  }
+
+  return {
+    dbInstanceIdentifier: idResult.data,
+    endpoint: endpointResult.data,
+    port: portResult.data,
+    engine: engineResult.data,
+    dbInstanceClass: params.nodeType || "unknown",
+    dbInstanceStatus: "available",
+    allocatedStorage: 0,
+    availabilityZone: member?.PreferredAvailabilityZone || "unknown",
+    vpcSecurityGroups:
+      member?.SecurityGroups?.map((sg) => sg.SecurityGroupId || "") || [],
+    dbSubnetGroup: member?.CacheSubnetGroupName || undefined,
+    createdTime: params.createdTime || undefined,
+    endpointType,
+    dbClusterIdentifier: cacheIdResult.data,
+    targetType: "elasticache",
+  };
+}
+
+/**
+ * A cluster supports ECS Exec when one of its services, or one of its running
+ * tasks (standalone tasks have no service), has enableExecuteCommand turned on.
+ * Pages are checked one at a time and the check stops at the first match
+ */
+export async function checkECSExecCapability(
+  ecsClient: ECSClient,
+  cluster: ECSCluster,
+): Promise<Result<boolean, string>> {
+  const { clusterName } = cluster;
+  try {
+    const serviceHasExec = await someInPages(
+      async (nextToken) => {
+        const response = await ecsClient.send(
+          new ListServicesCommand({ cluster: clusterName, nextToken }),
+        );
+        return { items: response.serviceArns, nextToken: response.nextToken };
+      },
+      async (serviceArns) =>
+        (
+          await describeServicesInChunks(ecsClient, clusterName, serviceArns)
+        ).some((service) => service.enableExecuteCommand),
+    );
+    if (serviceHasExec) {
+      return success(true);
     }
 
-    // If no explicit execute command configuration, assume exec is possible
-    // This is more optimistic but much faster than checking tasks
-    // Most active clusters should support exec in modern setups
-    return true;
-  } catch {
-    // If we can't determine exec capability, assume it's not available
-    return false;
+    return success(
+      await someInPages(
+        async (nextToken) => {
+          const response = await ecsClient.send(
+            new ListTasksCommand({
+              cluster: clusterName,
+              desiredStatus: "RUNNING",
+              nextToken,
+            }),
+          );
+          return { items: response.taskArns, nextToken: response.nextToken };
+        },
+        async (taskArns) =>
+          (await describeTasksInChunks(ecsClient, clusterName, taskArns)).some(
+            (task) => task.enableExecuteCommand,
+          ),
+      ),
+    );
+  } catch (error) {
+    return failure(
+      `Failed to check ECS Exec for ${clusterName}: ${error instanceof Error ? error.message : String(error)}`,
+    );
   }
 }
 
@@ -512,42 +1476,40 @@ export async function getECSServices(
 ): Promise<Result<ECSService[], string>> {
   try {
     // Get list of services
-    const listCommand = new ListServicesCommand({
-      cluster: cluster.clusterName,
-    });
-    const listResponse = await ecsClient.send(listCommand);
+    const serviceArns = await listAllServiceArns(
+      ecsClient,
+      cluster.clusterName,
+    );
 
-    if (!listResponse.serviceArns || isEmpty(listResponse.serviceArns)) {
+    if (isEmpty(serviceArns)) {
       return success([]);
     }
 
     // Get detailed service information
-    const describeCommand = new DescribeServicesCommand({
-      cluster: cluster.clusterName,
-      services: listResponse.serviceArns,
-    });
-    const describeResponse = await ecsClient.send(describeCommand);
+    const describedServices = await describeServicesInChunks(
+      ecsClient,
+      cluster.clusterName,
+      serviceArns,
+    );
 
     const services: ECSService[] = [];
-    if (describeResponse.services) {
-      for (const service of describeResponse.services) {
-        if (service.serviceName && service.serviceArn) {
-          const serviceNameResult = parseServiceName(service.serviceName);
-          const serviceArnResult = parseServiceArn(service.serviceArn);
-
-          if (serviceNameResult.success && serviceArnResult.success) {
-            services.push({
-              serviceName: serviceNameResult.data,
-              serviceArn: serviceArnResult.data,
-              clusterName: cluster.clusterName,
-              status: service.status || "UNKNOWN",
-              taskDefinition: service.taskDefinition || "",
-              enableExecuteCommand: service.enableExecuteCommand || false,
-              desiredCount: service.desiredCount || 0,
-              runningCount: service.runningCount || 0,
-              pendingCount: service.pendingCount || 0,
-            });
-          }
+    for (const service of describedServices) {
+      if (service.serviceName && service.serviceArn) {
+        const serviceNameResult = parseServiceName(service.serviceName);
+        const serviceArnResult = parseServiceArn(service.serviceArn);
+
+        if (serviceNameResult.success && serviceArnResult.success) {
+          services.push({
+            serviceName: serviceNameResult.data,
+            serviceArn: serviceArnResult.data,
+            clusterName: cluster.clusterName,
+            status: service.status || "UNKNOWN",
+            taskDefinition: service.taskDefinition || "",
+            enableExecuteCommand: service.enableExecuteCommand || false,
+            desiredCount: service.desiredCount || 0,
+            runningCount: service.runningCount || 0,
+            pendingCount: service.pendingCount || 0,
+          });
         }
       }
     }
@@ -596,7 +1558,7 @@ export async function getAllECSServices(
     const batchEnd = Math.min(i + BATCH_SIZE, clusters.length);
 
     // Show progress
-    process.stdout.write(
+    getUIOutput().write(
       `\rProcessing clusters ${batchStart}-${batchEnd}/${clusters.length}...`,
     );
 
@@ -658,6 +1620,23 @@ export async function getECSServicesWithoutExec(
   return success(servicesWithoutExec);
 }
 
+/**
+ * Get ECS services that have exec enabled
+ */
+export async function getECSServicesWithExec(
+  ecsClient: ECSClient,
+  cluster: ECSCluster,
+): Promise<Result<ECSService[], string>> {
+  const servicesResult = await getECSServices(ecsClient, cluster);
+  if (!servicesResult.success) {
+    return servicesResult;
+  }
+
+  return success(
+    servicesResult.data.filter((service) => service.enableExecuteCommand),
+  );
+}
+
 /**
  * Enable ECS exec for a specific service
  */
@@ -665,6 +1644,26 @@ export async function enableECSExecForService(
   ecsClient: ECSClient,
   clusterName: string,
   serviceName: string,
+  options: { forceNewDeployment?: boolean } = {},
+): Promise<Result<EnableExecResult, string>> {
+  return setECSExecForService(
+    ecsClient,
+    clusterName,
+    serviceName,
+    true,
+    options,
+  );
+}
+
+/**
+ * Turn ECS exec on or off for a specific service
+ */
+export async function setECSExecForService(
+  ecsClient: ECSClient,
+  clusterName: string,
+  serviceName: string,
+  enabled: boolean,
+  options: { forceNewDeployment?: boolean } = {},
 ): Promise<Result<EnableExecResult, string>> {
   try {
     // First, get current service state
@@ -683,8 +1682,9 @@ export async function enableECSExecForService(
     const service = describeResponse.services[0];
     const previousState = service?.enableExecuteCommand || false;
 
-    // If already enabled, return success without making changes
-    if (previousState) {
+    // If already in the requested state, return success without making changes.
+    // A forced deployment still goes ahead: the running tasks may predate the flag
+    if (previousState === enabled && !options.forceNewDeployment) {
       const serviceNameResult = parseServiceName(serviceName);
       const clusterNameResult = parseClusterName(clusterName);
 
@@ -695,17 +1695,18 @@ export async function enableECSExecForService(
       return success({
         serviceName: serviceNameResult.data,
         clusterName: clusterNameResult.data,
-        previousState: true,
-        newState: true,
+        previousState,
+        newState: previousState,
         success: true,
       });
     }
 
-    // Update service to enable exec
     const updateCommand = new UpdateServiceCommand({
       cluster: clusterName,
       service: serviceName,
-      enableExecuteCommand: true,
+      enableExecuteCommand: enabled,
+      // Running tasks only gain or lose exec once they are replaced
+      forceNewDeployment: options.forceNewDeployment,
     });
 
     await ecsClient.send(updateCommand);
@@ -720,8 +1721,8 @@ export async function enableECSExecForService(
     return success({
       serviceName: serviceNameResult.data,
       clusterName: clusterNameResult.data,
-      previousState: false,
-      newState: true,
+      previousState,
+      newState: enabled,
       success: true,
     });
   } catch (error) {
@@ -732,7 +1733,7 @@ export async function enableECSExecForService(
       return failure("Invalid service or cluster name format");
     }
 
-    let errorMessage = `Failed to enable exec for service "${serviceName}": `;
+    let errorMessage = `Failed to ${enabled ? "enable" : "disable"} exec for service "${serviceName}": `;
     if (error instanceof Error) {
       if (error.name === "ServiceNotFoundException") {
         errorMessage += "Service not found";
@@ -768,14 +1769,36 @@ export async function enableECSExecForServices(
   ecsClient: ECSClient,
   clusterName: string,
   serviceNames: string[],
+  options: { forceNewDeployment?: boolean } = {},
+): Promise<Result<EnableExecResult[], string>> {
+  return setECSExecForServices(
+    ecsClient,
+    clusterName,
+    serviceNames,
+    true,
+    options,
+  );
+}
+
+/**
+ * Turn ECS exec on or off for multiple services
+ */
+export async function setECSExecForServices(
+  ecsClient: ECSClient,
+  clusterName: string,
+  serviceNames: string[],
+  enabled: boolean,
+  options: { forceNewDeployment?: boolean } = {},
 ): Promise<Result<EnableExecResult[], string>> {
   const results: EnableExecResult[] = [];
 
   for (const serviceName of serviceNames) {
-    const result = await enableECSExecForService(
+    const result = await setECSExecForService(
       ecsClient,
       clusterName,
       serviceName,
+      enabled,
+      options,
     );
     if (result.success) {
       results.push(result.data);
@@ -799,3 +1822,103 @@ export async function enableECSExecForServices(
 
   return success(results);
 }
+
+/**
+ * Get the rollout state of a service's primary deployment
+ */
+export async function getServiceDeploymentStatus(
+  ecsClient: ECSClient,
+  clusterName: string,
+  serviceName: string,
+): Promise<Result<ServiceDeploymentStatus, string>> {
+  try {
+    const response = await ecsClient.send(
+      new DescribeServicesCommand({
+        cluster: clusterName,
+        services: [serviceName],
+      }),
+    );
+    const deployments = response.services?.[0]?.deployments ?? [];
+    const primary = deployments.find(
+      (deployment) => deployment.status === "PRIMARY",
+    );
+    if (!primary) {
+      return failure(
+        `No primary deployment found for service "${serviceName}" in cluster "${clusterName}"`,
+      );
+    }
+
+    return success({
+      rolloutState: primary.rolloutState,
+      rolloutStateReason: primary.rolloutStateReason,
+      desiredCount: primary.desiredCount ?? 0,
+      runningCount: primary.runningCount ?? 0,
+      activeDeployments: deployments.filter(
+        (deployment) => deployment.status === "ACTIVE",
+      ).length,
+    });
+  } catch (error) {
+    return failure(
+      `Failed to describe service "${serviceName}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Task role of the task definition a service currently deploys (undefined when it has none)
+ */
+export async function getServiceTaskRoleArn(
+  ecsClient: ECSClient,
+  clusterName: string,
+  serviceName: string,
+): Promise<Result<string | undefined, string>> {
+  try {
+    const serviceResponse = await ecsClient.send(
+      new DescribeServicesCommand({
+        cluster: clusterName,
+        services: [serviceName],
+      }),
+    );
+    const taskDefinition = serviceResponse.services?.[0]?.taskDefinition;
+    if (!taskDefinition) {
+      return failure(
+        `Service "${serviceName}" not found in cluster "${clusterName}"`,
+      );
+    }
+
+    const definitionResponse = await ecsClient.send(
+      new DescribeTaskDefinitionCommand({ taskDefinition }),
+    );
+    return success(definitionResponse.taskDefinition?.taskRoleArn);
+  } catch (error) {
+    return failure(
+      `Failed to resolve the task role of service "${serviceName}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * ECS Exec readiness of each running task of a service
+ */
+export async function getServiceTaskExecReadiness(
+  ecsClient: ECSClient,
+  clusterName: string,
+  serviceName: string,
+): Promise<Result<ExecReadiness[], string>> {
+  try {
+    const taskArns = await listAllRunningTaskArns(
+      ecsClient,
+      clusterName,
+      serviceName,
+    );
+    if (isEmpty(taskArns)) {
+      return success([]);
+    }
+    const tasks = await describeTasksInChunks(ecsClient, clusterName, taskArns);
+    return success(tasks.map(getExecReadiness));
+  } catch (error) {
+    return failure(
+      `Failed to get tasks of service "${serviceName}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
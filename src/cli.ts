@@ -1,6 +1,12 @@
 import { Command } from "commander";
+import { safeParse } from "valibot";
 import { registerAllCommands } from "./programs/index.js";
-import { displayFriendlyError, messages } from "./utils/index.js";
+import { OutputFormatSchema } from "./types.js";
+import {
+  displayFriendlyError,
+  messages,
+  setOutputFormat,
+} from "./utils/index.js";
 import { VERSION } from "./version.js";
 
 const program = new Command();
@@ -8,7 +14,20 @@ const program = new Command();
 program
   .name("aws-port-forward")
   .description("CLI for port-forwarding to RDS via AWS ECS")
-  .version(VERSION, "-v, --version", "display version number");
+  .version(VERSION, "-v, --version", "display version number")
+  .option(
+    "-o, --output <format>",
+    "Output format: text, or json (JSON lines on stdout, logs on stderr)",
+    "text",
+  )
+  .hook("preAction", () => {
+    const formatResult = safeParse(OutputFormatSchema, program.opts().output);
+    if (!formatResult.success) {
+      messages.error(formatResult.issues[0].message);
+      process.exit(1);
+    }
+    setOutputFormat(formatResult.output);
+  });
 
 // Register all commands
 registerAllCommands(program);
@@ -1,12 +1,72 @@
-import type { ReproducibleCommandParams } from "../types.js";
+import { formatCredentialFlags } from "../aws-credentials.js";
+import type {
+  ForwardDryRunParams,
+  ReproducibleCommandParams,
+  ServiceName,
+  TaskPickStrategy,
+} from "../types.js";
 import { VERSION } from "../version.js";
 
+/**
+ * Format the ECS target flags. The service form is preferred because task ids change on every deploy.
+ */
+export const formatTargetFlags = (
+  task: string,
+  service?: ServiceName,
+  pick?: TaskPickStrategy,
+): string => {
+  if (!service) {
+    return `--task ${task}`;
+  }
+  return pick && pick !== "newest"
+    ? `--service ${service} --pick ${pick}`
+    : `--service ${service}`;
+};
+
 /**
  * Generate reproducible command string for connecting to RDS
  */
 export const generateReproducibleCommand = (
   params: ReproducibleCommandParams,
 ): string => {
-  const { region, cluster, task, rds, rdsPort, localPort } = params;
-  return `npx ecs-pf@${VERSION} connect --region ${region} --cluster ${cluster} --task ${task} --rds ${rds} --rds-port ${rdsPort} --local-port ${localPort}`;
+  const {
+    region,
+    cluster,
+    task,
+    service,
+    pick,
+    targetType,
+    rds,
+    rdsPort,
+    localPort,
+    keepAlive,
+    credentials,
+  } = params;
+  const targetTypeFlag =
+    targetType && targetType !== "rds" ? ` --target-type ${targetType}` : "";
+  return `npx ecs-pf@${VERSION} connect --region ${region} --cluster ${cluster} ${formatTargetFlags(task, service, pick)}${targetTypeFlag} --rds ${rds} --rds-port ${rdsPort} --local-port ${localPort}${keepAlive ? " --keep-alive" : ""}${formatCredentialFlags(credentials)}`;
+};
+
+/**
+ * Generate reproducible command string for forwarding to an arbitrary host
+ */
+export const generateForwardCommand = (
+  params: Omit<ForwardDryRunParams, "task"> & { task: string },
+): string => {
+  const {
+    region,
+    cluster,
+    task,
+    service,
+    pick,
+    host,
+    container,
+    remotePort,
+    localPort,
+    credentials,
+  } = params;
+  const destinationFlags = host
+    ? `--host ${host}`
+    : `--on-task${container ? ` --container ${container}` : ""}`;
+  return `npx ecs-pf@${VERSION} forward --region ${region} --cluster ${cluster} ${formatTargetFlags(task, service, pick)} ${destinationFlags} --remote-port ${remotePort} --local-port ${localPort}${formatCredentialFlags(credentials)}`;
 };
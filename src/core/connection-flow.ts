@@ -1,6 +1,10 @@
 import { ECSClient } from "@aws-sdk/client-ecs";
 import { RDSClient } from "@aws-sdk/client-rds";
 import { isDefined } from "remeda";
+import {
+  createAWSClientConfig,
+  pickCredentialOptions,
+} from "../aws-credentials.js";
 import { startSSMSession } from "../session.js";
 import type { Port, ValidatedConnectOptions } from "../types.js";
 import {
@@ -83,8 +87,9 @@ export async function connectToRDSDryRun(
   const region = await selectRegion(options);
 
   // Initialize AWS clients
-  const ecsClient = new ECSClient({ region });
-  const rdsClient = new RDSClient({ region });
+  const credentials = pickCredentialOptions(options);
+  const ecsClient = new ECSClient(createAWSClientConfig(region, credentials));
+  const rdsClient = new RDSClient(createAWSClientConfig(region, credentials));
 
   // Get ECS cluster
   const selectedCluster = await selectCluster(ecsClient, options);
@@ -153,6 +158,7 @@ export async function connectToRDSDryRun(
     rdsInstance: selectedRDS,
     rdsPort,
     localPort,
+    credentials,
   });
 
   displayDryRunResult(dryRunResult);
@@ -169,8 +175,9 @@ async function connectToRDSInternal(
   const region = await selectRegion(options);
 
   // Initialize AWS clients
-  const ecsClient = new ECSClient({ region });
-  const rdsClient = new RDSClient({ region });
+  const credentials = pickCredentialOptions(options);
+  const ecsClient = new ECSClient(createAWSClientConfig(region, credentials));
+  const rdsClient = new RDSClient(createAWSClientConfig(region, credentials));
 
   // Get ECS cluster
   const selectedCluster = await selectCluster(ecsClient, options);
@@ -235,16 +242,19 @@ async function connectToRDSInternal(
     rds: selectedRDS.dbInstanceIdentifier,
     rdsPort,
     localPort,
+    credentials,
   });
 
   // Start SSM session
   messages.info("Selected task:");
   messages.info(String(selectedTaskArn));
   await startSSMSession({
+    region,
     taskArn,
     rdsInstance: selectedRDS,
     rdsPort,
     localPort,
     reproducibleCommand,
+    credentials,
   });
 }
@@ -0,0 +1,177 @@
+import { spawn } from "node:child_process";
+import { closeSync, openSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { runPortForwardingSession } from "../../session.js";
+import {
+  addTunnel,
+  generateTunnelId,
+  getStateDir,
+  isTunnelProcessAlive,
+  loadTunnels,
+  removeTunnels,
+  TUNNEL_DAEMON_COMMAND,
+} from "../../tunnels.js";
+import {
+  failure,
+  type Result,
+  success,
+  type TunnelEntry,
+  type TunnelSpec,
+} from "../../types.js";
+import { messages } from "../../utils/index.js";
+import { createServiceTaskResolver } from "../selection/service-task-selection.js";
+import { keepSessionAlive } from "./keep-alive.js";
+
+const STOP_TIMEOUT_MS = 5000;
+// The tunnel is recorded right after its supervisor starts; allow for a busy state file lock
+const REGISTER_TIMEOUT_MS = 10_000;
+
+/**
+ * Hand a tunnel to a detached background supervisor and record it in the state file.
+ * The supervisor only gets the tunnel ID and reads the spec from the state file, so
+ * credentials never show up in its command line
+ */
+export async function startDetachedTunnel(
+  spec: Omit<TunnelSpec, "id">,
+): Promise<Result<TunnelEntry, string>> {
+  const cliPath = process.argv[1];
+  if (!cliPath) {
+    return failure("Cannot determine the ecs-pf executable path");
+  }
+
+  const id = generateTunnelId();
+  const logDir = join(getStateDir(), "logs");
+  const logFile = join(logDir, `${id}.log`);
+  const fullSpec: TunnelSpec = { ...spec, id };
+
+  let pid: number | undefined;
+  try {
+    await mkdir(logDir, { recursive: true });
+    const logFd = openSync(logFile, "a");
+    const child = spawn(
+      process.execPath,
+      [...process.execArgv, cliPath, TUNNEL_DAEMON_COMMAND, id],
+      { detached: true, stdio: ["ignore", logFd, logFd] },
+    );
+    child.unref();
+    closeSync(logFd);
+    pid = child.pid;
+  } catch (error) {
+    return failure(
+      `Failed to start background tunnel: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!pid) {
+    return failure("Failed to start background tunnel");
+  }
+
+  const entry: TunnelEntry = {
+    ...fullSpec,
+    pid,
+    startedAt: new Date().toISOString(),
+    logFile,
+  };
+  const addResult = await addTunnel(entry);
+  if (!addResult.success) return addResult;
+  return success(entry);
+}
+
+/**
+ * Wait for the starting command to record the tunnel, which it does once the supervisor runs
+ */
+async function waitForTunnelEntry(
+  id: string,
+): Promise<Result<TunnelEntry, string>> {
+  const deadline = Date.now() + REGISTER_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const tunnelsResult = await loadTunnels();
+    if (!tunnelsResult.success) return tunnelsResult;
+    const entry = tunnelsResult.data.find((tunnel) => tunnel.id === id);
+    if (entry) return success(entry);
+    await sleep(100);
+  }
+  return failure(`Tunnel ${id} was not recorded in the state file`);
+}
+
+/**
+ * Body of the background supervisor: run the session until stopped, then forget the tunnel
+ */
+export async function runTunnelDaemon(id: string): Promise<void> {
+  const specResult = await waitForTunnelEntry(id);
+  if (!specResult.success) {
+    messages.error(specResult.error);
+    process.exit(1);
+  }
+  const spec = specResult.data;
+  const { session } = spec;
+
+  messages.info(
+    `[${new Date().toISOString()}] Tunnel ${spec.id}: localhost:${session.localPort} → ${session.rdsInstance.endpoint}:${session.rdsPort}`,
+  );
+
+  const controller = new AbortController();
+  const onSigint = () => controller.abort();
+  process.on("SIGINT", onSigint);
+
+  try {
+    if (spec.keepAlive) {
+      await keepSessionAlive({
+        taskArn: session.taskArn,
+        runSession: (taskArn) =>
+          runPortForwardingSession(
+            { ...session, taskArn },
+            { signal: controller.signal },
+          ),
+        resolveTaskArn: createServiceTaskResolver({
+          region: session.region,
+          cluster: spec.cluster,
+          service: spec.service,
+          pick: spec.pick,
+          credentials: session.credentials,
+        }),
+        signal: controller.signal,
+      });
+    } else {
+      const exit = await runPortForwardingSession(session, {
+        signal: controller.signal,
+      });
+      if (exit.kind === "failed") {
+        messages.error(exit.reason);
+      }
+    }
+  } catch (error) {
+    messages.error(error instanceof Error ? error.message : String(error));
+  } finally {
+    process.off("SIGINT", onSigint);
+    await removeTunnels([spec.id]);
+    messages.info(`[${new Date().toISOString()}] Tunnel ${spec.id} stopped`);
+  }
+}
+
+/**
+ * Stop a background tunnel: ask its supervisor to shut down, then kill its process group
+ */
+export async function stopTunnel(entry: TunnelEntry): Promise<void> {
+  // A stale entry's pid may belong to an unrelated process by now, so never signal it
+  if (isTunnelProcessAlive(entry)) {
+    process.kill(entry.pid, "SIGINT");
+
+    const deadline = Date.now() + STOP_TIMEOUT_MS;
+    while (isTunnelProcessAlive(entry) && Date.now() < deadline) {
+      await sleep(100);
+    }
+
+    if (isTunnelProcessAlive(entry)) {
+      try {
+        // The supervisor leads its own process group, which includes the plugin
+        process.kill(-entry.pid, "SIGTERM");
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  await removeTunnels([entry.id]);
+}
@@ -0,0 +1,184 @@
+import chalk from "chalk";
+import { runPortForwardingSession, type SessionExit } from "../../session.js";
+import type { SSMSessionParams, TaskArn } from "../../types.js";
+import { messages } from "../../utils/index.js";
+import { formatTable } from "../ui/display-utils.js";
+import { keepSessionAlive } from "./keep-alive.js";
+
+export type ForwardStatus =
+  | "starting"
+  | "active"
+  | "reconnecting"
+  | "exited"
+  | "failed"
+  | "stopped";
+
+/**
+ * One port forward supervised together with others
+ */
+export interface ForwardSpec {
+  name: string;
+  params: SSMSessionParams;
+  // Reconnect when the session drops (--keep-alive)
+  keepAlive?: boolean;
+  // Re-resolves the task on reconnect
+  resolveTaskArn?: () => Promise<TaskArn | undefined>;
+}
+
+export interface ForwardState {
+  name: string;
+  localPort: number;
+  remote: string;
+  taskArn: TaskArn;
+  status: ForwardStatus;
+  detail?: string;
+}
+
+const STATUS_COLORS: Record<ForwardStatus, (text: string) => string> = {
+  starting: chalk.yellow,
+  active: chalk.green,
+  reconnecting: chalk.yellow,
+  exited: chalk.gray,
+  failed: chalk.red,
+  stopped: chalk.gray,
+};
+
+/**
+ * Format the status table rows (header first) for the supervised forwards
+ */
+export function formatForwardStatusTable(states: ForwardState[]): string[] {
+  const header = ["NAME", "LOCAL", "REMOTE", "STATUS"];
+  const rows = states.map((state) => [
+    state.name,
+    `localhost:${state.localPort}`,
+    state.remote,
+    state.detail ? `${state.status} (${state.detail})` : state.status,
+  ]);
+  const [headerLine = "", ...rowLines] = formatTable([header, ...rows]);
+
+  return [
+    headerLine,
+    ...rowLines.map((line, i) => {
+      const status = states[i]?.status ?? "starting";
+      // STATUS is the last column, so it ends the line
+      const statusColumn = line.length - (rows[i]?.[3]?.length ?? 0);
+      return (
+        line.slice(0, statusColumn) +
+        STATUS_COLORS[status](line.slice(statusColumn))
+      );
+    }),
+  ];
+}
+
+function describeExit(exit: SessionExit): {
+  status: ForwardStatus;
+  detail?: string;
+} {
+  switch (exit.kind) {
+    case "user":
+      return { status: "stopped" };
+    case "closed":
+      return { status: "exited", detail: `code ${exit.code}` };
+    case "failed":
+      return { status: "failed", detail: exit.reason };
+  }
+}
+
+/**
+ * Run several port forwards at once, showing a live status table.
+ * Ctrl+C stops every session; forwards with keepAlive reconnect when they drop.
+ */
+export async function superviseForwards(
+  forwards: ForwardSpec[],
+): Promise<ForwardState[]> {
+  const states: ForwardState[] = forwards.map((forward) => ({
+    name: forward.name,
+    localPort: Number(forward.params.localPort),
+    remote: `${forward.params.rdsInstance.endpoint}:${forward.params.rdsPort}`,
+    taskArn: forward.params.taskArn,
+    status: "starting",
+  }));
+
+  const render = () => {
+    messages.clearScreen();
+    messages.bold.white("Port Forwards");
+    messages.empty();
+    for (const line of formatForwardStatusTable(states)) {
+      messages.log(`  ${line}`);
+    }
+    messages.empty();
+    messages.gray("Press Ctrl+C to stop all port forwards");
+  };
+
+  const controller = new AbortController();
+  const onSigint = () => controller.abort();
+  process.on("SIGINT", onSigint);
+  render();
+
+  try {
+    await Promise.all(
+      forwards.map(async (forward, i) => {
+        const state = states[i];
+        if (!state) return;
+
+        const runSession = async (taskArn: TaskArn): Promise<SessionExit> => {
+          Object.assign(state, {
+            taskArn,
+            status: "starting",
+            detail: undefined,
+          });
+          render();
+
+          const exit = await runPortForwardingSession(
+            { ...forward.params, taskArn },
+            {
+              quiet: true,
+              signal: controller.signal,
+              onStarted: () => {
+                state.status = "active";
+                render();
+              },
+            },
+          );
+
+          const { status, detail } = describeExit(exit);
+          const willReconnect =
+            forward.keepAlive &&
+            !controller.signal.aborted &&
+            (status === "exited" || (exit.kind === "failed" && exit.retryable));
+          Object.assign(state, {
+            status: willReconnect ? "reconnecting" : status,
+            detail,
+          });
+          render();
+          return exit;
+        };
+
+        try {
+          if (forward.keepAlive && forward.resolveTaskArn) {
+            await keepSessionAlive({
+              taskArn: forward.params.taskArn,
+              runSession,
+              resolveTaskArn: forward.resolveTaskArn,
+              signal: controller.signal,
+            });
+            if (state.status === "reconnecting") {
+              state.status = "stopped";
+            }
+          } else {
+            await runSession(forward.params.taskArn);
+          }
+        } catch (error) {
+          state.status = "failed";
+          state.detail = error instanceof Error ? error.message : String(error);
+        }
+        render();
+      }),
+    );
+  } finally {
+    process.off("SIGINT", onSigint);
+  }
+
+  messages.success("All port forwards stopped");
+  return states;
+}
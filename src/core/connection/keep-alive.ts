@@ -0,0 +1,102 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import type { SessionExit } from "../../session.js";
+import type { TaskArn } from "../../types.js";
+import { messages } from "../../utils/index.js";
+
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+// A session that stayed up this long resets the backoff
+const STABLE_SESSION_MS = 60_000;
+
+interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Exponential backoff delay for the given reconnect attempt (0-based)
+ */
+export function getReconnectDelay(
+  attempt: number,
+  backoff: BackoffOptions = {
+    initialDelayMs: INITIAL_RECONNECT_DELAY_MS,
+    maxDelayMs: MAX_RECONNECT_DELAY_MS,
+  },
+): number {
+  return Math.min(backoff.initialDelayMs * 2 ** attempt, backoff.maxDelayMs);
+}
+
+function describeExit(exit: SessionExit): string {
+  switch (exit.kind) {
+    case "user":
+      return "terminated by user";
+    case "closed":
+      return `exited with code ${exit.code}`;
+    case "failed":
+      return exit.reason;
+  }
+}
+
+/**
+ * Keep a port forwarding session alive until the user stops it.
+ * Unexpected exits are retried with exponential backoff, re-resolving the task each
+ * time because the previous one may have been replaced by a deployment.
+ * Returns the task used by the last session.
+ */
+export async function keepSessionAlive(params: {
+  taskArn: TaskArn;
+  runSession: (taskArn: TaskArn) => Promise<SessionExit>;
+  resolveTaskArn: () => Promise<TaskArn | undefined>;
+  signal: AbortSignal;
+  backoff?: BackoffOptions;
+}): Promise<TaskArn> {
+  const { runSession, resolveTaskArn, signal, backoff } = params;
+  let taskArn = params.taskArn;
+  let attempt = 0;
+
+  while (!signal.aborted) {
+    const startedAt = Date.now();
+    const exit = await runSession(taskArn);
+
+    if (exit.kind === "user" || signal.aborted) {
+      break;
+    }
+    if (exit.kind === "failed" && !exit.retryable) {
+      throw new Error(exit.reason);
+    }
+
+    if (Date.now() - startedAt >= STABLE_SESSION_MS) {
+      attempt = 0;
+    }
+    const delay = getReconnectDelay(attempt, backoff);
+    attempt++;
+
+    messages.warning(
+      `Session ${describeExit(exit)}. Reconnecting in ${delay / 1000}s (attempt ${attempt})...`,
+    );
+    try {
+      await sleep(delay, undefined, { signal });
+    } catch {
+      // Aborted by Ctrl+C while waiting
+      break;
+    }
+
+    try {
+      const resolvedTaskArn = await resolveTaskArn();
+      if (!resolvedTaskArn) {
+        messages.warning(
+          "No running task found, retrying with the previous task",
+        );
+      } else if (resolvedTaskArn !== taskArn) {
+        messages.info(`Task replaced, reconnecting to ${resolvedTaskArn}`);
+        taskArn = resolvedTaskArn;
+      }
+    } catch (error) {
+      messages.warning(
+        `Failed to re-resolve task: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return taskArn;
+}
@@ -1,5 +1,12 @@
 import { safeParse } from "valibot";
-import { startSSMSession } from "../../session.js";
+import { pickCredentialOptions } from "../../aws-credentials.js";
+import { recordSessionHistory } from "../../history.js";
+import {
+  buildPortForwardingCommand,
+  displaySessionCommands,
+  runPortForwardingSession,
+  startSSMSession,
+} from "../../session.js";
 import {
   parseClusterName,
   parsePort,
@@ -10,15 +17,25 @@ import {
 import type { HandleConnectionParams } from "../../types/schemas.js";
 import { HandleConnectionParamsSchema } from "../../types/schemas.js";
 import type {
+  AWSCredentialOptions,
   ClusterName,
+  ECSCluster,
+  HistoryEntry,
   Port,
   RDSInstance,
   RegionName,
+  ServiceName,
   TaskArn,
+  TaskPickStrategy,
+  TunnelSpec,
 } from "../../types.js";
-import { messages } from "../../utils/index.js";
+import { emitJSON, messages } from "../../utils/index.js";
 import { generateReproducibleCommand } from "../command-generation.js";
+import { runPreflightChecks } from "../doctor.js";
 import { displayDryRunResult, generateConnectDryRun } from "../dry-run.js";
+import { createServiceTaskResolver } from "../selection/service-task-selection.js";
+import { startDetachedTunnel } from "./detached-tunnel.js";
+import { keepSessionAlive } from "./keep-alive.js";
 
 /**
  * Handle the final connection or dry run
@@ -62,16 +79,55 @@ export async function handleConnection(
   const localPortResult = parsePort(localPortStr);
   if (!localPortResult.success) throw new Error(localPortResult.error);
 
+  const credentials = pickCredentialOptions(options);
+
   // Generate reproducible command with parsed branded types
   const reproducibleCommand = generateReproducibleCommand({
     region: regionResult.data,
     cluster: clusterResult.data,
     task: taskResult.data,
+    service: selectedInference.task.serviceName,
+    pick: options.pick,
+    targetType: selectedRDS.targetType,
     rds: selectedRDS.dbInstanceIdentifier,
     rdsPort: rdsPortResult.data,
     localPort: localPortResult.data,
+    keepAlive: options.keepAlive,
+    credentials,
   });
 
+  if (!options.dryRun) {
+    await runPreflightChecks({
+      region: regionResult.data,
+      credentials,
+      clusterName: clusterResult.data,
+      task: selectedInference.task.taskId,
+    });
+  }
+
+  const startedAt = Date.now();
+  const historyEntry = {
+    kind: "connect" as const,
+    timestamp: new Date(startedAt).toISOString(),
+    region: regionResult.data,
+    cluster: clusterResult.data,
+    service: selectedInference.task.serviceName,
+    task: selectedInference.task.taskId,
+    pick: options.pick,
+    targetType: selectedRDS.targetType,
+    rds: String(selectedRDS.dbInstanceIdentifier),
+    rdsPort: rdsPortResult.data,
+    localPort: localPortResult.data,
+    credentials,
+  };
+  // Reported once the first port forwarding session is actually up
+  let started = false;
+  const onStarted = () => {
+    if (started) return;
+    started = true;
+    emitJSON("session", { status: "started", ...historyEntry });
+  };
+
   // Pass branded types to internal functions
   if (options.dryRun) {
     await handleDryRun(
@@ -81,18 +137,82 @@ export async function handleConnection(
       selectedRDS,
       rdsPortResult.data,
       localPortResult.data,
+      credentials,
+      selectedInference.task.serviceName,
+      options.pick,
+      options.keepAlive,
     );
+  } else if (options.detach) {
+    await handleDetachedConnection({
+      name: String(selectedRDS.dbInstanceIdentifier),
+      session: {
+        region: regionResult.data,
+        taskArn: taskResult.data,
+        rdsInstance: selectedRDS,
+        rdsPort: rdsPortResult.data,
+        localPort: localPortResult.data,
+        credentials,
+      },
+      cluster: selectedInference.cluster,
+      service: selectedInference.task.serviceName,
+      pick: options.pick,
+      keepAlive: options.keepAlive,
+    });
+    // The tunnel outlives this command, so there is no duration to record
+    await recordSessionHistory(historyEntry);
   } else {
-    await handleLiveConnection(
-      taskResult.data,
-      selectedRDS,
-      rdsPortResult.data,
-      localPortResult.data,
-      reproducibleCommand,
-    );
+    try {
+      if (options.keepAlive) {
+        await handleKeepAliveConnection({
+          region: regionResult.data,
+          cluster: selectedInference.cluster,
+          service: selectedInference.task.serviceName,
+          pick: options.pick,
+          taskArn: taskResult.data,
+          selectedRDS,
+          rdsPort: rdsPortResult.data,
+          localPort: localPortResult.data,
+          reproducibleCommand,
+          credentials,
+          onStarted,
+        });
+      } else {
+        await handleLiveConnection(
+          regionResult.data,
+          taskResult.data,
+          selectedRDS,
+          rdsPortResult.data,
+          localPortResult.data,
+          reproducibleCommand,
+          credentials,
+          onStarted,
+        );
+      }
+    } catch (error) {
+      emitJSON("session", {
+        status: "failed",
+        ...historyEntry,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+    await endSession(historyEntry, startedAt);
   }
 }
 
+/**
+ * Report and record a session that ran in the foreground
+ */
+async function endSession(
+  historyEntry: Omit<HistoryEntry, "id">,
+  startedAt: number,
+): Promise<void> {
+  const entry = { ...historyEntry, durationMs: Date.now() - startedAt };
+  emitJSON("session", { status: "ended", ...entry });
+  await recordSessionHistory(entry);
+}
+
 /**
  * Handle dry run mode - accepts branded types directly
  */
@@ -103,6 +223,10 @@ async function handleDryRun(
   selectedRDS: RDSInstance,
   rdsPort: Port,
   localPort: Port,
+  credentials: AWSCredentialOptions,
+  service: ServiceName,
+  pick?: TaskPickStrategy,
+  keepAlive?: boolean,
 ): Promise<void> {
   // Extract TaskId from TaskArn for dry run
   const taskIdStr = String(taskArn).split("_")[1] || String(taskArn);
@@ -114,9 +238,13 @@ async function handleDryRun(
     region,
     cluster,
     task: taskIdResult.data,
+    service,
+    pick,
+    keepAlive,
     rdsInstance: selectedRDS,
     rdsPort,
     localPort,
+    credentials,
   });
 
   displayDryRunResult(dryRunResult);
@@ -127,18 +255,113 @@ async function handleDryRun(
  * Handle live connection - accepts branded types directly
  */
 async function handleLiveConnection(
+  region: RegionName,
   taskArn: TaskArn,
   selectedRDS: RDSInstance,
   rdsPort: Port,
   localPort: Port,
   reproducibleCommand: string,
+  credentials: AWSCredentialOptions,
+  onStarted: () => void,
 ): Promise<void> {
   // Pass branded types directly to startSSMSession
-  await startSSMSession({
-    localPort,
-    rdsInstance: selectedRDS,
-    rdsPort,
+  await startSSMSession(
+    {
+      region,
+      localPort,
+      rdsInstance: selectedRDS,
+      rdsPort,
+      taskArn,
+      reproducibleCommand,
+      credentials,
+    },
+    { onStarted },
+  );
+}
+
+/**
+ * Handle live connection with --keep-alive: reconnect on unexpected exits until Ctrl+C
+ */
+async function handleKeepAliveConnection(params: {
+  region: RegionName;
+  cluster: ECSCluster;
+  service: ServiceName;
+  pick?: TaskPickStrategy;
+  taskArn: TaskArn;
+  selectedRDS: RDSInstance;
+  rdsPort: Port;
+  localPort: Port;
+  reproducibleCommand: string;
+  credentials: AWSCredentialOptions;
+  onStarted: () => void;
+}): Promise<void> {
+  const { region, credentials } = params;
+
+  const sessionParams = (taskArn: TaskArn) => ({
+    region,
     taskArn,
-    reproducibleCommand,
+    rdsInstance: params.selectedRDS,
+    rdsPort: params.rdsPort,
+    localPort: params.localPort,
+    credentials,
+  });
+
+  // The previous task may have been replaced, so look the service up again
+  const resolveTaskArn = createServiceTaskResolver(params);
+
+  messages.empty();
+  messages.success(
+    `🌈 RDS connection will be available at localhost:${params.localPort}`,
+  );
+  messages.info(
+    "Keep-alive enabled: the session reconnects automatically until Ctrl+C",
+  );
+  messages.empty();
+
+  const controller = new AbortController();
+  const onSigint = () => controller.abort();
+  process.on("SIGINT", onSigint);
+
+  try {
+    const lastTaskArn = await keepSessionAlive({
+      taskArn: params.taskArn,
+      runSession: (taskArn) =>
+        runPortForwardingSession(sessionParams(taskArn), {
+          onStarted: params.onStarted,
+        }),
+      resolveTaskArn,
+      signal: controller.signal,
+    });
+
+    messages.success("Process completed successfully");
+    displaySessionCommands(
+      buildPortForwardingCommand(sessionParams(lastTaskArn)),
+      params.reproducibleCommand,
+    );
+  } finally {
+    process.off("SIGINT", onSigint);
+  }
+}
+
+/**
+ * Handle --detach: start the tunnel in a background supervisor and return immediately
+ */
+export async function handleDetachedConnection(
+  spec: Omit<TunnelSpec, "id">,
+): Promise<void> {
+  const result = await startDetachedTunnel(spec);
+  if (!result.success) throw new Error(result.error);
+
+  const { id, pid, session } = result.data;
+  emitJSON("tunnel", {
+    id,
+    pid,
+    name: spec.name,
+    localPort: session.localPort,
   });
+  messages.success(
+    `🌈 Tunnel ${id} running in the background at localhost:${session.localPort} (pid ${pid})`,
+  );
+  messages.info("List tunnels with: ecs-pf ls");
+  messages.info(`Stop it with:      ecs-pf stop ${id}`);
 }
@@ -0,0 +1,287 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { ECSClient } from "@aws-sdk/client-ecs";
+import { IAMClient } from "@aws-sdk/client-iam";
+import { STSClient } from "@aws-sdk/client-sts";
+import chalk from "chalk";
+import { createAWSClientConfig } from "../aws-credentials.js";
+import {
+  getCallerIdentity,
+  getTaskExecStatus,
+  simulatePrincipalActions,
+} from "../aws-services.js";
+import { SSM_MESSAGES_ACTIONS } from "../task-role-policy.js";
+import type {
+  AWSCredentialOptions,
+  DoctorCheck,
+  DoctorCheckStatus,
+} from "../types.js";
+import { messages } from "../utils/index.js";
+import { formatTable } from "./ui/display-utils.js";
+
+const execFileAsync = promisify(execFile);
+const VERSION_TIMEOUT_MS = 5000;
+// STS answers from any region; used when no region was chosen
+const DEFAULT_REGION = "us-east-1";
+
+export interface DoctorTarget {
+  region?: string;
+  credentials: AWSCredentialOptions;
+  clusterName?: string;
+  // Task ID or ARN
+  task?: string;
+  // exec shells out to the AWS CLI; port forwarding does not need it
+  requireAWSCLI?: boolean;
+}
+
+const STATUS_COLORS: Record<DoctorCheckStatus, (text: string) => string> = {
+  pass: chalk.green,
+  warn: chalk.yellow,
+  fail: chalk.red,
+  skip: chalk.gray,
+};
+
+/**
+ * Check that a command is on PATH and report its version
+ */
+async function checkCommandVersion(
+  name: string,
+  command: string,
+  required: boolean,
+): Promise<DoctorCheck> {
+  try {
+    const { stdout, stderr } = await execFileAsync(command, ["--version"], {
+      timeout: VERSION_TIMEOUT_MS,
+    });
+    // aws prints "aws-cli/2.x.y Python/..." (older versions on stderr)
+    const version = `${stdout}${stderr}`.trim().split(/\s+/)[0] ?? "";
+    return { name, status: "pass", detail: version || "installed" };
+  } catch (error) {
+    const missing =
+      error instanceof Error && "code" in error && error.code === "ENOENT";
+    return {
+      name,
+      status: required ? "fail" : "warn",
+      detail: missing
+        ? `${command} not found in PATH${required ? "" : " (required only for exec)"}`
+        : `${command} --version failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Check that the credentials resolve to an identity
+ */
+export async function checkCredentials(
+  stsClient: STSClient,
+): Promise<DoctorCheck> {
+  const identityResult = await getCallerIdentity(stsClient);
+  return identityResult.success
+    ? { name: "AWS credentials", status: "pass", detail: identityResult.data }
+    : { name: "AWS credentials", status: "fail", detail: identityResult.error };
+}
+
+/**
+ * Check the task's exec flag, its ExecuteCommandAgent and its task role permissions
+ */
+export async function checkTaskExec(
+  clients: { ecsClient: ECSClient; iamClient: IAMClient },
+  clusterName: string,
+  task: string,
+): Promise<DoctorCheck[]> {
+  const statusResult = await getTaskExecStatus(
+    clients.ecsClient,
+    clusterName,
+    task,
+  );
+  if (!statusResult.success) {
+    return [
+      { name: "ECS Exec enabled", status: "fail", detail: statusResult.error },
+    ];
+  }
+  const { enableExecuteCommand, agents, taskRoleArn } = statusResult.data;
+
+  const execCheck: DoctorCheck = enableExecuteCommand
+    ? {
+        name: "ECS Exec enabled",
+        status: "pass",
+        detail: "enableExecuteCommand is set",
+      }
+    : {
+        name: "ECS Exec enabled",
+        status: "fail",
+        detail:
+          "enableExecuteCommand is not set on this task. Run `ecs-pf enable-exec` and redeploy the service",
+      };
+
+  const runningAgents = agents.filter((agent) => agent.status === "RUNNING");
+  const otherAgents = agents.filter((agent) => agent.status !== "RUNNING");
+  const agentCheck: DoctorCheck =
+    runningAgents.length === 0
+      ? {
+          name: "ExecuteCommandAgent",
+          status: "fail",
+          detail: `Not running in any container (${agents.map((a) => `${a.containerName}: ${a.status}`).join(", ") || "no containers"})`,
+        }
+      : otherAgents.length > 0
+        ? {
+            name: "ExecuteCommandAgent",
+            status: "warn",
+            detail: `Not running in ${otherAgents.map((a) => `${a.containerName} (${a.status})`).join(", ")}`,
+          }
+        : {
+            name: "ExecuteCommandAgent",
+            status: "pass",
+            detail: `RUNNING in ${runningAgents.map((a) => a.containerName).join(", ")}`,
+          };
+
+  return [
+    execCheck,
+    agentCheck,
+    await checkTaskRole(clients.iamClient, taskRoleArn),
+  ];
+}
+
+async function checkTaskRole(
+  iamClient: IAMClient,
+  taskRoleArn: string | undefined,
+): Promise<DoctorCheck> {
+  const name = "Task role permissions";
+  if (!taskRoleArn) {
+    return {
+      name,
+      status: "fail",
+      detail: `The task has no task role; ECS Exec needs one that allows ${SSM_MESSAGES_ACTIONS.join(", ")}`,
+    };
+  }
+
+  const simulationResult = await simulatePrincipalActions(
+    iamClient,
+    taskRoleArn,
+    SSM_MESSAGES_ACTIONS,
+  );
+  // Many users cannot simulate policies, which says nothing about the role itself
+  if (!simulationResult.success) {
+    return { name, status: "warn", detail: simulationResult.error };
+  }
+
+  const denied = simulationResult.data.filter((result) => !result.allowed);
+  return denied.length === 0
+    ? { name, status: "pass", detail: `${taskRoleArn} allows ssmmessages` }
+    : {
+        name,
+        status: "fail",
+        detail: `${taskRoleArn} does not allow ${denied.map((result) => result.action).join(", ")}`,
+      };
+}
+
+/**
+ * Run every check that applies to the target
+ */
+export async function runDoctorChecks(
+  target: DoctorTarget,
+): Promise<DoctorCheck[]> {
+  const { credentials, clusterName, task, requireAWSCLI = false } = target;
+  const clientConfig = createAWSClientConfig(
+    target.region ?? DEFAULT_REGION,
+    credentials,
+  );
+
+  const checks = await Promise.all([
+    checkCommandVersion("AWS CLI", "aws", requireAWSCLI),
+    checkCommandVersion(
+      "Session Manager plugin",
+      "session-manager-plugin",
+      true,
+    ),
+    checkCredentials(new STSClient(clientConfig)),
+  ]);
+
+  if (!clusterName || !task) {
+    return [
+      ...checks,
+      {
+        name: "ECS Exec enabled",
+        status: "skip",
+        detail: "Pass --cluster and --task to check a task",
+      },
+    ];
+  }
+  // Without credentials every task check would fail for the same reason
+  if (
+    checks.some(
+      (check) => check.name === "AWS credentials" && check.status === "fail",
+    )
+  ) {
+    return checks;
+  }
+
+  return [
+    ...checks,
+    ...(await checkTaskExec(
+      {
+        ecsClient: new ECSClient(clientConfig),
+        iamClient: new IAMClient(clientConfig),
+      },
+      clusterName,
+      task,
+    )),
+  ];
+}
+
+/**
+ * Format the check table rows (header first) with colored statuses
+ */
+export function formatDoctorTable(checks: DoctorCheck[]): string[] {
+  const header = ["STATUS", "CHECK", "DETAIL"];
+  const rows = checks.map((check) => [
+    check.status.toUpperCase(),
+    check.name,
+    check.detail,
+  ]);
+  const [headerLine = "", ...rowLines] = formatTable([header, ...rows]);
+  const statusWidth = Math.max(
+    ...[header, ...rows].map((row) => row[0]?.length ?? 0),
+  );
+
+  return [
+    headerLine,
+    ...rowLines.map((line, i) => {
+      const status = checks[i]?.status ?? "skip";
+      // STATUS is the first column
+      return (
+        STATUS_COLORS[status](line.slice(0, statusWidth)) +
+        line.slice(statusWidth)
+      );
+    }),
+  ];
+}
+
+export function displayDoctorReport(checks: DoctorCheck[]): void {
+  messages.empty();
+  messages.bold.white("Pre-flight Checks");
+  messages.empty();
+  for (const line of formatDoctorTable(checks)) {
+    messages.log(`  ${line}`);
+  }
+  messages.empty();
+}
+
+/**
+ * Run the doctor checks before a session starts and stop on any failure
+ */
+export async function runPreflightChecks(target: DoctorTarget): Promise<void> {
+  messages.warning("Running pre-flight checks...");
+  const checks = await runDoctorChecks(target);
+
+  if (checks.some((check) => check.status === "fail")) {
+    displayDoctorReport(checks);
+    throw new Error(
+      "Pre-flight checks failed. Fix the failed checks above, or run `ecs-pf doctor` for details",
+    );
+  }
+  for (const check of checks.filter((check) => check.status === "warn")) {
+    messages.warning(`${check.name}: ${check.detail}`);
+  }
+  messages.success("✓ Pre-flight checks passed");
+}
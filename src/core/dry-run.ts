@@ -1,15 +1,30 @@
 import { safeParse } from "valibot";
+import {
+  formatAWSCLICredentialFlags,
+  formatCredentialFlags,
+} from "../aws-credentials.js";
 import {
   type ConnectDryRunParams,
   type DryRunResult,
   type ExecDryRunParams,
+  type ForwardDryRunParams,
   TaskArnSchema,
 } from "../types.js";
 import { messages } from "../utils/messages.js";
+import { emitJSON, isJSONOutput } from "../utils/output.js";
 import { VERSION } from "../version.js";
-import { generateReproducibleCommand } from "./command-generation.js";
+import {
+  formatTargetFlags,
+  generateForwardCommand,
+  generateReproducibleCommand,
+} from "./command-generation.js";
 
 export function displayDryRunResult(result: DryRunResult): void {
+  if (isJSONOutput()) {
+    emitJSON("dry-run", { ...result });
+    return;
+  }
+
   messages.dryRun.header();
   messages.dryRun.awsCommand(result.awsCommand);
   messages.dryRun.reproducibleCommand(result.reproducibleCommand);
@@ -23,6 +38,9 @@ export function displayDryRunResult(result: DryRunResult): void {
     rdsPort: result.sessionInfo.rdsPort
       ? String(result.sessionInfo.rdsPort)
       : undefined,
+    remotePort: result.sessionInfo.remotePort
+      ? String(result.sessionInfo.remotePort)
+      : undefined,
     localPort: result.sessionInfo.localPort
       ? String(result.sessionInfo.localPort)
       : undefined,
@@ -36,7 +54,18 @@ export function displayDryRunResult(result: DryRunResult): void {
 export function generateConnectDryRun(
   params: ConnectDryRunParams,
 ): DryRunResult {
-  const { region, cluster, task, rdsInstance, rdsPort, localPort } = params;
+  const {
+    region,
+    cluster,
+    task,
+    service,
+    pick,
+    keepAlive,
+    rdsInstance,
+    rdsPort,
+    localPort,
+    credentials,
+  } = params;
 
   // Generate SSM command - Convert TaskId to TaskArn format for SSM
   const taskArnStr = `ecs:${cluster}_${task}_${task}`;
@@ -52,16 +81,21 @@ export function generateConnectDryRun(
     localPortNumber: [String(localPort)],
   };
   const parametersJson = JSON.stringify(parameters);
-  const awsCommand = `aws ssm start-session --target ${taskArn} --parameters '${parametersJson}' --document-name AWS-StartPortForwardingSessionToRemoteHost`;
+  const awsCommand = `aws ssm start-session --target ${taskArn} --parameters '${parametersJson}' --document-name AWS-StartPortForwardingSessionToRemoteHost${formatAWSCLICredentialFlags(credentials)}`;
 
   // Generate reproducible command
   const reproducibleCommand = generateReproducibleCommand({
     region,
     cluster,
     task: taskArn,
+    service,
+    pick,
+    targetType: rdsInstance.targetType,
     rds: rdsInstance.dbInstanceIdentifier,
     rdsPort,
     localPort,
+    keepAlive,
+    credentials,
   });
 
   return {
@@ -78,8 +112,68 @@ export function generateConnectDryRun(
   };
 }
 
+export function generateForwardDryRun(
+  params: ForwardDryRunParams,
+): DryRunResult {
+  const {
+    region,
+    cluster,
+    task,
+    target,
+    host,
+    container,
+    remotePort,
+    localPort,
+    credentials,
+  } = params;
+
+  // Generate SSM command - Convert TaskId to TaskArn format for SSM
+  const taskArnStr = `ecs:${cluster}_${task}_${task}`;
+  const { output: taskArn, success } = safeParse(TaskArnSchema, taskArnStr);
+  if (!success) {
+    throw new Error(
+      `Invalid TaskId format: ${task}. Expected format: ecs:<cluster>_<task>_<task>`,
+    );
+  }
+  // Without a host the port is on the task's own loopback
+  const parametersJson = JSON.stringify({
+    ...(host ? { host: [host] } : {}),
+    portNumber: [String(remotePort)],
+    localPortNumber: [String(localPort)],
+  });
+  const documentName = host
+    ? "AWS-StartPortForwardingSessionToRemoteHost"
+    : "AWS-StartPortForwardingSession";
+  // A port on the task must reach the chosen container, not the task's first one
+  const ssmTarget = target ?? taskArn;
+  const awsCommand = `aws ssm start-session --target ${ssmTarget} --parameters '${parametersJson}' --document-name ${documentName}${formatAWSCLICredentialFlags(credentials)}`;
+
+  return {
+    awsCommand,
+    reproducibleCommand: generateForwardCommand({ ...params, task: taskArn }),
+    sessionInfo: {
+      region,
+      cluster,
+      task: ssmTarget,
+      host,
+      container,
+      remotePort,
+      localPort,
+    },
+  };
+}
+
 export function generateExecDryRun(params: ExecDryRunParams): DryRunResult {
-  const { region, cluster, task, container, command } = params;
+  const {
+    region,
+    cluster,
+    task,
+    service,
+    pick,
+    container,
+    command,
+    credentials,
+  } = params;
 
   // Convert TaskId to TaskArn format for ECS execute command
   const taskArnResult = safeParse(TaskArnSchema, task);
@@ -89,10 +183,10 @@ export function generateExecDryRun(params: ExecDryRunParams): DryRunResult {
   const taskArnForECS = taskArnResult.output;
 
   // Generate ECS execute command - convert to strings only at output boundary
-  const awsCommand = `aws ecs execute-command --region ${region} --cluster ${cluster} --task ${task} --container ${container} --command "${command}" --interactive`;
+  const awsCommand = `aws ecs execute-command --region ${region} --cluster ${cluster} --task ${task} --container ${container} --command "${command}" --interactive${formatAWSCLICredentialFlags(credentials)}`;
 
   // Generate reproducible command
-  const reproducibleCommand = `npx ecs-pf@${VERSION} exec-task --region ${region} --cluster ${cluster} --task ${task} --container ${container} --command "${command}"`;
+  const reproducibleCommand = `npx ecs-pf@${VERSION} exec-task --region ${region} --cluster ${cluster} ${formatTargetFlags(task, service, pick)} --container ${container} --command "${command}"${formatCredentialFlags(credentials)}`;
 
   return {
     awsCommand,
@@ -1,13 +1,19 @@
 import { EC2Client } from "@aws-sdk/client-ec2";
 import { ECSClient } from "@aws-sdk/client-ecs";
+import { SSMClient } from "@aws-sdk/client-ssm";
 import { input, search } from "@inquirer/prompts";
 import { isEmpty, isString } from "remeda";
+import {
+  createAWSClientConfig,
+  pickCredentialOptions,
+} from "../aws-credentials.js";
 import {
   getAWSRegions,
   getECSClustersWithExecCapability,
   getECSTaskContainers,
   getECSTasksWithExecCapability,
 } from "../aws-services.js";
+import { recordSessionHistory } from "../history.js";
 import {
   searchClusters,
   searchContainers,
@@ -15,7 +21,18 @@ import {
   searchTasks,
 } from "../search.js";
 import { executeECSCommand } from "../session.js";
-import type { ECSCluster, ECSTask, ValidatedExecOptions } from "../types.js";
+import type {
+  AWSCredentialOptions,
+  ClusterName,
+  ContainerName,
+  ECSCluster,
+  ECSTask,
+  ProfileName,
+  RegionName,
+  TaskArn,
+  TaskId,
+  ValidatedExecOptions,
+} from "../types.js";
 import {
   parseClusterName,
   parseContainerName,
@@ -24,12 +41,43 @@ import {
   parseTaskId,
   unwrapBrandedString,
 } from "../types.js";
-import { askRetry, displayFriendlyError, messages } from "../utils/index.js";
+import {
+  askRetry,
+  displayFriendlyError,
+  emitJSON,
+  getPromptContext,
+  messages,
+} from "../utils/index.js";
+import { runPreflightChecks } from "./doctor.js";
 import { displayDryRunResult, generateExecDryRun } from "./dry-run.js";
+import { selectProfile } from "./selection/profile-selection.js";
+import { resolveServiceTask } from "./selection/service-task-selection.js";
 
 // UI Configuration constants
 const DEFAULT_PAGE_SIZE = 50;
 
+// selectionsをbranded typesで保持
+interface ExecSelections {
+  profile?: ProfileName;
+  region?: RegionName;
+  cluster?: ClusterName;
+  task?: TaskId | TaskArn;
+  container?: ContainerName;
+  command?: string;
+}
+
+type ExecTargetOptions = Pick<
+  ValidatedExecOptions,
+  | "region"
+  | "cluster"
+  | "service"
+  | "pick"
+  | "task"
+  | "profile"
+  | "roleArn"
+  | "externalId"
+>;
+
 /**
  * Execute command in ECS task container with Simple UI workflow
  */
@@ -69,25 +117,33 @@ export async function execECSTaskWithSimpleUIInternal(
   }
 }
 
-async function execECSTaskWithSimpleUIFlow(
-  options: ValidatedExecOptions,
-): Promise<void> {
-  if (options.dryRun) {
-    messages.info(
-      "Starting AWS ECS execute command tool with Simple UI (DRY RUN)...",
-    );
-  }
+/**
+ * Select the profile, region, cluster and task to run a session against.
+ * Shared by exec and forward; values given in options skip the matching prompt.
+ */
+export async function selectExecTarget(
+  options: ExecTargetOptions,
+  title?: string,
+): Promise<{
+  region: RegionName;
+  credentials: AWSCredentialOptions;
+  selectedCluster: ECSCluster;
+  selectedTask: ECSTask;
+  selections: ExecSelections;
+  ecsClient: ECSClient;
+}> {
+  const selections: ExecSelections = {};
 
-  // selectionsをbranded typesで保持
-  const selections: {
-    region?: import("../types.js").RegionName;
-    cluster?: import("../types.js").ClusterName;
-    task?: import("../types.js").TaskId | import("../types.js").TaskArn;
-    container?: import("../types.js").ContainerName;
-    command?: string;
-  } = {};
+  // Step 0: Select AWS Profile (optional)
+  messages.ui.displayExecSelectionState(selections, title);
+  const selectedProfile = await selectProfile(options);
+  selections.profile = selectedProfile?.profileName;
+  const credentials = pickCredentialOptions({
+    ...options,
+    profile: selections.profile,
+  });
 
-  // Step 1: Select Region
+  // Step 1: Select Region (pre-filled with the profile's default region)
   const region: import("../types.js").RegionName = options.region
     ? (() => {
         const regionResult = parseRegionName(options.region);
@@ -101,21 +157,27 @@ async function execECSTaskWithSimpleUIFlow(
         });
         messages.warning("Getting available AWS regions...");
         const regionsResult = await getAWSRegions(
-          new EC2Client({ region: "us-east-1" }),
+          new EC2Client(createAWSClientConfig("us-east-1", credentials)),
         );
         if (!regionsResult.success) throw new Error(regionsResult.error);
         const regions = regionsResult.data;
         if (isEmpty(regions)) {
           throw new Error("Failed to get AWS regions");
         }
-        process.stdout.write("\x1b[1A");
-        process.stdout.write("\x1b[2K");
-        process.stdout.write("\r");
-        const selectedRegion = await search({
-          message: "Search and select AWS region:",
-          source: async (input) => await searchRegions(regions, input || ""),
-          pageSize: DEFAULT_PAGE_SIZE,
-        });
+        messages.clearPreviousLine();
+        const selectedRegion = await search(
+          {
+            message: "Search and select AWS region:",
+            source: async (input) =>
+              await searchRegions(
+                regions,
+                input || "",
+                selectedProfile?.region,
+              ),
+            pageSize: DEFAULT_PAGE_SIZE,
+          },
+          getPromptContext(),
+        );
         if (!isString(selectedRegion)) {
           throw new Error("Invalid region selection");
         }
@@ -124,13 +186,18 @@ async function execECSTaskWithSimpleUIFlow(
         return regionResult.data;
       })();
   selections.region = region;
-  messages.ui.displayExecSelectionState({
-    ...selections,
-    region: selections.region
-      ? unwrapBrandedString(selections.region)
-      : undefined,
-  });
-  const ecsClient = new ECSClient({ region: unwrapBrandedString(region) });
+  messages.ui.displayExecSelectionState(
+    {
+      ...selections,
+      region: selections.region
+        ? unwrapBrandedString(selections.region)
+        : undefined,
+    },
+    title,
+  );
+  const ecsClient = new ECSClient(
+    createAWSClientConfig(unwrapBrandedString(region), credentials),
+  );
 
   // Step 2: Select ECS Cluster
   const selectedCluster: ECSCluster = options.cluster
@@ -163,14 +230,16 @@ async function execECSTaskWithSimpleUIFlow(
         if (isEmpty(clusters)) {
           throw new Error("No ECS clusters found with exec capability");
         }
-        process.stdout.write("\x1b[1A");
-        process.stdout.write("\x1b[2K");
-        process.stdout.write("\r");
-        const cluster = await search({
-          message: "Search and select ECS cluster:",
-          source: async (input) => await searchClusters(clusters, input || ""),
-          pageSize: DEFAULT_PAGE_SIZE,
-        });
+        messages.clearPreviousLine();
+        const cluster = await search(
+          {
+            message: "Search and select ECS cluster:",
+            source: async (input) =>
+              await searchClusters(clusters, input || ""),
+            pageSize: DEFAULT_PAGE_SIZE,
+          },
+          getPromptContext(),
+        );
 
         if (
           !cluster ||
@@ -187,15 +256,18 @@ async function execECSTaskWithSimpleUIFlow(
         return cluster as ECSCluster;
       })();
 
-  messages.ui.displayExecSelectionState({
-    ...selections,
-    region: selections.region
-      ? unwrapBrandedString(selections.region)
-      : undefined,
-    cluster: selections.cluster
-      ? unwrapBrandedString(selections.cluster)
-      : undefined,
-  });
+  messages.ui.displayExecSelectionState(
+    {
+      ...selections,
+      region: selections.region
+        ? unwrapBrandedString(selections.region)
+        : undefined,
+      cluster: selections.cluster
+        ? unwrapBrandedString(selections.cluster)
+        : undefined,
+    },
+    title,
+  );
 
   // Step 3: Select ECS Task
   const selectedTask: ECSTask = options.task
@@ -241,14 +313,39 @@ async function execECSTaskWithSimpleUIFlow(
             "No ECS tasks found with exec capability in this cluster",
           );
         }
-        process.stdout.write("\x1b[1A");
-        process.stdout.write("\x1b[2K");
-        process.stdout.write("\r");
-        const selectedTaskArn = await search({
-          message: "Search and select ECS task:",
-          source: async (input) => await searchTasks(tasks, input || ""),
-          pageSize: DEFAULT_PAGE_SIZE,
-        });
+
+        // Resolve --service to one of its healthy, exec-ready running tasks (task ids change on every deploy)
+        if (options.service) {
+          const strategy = options.pick ?? "newest";
+          const resolvedTask = await resolveServiceTask({
+            tasks: tasks.filter(
+              (t: ECSTask) => t.serviceName === options.service,
+            ),
+            strategy,
+            ssmClient: new SSMClient(
+              createAWSClientConfig(unwrapBrandedString(region), credentials),
+            ),
+          });
+          if (resolvedTask) {
+            selections.task = resolvedTask.taskId;
+            messages.success(
+              `✓ ECS service (from CLI): ${options.service} → ${resolvedTask.taskId} (${strategy})`,
+            );
+            return resolvedTask;
+          }
+          messages.warning(
+            `No healthy running task ready for ECS Exec found for service "${options.service}", showing all tasks`,
+          );
+        }
+        messages.clearPreviousLine();
+        const selectedTaskArn = await search(
+          {
+            message: "Search and select ECS task:",
+            source: async (input) => await searchTasks(tasks, input || ""),
+            pageSize: DEFAULT_PAGE_SIZE,
+          },
+          getPromptContext(),
+        );
         if (typeof selectedTaskArn !== "string") {
           throw new Error("Invalid task selection");
         }
@@ -264,16 +361,47 @@ async function execECSTaskWithSimpleUIFlow(
         return task;
       })();
 
-  messages.ui.displayExecSelectionState({
-    ...selections,
-    region: selections.region
-      ? unwrapBrandedString(selections.region)
-      : undefined,
-    cluster: selections.cluster
-      ? unwrapBrandedString(selections.cluster)
-      : undefined,
-    task: selections.task ? unwrapBrandedString(selections.task) : undefined,
-  });
+  messages.ui.displayExecSelectionState(
+    {
+      ...selections,
+      region: selections.region
+        ? unwrapBrandedString(selections.region)
+        : undefined,
+      cluster: selections.cluster
+        ? unwrapBrandedString(selections.cluster)
+        : undefined,
+      task: selections.task ? unwrapBrandedString(selections.task) : undefined,
+    },
+    title,
+  );
+
+  return {
+    region,
+    credentials,
+    selectedCluster,
+    selectedTask,
+    selections,
+    ecsClient,
+  };
+}
+
+async function execECSTaskWithSimpleUIFlow(
+  options: ValidatedExecOptions,
+): Promise<void> {
+  if (options.dryRun) {
+    messages.info(
+      "Starting AWS ECS execute command tool with Simple UI (DRY RUN)...",
+    );
+  }
+
+  const {
+    region,
+    credentials,
+    selectedCluster,
+    selectedTask,
+    selections,
+    ecsClient,
+  } = await selectExecTarget(options);
 
   // Step 4: Select Container
   const selectedContainer: import("../types.js").ContainerName =
@@ -297,18 +425,19 @@ async function execECSTaskWithSimpleUIFlow(
           if (isEmpty(containers)) {
             throw new Error("No containers found in this task");
           }
-          process.stdout.write("\x1b[1A");
-          process.stdout.write("\x1b[2K");
-          process.stdout.write("\r");
-          const selectedContainerName = await search({
-            message: "Search and select container:",
-            source: async (input) =>
-              await searchContainers(
-                containers.map((c) => String(c)),
-                input || "",
-              ),
-            pageSize: DEFAULT_PAGE_SIZE,
-          });
+          messages.clearPreviousLine();
+          const selectedContainerName = await search(
+            {
+              message: "Search and select container:",
+              source: async (input) =>
+                await searchContainers(
+                  containers.map((c) => String(c)),
+                  input || "",
+                ),
+              pageSize: DEFAULT_PAGE_SIZE,
+            },
+            getPromptContext(),
+          );
           if (typeof selectedContainerName !== "string") {
             throw new Error("Invalid container selection");
           }
@@ -333,10 +462,13 @@ async function execECSTaskWithSimpleUIFlow(
         return options.command;
       })()
     : await (async () => {
-        const cmd = await input({
-          message: "Enter command to execute:",
-          default: "/bin/bash",
-        });
+        const cmd = await input(
+          {
+            message: "Enter command to execute:",
+            default: "/bin/bash",
+          },
+          getPromptContext(),
+        );
         selections.command = cmd;
         return cmd;
       })();
@@ -363,18 +495,61 @@ async function execECSTaskWithSimpleUIFlow(
       region,
       cluster: selectedCluster.clusterName,
       task: selectedTask.taskId,
+      service: selectedTask.serviceName,
+      pick: options.pick,
       container: selectedContainer,
       command,
+      credentials,
     });
     displayDryRunResult(dryRunResult);
     messages.success("Dry run completed successfully.");
   } else {
-    await executeECSCommand({
+    await runPreflightChecks({
       region,
+      credentials,
       clusterName: selectedCluster.clusterName,
-      taskArn: selectedTask.realTaskArn,
-      containerName: selectedContainer,
-      command,
+      task: selectedTask.realTaskArn,
+      requireAWSCLI: true,
     });
+    const startedAt = Date.now();
+    const historyEntry = {
+      kind: "exec" as const,
+      timestamp: new Date(startedAt).toISOString(),
+      region,
+      cluster: selectedCluster.clusterName,
+      service: selectedTask.serviceName,
+      task: selectedTask.taskId,
+      pick: options.pick,
+      container: selectedContainer,
+      command,
+      credentials,
+    };
+    try {
+      await executeECSCommand(
+        {
+          region,
+          clusterName: selectedCluster.clusterName,
+          taskArn: selectedTask.realTaskArn,
+          containerName: selectedContainer,
+          command,
+          credentials,
+        },
+        {
+          onStarted: () =>
+            emitJSON("session", { status: "started", ...historyEntry }),
+        },
+      );
+    } catch (error) {
+      emitJSON("session", {
+        status: "failed",
+        ...historyEntry,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+    const endedEntry = { ...historyEntry, durationMs: Date.now() - startedAt };
+    emitJSON("session", { status: "ended", ...endedEntry });
+    await recordSessionHistory(endedEntry);
   }
 }
@@ -0,0 +1,345 @@
+import type { ECSClient } from "@aws-sdk/client-ecs";
+import { input, search } from "@inquirer/prompts";
+import { isEmpty } from "remeda";
+import { getECSTaskContainerPorts } from "../aws-services.js";
+import { searchContainers } from "../search.js";
+import { startSSMSession } from "../session.js";
+import type {
+  ContainerName,
+  DBEndpoint,
+  ECSCluster,
+  ECSContainerPorts,
+  ECSTask,
+  Port,
+  RDSInstance,
+  TaskArn,
+  ValidatedForwardOptions,
+} from "../types.js";
+import {
+  parseDatabaseEngine,
+  parseDBEndpoint,
+  parseDBInstanceIdentifier,
+  parsePort,
+  parseTaskArn,
+} from "../types.js";
+import {
+  askRetry,
+  displayFriendlyError,
+  getPortRange,
+  getPromptContext,
+  isPortRange,
+  messages,
+} from "../utils/index.js";
+import { generateForwardCommand } from "./command-generation.js";
+import { displayDryRunResult, generateForwardDryRun } from "./dry-run.js";
+import { selectExecTarget } from "./exec-ui-flow.js";
+import { selectLocalPort } from "./selection/port-selection.js";
+
+const FORWARD_TITLE = "Port Forward Configuration";
+const LOCALHOST = "localhost";
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Forward a local port to an arbitrary host:port reachable from an ECS task,
+ * or to a port on the task itself
+ */
+export async function forwardWithSimpleUI(
+  options: ValidatedForwardOptions = { dryRun: false },
+): Promise<void> {
+  let retryCount = 0;
+  const maxRetries = 3;
+
+  while (retryCount <= maxRetries) {
+    try {
+      await forwardWithSimpleUIFlow(options);
+      return; // Exit if successful
+    } catch (error) {
+      retryCount++;
+
+      displayFriendlyError(error);
+
+      if (retryCount <= maxRetries) {
+        messages.warning(`Retry count: ${retryCount}/${maxRetries + 1}`);
+        const shouldRetry = await askRetry();
+
+        if (!shouldRetry) {
+          messages.info("Process interrupted");
+          return;
+        }
+
+        messages.info("Retrying...\n");
+      } else {
+        messages.error("Maximum retry count reached. Terminating process.");
+        messages.gray(
+          "If the problem persists, please check the above solutions.",
+        );
+        throw error;
+      }
+    }
+  }
+}
+
+async function forwardWithSimpleUIFlow(
+  options: ValidatedForwardOptions,
+): Promise<void> {
+  if (options.dryRun) {
+    messages.info("Starting port forwarding tool with Simple UI (DRY RUN)...");
+  }
+
+  // Steps 0-3: profile, region, cluster and task, as in exec
+  const { region, credentials, selectedCluster, selectedTask, ecsClient } =
+    await selectExecTarget(options, FORWARD_TITLE);
+
+  // Step 4: Remote host, or a container port on the task itself
+  const onTask =
+    options.onTask ?? (options.host ? false : await promptForDestination());
+  const target = onTask
+    ? await selectTaskPort(options, {
+        ecsClient,
+        cluster: selectedCluster,
+        task: selectedTask,
+      })
+    : {
+        host: options.host ?? (await promptForHost()),
+        remotePort: options.remotePort ?? (await promptForRemotePort()),
+        container: undefined,
+        taskArn: selectedTask.taskArn,
+      };
+  const { host, remotePort, container } = target;
+
+  // Step 5: Local port
+  const localPortString = await selectLocalPort(
+    { localPort: options.localPort },
+    {},
+  );
+  const localPortResult = parsePort(localPortString);
+  if (!localPortResult.success) throw new Error(localPortResult.error);
+  const localPort = localPortResult.data;
+
+  const forwardParams = {
+    region,
+    cluster: selectedCluster.clusterName,
+    service: selectedTask.serviceName,
+    pick: options.pick,
+    host,
+    container,
+    remotePort,
+    localPort,
+    credentials,
+  };
+
+  if (options.dryRun) {
+    displayDryRunResult(
+      generateForwardDryRun({
+        ...forwardParams,
+        task: selectedTask.taskId,
+        target: onTask ? target.taskArn : undefined,
+      }),
+    );
+    messages.success("Dry run completed successfully.");
+    return;
+  }
+
+  await startSSMSession({
+    region,
+    taskArn: target.taskArn,
+    rdsInstance: createHostTarget(host ?? LOCALHOST, remotePort),
+    rdsPort: remotePort,
+    localPort,
+    onTask,
+    reproducibleCommand: generateForwardCommand({
+      ...forwardParams,
+      task: selectedTask.taskArn,
+    }),
+    credentials,
+  });
+}
+
+async function promptForDestination(): Promise<boolean> {
+  const destination = await search(
+    {
+      message: "Forward to:",
+      source: async () => [
+        {
+          name: "A remote host reachable from the task",
+          value: "host",
+        },
+        {
+          name: "A port on the task itself (container localhost)",
+          value: "task",
+        },
+      ],
+    },
+    getPromptContext(),
+  );
+  return destination === "task";
+}
+
+/**
+ * Pick a container of the task and one of its ports. Ports mapped in the
+ * task definition are offered first, but any port number can be typed.
+ */
+async function selectTaskPort(
+  options: ValidatedForwardOptions,
+  target: { ecsClient: ECSClient; cluster: ECSCluster; task: ECSTask },
+): Promise<{
+  host: undefined;
+  remotePort: Port;
+  container: ContainerName;
+  taskArn: TaskArn;
+}> {
+  const { ecsClient, cluster, task } = target;
+
+  messages.warning("Getting container list...");
+  const containersResult = await getECSTaskContainerPorts({
+    ecsClient,
+    clusterName: cluster.clusterName,
+    taskArn: task.realTaskArn,
+  });
+  if (!containersResult.success) throw new Error(containersResult.error);
+  const containers = containersResult.data;
+  if (isEmpty(containers)) {
+    throw new Error("No running containers found in this task");
+  }
+
+  const container = options.container
+    ? containers.find((c) => c.containerName === options.container)
+    : containers.length === 1
+      ? containers[0]
+      : await (async () => {
+          const selectedName = await search(
+            {
+              message: "Search and select container:",
+              source: async (input) =>
+                await searchContainers(
+                  containers.map((c) => String(c.containerName)),
+                  input || "",
+                ),
+              pageSize: DEFAULT_PAGE_SIZE,
+            },
+            getPromptContext(),
+          );
+          return containers.find((c) => c.containerName === selectedName);
+        })();
+  if (!container) {
+    throw new Error(
+      `Container not found or not running: ${options.container ?? "(none)"}`,
+    );
+  }
+
+  const remotePort =
+    options.remotePort ?? (await promptForContainerPort(container));
+
+  // The SSM target names the container through its runtime ID
+  const clusterFullName =
+    cluster.clusterArn.split("/").pop() || cluster.clusterName;
+  const taskArnResult = parseTaskArn(
+    `ecs:${clusterFullName}_${task.taskId}_${container.runtimeId}`,
+  );
+  if (!taskArnResult.success) throw new Error(taskArnResult.error);
+
+  return {
+    host: undefined,
+    remotePort,
+    container: container.containerName,
+    taskArn: taskArnResult.data,
+  };
+}
+
+async function promptForContainerPort(
+  container: ECSContainerPorts,
+): Promise<Port> {
+  if (isEmpty(container.portMappings)) {
+    return promptForRemotePort();
+  }
+
+  const selectedPort = await search(
+    {
+      message: `Search and select port on ${container.containerName}:`,
+      source: async (input) => {
+        const term = (input || "").trim();
+        const choices = container.portMappings
+          .map((mapping) => ({
+            name: `${mapping.containerPort}/${mapping.protocol}${mapping.name ? ` (${mapping.name})` : ""}`,
+            value: String(mapping.containerPort),
+          }))
+          .filter((choice) => choice.name.includes(term));
+        // Ports the task definition does not map can still be typed in
+        const typedPort = Number.parseInt(term, 10);
+        if (
+          isPortRange(typedPort) &&
+          !choices.some((choice) => choice.value === String(typedPort))
+        ) {
+          choices.push({
+            name: `Use port ${typedPort}`,
+            value: String(typedPort),
+          });
+        }
+        return choices;
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
+    },
+    getPromptContext(),
+  );
+  const portResult = parsePort(selectedPort);
+  if (!portResult.success) throw new Error(portResult.error);
+  return portResult.data;
+}
+
+async function promptForHost(): Promise<DBEndpoint> {
+  const host = await input(
+    {
+      message: "Enter remote host (DNS name or IP address):",
+      validate: (value) => {
+        const hostResult = parseDBEndpoint(value.trim());
+        return hostResult.success ? true : hostResult.error;
+      },
+    },
+    getPromptContext(),
+  );
+  const hostResult = parseDBEndpoint(host.trim());
+  if (!hostResult.success) throw new Error(hostResult.error);
+  return hostResult.data;
+}
+
+async function promptForRemotePort(): Promise<Port> {
+  const port = await input(
+    {
+      message: "Enter remote port number:",
+      validate: (value) => {
+        const [minPort, maxPort] = getPortRange();
+        return isPortRange(Number.parseInt(value, 10))
+          ? true
+          : `Please enter a valid port number (${minPort}-${maxPort})`;
+      },
+    },
+    getPromptContext(),
+  );
+  const portResult = parsePort(port);
+  if (!portResult.success) throw new Error(portResult.error);
+  return portResult.data;
+}
+
+/**
+ * Describe the remote host in the shape the port forwarding session expects
+ */
+function createHostTarget(host: string, port: Port): RDSInstance {
+  const endpointResult = parseDBEndpoint(host);
+  if (!endpointResult.success) throw new Error(endpointResult.error);
+  const idResult = parseDBInstanceIdentifier(host);
+  if (!idResult.success) throw new Error(idResult.error);
+  const engineResult = parseDatabaseEngine("tcp");
+  if (!engineResult.success) throw new Error(engineResult.error);
+
+  return {
+    dbInstanceIdentifier: idResult.data,
+    endpoint: endpointResult.data,
+    port,
+    engine: engineResult.data,
+    dbInstanceClass: "unknown",
+    dbInstanceStatus: "available",
+    allocatedStorage: 0,
+    availabilityZone: "unknown",
+    vpcSecurityGroups: [],
+  };
+}
@@ -0,0 +1,88 @@
+import type { InferenceResult } from "../inference/index.js";
+import type { ScoreContribution } from "../types.js";
+import { formatTable } from "./ui/display-utils.js";
+
+function formatPoints(points: number): string {
+  return points >= 0 ? `+${points}` : String(points);
+}
+
+function formatContributions(breakdown: ScoreContribution[]): string[] {
+  return formatTable(
+    breakdown.map((contribution) => [
+      formatPoints(contribution.points).padStart(5),
+      contribution.rule,
+      contribution.detail,
+    ]),
+  ).map((line) => `    ${line}`);
+}
+
+/**
+ * Ranked candidates, best first (the order inferECSTargets returns them in)
+ */
+export function formatInferenceTable(results: InferenceResult[]): string[] {
+  return formatTable([
+    [
+      "#",
+      "SERVICE",
+      "CLUSTER",
+      "TASK",
+      "CONFIDENCE",
+      "METHOD",
+      "SCORE",
+      "NETWORK",
+    ],
+    ...results.map((result, index) => [
+      String(index + 1),
+      result.task.serviceName,
+      result.cluster.clusterName,
+      result.task.taskId,
+      result.confidence,
+      result.method,
+      String(result.score),
+      result.network?.verdict ?? "-",
+    ]),
+  ]);
+}
+
+/**
+ * Why a candidate got its score: the points of each rule, then how its cluster
+ * matched the RDS name (tasks outside matching clusters are only kept for a task
+ * definition reference or scored by name)
+ */
+export function formatScoreExplanation(
+  result: InferenceResult,
+  rank: number,
+): string[] {
+  const lines = [
+    `#${rank} ${result.task.serviceName} (${result.cluster.clusterName}/${result.task.taskId}): ${result.score} points, ${result.confidence} confidence by ${result.method}`,
+    ...formatContributions(result.breakdown ?? []),
+  ];
+
+  if (result.network) {
+    lines.push(
+      `  Network: ${result.network.verdict} (${result.network.reason})`,
+    );
+  }
+
+  const clusterNaming = result.clusterNaming;
+  if (clusterNaming) {
+    lines.push(
+      `  Cluster "${clusterNaming.clusterName}" matched the RDS name with ${clusterNaming.score} points:`,
+      ...formatContributions(clusterNaming.breakdown),
+    );
+  } else if (
+    // Network promotion replaces the method, so look at the scoring rules
+    result.breakdown?.some(
+      (contribution) => contribution.rule === "env-variable",
+    )
+  ) {
+    lines.push(
+      `  Cluster "${result.cluster.clusterName}" does not match the RDS name, but the task definition references it`,
+    );
+  } else {
+    lines.push(
+      `  Cluster "${result.cluster.clusterName}" does not match the RDS name, so its tasks were only scored by name`,
+    );
+  }
+  return lines;
+}
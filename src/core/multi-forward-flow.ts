@@ -0,0 +1,139 @@
+import { pickCredentialOptions } from "../aws-credentials.js";
+import type {
+  HandleConnectionParams,
+  ProfileName,
+  RegionName,
+  ValidatedConnectOptions,
+} from "../types.js";
+import { allocateAvailablePort, messages } from "../utils/index.js";
+import {
+  type ForwardSpec,
+  superviseForwards,
+} from "./connection/forward-supervisor.js";
+import {
+  handleConnection,
+  handleDetachedConnection,
+} from "./connection/rds-connection.js";
+import { runPreflightChecks } from "./doctor.js";
+import { createServiceTaskResolver } from "./selection/service-task-selection.js";
+import { selectConnectionTarget } from "./simple-ui-flow.js";
+
+const DEFAULT_LOCAL_PORT = 8888;
+
+export interface ConnectTarget {
+  name: string;
+  options: ValidatedConnectOptions;
+}
+
+/**
+ * Open several port forwards in one run (repeated --rds or a preset group)
+ */
+export async function connectMultipleWithSimpleUI(
+  targets: ConnectTarget[],
+): Promise<void> {
+  const reservedPorts = new Set<number>();
+  let nextPort = DEFAULT_LOCAL_PORT;
+  let shared: { profile?: ProfileName; region?: RegionName } = {};
+  const resolved: { name: string; params: HandleConnectionParams }[] = [];
+
+  for (const [i, target] of targets.entries()) {
+    messages.info(`Target ${i + 1}/${targets.length}: ${target.name}`);
+
+    // Later targets reuse the profile and region picked for the first one
+    const usesOwnCredentials = !!(
+      target.options.profile || target.options.roleArn
+    );
+    const options: ValidatedConnectOptions = {
+      ...target.options,
+      profile: usesOwnCredentials ? target.options.profile : shared.profile,
+      region: target.options.region ?? shared.region,
+    };
+
+    const requestedPort = options.localPort;
+    const portResult = await allocateAvailablePort(
+      requestedPort ?? nextPort,
+      reservedPorts,
+    );
+    if (!portResult.success) throw new Error(portResult.error);
+    if (requestedPort && portResult.data !== requestedPort) {
+      messages.warning(
+        `Local port ${requestedPort} is not available, using ${portResult.data} for ${target.name}`,
+      );
+    }
+    nextPort = Number(portResult.data) + 1;
+
+    const params = await selectConnectionTarget({
+      ...options,
+      localPort: portResult.data,
+    });
+    resolved.push({ name: target.name, params });
+    shared = {
+      profile: params.options.profile,
+      region: params.selections.region,
+    };
+  }
+
+  if (targets.some((target) => target.options.dryRun)) {
+    for (const { params } of resolved) {
+      await handleConnection(params);
+    }
+    return;
+  }
+
+  for (const { name, params } of resolved) {
+    messages.info(`Checking ${name}...`);
+    await runPreflightChecks({
+      region: params.selections.region,
+      credentials: pickCredentialOptions(params.options),
+      clusterName: params.selectedInference.cluster.clusterName,
+      task: params.selectedInference.task.taskId,
+    });
+  }
+
+  const forwards: ForwardSpec[] = resolved.map(({ name, params }) => {
+    const region = params.selections.region;
+    const localPort = params.selections.localPort;
+    if (!region || !localPort) {
+      throw new Error(`Incomplete selection for ${name}`);
+    }
+    const credentials = pickCredentialOptions(params.options);
+
+    return {
+      name,
+      params: {
+        region,
+        taskArn: params.selectedTask,
+        rdsInstance: params.selectedRDS,
+        rdsPort: params.rdsPort,
+        localPort,
+        credentials,
+      },
+      keepAlive: params.options.keepAlive,
+      resolveTaskArn: createServiceTaskResolver({
+        region,
+        cluster: params.selectedInference.cluster,
+        service: params.selectedInference.task.serviceName,
+        pick: params.options.pick,
+        credentials,
+      }),
+    };
+  });
+
+  if (targets.some((target) => target.options.detach)) {
+    for (const [i, forward] of forwards.entries()) {
+      const params = resolved[i]?.params;
+      if (!params) continue;
+      await handleDetachedConnection({
+        name: forward.name,
+        session: forward.params,
+        cluster: params.selectedInference.cluster,
+        service: params.selectedInference.task.serviceName,
+        pick: params.options.pick,
+        keepAlive: params.options.keepAlive,
+      });
+    }
+    return;
+  }
+
+  await superviseForwards(forwards);
+}
@@ -0,0 +1,365 @@
+import type { EC2Client } from "@aws-sdk/client-ec2";
+import type { ECSClient } from "@aws-sdk/client-ecs";
+import type { RDSClient } from "@aws-sdk/client-rds";
+import { chunk, isEmpty } from "remeda";
+import {
+  checkECSExecCapability,
+  getAWSRegions,
+  getECSClusters,
+  getECSServices,
+  getECSTasks,
+  getRDSInstances,
+} from "../aws-services.js";
+import { keywordSearch } from "../search.js";
+import type {
+  AWSRegion,
+  ECSCluster,
+  ECSService,
+  ECSTask,
+  ListResource,
+  RDSInstance,
+  Result,
+} from "../types.js";
+import { failure, success } from "../types.js";
+import { formatTable } from "./ui/display-utils.js";
+
+// Clusters queried at once, so large accounts are not throttled
+const CLUSTER_BATCH_SIZE = 5;
+
+export interface ListFilters {
+  cluster?: string;
+  execEnabled?: boolean;
+  status?: string;
+  // Space-separated keywords, all of which must match (same as the pickers)
+  query?: string;
+}
+
+export interface ListClients {
+  ecsClient: ECSClient;
+  rdsClient: RDSClient;
+  ec2Client: EC2Client;
+}
+
+export interface ClusterListItem extends ECSCluster {
+  // Undefined when the check failed (see execCheckError)
+  execCapable?: boolean;
+  execCheckError?: string;
+}
+
+export type ResourceListing =
+  | { resource: "clusters"; items: ClusterListItem[] }
+  | { resource: "services"; items: ECSService[] }
+  | { resource: "tasks"; items: ECSTask[] }
+  | { resource: "rds"; items: RDSInstance[] }
+  | { resource: "regions"; items: AWSRegion[] };
+
+type FilterName = Exclude<keyof ListFilters, "query">;
+
+const FILTER_FLAGS: Record<FilterName, string> = {
+  cluster: "--cluster",
+  execEnabled: "--exec-enabled",
+  status: "--status",
+};
+
+const SUPPORTED_FILTERS: Record<ListResource, FilterName[]> = {
+  clusters: ["execEnabled"],
+  services: ["cluster", "execEnabled", "status"],
+  tasks: ["cluster", "execEnabled", "status"],
+  rds: ["status"],
+  regions: ["status"],
+};
+
+/**
+ * Reject filters that mean nothing for the resource (e.g. --cluster with rds)
+ */
+export function validateListFilters(
+  resource: ListResource,
+  filters: ListFilters,
+): Result<void, string> {
+  const unsupported = (Object.keys(FILTER_FLAGS) as FilterName[]).filter(
+    (name) =>
+      filters[name] !== undefined &&
+      !SUPPORTED_FILTERS[resource].includes(name),
+  );
+  if (!isEmpty(unsupported)) {
+    return failure(
+      `${unsupported.map((name) => FILTER_FLAGS[name]).join(", ")} cannot be used when listing ${resource}`,
+    );
+  }
+  return success(undefined);
+}
+
+function matchesStatus(status: string, filter: string | undefined): boolean {
+  return !filter || status.toLowerCase() === filter.toLowerCase();
+}
+
+/**
+ * All clusters, or only the one named by --cluster
+ */
+async function getTargetClusters(
+  ecsClient: ECSClient,
+  clusterName: string | undefined,
+): Promise<Result<ECSCluster[], string>> {
+  const clustersResult = await getECSClusters(ecsClient);
+  if (!clustersResult.success || !clusterName) {
+    return clustersResult;
+  }
+  const clusters = clustersResult.data.filter(
+    (cluster) => cluster.clusterName === clusterName,
+  );
+  return isEmpty(clusters)
+    ? failure(`ECS cluster "${clusterName}" not found`)
+    : success(clusters);
+}
+
+async function collectFromClusters<T>(
+  clusters: ECSCluster[],
+  fetch: (cluster: ECSCluster) => Promise<Result<T[], string>>,
+): Promise<Result<T[], string>> {
+  const items: T[] = [];
+  for (const batch of chunk(clusters, CLUSTER_BATCH_SIZE)) {
+    for (const result of await Promise.all(batch.map(fetch))) {
+      if (!result.success) {
+        return result;
+      }
+      items.push(...result.data);
+    }
+  }
+  return success(items);
+}
+
+async function listClusters(
+  ecsClient: ECSClient,
+  filters: ListFilters,
+): Promise<Result<ClusterListItem[], string>> {
+  const clustersResult = await getECSClusters(ecsClient);
+  if (!clustersResult.success) {
+    return clustersResult;
+  }
+  const clustersWithExecResult = await collectFromClusters(
+    keywordSearch(clustersResult.data, filters.query ?? "", (cluster) => [
+      cluster.clusterName,
+      cluster.clusterArn,
+    ]),
+    async (cluster) => {
+      const execResult = await checkECSExecCapability(ecsClient, cluster);
+      return success<ClusterListItem[]>([
+        execResult.success
+          ? { ...cluster, execCapable: execResult.data }
+          : { ...cluster, execCheckError: execResult.error },
+      ]);
+    },
+  );
+  if (!clustersWithExecResult.success) {
+    return clustersWithExecResult;
+  }
+  return success(
+    clustersWithExecResult.data.filter(
+      // A cluster whose check failed stays listed as "unknown"
+      (cluster) => !filters.execEnabled || cluster.execCapable !== false,
+    ),
+  );
+}
+
+async function listServices(
+  ecsClient: ECSClient,
+  filters: ListFilters,
+): Promise<Result<ECSService[], string>> {
+  const clustersResult = await getTargetClusters(ecsClient, filters.cluster);
+  if (!clustersResult.success) {
+    return clustersResult;
+  }
+  const servicesResult = await collectFromClusters(
+    clustersResult.data,
+    (cluster) => getECSServices(ecsClient, cluster),
+  );
+  if (!servicesResult.success) {
+    return servicesResult;
+  }
+  return success(
+    keywordSearch(servicesResult.data, filters.query ?? "", (service) => [
+      service.serviceName,
+      service.clusterName,
+      service.status,
+    ]).filter(
+      (service) =>
+        (!filters.execEnabled || service.enableExecuteCommand) &&
+        matchesStatus(service.status, filters.status),
+    ),
+  );
+}
+
+async function listTasks(
+  ecsClient: ECSClient,
+  filters: ListFilters,
+): Promise<Result<ECSTask[], string>> {
+  const clustersResult = await getTargetClusters(ecsClient, filters.cluster);
+  if (!clustersResult.success) {
+    return clustersResult;
+  }
+  const tasksResult = await collectFromClusters(
+    clustersResult.data,
+    (cluster) => getECSTasks(ecsClient, cluster),
+  );
+  if (!tasksResult.success) {
+    return tasksResult;
+  }
+  return success(
+    keywordSearch(tasksResult.data, filters.query ?? "", (task) => [
+      task.serviceName,
+      task.taskId,
+      task.displayName,
+      task.taskStatus,
+      task.clusterName,
+      task.runtimeId,
+      task.execReadiness?.status ?? "",
+    ]).filter(
+      (task) =>
+        (!filters.execEnabled || task.execReadiness?.status === "ready") &&
+        matchesStatus(task.taskStatus, filters.status),
+    ),
+  );
+}
+
+async function listRDS(
+  rdsClient: RDSClient,
+  filters: ListFilters,
+): Promise<Result<RDSInstance[], string>> {
+  const rdsResult = await getRDSInstances(rdsClient);
+  if (!rdsResult.success) {
+    return rdsResult;
+  }
+  return success(
+    keywordSearch(rdsResult.data, filters.query ?? "", (rds) => [
+      rds.dbInstanceIdentifier,
+      rds.engine,
+      rds.endpoint,
+      rds.endpointType ?? "",
+    ]).filter((rds) => matchesStatus(rds.dbInstanceStatus, filters.status)),
+  );
+}
+
+async function listRegions(
+  ec2Client: EC2Client,
+  filters: ListFilters,
+): Promise<Result<AWSRegion[], string>> {
+  const regionsResult = await getAWSRegions(ec2Client);
+  if (!regionsResult.success) {
+    return regionsResult;
+  }
+  return success(
+    keywordSearch(regionsResult.data, filters.query ?? "", (region) => [
+      region.regionName,
+    ]).filter((region) => matchesStatus(region.optInStatus, filters.status)),
+  );
+}
+
+/**
+ * Enumerate one kind of resource with the list filters applied
+ */
+export async function listResources(
+  resource: ListResource,
+  clients: ListClients,
+  filters: ListFilters,
+): Promise<Result<ResourceListing, string>> {
+  const filtersResult = validateListFilters(resource, filters);
+  if (!filtersResult.success) {
+    return filtersResult;
+  }
+
+  switch (resource) {
+    case "clusters": {
+      const result = await listClusters(clients.ecsClient, filters);
+      return result.success
+        ? success({ resource, items: result.data })
+        : result;
+    }
+    case "services": {
+      const result = await listServices(clients.ecsClient, filters);
+      return result.success
+        ? success({ resource, items: result.data })
+        : result;
+    }
+    case "tasks": {
+      const result = await listTasks(clients.ecsClient, filters);
+      return result.success
+        ? success({ resource, items: result.data })
+        : result;
+    }
+    case "rds": {
+      const result = await listRDS(clients.rdsClient, filters);
+      return result.success
+        ? success({ resource, items: result.data })
+        : result;
+    }
+    case "regions": {
+      const result = await listRegions(clients.ec2Client, filters);
+      return result.success
+        ? success({ resource, items: result.data })
+        : result;
+    }
+  }
+}
+
+function formatExecFlag(enabled: boolean | undefined): string {
+  if (enabled === undefined) return "unknown";
+  return enabled ? "enabled" : "disabled";
+}
+
+export function formatResourceTable(listing: ResourceListing): string[] {
+  switch (listing.resource) {
+    case "clusters":
+      return formatTable([
+        ["CLUSTER", "EXEC", "ARN"],
+        ...listing.items.map((cluster) => [
+          cluster.clusterName,
+          formatExecFlag(cluster.execCapable),
+          cluster.clusterArn,
+        ]),
+      ]);
+    case "services":
+      return formatTable([
+        ["CLUSTER", "SERVICE", "STATUS", "RUNNING", "EXEC"],
+        ...listing.items.map((service) => [
+          service.clusterName,
+          service.serviceName,
+          service.status,
+          `${service.runningCount}/${service.desiredCount}`,
+          formatExecFlag(service.enableExecuteCommand),
+        ]),
+      ]);
+    case "tasks":
+      return formatTable([
+        ["CLUSTER", "SERVICE", "TASK", "STATUS", "RUNTIME ID", "IP", "EXEC"],
+        ...listing.items.map((task) => [
+          task.clusterName,
+          task.serviceName,
+          task.taskId,
+          task.taskStatus,
+          task.runtimeId,
+          task.privateIpAddress ?? "-",
+          task.execReadiness?.status ?? "-",
+        ]),
+      ]);
+    case "rds":
+      return formatTable([
+        ["NAME", "ENGINE", "STATUS", "ENDPOINT", "PORT", "TYPE"],
+        ...listing.items.map((rds) => [
+          rds.dbInstanceIdentifier,
+          rds.engine,
+          rds.dbInstanceStatus,
+          rds.endpoint,
+          String(rds.port),
+          rds.endpointType ?? "instance",
+        ]),
+      ]);
+    case "regions":
+      return formatTable([
+        ["REGION", "OPT-IN STATUS"],
+        ...listing.items.map((region) => [
+          region.regionName,
+          region.optInStatus,
+        ]),
+      ]);
+  }
+}
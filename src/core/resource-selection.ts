@@ -3,6 +3,10 @@ import { ECSClient } from "@aws-sdk/client-ecs";
 import { RDSClient } from "@aws-sdk/client-rds";
 import { input, search } from "@inquirer/prompts";
 import { isDefined, isEmpty } from "remeda";
+import {
+  createAWSClientConfig,
+  pickCredentialOptions,
+} from "../aws-credentials.js";
 import {
   getAWSRegions,
   getECSClusters,
@@ -29,6 +33,7 @@ import { isFailure, parseRegionName, parseTaskArn } from "../types.js";
 import {
   findAvailablePortSafe,
   getDefaultPortForEngine,
+  getPromptContext,
   messages,
 } from "../utils/index.js";
 
@@ -78,7 +83,9 @@ export async function selectRegion(
   // Try to get default region from AWS config
   const defaultRegion: string | undefined = await (async () => {
     try {
-      const testClient = new EC2Client({});
+      const testClient = new EC2Client(
+        createAWSClientConfig(undefined, pickCredentialOptions(options)),
+      );
       return await testClient.config.region();
     } catch {
       return undefined;
@@ -86,7 +93,9 @@ export async function selectRegion(
   })();
 
   // Initialize EC2 client with default region to get region list
-  const defaultEc2Client = new EC2Client({ region: "us-east-1" });
+  const defaultEc2Client = new EC2Client(
+    createAWSClientConfig("us-east-1", pickCredentialOptions(options)),
+  );
 
   messages.warning("Getting available AWS regions...");
   const regionsResult = await getAWSRegions(defaultEc2Client);
@@ -106,13 +115,16 @@ export async function selectRegion(
 
   messages.info("filtered as you type (↑↓ to select, Enter to confirm)");
 
-  const selectedValue = await search({
-    message: "Search and select AWS region:",
-    source: async (input) => {
-      return await searchRegions(regions, input || "", defaultRegion);
+  const selectedValue = await search(
+    {
+      message: "Search and select AWS region:",
+      source: async (input) => {
+        return await searchRegions(regions, input || "", defaultRegion);
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   // Parse the selected region to ensure type safety
   if (typeof selectedValue !== "string") {
@@ -168,13 +180,16 @@ export async function selectCluster(
   messages.info(`Found ${clusters.length} clusters with ECS exec capability`);
   messages.info("filtered as you type (↑↓ to select, Enter to confirm)");
 
-  const selectedValue = await search({
-    message: "Search and select ECS cluster:",
-    source: async (input) => {
-      return await searchClusters(clusters, input || "");
+  const selectedValue = await search(
+    {
+      message: "Search and select ECS cluster:",
+      source: async (input) => {
+        return await searchClusters(clusters, input || "");
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   if (!isECSCluster(selectedValue)) {
     throw new Error("Invalid cluster selection");
@@ -212,13 +227,16 @@ export async function selectTask(
     throw new Error("No running ECS tasks found");
   }
 
-  const selectedValue = await search({
-    message: "Search and select ECS task:",
-    source: async (input) => {
-      return await searchTasks(tasks, input || "");
+  const selectedValue = await search(
+    {
+      message: "Search and select ECS task:",
+      source: async (input) => {
+        return await searchTasks(tasks, input || "");
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   if (!isTaskArnShape(selectedValue)) {
     throw new Error("Invalid task selection");
@@ -270,13 +288,16 @@ export async function selectRDSInstance(
     throw new Error("No RDS instances found");
   }
 
-  const selectedValue = await search({
-    message: "Search and select RDS instance:",
-    source: async (input) => {
-      return await searchRDS(rdsInstances, input || "");
+  const selectedValue = await search(
+    {
+      message: "Search and select RDS instance:",
+      source: async (input) => {
+        return await searchRDS(rdsInstances, input || "");
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   if (!isRDSInstance(selectedValue)) {
     throw new Error("Invalid RDS instance selection");
@@ -330,14 +351,19 @@ export async function getLocalPort(
   messages.warning(
     "Could not find available port automatically. Please specify manually:",
   );
-  const localPortInput = await input({
-    message: "Enter local port number:",
-    default: "8888",
-    validate: (inputValue: string) => {
-      const parseResult = parsePort(inputValue || "8888");
-      return parseResult.success ? true : `Invalid port: ${parseResult.error}`;
+  const localPortInput = await input(
+    {
+      message: "Enter local port number:",
+      default: "8888",
+      validate: (inputValue: string) => {
+        const parseResult = parsePort(inputValue || "8888");
+        return parseResult.success
+          ? true
+          : `Invalid port: ${parseResult.error}`;
+      },
     },
-  });
+    getPromptContext(),
+  );
   return localPortInput;
 }
 
@@ -351,8 +377,9 @@ export async function selectAllResources(
   const region = await selectRegion(options);
 
   // Initialize AWS clients
-  const ecsClient = new ECSClient({ region });
-  const rdsClient = new RDSClient({ region });
+  const credentials = pickCredentialOptions(options);
+  const ecsClient = new ECSClient(createAWSClientConfig(region, credentials));
+  const rdsClient = new RDSClient(createAWSClientConfig(region, credentials));
 
   // Select resources
   const cluster = await selectCluster(ecsClient, options);
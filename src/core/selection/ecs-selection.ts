@@ -1,3 +1,5 @@
+import type { EC2Client } from "@aws-sdk/client-ec2";
+import type { SSMClient } from "@aws-sdk/client-ssm";
 import { search } from "@inquirer/prompts";
 import { isEmpty } from "remeda";
 import type { InferenceResult } from "../../inference/index.js";
@@ -6,17 +8,31 @@ import { isTaskArnShape } from "../../regex.js";
 import { searchInferenceResults } from "../../search.js";
 import type { ECSTargetSelectionParams, TaskArn } from "../../types.js";
 import { unwrapBrandedString } from "../../types.js";
-import { messages } from "../../utils/index.js";
+import { getPromptContext, messages } from "../../utils/index.js";
 import { clearLoadingMessage } from "../ui/display-utils.js";
+import { resolveServiceTask } from "./service-task-selection.js";
 
 // UI Configuration constants
 const DEFAULT_PAGE_SIZE = 50;
 
+/**
+ * Warn when a task given on the command line cannot reach the database
+ */
+function warnIfUnreachable(inference: InferenceResult): void {
+  if (inference.network?.verdict === "unreachable") {
+    messages.warning(
+      `This task may not be able to reach the database: ${inference.network.reason}`,
+    );
+  }
+}
+
 /**
  * Handle ECS target selection with inference
  */
 export async function selectECSTarget(
   params: ECSTargetSelectionParams & {
+    ssmClient?: SSMClient;
+    ec2Client?: EC2Client;
     selections: {
       ecsTarget?: string;
       ecsCluster?: string;
@@ -27,7 +43,8 @@ export async function selectECSTarget(
     };
   },
 ): Promise<{ selectedInference: InferenceResult; selectedTask: TaskArn }> {
-  const { ecsClient, selectedRDS, options, selections } = params;
+  const { ecsClient, ssmClient, ec2Client, selectedRDS, options, selections } =
+    params;
 
   messages.warning(
     "Searching all ECS clusters for targets with exec capability that can connect to this RDS...",
@@ -35,6 +52,7 @@ export async function selectECSTarget(
 
   const inferenceResults = await inferECSTargets({
     ecsClient,
+    ec2Client,
     selectedRDS,
   });
 
@@ -75,20 +93,59 @@ export async function selectECSTarget(
       selections.ecsTarget = unwrapBrandedString(matchingResult.task.taskArn);
       messages.success(`✓ ECS cluster (from CLI): ${options.cluster}`);
       messages.success(`✓ ECS task (from CLI): ${options.task}`);
+      warnIfUnreachable(inference);
       return { selectedInference: inference, selectedTask: task };
     }
 
     messages.warning(`Specified cluster/task not found in inference results`);
   }
 
+  // Resolve --service to one of its healthy, exec-ready running tasks (task ids change on every deploy)
+  if (options.service) {
+    const serviceResults = inferenceResults.filter(
+      (result) =>
+        result.task.serviceName === options.service &&
+        (!options.cluster || result.cluster.clusterName === options.cluster),
+    );
+    const strategy = options.pick ?? "newest";
+    const resolvedTask = await resolveServiceTask({
+      tasks: serviceResults.map((result) => result.task),
+      strategy,
+      ssmClient,
+    });
+    const resolved = serviceResults.find(
+      (result) => result.task.taskArn === resolvedTask?.taskArn,
+    );
+
+    if (resolved) {
+      selections.ecsCluster = unwrapBrandedString(resolved.cluster.clusterName);
+      selections.ecsTarget = unwrapBrandedString(resolved.task.taskArn);
+      messages.success(
+        `✓ ECS service (from CLI): ${options.service} → ${resolved.task.taskId} (${strategy})`,
+      );
+      warnIfUnreachable(resolved);
+      return {
+        selectedInference: resolved,
+        selectedTask: resolved.task.taskArn,
+      };
+    }
+
+    messages.warning(
+      `No healthy running task ready for ECS Exec found for service "${options.service}", showing all targets`,
+    );
+  }
+
   // If no matching result or no CLI options provided, show search prompt
-  const selectedInference = await search({
-    message: "Select ECS target:",
-    source: async (input) => {
-      return await searchInferenceResults(inferenceResults, input || "");
+  const selectedInference = await search(
+    {
+      message: "Select ECS target:",
+      source: async (input) => {
+        return await searchInferenceResults(inferenceResults, input || "");
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   if (
     !selectedInference ||
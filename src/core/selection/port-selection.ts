@@ -5,6 +5,7 @@ import type { Port, SelectionState } from "../../types.js";
 import {
   findAvailablePort,
   getPortRange,
+  getPromptContext,
   isPortRange,
   messages,
 } from "../../utils/index.js";
@@ -41,17 +42,20 @@ export async function selectLocalPort(
     return `${availablePort}`;
   } catch {
     // If auto-detection fails, ask user for input
-    const port = await input({
-      message: "Enter local port number:",
-      default: "8888",
-      validate: (inputValue) => {
-        const port = parseInt(inputValue || "8888", 10);
-        const [minPort, maxPort] = getPortRange();
-        return isPortRange(port)
-          ? true
-          : `Please enter a valid port number (${minPort}-${maxPort})`;
+    const port = await input(
+      {
+        message: "Enter local port number:",
+        default: "8888",
+        validate: (inputValue) => {
+          const port = parseInt(inputValue || "8888", 10);
+          const [minPort, maxPort] = getPortRange();
+          return isPortRange(port)
+            ? true
+            : `Please enter a valid port number (${minPort}-${maxPort})`;
+        },
       },
-    });
+      getPromptContext(),
+    );
 
     const portResult = parsePort(port);
     if (!portResult.success) throw new Error(portResult.error);
@@ -0,0 +1,79 @@
+import { search } from "@inquirer/prompts";
+import { loadAWSProfiles } from "../../aws-profiles.js";
+import { searchProfiles } from "../../search.js";
+import type { AWSCredentialOptions, AWSProfile } from "../../types.js";
+import { getPromptContext, messages } from "../../utils/index.js";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+function isAWSProfile(value: unknown): value is AWSProfile {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "profileName" in value &&
+    "isSSO" in value
+  );
+}
+
+/**
+ * Handle AWS profile selection logic (optional step zero of the Simple UI flows).
+ * Returns undefined when the current credentials should be used as-is.
+ */
+export async function selectProfile(
+  options: AWSCredentialOptions,
+): Promise<AWSProfile | undefined> {
+  // An explicit role without a profile always uses the default credential chain
+  if (options.roleArn && !options.profile) {
+    return undefined;
+  }
+
+  const profilesResult = await loadAWSProfiles();
+  if (!profilesResult.success) {
+    messages.warning(profilesResult.error);
+    return undefined;
+  }
+  const profiles = profilesResult.data;
+
+  if (options.profile) {
+    messages.success(`✓ Profile (from CLI): ${options.profile}`);
+    return (
+      profiles.find((profile) => profile.profileName === options.profile) ?? {
+        profileName: options.profile,
+        isSSO: false,
+      }
+    );
+  }
+
+  // Static credentials in the environment take precedence over any profile
+  if (process.env.AWS_ACCESS_KEY_ID) {
+    return undefined;
+  }
+
+  const namedProfiles = profiles.filter(
+    (profile) => profile.profileName !== "default",
+  );
+  if (namedProfiles.length === 0) {
+    return undefined;
+  }
+
+  const selectedProfile = await search(
+    {
+      message: "Search and select AWS profile:",
+      source: async (input) => {
+        return await searchProfiles(
+          profiles,
+          input || "",
+          process.env.AWS_PROFILE || "default",
+        );
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
+    },
+    getPromptContext(),
+  );
+
+  if (!isAWSProfile(selectedProfile)) {
+    throw new Error("Invalid profile selection");
+  }
+
+  return selectedProfile;
+}
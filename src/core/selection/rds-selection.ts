@@ -1,10 +1,18 @@
+import type { ElastiCacheClient } from "@aws-sdk/client-elasticache";
 import type { RDSClient } from "@aws-sdk/client-rds";
 import { search } from "@inquirer/prompts";
-import { getRDSInstances } from "../../aws-services.js";
+import {
+  getElastiCacheEndpoints,
+  getRDSInstances,
+} from "../../aws-services.js";
 import { searchRDS } from "../../search.js";
 import { parseDBInstanceIdentifier, parsePort } from "../../types/parsers.js";
-import type { RDSInstance, SelectionState } from "../../types.js";
-import { getDefaultPortForEngine, messages } from "../../utils/index.js";
+import type { RDSInstance, Result, SelectionState } from "../../types.js";
+import {
+  getDefaultPortForEngine,
+  getPromptContext,
+  messages,
+} from "../../utils/index.js";
 import { clearLoadingMessage } from "../ui/display-utils.js";
 
 const DEFAULT_PAGE_SIZE = 50;
@@ -17,60 +25,102 @@ export async function selectRDSInstance(
   options: { rds?: string },
   selections: SelectionState,
 ): Promise<RDSInstance> {
-  if (options.rds) {
-    const rdsIdResult = parseDBInstanceIdentifier(options.rds);
+  return selectForwardTarget(
+    {
+      rds: options.rds,
+      label: "RDS instance",
+      loadTargets: () => getRDSInstances(rdsClient),
+    },
+    selections,
+  );
+}
+
+/**
+ * Handle ElastiCache endpoint selection (connect --target-type elasticache)
+ */
+export async function selectElastiCacheEndpoint(
+  elastiCacheClient: ElastiCacheClient,
+  options: { rds?: string },
+  selections: SelectionState,
+): Promise<RDSInstance> {
+  return selectForwardTarget(
+    {
+      rds: options.rds,
+      label: "ElastiCache endpoint",
+      loadTargets: () => getElastiCacheEndpoints(elastiCacheClient),
+    },
+    selections,
+  );
+}
+
+/**
+ * Pick the forward target given by --rds, or let the user search for one
+ */
+async function selectForwardTarget(
+  params: {
+    rds?: string;
+    label: string;
+    loadTargets: () => Promise<Result<RDSInstance[], string>>;
+  },
+  selections: SelectionState,
+): Promise<RDSInstance> {
+  const { rds, label, loadTargets } = params;
+
+  if (rds) {
+    const rdsIdResult = parseDBInstanceIdentifier(rds);
     if (!rdsIdResult.success) throw new Error(rdsIdResult.error);
 
     selections.rds = rdsIdResult.data;
-    messages.success(`✓ RDS (from CLI): ${options.rds}`);
-    messages.info("Validating RDS instance...");
-
-    const rdsInstancesResult = await getRDSInstances(rdsClient);
-    if (!rdsInstancesResult.success) {
-      throw new Error(
-        `Failed to get RDS instances: ${rdsInstancesResult.error}`,
-      );
+    messages.success(`✓ ${label} (from CLI): ${rds}`);
+    messages.info(`Validating ${label}...`);
+
+    const targetsResult = await loadTargets();
+    if (!targetsResult.success) {
+      throw new Error(`Failed to get ${label}s: ${targetsResult.error}`);
     }
 
-    const rdsInstance = rdsInstancesResult.data.find(
-      (r) => String(r.dbInstanceIdentifier) === options.rds,
+    const target = targetsResult.data.find(
+      (r) => String(r.dbInstanceIdentifier) === rds,
     );
 
-    if (!rdsInstance) {
-      throw new Error(`RDS instance not found: ${options.rds}`);
+    if (!target) {
+      throw new Error(`${label} not found: ${rds}`);
     }
 
-    return rdsInstance;
+    return target;
   }
 
-  messages.warning("Getting RDS instances...");
-  const rdsInstancesResult = await getRDSInstances(rdsClient);
-  if (!rdsInstancesResult.success) {
-    throw new Error(`Failed to get RDS instances: ${rdsInstancesResult.error}`);
+  messages.warning(`Getting ${label}s...`);
+  const targetsResult = await loadTargets();
+  if (!targetsResult.success) {
+    throw new Error(`Failed to get ${label}s: ${targetsResult.error}`);
   }
 
-  const rdsInstances = rdsInstancesResult.data;
-  if (rdsInstances.length === 0) {
-    throw new Error("No RDS instances found");
+  const targets = targetsResult.data;
+  if (targets.length === 0) {
+    throw new Error(`No ${label}s found`);
   }
 
   // Clear the loading message
   clearLoadingMessage();
 
-  const selectedRDS = await search({
-    message: "Search and select RDS instance:",
-    source: async (input) => {
-      return await searchRDS(rdsInstances, input || "");
+  const selectedRDS = await search(
+    {
+      message: `Search and select ${label}:`,
+      source: async (input) => {
+        return await searchRDS(targets, input || "");
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   if (
     !selectedRDS ||
     typeof selectedRDS !== "object" ||
     !("dbInstanceIdentifier" in selectedRDS)
   ) {
-    throw new Error("Invalid RDS selection");
+    throw new Error(`Invalid ${label} selection`);
   }
 
   const rdsInstance = selectedRDS as RDSInstance;
@@ -1,11 +1,15 @@
 import { EC2Client } from "@aws-sdk/client-ec2";
 import { search } from "@inquirer/prompts";
 import { isEmpty } from "remeda";
+import {
+  createAWSClientConfig,
+  pickCredentialOptions,
+} from "../../aws-credentials.js";
 import { getAWSRegions } from "../../aws-services.js";
 import { searchRegions } from "../../search.js";
 import { parseRegionName } from "../../types/parsers.js";
-import type { SelectionState } from "../../types.js";
-import { messages } from "../../utils/index.js";
+import type { AWSCredentialOptions, SelectionState } from "../../types.js";
+import { getPromptContext, messages } from "../../utils/index.js";
 import { clearLoadingMessage } from "../ui/display-utils.js";
 
 const DEFAULT_PAGE_SIZE = 50;
@@ -14,8 +18,9 @@ const DEFAULT_PAGE_SIZE = 50;
  * Handle region selection logic
  */
 export async function selectRegion(
-  options: { region?: string },
+  options: { region?: string } & AWSCredentialOptions,
   selections: SelectionState,
+  defaultRegion?: string,
 ): Promise<string> {
   if (options.region) {
     const regionResult = parseRegionName(options.region);
@@ -28,6 +33,7 @@ export async function selectRegion(
 
   // Show initial UI state - convert branded types to strings for display
   const displaySelections = {
+    profile: selections.profile ? String(selections.profile) : undefined,
     region: selections.region ? String(selections.region) : undefined,
     rds: selections.rds ? String(selections.rds) : undefined,
     rdsPort: selections.rdsPort ? String(selections.rdsPort) : undefined,
@@ -38,7 +44,9 @@ export async function selectRegion(
   messages.ui.displaySelectionState(displaySelections);
 
   // Initialize EC2 client with default region to get region list
-  const defaultEc2Client = new EC2Client({ region: "us-east-1" });
+  const defaultEc2Client = new EC2Client(
+    createAWSClientConfig("us-east-1", pickCredentialOptions(options)),
+  );
 
   messages.warning("Getting available AWS regions...");
   const regionsResult = await getAWSRegions(defaultEc2Client);
@@ -54,13 +62,16 @@ export async function selectRegion(
   // Clear the loading message and show search prompt
   clearLoadingMessage();
 
-  const selectedRegion = await search({
-    message: "Search and select AWS region:",
-    source: async (input) => {
-      return await searchRegions(regions, input || "");
+  const selectedRegion = await search(
+    {
+      message: "Search and select AWS region:",
+      source: async (input) => {
+        return await searchRegions(regions, input || "", defaultRegion);
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   if (typeof selectedRegion !== "string") {
     throw new Error("Invalid region selection");
@@ -0,0 +1,108 @@
+import { ECSClient } from "@aws-sdk/client-ecs";
+import { SSMClient } from "@aws-sdk/client-ssm";
+import { createAWSClientConfig } from "../../aws-credentials.js";
+import { getActiveSessionCounts, getECSTasks } from "../../aws-services.js";
+import type {
+  AWSCredentialOptions,
+  ECSCluster,
+  ExecReadiness,
+  RegionName,
+  ServiceName,
+  TaskArn,
+  TaskPickStrategy,
+  TaskStatus,
+} from "../../types.js";
+import { messages } from "../../utils/index.js";
+
+interface PickableTask {
+  taskArn: TaskArn;
+  taskStatus: TaskStatus;
+  healthStatus?: string;
+  createdAt?: Date;
+  execReadiness?: ExecReadiness;
+}
+
+/**
+ * A task is a connection candidate when it is RUNNING, not reported UNHEALTHY,
+ * and (when readiness is known) ready for ECS Exec
+ */
+export function isHealthyRunningTask(task: PickableTask): boolean {
+  return (
+    task.taskStatus === "RUNNING" &&
+    task.healthStatus !== "UNHEALTHY" &&
+    (!task.execReadiness || task.execReadiness.status === "ready")
+  );
+}
+
+/**
+ * Pick one task of a service by strategy.
+ * "least-loaded" prefers the task with the fewest active sessions; ties (and "newest") go to the newest task.
+ */
+export function pickServiceTask<T extends PickableTask>(
+  tasks: T[],
+  strategy: TaskPickStrategy,
+  sessionCounts?: Map<TaskArn, number>,
+): T | undefined {
+  const [picked] = tasks.filter(isHealthyRunningTask).sort((a, b) => {
+    if (strategy === "least-loaded" && sessionCounts) {
+      const loadDiff =
+        (sessionCounts.get(a.taskArn) ?? 0) -
+        (sessionCounts.get(b.taskArn) ?? 0);
+      if (loadDiff !== 0) return loadDiff;
+    }
+    return (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+  });
+  return picked;
+}
+
+/**
+ * Resolve a service to one of its tasks, looking up session counts when needed
+ */
+export async function resolveServiceTask<T extends PickableTask>(params: {
+  tasks: T[];
+  strategy: TaskPickStrategy;
+  ssmClient?: SSMClient;
+}): Promise<T | undefined> {
+  const { tasks, strategy, ssmClient } = params;
+  if (strategy !== "least-loaded" || !ssmClient) {
+    return pickServiceTask(tasks, "newest");
+  }
+
+  const countsResult = await getActiveSessionCounts(
+    ssmClient,
+    tasks.filter(isHealthyRunningTask).map((task) => task.taskArn),
+  );
+  if (!countsResult.success) {
+    messages.warning(`${countsResult.error} Falling back to the newest task.`);
+    return pickServiceTask(tasks, "newest");
+  }
+
+  return pickServiceTask(tasks, strategy, countsResult.data);
+}
+
+/**
+ * Create a function that looks the service up again and returns its current task
+ */
+export function createServiceTaskResolver(params: {
+  region: RegionName;
+  cluster: ECSCluster;
+  service: ServiceName;
+  pick?: TaskPickStrategy;
+  credentials?: AWSCredentialOptions;
+}): () => Promise<TaskArn | undefined> {
+  const { region, cluster, service, pick, credentials } = params;
+  const ecsClient = new ECSClient(createAWSClientConfig(region, credentials));
+  const ssmClient = new SSMClient(createAWSClientConfig(region, credentials));
+
+  return async () => {
+    const tasksResult = await getECSTasks(ecsClient, cluster);
+    if (!tasksResult.success) throw new Error(tasksResult.error);
+
+    const task = await resolveServiceTask({
+      tasks: tasksResult.data.filter((task) => task.serviceName === service),
+      strategy: pick ?? "newest",
+      ssmClient,
+    });
+    return task?.taskArn;
+  };
+}
@@ -1,13 +1,30 @@
+import { EC2Client } from "@aws-sdk/client-ec2";
 import { ECSClient } from "@aws-sdk/client-ecs";
+import { ElastiCacheClient } from "@aws-sdk/client-elasticache";
 import { RDSClient } from "@aws-sdk/client-rds";
-import type { ValidatedConnectOptions } from "../types.js";
+import { SSMClient } from "@aws-sdk/client-ssm";
+import {
+  createAWSClientConfig,
+  pickCredentialOptions,
+} from "../aws-credentials.js";
+import type {
+  HandleConnectionParams,
+  ValidatedConnectOptions,
+} from "../types.js";
 import { parsePort, unwrapBrandedString } from "../types.js";
-import { askRetry, displayFriendlyError, messages } from "../utils/index.js";
+import {
+  askRetry,
+  displayFriendlyError,
+  emitJSON,
+  messages,
+} from "../utils/index.js";
 import { handleConnection } from "./connection/rds-connection.js";
 import { selectECSTarget } from "./selection/ecs-selection.js";
 import { selectLocalPort } from "./selection/port-selection.js";
+import { selectProfile } from "./selection/profile-selection.js";
 import {
   determineRDSPort,
+  selectElastiCacheEndpoint,
   selectRDSInstance,
 } from "./selection/rds-selection.js";
 import { selectRegion } from "./selection/region-selection.js";
@@ -70,6 +87,17 @@ async function connectToRDSWithSimpleUIInternal(
     messages.info("Starting AWS ECS RDS connection tool with Simple UI...");
   }
 
+  // Step 6: Handle Connection or Dry Run
+  await handleConnection(await selectConnectionTarget(options));
+}
+
+/**
+ * Walk through profile, region, RDS, ECS target and local port selection.
+ * Values given in options are used as-is; the rest is selected interactively.
+ */
+export async function selectConnectionTarget(
+  options: ValidatedConnectOptions,
+): Promise<HandleConnectionParams> {
   // Initialize selection state - convert branded types to strings only for UI
   const selections = initializeSelectionState({
     region: options.region ? options.region : undefined,
@@ -79,13 +107,36 @@ async function connectToRDSWithSimpleUIInternal(
     rdsPort: options.rdsPort ? String(options.rdsPort) : undefined,
     localPort: options.localPort ? String(options.localPort) : undefined,
     dryRun: options.dryRun,
+    profile: options.profile,
+    roleArn: options.roleArn,
   });
 
-  // Step 1: Select Region
-  const selectedRegion = await selectRegion(options, selections);
+  // Step 0: Select AWS Profile (optional)
+  messages.ui.displaySelectionState({
+    region: selections.region ? String(selections.region) : undefined,
+    rds: selections.rds ? String(selections.rds) : undefined,
+    rdsPort: selections.rdsPort ? String(selections.rdsPort) : undefined,
+    ecsTarget: selections.ecsTarget,
+    ecsCluster: selections.ecsCluster,
+    localPort: selections.localPort ? String(selections.localPort) : undefined,
+  });
+  const selectedProfile = await selectProfile(options);
+  selections.profile = selectedProfile?.profileName;
+  const connectOptions: ValidatedConnectOptions = {
+    ...options,
+    profile: selections.profile,
+  };
+
+  // Step 1: Select Region (pre-filled with the profile's default region)
+  const selectedRegion = await selectRegion(
+    connectOptions,
+    selections,
+    selectedProfile?.region,
+  );
 
   // Update UI with region selection - convert branded types to strings for display
   const displaySelections1 = {
+    profile: selections.profile ? String(selections.profile) : undefined,
     region: selections.region ? String(selections.region) : undefined,
     rds: selections.rds ? String(selections.rds) : undefined,
     rdsPort: selections.rdsPort ? String(selections.rdsPort) : undefined,
@@ -96,11 +147,28 @@ async function connectToRDSWithSimpleUIInternal(
   messages.ui.displaySelectionState(displaySelections1);
 
   // Initialize AWS clients
-  const ecsClient = new ECSClient({ region: selectedRegion });
-  const rdsClient = new RDSClient({ region: selectedRegion });
+  const credentials = pickCredentialOptions(connectOptions);
+  const ecsClient = new ECSClient(
+    createAWSClientConfig(selectedRegion, credentials),
+  );
+  const ssmClient = new SSMClient(
+    createAWSClientConfig(selectedRegion, credentials),
+  );
 
-  // Step 2: Select RDS Instance
-  const selectedRDS = await selectRDSInstance(rdsClient, options, selections);
+  // Step 2: Select RDS Instance (or ElastiCache endpoint)
+  const clientConfig = createAWSClientConfig(selectedRegion, credentials);
+  const selectedRDS =
+    options.targetType === "elasticache"
+      ? await selectElastiCacheEndpoint(
+          new ElastiCacheClient(clientConfig),
+          options,
+          selections,
+        )
+      : await selectRDSInstance(
+          new RDSClient(clientConfig),
+          options,
+          selections,
+        );
 
   // Step 3: Determine RDS Port
   const rdsPort = determineRDSPort(
@@ -113,6 +181,7 @@ async function connectToRDSWithSimpleUIInternal(
 
   // Update UI with RDS and port selection
   const displaySelections2 = {
+    profile: selections.profile ? String(selections.profile) : undefined,
     region: selections.region ? String(selections.region) : undefined,
     rds: selections.rds ? String(selections.rds) : undefined,
     rdsPort: selections.rdsPort ? String(selections.rdsPort) : undefined,
@@ -125,9 +194,13 @@ async function connectToRDSWithSimpleUIInternal(
   // Step 4: ECS Target Selection with Inference
   const { selectedInference, selectedTask } = await selectECSTarget({
     ecsClient,
+    ssmClient,
+    ec2Client: new EC2Client(clientConfig),
     selectedRDS,
     options: {
       cluster: options.cluster,
+      service: options.service,
+      pick: options.pick,
       task: options.task,
     },
     selections: {
@@ -141,6 +214,7 @@ async function connectToRDSWithSimpleUIInternal(
       rdsPort: selections.rdsPort ? String(selections.rdsPort) : undefined,
     },
   });
+  emitJSON("inference", { ...selectedInference });
 
   // selectionsに反映（UI表示用）
   selections.ecsTarget = unwrapBrandedString(selectedTask);
@@ -148,6 +222,7 @@ async function connectToRDSWithSimpleUIInternal(
 
   // Update UI with ECS target selection
   const displaySelections3 = {
+    profile: selections.profile ? String(selections.profile) : undefined,
     region: selections.region ? String(selections.region) : undefined,
     rds: selections.rds ? String(selections.rds) : undefined,
     rdsPort: selections.rdsPort ? String(selections.rdsPort) : undefined,
@@ -167,6 +242,7 @@ async function connectToRDSWithSimpleUIInternal(
 
   // Final display with all selections complete
   const displaySelections4 = {
+    profile: selections.profile ? String(selections.profile) : undefined,
     region: selections.region ? String(selections.region) : undefined,
     rds: selections.rds ? String(selections.rds) : undefined,
     rdsPort: selections.rdsPort ? String(selections.rdsPort) : undefined,
@@ -176,18 +252,17 @@ async function connectToRDSWithSimpleUIInternal(
   };
   messages.ui.displaySelectionState(displaySelections4);
 
-  // Step 6: Handle Connection or Dry Run - use correct parameter order
   const rdsPortResult = parsePort(rdsPort);
   if (!rdsPortResult.success) throw new Error(rdsPortResult.error);
 
-  await handleConnection({
+  return {
     selections,
     selectedInference,
     selectedRDS,
     selectedTask,
     rdsPort: rdsPortResult.data,
-    options,
-  });
+    options: connectOptions,
+  };
 }
 
 /**
@@ -248,8 +323,9 @@ async function handleDirectDryRun(
   const rdsIdResult = parseDBInstanceIdentifier(String(options.rds));
   if (!rdsIdResult.success) throw new Error(rdsIdResult.error);
 
+  // Cluster and cache endpoint identifiers contain ":", which is not valid in a hostname
   const endpointResult = parseDBEndpoint(
-    `${String(options.rds)}.region.rds.amazonaws.com`,
+    `${String(options.rds).replaceAll(":", "-")}.region.rds.amazonaws.com`,
   );
   if (!endpointResult.success) throw new Error(endpointResult.error);
 
@@ -269,6 +345,7 @@ async function handleDirectDryRun(
     vpcSecurityGroups: [],
     dbSubnetGroup: undefined,
     createdTime: undefined,
+    targetType: options.targetType,
   };
 
   // Generate and display dry run result
@@ -279,6 +356,8 @@ async function handleDirectDryRun(
     rdsInstance: mockRDSInstance,
     rdsPort: rdsPortResult.data,
     localPort: localPortResult.data,
+    keepAlive: options.keepAlive,
+    credentials: pickCredentialOptions(options),
   });
 
   displayDryRunResult(dryRunResult);
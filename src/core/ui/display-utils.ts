@@ -1,10 +1,10 @@
+import { messages } from "../../utils/index.js";
+
 /**
  * Clear the loading message from the terminal
  */
 export function clearLoadingMessage(): void {
-  process.stdout.write("\x1b[1A"); // Move cursor up
-  process.stdout.write("\x1b[2K"); // Clear line
-  process.stdout.write("\r"); // Move to start
+  messages.clearPreviousLine();
 }
 
 /**
@@ -18,6 +18,8 @@ export function displayCLIArguments(options: {
   rdsPort?: string;
   localPort?: string;
   dryRun?: boolean;
+  profile?: string;
+  roleArn?: string;
 }): string[] {
   const cliArgs = [];
   if (options.region) cliArgs.push(`--region ${options.region}`);
@@ -27,6 +29,26 @@ export function displayCLIArguments(options: {
   if (options.rdsPort) cliArgs.push(`--rds-port ${options.rdsPort}`);
   if (options.localPort) cliArgs.push(`--local-port ${options.localPort}`);
   if (options.dryRun) cliArgs.push(`--dry-run`);
+  if (options.profile) cliArgs.push(`--profile ${options.profile}`);
+  if (options.roleArn) cliArgs.push(`--role-arn ${options.roleArn}`);
 
   return cliArgs;
 }
+
+/**
+ * Align rows (header first) into space-separated columns
+ */
+export function formatTable(rows: string[][]): string[] {
+  const widths: number[] = [];
+  for (const row of rows) {
+    row.forEach((cell, column) => {
+      widths[column] = Math.max(widths[column] ?? 0, cell.length);
+    });
+  }
+  return rows.map((row) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+      .join("  ")
+      .trimEnd(),
+  );
+}
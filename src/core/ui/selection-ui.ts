@@ -14,6 +14,8 @@ export function initializeSelectionState(options: {
   rdsPort?: string;
   localPort?: string;
   dryRun?: boolean;
+  profile?: string;
+  roleArn?: string;
 }): SelectionState {
   const parsed = parseSelectionState({
     region: options.region,
@@ -19,7 +19,7 @@ import type {
   TaskArn,
 } from "../types.js";
 import { isFailure, parseRegionName, parseTaskArn } from "../types.js";
-import { messages } from "../utils/index.js";
+import { getPromptContext, messages } from "../utils/index.js";
 
 const DEFAULT_PAGE_SIZE = 50;
 
@@ -63,13 +63,16 @@ export async function promptForRegion(params: {
   const { regions, defaultRegion } = params;
   messages.info("filtered as you type (↑↓ to select, Enter to confirm)");
 
-  const selectedValue = await search({
-    message: "Search and select AWS region:",
-    source: async (input) => {
-      return await searchRegions(regions, input || "", defaultRegion);
+  const selectedValue = await search(
+    {
+      message: "Search and select AWS region:",
+      source: async (input) => {
+        return await searchRegions(regions, input || "", defaultRegion);
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   if (!isRegionName(selectedValue)) {
     throw new Error("Invalid region selection");
@@ -89,13 +92,16 @@ export async function promptForCluster(params: {
   const { clusters } = params;
   messages.info("filtered as you type (↑↓ to select, Enter to confirm)");
 
-  const selectedValue = await search({
-    message: "Search and select ECS cluster:",
-    source: async (input) => {
-      return await searchClusters(clusters, input || "");
+  const selectedValue = await search(
+    {
+      message: "Search and select ECS cluster:",
+      source: async (input) => {
+        return await searchClusters(clusters, input || "");
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   if (!isECSCluster(selectedValue)) {
     throw new Error("Invalid cluster selection");
@@ -108,13 +114,16 @@ export async function promptForTask(params: {
   tasks: ECSTask[];
 }): Promise<TaskArn> {
   const { tasks } = params;
-  const selectedValue = await search({
-    message: "Search and select ECS task:",
-    source: async (input) => {
-      return await searchTasks(tasks, input || "");
+  const selectedValue = await search(
+    {
+      message: "Search and select ECS task:",
+      source: async (input) => {
+        return await searchTasks(tasks, input || "");
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   if (!isTaskArnShape(selectedValue)) {
     throw new Error("Invalid task selection");
@@ -132,13 +141,16 @@ export async function promptForRDS(params: {
   rdsInstances: RDSInstance[];
 }): Promise<RDSInstance> {
   const { rdsInstances } = params;
-  const selectedValue = await search({
-    message: "Search and select RDS instance:",
-    source: async (input) => {
-      return await searchRDS(rdsInstances, input || "");
+  const selectedValue = await search(
+    {
+      message: "Search and select RDS instance:",
+      source: async (input) => {
+        return await searchRDS(rdsInstances, input || "");
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   if (!isRDSInstance(selectedValue)) {
     throw new Error("Invalid RDS instance selection");
@@ -151,14 +163,17 @@ export async function promptForInferenceResult(params: {
   inferenceResults: InferenceResult[];
 }): Promise<InferenceResult> {
   const { inferenceResults } = params;
-  const selectedValue = await search({
-    message:
-      "Select ECS target (filter with keywords like 'prod web' or 'staging api'):",
-    source: async (input) => {
-      return await searchInferenceResults(inferenceResults, input || "");
+  const selectedValue = await search(
+    {
+      message:
+        "Select ECS target (filter with keywords like 'prod web' or 'staging api'):",
+      source: async (input) => {
+        return await searchInferenceResults(inferenceResults, input || "");
+      },
+      pageSize: DEFAULT_PAGE_SIZE,
     },
-    pageSize: DEFAULT_PAGE_SIZE,
-  });
+    getPromptContext(),
+  );
 
   if (!isInferenceResult(selectedValue)) {
     throw new Error("Invalid inference result selection");
@@ -168,14 +183,19 @@ export async function promptForInferenceResult(params: {
 }
 
 export async function promptForLocalPort(): Promise<Port> {
-  const portString = await input({
-    message: "Enter local port number:",
-    default: "8888",
-    validate: (inputValue: string) => {
-      const parseResult = parsePort(inputValue || "8888");
-      return parseResult.success ? true : `Invalid port: ${parseResult.error}`;
+  const portString = await input(
+    {
+      message: "Enter local port number:",
+      default: "8888",
+      validate: (inputValue: string) => {
+        const parseResult = parsePort(inputValue || "8888");
+        return parseResult.success
+          ? true
+          : `Invalid port: ${parseResult.error}`;
+      },
     },
-  });
+    getPromptContext(),
+  );
 
   const parseResult = parsePort(portString);
   if (isFailure(parseResult)) {
@@ -0,0 +1,56 @@
+import { randomBytes } from "node:crypto";
+import { join } from "node:path";
+import { readStateFile, writeStateFile } from "./state-file.js";
+import { getStateDir } from "./tunnels.js";
+import {
+  type ExecJournalEntry,
+  parseExecJournal,
+  type Result,
+  success,
+} from "./types.js";
+
+export function getExecJournalFile(): string {
+  return join(getStateDir(), "exec-journal.json");
+}
+
+export function generateJournalEntryId(): string {
+  return randomBytes(4).toString("hex");
+}
+
+/**
+ * Load every recorded exec change, oldest first
+ */
+export async function loadExecJournal(): Promise<
+  Result<ExecJournalEntry[], string>
+> {
+  const result = await readStateFile(getExecJournalFile(), parseExecJournal, {
+    entries: [],
+  });
+  return result.success ? success(result.data.entries) : result;
+}
+
+/**
+ * Append entries to the journal. The file is replaced atomically, and entries are never rewritten
+ */
+export async function appendExecJournal(
+  entries: ExecJournalEntry[],
+): Promise<Result<void, string>> {
+  return writeStateFile(getExecJournalFile(), loadExecJournal, (recorded) => ({
+    entries: [...recorded, ...entries],
+  }));
+}
+
+/**
+ * Entries that changed the exec flag and have not been reverted yet, newest first
+ */
+export function getRevertableEntries(
+  entries: ExecJournalEntry[],
+): ExecJournalEntry[] {
+  const reverted = new Set(entries.map((entry) => entry.revertOf));
+  return entries
+    .filter(
+      (entry) =>
+        entry.previousState !== entry.newState && !reverted.has(entry.id),
+    )
+    .reverse();
+}
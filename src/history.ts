@@ -0,0 +1,127 @@
+import { randomBytes } from "node:crypto";
+import { join } from "node:path";
+import { readStateFile, writeStateFile } from "./state-file.js";
+import { getStateDir } from "./tunnels.js";
+import {
+  type HistoryEntry,
+  parseConnectionHistory,
+  type Result,
+  success,
+} from "./types.js";
+import { recordUsage } from "./usage.js";
+import { messages } from "./utils/index.js";
+
+// Older entries are dropped so the file stays small
+const MAX_HISTORY_ENTRIES = 200;
+
+export function getHistoryFile(): string {
+  return join(getStateDir(), "history.json");
+}
+
+/**
+ * Load recorded sessions, oldest first
+ */
+export async function loadHistory(): Promise<Result<HistoryEntry[], string>> {
+  const result = await readStateFile(getHistoryFile(), parseConnectionHistory, {
+    entries: [],
+  });
+  return result.success ? success(result.data.entries) : result;
+}
+
+/**
+ * Append a session to the history, replacing the file atomically
+ */
+export async function recordHistory(
+  entry: Omit<HistoryEntry, "id">,
+): Promise<Result<HistoryEntry, string>> {
+  const recorded = { ...entry, id: randomBytes(3).toString("hex") };
+  const writeResult = await writeStateFile(
+    getHistoryFile(),
+    loadHistory,
+    (entries) => ({
+      entries: [...entries, recorded].slice(-MAX_HISTORY_ENTRIES),
+    }),
+  );
+  if (!writeResult.success) return writeResult;
+  return success(recorded);
+}
+
+/**
+ * Record a session that ran, and count its region, cluster, service and RDS
+ * for picker ordering. A write failure only warns, it never fails the session
+ */
+export async function recordSessionHistory(
+  entry: Omit<HistoryEntry, "id">,
+): Promise<void> {
+  const result = await recordHistory(entry);
+  if (!result.success) {
+    messages.warning(`Could not record the session history: ${result.error}`);
+  }
+
+  const usageResult = await recordUsage([
+    { kind: "region", name: entry.region },
+    { kind: "cluster", name: entry.cluster },
+    ...(entry.service
+      ? [{ kind: "service" as const, name: entry.service }]
+      : []),
+    ...(entry.rds ? [{ kind: "rds" as const, name: entry.rds }] : []),
+  ]);
+  if (!usageResult.success) {
+    messages.warning(`Could not record picker usage: ${usageResult.error}`);
+  }
+}
+
+/**
+ * Most recent connect session, for connect --last
+ */
+export function getLastConnection(
+  entries: HistoryEntry[],
+): HistoryEntry | undefined {
+  return entries.findLast((entry) => entry.kind === "connect");
+}
+
+/**
+ * Raw command options that replay an entry. With a service, the task is left out
+ * so a fresh one is resolved (task ids change on every deploy)
+ */
+export function getReplayOptions(entry: HistoryEntry): Record<string, unknown> {
+  const target = entry.service
+    ? { service: entry.service, pick: entry.pick }
+    : { task: entry.task };
+  const common = {
+    region: entry.region,
+    cluster: entry.cluster,
+    ...target,
+    ...entry.credentials,
+  };
+  return entry.kind === "connect"
+    ? {
+        ...common,
+        targetType: entry.targetType,
+        rds: entry.rds,
+        rdsPort: entry.rdsPort,
+        localPort: entry.localPort,
+      }
+    : { ...common, container: entry.container, command: entry.command };
+}
+
+/**
+ * One-line description of where a session went
+ */
+export function describeHistoryEntry(entry: HistoryEntry): string {
+  const target = `${entry.cluster}/${entry.service ?? entry.task}`;
+  return entry.kind === "connect"
+    ? `${target} → ${entry.rds} (localhost:${entry.localPort})`
+    : `${target} ${entry.container}: ${entry.command}`;
+}
+
+export function formatDuration(durationMs: number | undefined): string {
+  if (durationMs === undefined) return "detached";
+  const totalSeconds = Math.round(durationMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h${minutes}m`;
+  if (minutes > 0) return `${minutes}m${seconds}s`;
+  return `${seconds}s`;
+}
@@ -1,12 +1,16 @@
 import { splitByHyphenUnderscore, splitByWordSeparators } from "../regex.js";
-import type { ClusterInferenceParams } from "../types.js";
+import type {
+  ClusterInferenceParams,
+  ClusterNameScore,
+  ScoreContribution,
+} from "../types.js";
 
 /**
- * RDS名からECSクラスター名を推論する関数
+ * RDS名と各ECSクラスター名を照合し、スコアの内訳付きで高スコア順に返す関数
  */
-export function inferClustersFromRDSName(
+export function scoreClustersFromRDSName(
   params: ClusterInferenceParams,
-): string[] {
+): ClusterNameScore[] {
   const { rdsName, allClusters } = params;
 
   const rdsSegments = splitByHyphenUnderscore(rdsName.toLowerCase());
@@ -40,58 +44,97 @@ export function inferClustersFromRDSName(
       // スコア計算ロジックを関数型で実装
       const scoreCalculations = [
         // 完全一致
-        { condition: clusterName === rdsLower, score: 100 },
+        {
+          condition: clusterName === rdsLower,
+          score: 100,
+          detail: "Cluster name equals the RDS name",
+        },
         // プレフィックス一致
         {
           condition:
             clusterName.startsWith(rdsLower) ||
             rdsLower.startsWith(clusterName),
           score: 80,
+          detail: "Cluster name and RDS name share a prefix",
         },
         // 部分一致
-        { condition: clusterName.includes(rdsLower), score: 70 },
+        {
+          condition: clusterName.includes(rdsLower),
+          score: 70,
+          detail: "Cluster name contains the RDS name",
+        },
         // 逆部分一致
         {
           condition: rdsLower.includes(clusterName) && clusterName.length > 3,
           score: 60,
+          detail: "RDS name contains the cluster name",
         },
       ];
 
-      // セグメント一致のスコア
-      const segmentScore =
-        rdsSegments.filter(
-          (segment) => segment.length > 2 && clusterName.includes(segment),
-        ).length * 30;
-
-      // 単語一致のスコア
-      const wordScore =
-        rdsWords.filter((word) => word.length > 2 && clusterName.includes(word))
-          .length * 15;
-
-      // 環境指標一致のスコア
-      const envScore =
-        envIndicators.filter(
-          (env) => rdsLower.includes(env) && clusterName.includes(env),
-        ).length * 25;
-
-      // 共通パターン一致のスコア
-      const patternScore =
-        commonPatterns.filter(
-          (pattern) =>
-            rdsLower.includes(pattern) && clusterName.includes(pattern),
-        ).length * 20;
+      const breakdown: ScoreContribution[] = [
+        ...scoreCalculations
+          .filter((calc) => calc.condition)
+          .map((calc) => ({
+            rule: "name" as const,
+            points: calc.score,
+            detail: calc.detail,
+          })),
+        // セグメント一致のスコア
+        ...rdsSegments
+          .filter(
+            (segment) => segment.length > 2 && clusterName.includes(segment),
+          )
+          .map((segment) => ({
+            rule: "segment" as const,
+            points: 30,
+            detail: `Segment "${segment}"`,
+          })),
+        // 単語一致のスコア
+        ...rdsWords
+          .filter((word) => word.length > 2 && clusterName.includes(word))
+          .map((word) => ({
+            rule: "word" as const,
+            points: 15,
+            detail: `Word "${word}"`,
+          })),
+        // 環境指標一致のスコア
+        ...envIndicators
+          .filter((env) => rdsLower.includes(env) && clusterName.includes(env))
+          .map((env) => ({
+            rule: "env-indicator" as const,
+            points: 25,
+            detail: `Environment "${env}"`,
+          })),
+        // 共通パターン一致のスコア
+        ...commonPatterns
+          .filter(
+            (pattern) =>
+              rdsLower.includes(pattern) && clusterName.includes(pattern),
+          )
+          .map((pattern) => ({
+            rule: "pattern" as const,
+            points: 20,
+            detail: `Pattern "${pattern}"`,
+          })),
+      ];
 
       // 総スコア計算
-      const baseScore = scoreCalculations
-        .filter((calc) => calc.condition)
-        .reduce((total, calc) => total + calc.score, 0);
-
-      const totalScore =
-        baseScore + segmentScore + wordScore + envScore + patternScore;
+      const totalScore = breakdown.reduce(
+        (total, contribution) => total + contribution.points,
+        0,
+      );
 
-      return { clusterName: cluster.clusterName, score: totalScore };
+      return { clusterName: cluster.clusterName, score: totalScore, breakdown };
     })
     .filter((item) => item.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .map((item) => item.clusterName);
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * RDS名からECSクラスター名を推論する関数
+ */
+export function inferClustersFromRDSName(
+  params: ClusterInferenceParams,
+): string[] {
+  return scoreClustersFromRDSName(params).map((item) => item.clusterName);
 }
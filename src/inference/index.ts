@@ -1,12 +1,23 @@
 // 型定義をエクスポート
 export interface InferenceResult {
   cluster: import("../types.js").ECSCluster;
-  task: Omit<import("../types.js").ECSTask, "realTaskArn" | "createdAt">;
+  task: Omit<import("../types.js").ECSTask, "realTaskArn">;
   confidence: "high" | "medium" | "low";
   method: "environment" | "naming" | "network";
   score: number;
   reason: string;
   reasons: string[];
+  network?: NetworkAssessment;
+  // スコアに加算された各ルールの内訳（合計がscoreになる）
+  breakdown?: import("../types.js").ScoreContribution[];
+  // クラスター名とRDS名の照合結果（推論対象のクラスターのみ）
+  clusterNaming?: import("../types.js").ClusterNameScore;
+}
+
+// セキュリティグループから判定したタスク→DBの到達可能性
+export interface NetworkAssessment {
+  verdict: "reachable" | "unreachable" | "unknown";
+  reason: string;
 }
 
 export interface InferenceMatch {
@@ -25,9 +36,16 @@ export interface InferenceMatch {
   match_details?: Record<string, unknown>;
 }
 
-export { inferClustersFromRDSName } from "./cluster-inference.js";
+export {
+  inferClustersFromRDSName,
+  scoreClustersFromRDSName,
+} from "./cluster-inference.js";
 // メイン推論関数とフォーマッタ
 export { formatInferenceResult, inferECSTargets } from "./main-inference.js";
+export {
+  analyzeNetworkReachability,
+  assessReachability,
+} from "./network-analyzer.js";
 // 分割されたモジュールからの再エクスポート
 export type { PerformanceMetrics } from "./performance-tracker.js";
 export { PerformanceTracker } from "./performance-tracker.js";
@@ -1,19 +1,26 @@
+import type { EC2Client } from "@aws-sdk/client-ec2";
 import type { ECSClient } from "@aws-sdk/client-ecs";
 import { isDefined } from "remeda";
 import {
   getECSClustersWithExecCapability,
   getECSTasksWithExecCapability,
 } from "../aws-services.js";
-import type { ECSCluster, RDSInstance } from "../types.js";
+import type { ECSCluster, RDSInstance, TaskDefinitionCache } from "../types.js";
 import { parseClusterName } from "../types.js";
 import { messages } from "../utils/messages.js";
-import { inferClustersFromRDSName } from "./cluster-inference.js";
+import { scoreClustersFromRDSName } from "./cluster-inference.js";
 import type { InferenceResult } from "./index.js";
+import {
+  analyzeNetworkReachability,
+  applyNetworkAssessment,
+} from "./network-analyzer.js";
 import { PerformanceTracker } from "./performance-tracker.js";
 import { scoreTasksAgainstRDS, scoreTasksByNaming } from "./task-scoring.js";
 
 interface InferECSTargetsParams {
   ecsClient: ECSClient;
+  // Enables network reachability analysis
+  ec2Client?: EC2Client;
   selectedRDS: RDSInstance;
   enablePerformanceTracking?: boolean;
   enableNetworkAnalysis?: boolean;
@@ -28,7 +35,9 @@ export async function inferECSTargets(
   const {
     ecsClient,
     selectedRDS: rdsInstance,
+    ec2Client,
     enablePerformanceTracking = false,
+    enableNetworkAnalysis = true,
   } = params;
   const tracker = new PerformanceTracker();
   const results: InferenceResult[] = [];
@@ -40,6 +49,8 @@ export async function inferECSTargets(
       naming: [],
       network: [],
     };
+    // Task definitions are shared by tasks of a service, so fetch each only once
+    const taskDefinitionCache: TaskDefinitionCache = new Map();
     tracker.endStep();
 
     tracker.startStep("Get ECS clusters with exec capability");
@@ -51,10 +62,22 @@ export async function inferECSTargets(
 
     tracker.startStep("RDS name-based cluster inference");
     // Phase 0: Infer likely ECS clusters from RDS name (performance optimization)
-    const likelyClusterNames = inferClustersFromRDSName({
-      rdsName: rdsInstance.dbInstanceIdentifier,
+    const clusterScores = scoreClustersFromRDSName({
+      // Cluster endpoints are named after their cluster, not "<cluster>:<endpoint>"
+      rdsName:
+        rdsInstance.dbClusterIdentifier ?? rdsInstance.dbInstanceIdentifier,
       allClusters,
     });
+    const likelyClusterNames: string[] = clusterScores.map(
+      (clusterScore) => clusterScore.clusterName,
+    );
+    // --explain用にクラスター名照合の内訳を結果へ付与する
+    const clusterScoreMap = new Map(
+      clusterScores.map((clusterScore) => [
+        clusterScore.clusterName,
+        clusterScore,
+      ]),
+    );
     // likelyClusterNamesはstring[]の可能性があるのでparseしてbranded typesに
     const likelyClusters = likelyClusterNames
       .map((name) => {
@@ -86,10 +109,12 @@ export async function inferECSTargets(
               cluster,
               rdsInstance,
               analysisResults,
+              taskDefinitionCache,
             });
             return scored.map((result) => ({
               ...result,
-              reasons: [result.reason],
+              reasons: [result.reason, ...(result.matchDetails ?? [])],
+              clusterNaming: clusterScoreMap.get(cluster.clusterName),
             }));
           } else {
             return [];
@@ -104,7 +129,7 @@ export async function inferECSTargets(
     results.push(...highScoreResults.flat());
     tracker.endStep();
 
-    // Phase 2: 残りのクラスターもすべて検索（簡易スコアリング）
+    // Phase 2: 残りのクラスターもすべて検索（タスク定義の照合 + 名前による簡易スコアリング）
     tracker.startStep("Search tasks in remaining clusters");
     const remainingInferredClusters = likelyClusters.slice(4); // 推論された残りのクラスター
     const nonInferredClusters = allClusters.filter(
@@ -123,16 +148,40 @@ export async function inferECSTargets(
             if (!tasksResult.success) return [];
             const tasks = tasksResult.data;
             if (tasks.length > 0) {
-              const scored = await scoreTasksByNaming({
+              // クラスター名が一致しなくても、タスク定義がRDSを参照していれば高信頼度で返す
+              // （名前だけの一致はここでは採用せず、下の簡易スコアリングで低信頼度にする）
+              const environmentScored = await scoreTasksAgainstRDS({
+                ecsClient,
                 tasks,
                 cluster,
                 rdsInstance,
+                analysisResults,
+                taskDefinitionCache,
+                taskDefinitionOnly: true,
+              });
+              const environmentTaskArns = new Set(
+                environmentScored.map((result) => result.task.taskArn),
+              );
+              const namingScored = await scoreTasksByNaming({
+                tasks: tasks.filter(
+                  (task) => !environmentTaskArns.has(task.taskArn),
+                ),
+                cluster,
+                rdsInstance,
               });
-              return scored.map((result) => ({
-                ...result,
-                confidence: "low" as const, // 推論外のクラスターは低信頼度
-                reasons: [result.reason],
-              }));
+              return [
+                ...environmentScored.map((result) => ({
+                  ...result,
+                  reasons: [result.reason, ...(result.matchDetails ?? [])],
+                  clusterNaming: clusterScoreMap.get(cluster.clusterName),
+                })),
+                ...namingScored.map((result) => ({
+                  ...result,
+                  confidence: "low" as const, // 推論外のクラスターは低信頼度
+                  reasons: [result.reason],
+                  clusterNaming: clusterScoreMap.get(cluster.clusterName),
+                })),
+              ];
             } else {
               return [];
             }
@@ -146,6 +195,31 @@ export async function inferECSTargets(
     results.push(...remainingResults.flat());
     tracker.endStep();
 
+    // Phase 3: セキュリティグループから到達可能性を判定し、到達不可のタスクを降格
+    if (ec2Client && enableNetworkAnalysis) {
+      tracker.startStep("Network reachability analysis");
+      const networkResult = await analyzeNetworkReachability({
+        ec2Client,
+        rdsInstance,
+        tasks: results.map((result) => result.task),
+      });
+      if (networkResult.success) {
+        results.splice(
+          0,
+          results.length,
+          ...results.map((result) =>
+            applyNetworkAssessment(
+              result,
+              networkResult.data.get(result.task.taskArn),
+            ),
+          ),
+        );
+      } else {
+        messages.warning(`Skipping network analysis: ${networkResult.error}`);
+      }
+      tracker.endStep();
+    }
+
     // 有効なタスクと無効なタスクを分離
     const validResults = results.filter((result) => {
       return (
@@ -163,6 +237,11 @@ export async function inferECSTargets(
 
     // 有効な結果を信頼度とスコアでソート
     const sortedValidResults = validResults.sort((a, b) => {
+      // 到達不可と判定されたタスクは最後に回す
+      const unreachableDiff =
+        Number(a.network?.verdict === "unreachable") -
+        Number(b.network?.verdict === "unreachable");
+      if (unreachableDiff !== 0) return unreachableDiff;
       const confidenceOrder = { high: 3, medium: 2, low: 1 };
       const confidenceDiff =
         confidenceOrder[b.confidence] - confidenceOrder[a.confidence];
@@ -178,6 +257,14 @@ export async function inferECSTargets(
         confidence: "low" as const,
         score: 0,
         reason: `${result.reason} (タスク停止中 - 接続不可)`,
+        breakdown: [
+          ...(result.breakdown ?? []),
+          {
+            rule: "stopped" as const,
+            points: -result.score,
+            detail: "Task is not running",
+          },
+        ],
       })),
     ];
 
@@ -0,0 +1,204 @@
+import type { EC2Client } from "@aws-sdk/client-ec2";
+import { getNetworkInterfaces, getSecurityGroups } from "../aws-services.js";
+import type {
+  ECSTask,
+  NetworkInterfaceInfo,
+  RDSInstance,
+  Result,
+  SecurityGroupInfo,
+  SecurityGroupIngressRule,
+  TaskArn,
+} from "../types.js";
+import { failure, success } from "../types.js";
+import type { InferenceResult, NetworkAssessment } from "./index.js";
+
+/**
+ * IPv4アドレスがCIDRに含まれるか判定する
+ */
+function isIpInCidr(ip: string, cidr: string): boolean {
+  const [range = "", bitsText = "32"] = cidr.split("/");
+  const bits = Number.parseInt(bitsText, 10);
+  const toNumber = (address: string): number | undefined => {
+    const octets = address.split(".").map((octet) => Number(octet));
+    if (
+      octets.length !== 4 ||
+      octets.some(
+        (octet) => !Number.isInteger(octet) || octet < 0 || octet > 255,
+      )
+    ) {
+      return undefined;
+    }
+    return octets.reduce((value, octet) => value * 256 + octet, 0);
+  };
+  const ipValue = toNumber(ip);
+  const rangeValue = toNumber(range);
+  if (ipValue === undefined || rangeValue === undefined) return false;
+  if (bits === 0) return true;
+  const blockSize = 2 ** (32 - bits);
+  return Math.floor(ipValue / blockSize) === Math.floor(rangeValue / blockSize);
+}
+
+/**
+ * ルールがDBポートのTCP通信を対象にしているか
+ */
+function coversPort(rule: SecurityGroupIngressRule, port: number): boolean {
+  if (rule.protocol === "-1") return true;
+  if (rule.protocol !== "tcp" && rule.protocol !== "6") return false;
+  return (rule.fromPort ?? 0) <= port && port <= (rule.toPort ?? 65535);
+}
+
+/**
+ * DBのセキュリティグループのインバウンドルールがタスクのENIを許可しているか判定する
+ * （NACLやタスク側のアウトバウンドルールは見ない）
+ */
+export function assessReachability(params: {
+  dbSecurityGroups: SecurityGroupInfo[];
+  dbPort: number;
+  // DBサブネットグループのVPC
+  dbVpcId?: string;
+  networkInterface?: NetworkInterfaceInfo;
+}): NetworkAssessment {
+  const { dbSecurityGroups, dbPort, networkInterface } = params;
+
+  if (!networkInterface) {
+    return {
+      verdict: "unknown",
+      reason: "Task network interface could not be inspected",
+    };
+  }
+  if (dbSecurityGroups.length === 0) {
+    return {
+      verdict: "unknown",
+      reason: "Database security groups could not be inspected",
+    };
+  }
+
+  // サブネットグループのVPCが分からない場合は、同じVPCに属するDBのセキュリティグループから求める
+  const dbVpcId = params.dbVpcId ?? dbSecurityGroups[0]?.vpcId;
+  const sameVpc = !dbVpcId || dbVpcId === networkInterface.vpcId;
+  let undetermined = false;
+
+  for (const group of dbSecurityGroups) {
+    for (const rule of group.ingressRules) {
+      if (!coversPort(rule, dbPort)) continue;
+
+      const allowedGroup = rule.sourceGroupIds.find((groupId) =>
+        networkInterface.securityGroupIds.includes(groupId),
+      );
+      if (sameVpc && allowedGroup) {
+        return {
+          verdict: "reachable",
+          reason: `${group.groupId} allows ${allowedGroup} on port ${dbPort}`,
+        };
+      }
+
+      const { privateIpAddress } = networkInterface;
+      const allowedCidr = privateIpAddress
+        ? rule.cidrs.find((cidr) => isIpInCidr(privateIpAddress, cidr))
+        : undefined;
+      if (allowedCidr) {
+        return {
+          verdict: "reachable",
+          reason: `${group.groupId} allows ${allowedCidr} on port ${dbPort}`,
+        };
+      }
+
+      // プレフィックスリストの中身までは確認しない
+      if (rule.prefixListIds.length > 0) {
+        undetermined = true;
+      }
+    }
+  }
+
+  if (undetermined) {
+    return {
+      verdict: "unknown",
+      reason: `Port ${dbPort} is allowed from a prefix list that was not inspected`,
+    };
+  }
+  return {
+    verdict: "unreachable",
+    reason: sameVpc
+      ? `No ingress rule on ${dbSecurityGroups.map((g) => g.groupId).join(", ")} allows this task on port ${dbPort}`
+      : `Task is in ${networkInterface.vpcId ?? "another VPC"} but the database is in ${dbVpcId}, and no ingress rule allows its address`,
+  };
+}
+
+/**
+ * タスクごとにDBへの到達可能性を判定する
+ */
+export async function analyzeNetworkReachability(params: {
+  ec2Client: EC2Client;
+  rdsInstance: RDSInstance;
+  tasks: Omit<ECSTask, "realTaskArn">[];
+}): Promise<Result<Map<TaskArn, NetworkAssessment>, string>> {
+  const { ec2Client, rdsInstance, tasks } = params;
+
+  const groupsResult = await getSecurityGroups(
+    ec2Client,
+    rdsInstance.vpcSecurityGroups,
+  );
+  if (!groupsResult.success) return failure(groupsResult.error);
+
+  const interfaceIds = [
+    ...new Set(
+      tasks.flatMap((task) =>
+        task.networkInterfaceId ? [task.networkInterfaceId] : [],
+      ),
+    ),
+  ];
+  const interfacesResult = await getNetworkInterfaces(ec2Client, interfaceIds);
+  if (!interfacesResult.success) return failure(interfacesResult.error);
+  const interfaces = new Map(
+    interfacesResult.data.map((eni) => [eni.networkInterfaceId, eni]),
+  );
+
+  return success(
+    new Map(
+      tasks.map((task) => [
+        task.taskArn,
+        assessReachability({
+          dbSecurityGroups: groupsResult.data,
+          dbPort: rdsInstance.port,
+          dbVpcId: rdsInstance.vpcId,
+          networkInterface: task.networkInterfaceId
+            ? interfaces.get(task.networkInterfaceId)
+            : undefined,
+        }),
+      ]),
+    ),
+  );
+}
+
+/**
+ * 推論結果に到達可能性を反映する
+ * 到達可能なら加点（名前推論のみの結果はネットワーク推論に格上げ）、到達不可なら低信頼度に降格
+ */
+export function applyNetworkAssessment(
+  result: InferenceResult,
+  network: NetworkAssessment | undefined,
+): InferenceResult {
+  if (!network || network.verdict === "unknown") {
+    return network ? { ...result, network } : result;
+  }
+
+  const reasons = [...result.reasons, network.reason];
+  if (network.verdict === "unreachable") {
+    return { ...result, confidence: "low", reasons, network };
+  }
+
+  const promoted = result.method === "naming";
+  return {
+    ...result,
+    method: promoted ? "network" : result.method,
+    confidence:
+      promoted && result.confidence === "low" ? "medium" : result.confidence,
+    score: result.score + 15,
+    reasons,
+    breakdown: [
+      ...(result.breakdown ?? []),
+      { rule: "network", points: 15, detail: network.reason },
+    ],
+    network,
+  };
+}
@@ -1,6 +1,13 @@
+import type { ECSClient } from "@aws-sdk/client-ecs";
+import { getTaskDefinitionEnvironment } from "../aws-services.js";
 import type {
   ECSCluster,
   ECSTask,
+  RDSInstance,
+  Result,
+  ScoreContribution,
+  TaskDefinitionCache,
+  TaskDefinitionEnvironmentEntry,
   TaskEnvironmentCheckParams,
   TaskNamingScoringParams,
   TaskScoringParams,
@@ -9,39 +16,137 @@ import type {
 // 型定義（循環インポートを避けるため直接定義）
 interface TaskScoringResult {
   cluster: ECSCluster;
-  task: Omit<ECSTask, "realTaskArn" | "createdAt">;
+  task: Omit<ECSTask, "realTaskArn">;
   confidence: "high" | "medium" | "low";
   method: "environment" | "naming" | "network";
   score: number;
   reason: string;
+  matchDetails?: string[];
+  breakdown: ScoreContribution[];
+}
+
+// 接続先を表す環境変数名（DB_HOST, DATABASE_URL, JDBC_URL, REDIS_URL など）
+const CONNECTION_KEY_PATTERN =
+  /DB|DATABASE|JDBC|RDS|POSTGRES|PG_|MYSQL|MARIADB|REDIS|CACHE|MEMCACHE/i;
+
+/**
+ * タスク定義をARN単位でキャッシュして取得する（同じリビジョンは一度だけ取得）
+ */
+function getCachedTaskDefinitionEnvironment(
+  ecsClient: ECSClient,
+  taskDefinitionArn: string,
+  cache: TaskDefinitionCache,
+): Promise<Result<TaskDefinitionEnvironmentEntry[], string>> {
+  const cached = cache.get(taskDefinitionArn);
+  if (cached) {
+    return cached;
+  }
+  const pending = getTaskDefinitionEnvironment(ecsClient, taskDefinitionArn);
+  cache.set(taskDefinitionArn, pending);
+  return pending;
+}
+
+/**
+ * 環境変数・シークレットの中から選択中のRDSエンドポイントや識別子への参照を探す
+ */
+function findConnectionReferences(
+  entries: TaskDefinitionEnvironmentEntry[],
+  rdsInstance: RDSInstance,
+): { score: number; detail: string }[] {
+  const endpoint = rdsInstance.endpoint.toLowerCase();
+  // ElastiCacheの "<id>:<endpointType>" は識別子部分だけで照合する
+  const identifier = (
+    (rdsInstance.dbClusterIdentifier ?? rdsInstance.dbInstanceIdentifier).split(
+      ":",
+    )[0] ?? ""
+  ).toLowerCase();
+
+  return entries.flatMap((entry) => {
+    const value = entry.value.toLowerCase();
+    const location = `${entry.containerName}: ${entry.name} (${entry.source})`;
+    if (value.includes(endpoint)) {
+      return [{ score: 100, detail: `${location} references the endpoint` }];
+    }
+    // 識別子への参照はどのキーでも高信頼度とし、接続先らしいキー名なら少し優先する
+    if (identifier && value.includes(identifier)) {
+      return [
+        {
+          score: CONNECTION_KEY_PATTERN.test(entry.name) ? 85 : 80,
+          detail: `${location} references ${identifier}`,
+        },
+      ];
+    }
+    return [];
+  });
 }
 
 /**
- * タスクの環境変数を模擬的にチェックする関数
- * 実際のプロダクションでは、タスク定義のAPIから取得
+ * タスクの環境変数をチェックする関数
+ * タスク定義の environment / secrets を優先し、参照が見つからなければ名前から推論する
  */
 async function checkTaskEnvironmentVariables(
   params: TaskEnvironmentCheckParams,
-): Promise<{ hasMatch: boolean; score: number; matchDetails: string[] }> {
-  const { task, rdsInstance } = params;
+): Promise<{
+  hasMatch: boolean;
+  score: number;
+  matchDetails: string[];
+  breakdown: ScoreContribution[];
+  fromTaskDefinition: boolean;
+}> {
+  const { ecsClient, task, rdsInstance, taskDefinitionCache } = params;
 
-  // 実際の実装では、ECS describe-task-definition API を使用して環境変数を取得
-  // ここでは模擬的にタスク名とサービス名から推論
+  if (task.taskDefinitionArn && taskDefinitionCache) {
+    const environmentResult = await getCachedTaskDefinitionEnvironment(
+      ecsClient,
+      task.taskDefinitionArn,
+      taskDefinitionCache,
+    );
+    if (environmentResult.success) {
+      const references = findConnectionReferences(
+        environmentResult.data,
+        rdsInstance,
+      );
+      if (references.length > 0) {
+        // 複数の参照があっても最も強い参照のスコアだけを採用する
+        const strongest = references.reduce((best, reference) =>
+          reference.score > best.score ? reference : best,
+        );
+        return {
+          hasMatch: true,
+          score: strongest.score,
+          matchDetails: references.map((reference) => reference.detail),
+          breakdown: [
+            {
+              rule: "env-variable",
+              points: strongest.score,
+              detail: strongest.detail,
+            },
+          ],
+          fromTaskDefinition: true,
+        };
+      }
+    }
+  }
 
+  // タスク定義に参照がない（または取得できない）場合はタスク名とサービス名から推論
   const taskName = task.displayName.toLowerCase();
   const serviceName = task.serviceName.toLowerCase();
-  const rdsIdentifier = rdsInstance.dbInstanceIdentifier.toLowerCase();
+  const rdsIdentifier = (
+    rdsInstance.dbClusterIdentifier ?? rdsInstance.dbInstanceIdentifier
+  ).toLowerCase();
   const rdsSegments = rdsIdentifier.split("-").filter((s) => s.length > 2);
 
   // 基本マッチング条件を関数型で定義
   const basicMatches = [
     {
       condition: taskName.includes(rdsIdentifier),
+      rule: "name" as const,
       score: 40,
       detail: "Task name contains RDS identifier",
     },
     {
       condition: serviceName.includes(rdsIdentifier),
+      rule: "name" as const,
       score: 40,
       detail: "Service name contains RDS identifier",
     },
@@ -51,11 +156,13 @@ async function checkTaskEnvironmentVariables(
   const segmentMatches = rdsSegments.flatMap((segment) => [
     {
       condition: taskName.includes(segment),
+      rule: "segment" as const,
       score: 15,
       detail: `Task name segment match: ${segment}`,
     },
     {
       condition: serviceName.includes(segment),
+      rule: "segment" as const,
       score: 15,
       detail: `Service name segment match: ${segment}`,
     },
@@ -75,6 +182,12 @@ async function checkTaskEnvironmentVariables(
     hasMatch: totalScore > 20,
     score: totalScore,
     matchDetails,
+    breakdown: positiveMatches.map((match) => ({
+      rule: match.rule,
+      points: match.score,
+      detail: match.detail,
+    })),
+    fromTaskDefinition: false,
   };
 }
 
@@ -86,7 +199,9 @@ export async function scoreTasksByNaming(
 ): Promise<TaskScoringResult[]> {
   const { tasks, cluster, rdsInstance } = params;
 
-  const rdsName = rdsInstance.dbInstanceIdentifier.toLowerCase();
+  const rdsName = (
+    rdsInstance.dbClusterIdentifier ?? rdsInstance.dbInstanceIdentifier
+  ).toLowerCase();
   const rdsSegments = rdsName.split("-").filter((s) => s.length > 2);
 
   return tasks.map((task) => {
@@ -97,13 +212,17 @@ export async function scoreTasksByNaming(
     const scoreCalculations = [
       {
         condition: taskName.includes(rdsName),
+        rule: "name" as const,
         score: 35,
         reason: "完全名前一致",
+        detail: "Task name contains the RDS name",
       },
       {
         condition: serviceName.includes(rdsName),
+        rule: "name" as const,
         score: 30,
         reason: "サービス名一致",
+        detail: "Service name contains the RDS name",
       },
     ];
 
@@ -119,13 +238,17 @@ export async function scoreTasksByNaming(
       .flatMap((segment) => [
         {
           condition: taskName.includes(segment),
+          rule: "segment" as const,
           score: 20,
           reason: `セグメント一致: ${segment}`,
+          detail: `Task name segment match: ${segment}`,
         },
         {
           condition: serviceName.includes(segment),
+          rule: "segment" as const,
           score: 15,
           reason: `サービスセグメント一致: ${segment}`,
+          detail: `Service name segment match: ${segment}`,
         },
       ])
       .filter((calc) => calc.condition);
@@ -147,6 +270,14 @@ export async function scoreTasksByNaming(
       method: "naming" as const,
       score: totalScore,
       reason: "名前類似性関連",
+      breakdown: [
+        { rule: "base" as const, points: 25, detail: "Base score" },
+        ...[...baseResults, ...segmentResults].map((calc) => ({
+          rule: calc.rule,
+          points: calc.score,
+          detail: calc.detail,
+        })),
+      ],
     };
   });
 }
@@ -157,7 +288,8 @@ export async function scoreTasksByNaming(
 export async function scoreTasksAgainstRDS(
   params: TaskScoringParams,
 ): Promise<TaskScoringResult[]> {
-  const { ecsClient, tasks, cluster, rdsInstance } = params;
+  const { ecsClient, tasks, cluster, rdsInstance, taskDefinitionOnly } = params;
+  const taskDefinitionCache = params.taskDefinitionCache ?? new Map();
 
   // 各タスクの環境変数チェック結果を並列で取得
   const envCheckPromises = tasks.map(async (task) => {
@@ -165,6 +297,7 @@ export async function scoreTasksAgainstRDS(
       ecsClient,
       task,
       rdsInstance,
+      taskDefinitionCache,
     });
     return { task, envCheck };
   });
@@ -173,7 +306,11 @@ export async function scoreTasksAgainstRDS(
 
   // 環境変数マッチの結果を生成
   const envResults = envCheckResults
-    .filter(({ envCheck }) => envCheck.hasMatch)
+    .filter(
+      ({ envCheck }) =>
+        envCheck.hasMatch &&
+        (!taskDefinitionOnly || envCheck.fromTaskDefinition),
+    )
     .map(({ task, envCheck }) => {
       const confidence: "high" | "medium" | "low" =
         envCheck.score >= 80 ? "high" : envCheck.score >= 50 ? "medium" : "low";
@@ -183,7 +320,13 @@ export async function scoreTasksAgainstRDS(
         confidence,
         method: "environment" as const,
         score: envCheck.score,
-        reason: "データベース接続関連",
+        reason: envCheck.fromTaskDefinition
+          ? "タスク定義の接続設定"
+          : "データベース接続関連",
+        matchDetails: envCheck.fromTaskDefinition
+          ? envCheck.matchDetails
+          : undefined,
+        breakdown: envCheck.breakdown,
       };
     });
 
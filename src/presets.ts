@@ -0,0 +1,202 @@
+import { access, readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import {
+  failure,
+  type Preset,
+  type PresetConfig,
+  parsePresetConfig,
+  type Result,
+  success,
+  type ValidatedConnectOptions,
+  type ValidatedExecOptions,
+} from "./types.js";
+
+// Checked in this order in each directory while walking up from the cwd
+export const PRESET_FILE_NAMES = [
+  ".ecs-pf.json",
+  ".ecs-pf.yaml",
+  ".ecs-pf.yml",
+] as const;
+
+export interface LoadedPreset {
+  name: string;
+  path: string;
+  preset: Preset;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the nearest preset file by walking up from the given directory
+ */
+export async function findPresetFile(
+  startDir: string = process.cwd(),
+): Promise<string | undefined> {
+  let dir = startDir;
+  while (true) {
+    for (const fileName of PRESET_FILE_NAMES) {
+      const candidate = join(dir, fileName);
+      if (await fileExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read and validate the nearest preset file
+ */
+async function readPresetConfig(
+  name: string,
+  startDir?: string,
+): Promise<Result<{ path: string; config: PresetConfig }, string>> {
+  const path = await findPresetFile(startDir);
+  if (!path) {
+    return failure(
+      `Preset "${name}" requested but no ${PRESET_FILE_NAMES.join(" / ")} file was found`,
+    );
+  }
+
+  let raw: unknown;
+  try {
+    const text = await readFile(path, "utf8");
+    raw = path.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    return failure(
+      `Failed to read ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const configResult = parsePresetConfig(raw);
+  if (!configResult.success) {
+    return failure(`${path}: ${configResult.error}`);
+  }
+
+  return success({ path, config: configResult.data });
+}
+
+/**
+ * Load a named preset from the nearest .ecs-pf.json / .ecs-pf.yaml
+ */
+export async function loadPreset(
+  name: string,
+  startDir?: string,
+): Promise<Result<LoadedPreset, string>> {
+  const configResult = await readPresetConfig(name, startDir);
+  if (!configResult.success) {
+    return configResult;
+  }
+  const { path, config } = configResult.data;
+
+  const preset = config.presets[name];
+  if (!preset) {
+    const available = Object.keys(config.presets);
+    return failure(
+      `Preset "${name}" not found in ${path}. Available presets: ${available.join(", ") || "(none)"}`,
+    );
+  }
+
+  return success({ name, path, preset });
+}
+
+/**
+ * Load a preset or a preset group. A group expands to its member presets in order.
+ */
+export async function loadPresetOrGroup(
+  name: string,
+  startDir?: string,
+): Promise<Result<LoadedPreset[], string>> {
+  const configResult = await readPresetConfig(name, startDir);
+  if (!configResult.success) {
+    return configResult;
+  }
+  const { path, config } = configResult.data;
+
+  const members = config.groups?.[name];
+  if (!members) {
+    const preset = config.presets[name];
+    if (!preset) {
+      const available = [
+        ...Object.keys(config.presets),
+        ...Object.keys(config.groups ?? {}),
+      ];
+      return failure(
+        `Preset "${name}" not found in ${path}. Available presets: ${available.join(", ") || "(none)"}`,
+      );
+    }
+    return success([{ name, path, preset }]);
+  }
+
+  const loaded: LoadedPreset[] = [];
+  for (const member of members) {
+    const preset = config.presets[member];
+    if (!preset) {
+      return failure(
+        `Preset group "${name}" in ${path} refers to unknown preset "${member}"`,
+      );
+    }
+    loaded.push({ name: member, path, preset });
+  }
+  return success(loaded);
+}
+
+/**
+ * Fill connect options from a preset. Values given on the CLI take precedence;
+ * anything still missing is selected interactively.
+ */
+export function applyConnectPreset(
+  preset: Preset,
+  options: ValidatedConnectOptions,
+): ValidatedConnectOptions {
+  return {
+    ...options,
+    region: options.region ?? preset.region,
+    cluster: options.cluster ?? preset.cluster,
+    service: options.service ?? preset.service,
+    pick: options.pick ?? preset.pick,
+    targetType: options.targetType ?? preset.targetType,
+    rds: options.rds ?? preset.rds,
+    rdsPort: options.rdsPort ?? preset.rdsPort,
+    localPort: options.localPort ?? preset.localPort,
+    keepAlive: options.keepAlive ?? preset.keepAlive,
+    profile: options.profile ?? preset.profile,
+    roleArn: options.roleArn ?? preset.roleArn,
+    externalId: options.externalId ?? preset.externalId,
+  };
+}
+
+/**
+ * Fill exec options from a preset. Values given on the CLI take precedence;
+ * anything still missing is selected interactively.
+ */
+export function applyExecPreset(
+  preset: Preset,
+  options: ValidatedExecOptions,
+): ValidatedExecOptions {
+  return {
+    ...options,
+    region: options.region ?? preset.region,
+    cluster: options.cluster ?? preset.cluster,
+    service: options.service ?? preset.service,
+    pick: options.pick ?? preset.pick,
+    container: options.container ?? preset.container,
+    command: options.command ?? preset.command,
+    profile: options.profile ?? preset.profile,
+    roleArn: options.roleArn ?? preset.roleArn,
+    externalId: options.externalId ?? preset.externalId,
+  };
+}
@@ -1,27 +1,93 @@
+import { isDefined, isPlainObject } from "remeda";
 import { safeParse } from "valibot";
-import { connectToRDSWithSimpleUI } from "../aws-port-forward.js";
-import { ConnectOptionsSchema } from "../types.js";
+import {
+  connectMultipleWithSimpleUI,
+  connectToRDSWithSimpleUI,
+} from "../aws-port-forward.js";
+import {
+  describeHistoryEntry,
+  getLastConnection,
+  getReplayOptions,
+  loadHistory,
+} from "../history.js";
+import { applyConnectPreset, loadPresetOrGroup } from "../presets.js";
+import {
+  ConnectOptionsSchema,
+  type ValidatedConnectOptions,
+} from "../types.js";
 import {
   displayFriendlyError,
   displayParsingErrors,
   messages,
 } from "../utils/index.js";
 
-export async function runConnectCommand(rawOptions: unknown): Promise<void> {
+export async function runConnectCommand(
+  rawOptions: unknown,
+  presetName?: string,
+): Promise<void> {
   try {
-    // Validate options using Valibot
-    const { success, issues, output } = safeParse(
-      ConnectOptionsSchema,
-      rawOptions,
-    );
+    const cliOptions = isPlainObject(rawOptions) ? rawOptions : {};
+    let optionsList = parseConnectTargets(cliOptions);
+    if (optionsList[0]?.last) {
+      if (presetName) {
+        messages.error("--last cannot be combined with a preset");
+        process.exit(1);
+      }
+      optionsList = parseConnectTargets(
+        await getLastConnectionOptions(cliOptions),
+      );
+    }
 
-    if (!success) {
-      displayParsingErrors(issues);
+    const [options] = optionsList;
+    if (!presetName) {
+      if (!options) return;
+      if (optionsList.length === 1) {
+        // Always use interactive UI
+        await connectToRDSWithSimpleUI(options);
+        return;
+      }
+      await connectMultipleWithSimpleUI(
+        optionsList.map((target) => ({
+          name: String(target.rds),
+          options: target,
+        })),
+      );
+      return;
+    }
+
+    const presetResult = await loadPresetOrGroup(presetName);
+    if (!presetResult.success) {
+      messages.error(presetResult.error);
       process.exit(1);
     }
+    const presets = presetResult.data;
+    if (
+      presets.length > 1 &&
+      optionsList.some((target) => target.rds !== undefined)
+    ) {
+      messages.error("--rds cannot be combined with a preset group");
+      process.exit(1);
+    }
+    messages.info(
+      `Using preset "${presetName}" from ${presets[0]?.path ?? "preset file"}`,
+    );
 
-    // Always use interactive UI
-    await connectToRDSWithSimpleUI(output);
+    // Fields missing from the preset fall back to interactive selection
+    const targets = presets.flatMap((loaded) =>
+      optionsList.map((target) => {
+        const merged = applyConnectPreset(loaded.preset, target);
+        return {
+          name: presets.length > 1 ? loaded.name : String(merged.rds),
+          options: merged,
+        };
+      }),
+    );
+    const [single] = targets;
+    if (single && targets.length === 1) {
+      await connectToRDSWithSimpleUI(single.options);
+      return;
+    }
+    await connectMultipleWithSimpleUI(targets);
   } catch (error) {
     // If error occurs during retry process, error is already displayed, so show brief message
     if (
@@ -36,3 +102,48 @@ export async function runConnectCommand(rawOptions: unknown): Promise<void> {
     process.exit(1);
   }
 }
+
+/**
+ * Validate the options once per --rds, which may be repeated to forward several
+ * instances at once
+ */
+function parseConnectTargets(
+  rawOptions: Record<PropertyKey, unknown>,
+): ValidatedConnectOptions[] {
+  const { rds, ...restOptions } = rawOptions;
+  const rdsTargets = [rds].flat().filter(isDefined);
+
+  // Validate options using Valibot
+  return (rdsTargets.length > 0 ? rdsTargets : [undefined]).map((target) => {
+    const { success, issues, output } = safeParse(ConnectOptionsSchema, {
+      ...restOptions,
+      rds: target,
+    });
+    if (!success) {
+      displayParsingErrors(issues);
+      process.exit(1);
+    }
+    return output;
+  });
+}
+
+/**
+ * Options of the most recent connection, with flags given on the command line taking precedence
+ */
+async function getLastConnectionOptions(
+  cliOptions: Record<PropertyKey, unknown>,
+): Promise<Record<PropertyKey, unknown>> {
+  const historyResult = await loadHistory();
+  if (!historyResult.success) {
+    throw new Error(historyResult.error);
+  }
+  const entry = getLastConnection(historyResult.data);
+  if (!entry) {
+    throw new Error("No previous connection found in the history");
+  }
+
+  messages.info(
+    `Reconnecting to ${describeHistoryEntry(entry)} (last used ${entry.timestamp})`,
+  );
+  return { ...getReplayOptions(entry), ...cliOptions };
+}
@@ -0,0 +1,34 @@
+import { safeParse } from "valibot";
+import { disableECSExec } from "../aws-enable-exec.js";
+import { DisableExecOptionsSchema } from "../types.js";
+import { displayFriendlyError, messages } from "../utils/index.js";
+
+/**
+ * Run disable-exec command
+ */
+export async function runDisableExecCommand(
+  rawOptions: unknown,
+): Promise<void> {
+  try {
+    // Parse and validate options
+    const parseResult = safeParse(DisableExecOptionsSchema, rawOptions);
+
+    if (!parseResult.success) {
+      messages.error("Invalid options provided");
+      for (const issue of parseResult.issues) {
+        messages.error(
+          `  ${issue.path?.join(".") || "root"}: ${issue.message}`,
+        );
+      }
+      throw new Error("Invalid command options");
+    }
+
+    const options = parseResult.output;
+
+    // Execute disable-exec command
+    await disableECSExec(options);
+  } catch (error) {
+    displayFriendlyError(error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,46 @@
+import { safeParse } from "valibot";
+import { pickCredentialOptions } from "../aws-credentials.js";
+import { displayDoctorReport, runDoctorChecks } from "../core/doctor.js";
+import { DoctorOptionsSchema } from "../types.js";
+import {
+  displayFriendlyError,
+  displayParsingErrors,
+  emitJSON,
+  messages,
+} from "../utils/index.js";
+
+/**
+ * Run doctor command
+ */
+export async function runDoctorCommand(rawOptions: unknown): Promise<void> {
+  try {
+    const { success, issues, output } = safeParse(
+      DoctorOptionsSchema,
+      rawOptions,
+    );
+
+    if (!success) {
+      displayParsingErrors(issues);
+      process.exit(1);
+    }
+
+    const checks = await runDoctorChecks({
+      region: output.region,
+      credentials: pickCredentialOptions(output),
+      clusterName: output.cluster,
+      task: output.task,
+      requireAWSCLI: true,
+    });
+    displayDoctorReport(checks);
+    emitJSON("doctor", { checks });
+
+    if (checks.some((check) => check.status === "fail")) {
+      messages.error("Some checks failed");
+      process.exit(1);
+    }
+    messages.success("✓ Ready to start sessions");
+  } catch (error) {
+    displayFriendlyError(error);
+    process.exit(1);
+  }
+}
@@ -1,5 +1,6 @@
 import { safeParse } from "valibot";
 import { execECSTaskWithSimpleUI } from "../aws-exec.js";
+import { applyExecPreset, loadPreset } from "../presets.js";
 import { ExecOptionsSchema } from "../types.js";
 import {
   displayFriendlyError,
@@ -7,7 +8,10 @@ import {
   messages,
 } from "../utils/index.js";
 
-export async function runExecTaskCommand(rawOptions: unknown): Promise<void> {
+export async function runExecTaskCommand(
+  rawOptions: unknown,
+  presetName?: string,
+): Promise<void> {
   try {
     // Validate options using Valibot
     const { success, issues, output } = safeParse(
@@ -20,8 +24,25 @@ export async function runExecTaskCommand(rawOptions: unknown): Promise<void> {
       process.exit(1);
     }
 
-    // Always use interactive UI
-    await execECSTaskWithSimpleUI(output);
+    if (!presetName) {
+      // Always use interactive UI
+      await execECSTaskWithSimpleUI(output);
+      return;
+    }
+
+    const presetResult = await loadPreset(presetName);
+    if (!presetResult.success) {
+      messages.error(presetResult.error);
+      process.exit(1);
+    }
+    messages.info(
+      `Using preset "${presetName}" from ${presetResult.data.path}`,
+    );
+
+    // Fields missing from the preset fall back to interactive selection
+    await execECSTaskWithSimpleUI(
+      applyExecPreset(presetResult.data.preset, output),
+    );
   } catch (error) {
     // If error occurs during retry process, error is already displayed, so show brief message
     if (
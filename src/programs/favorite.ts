@@ -0,0 +1,71 @@
+import { safeParse } from "valibot";
+import { formatTable } from "../core/ui/display-utils.js";
+import { FavoriteOptionsSchema, UsageKindSchema } from "../types.js";
+import { loadUsage, setFavorite } from "../usage.js";
+import {
+  displayFriendlyError,
+  displayParsingErrors,
+  emitJSON,
+  isJSONOutput,
+  messages,
+} from "../utils/index.js";
+
+/**
+ * Run favorite command: star or unstar an item, or list the starred ones
+ */
+export async function runFavoriteCommand(
+  rawOptions: unknown,
+  kind?: string,
+  name?: string,
+): Promise<void> {
+  try {
+    const parseResult = safeParse(FavoriteOptionsSchema, rawOptions);
+    if (!parseResult.success) {
+      displayParsingErrors(parseResult.issues);
+      process.exit(1);
+    }
+
+    if (!kind) {
+      const usageResult = await loadUsage();
+      if (!usageResult.success) throw new Error(usageResult.error);
+      const { favorites } = usageResult.data;
+      if (isJSONOutput()) {
+        emitJSON("favorites", { favorites });
+        return;
+      }
+      if (favorites.length === 0) {
+        messages.info(
+          "No favorites yet (add one with: ecs-pf favorite <kind> <name>)",
+        );
+        return;
+      }
+      for (const line of formatTable([
+        ["KIND", "NAME"],
+        ...favorites.map((favorite) => [favorite.kind, favorite.name]),
+      ])) {
+        messages.log(line);
+      }
+      return;
+    }
+
+    const kindResult = safeParse(UsageKindSchema, kind);
+    if (!kindResult.success) {
+      throw new Error(kindResult.issues[0].message);
+    }
+    if (!name) {
+      throw new Error(`Specify the ${kind} name to star`);
+    }
+
+    const starred = !parseResult.output.remove;
+    const result = await setFavorite(kindResult.output, name, starred);
+    if (!result.success) throw new Error(result.error);
+    messages.success(
+      starred
+        ? `★ ${kind} "${name}" is shown first in pickers`
+        : `Removed ${kind} "${name}" from favorites`,
+    );
+  } catch (error) {
+    displayFriendlyError(error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,117 @@
+import { search } from "@inquirer/prompts";
+import { safeParse } from "valibot";
+import { execECSTaskWithSimpleUI } from "../aws-exec.js";
+import { connectToRDSWithSimpleUI } from "../aws-port-forward.js";
+import { formatTable } from "../core/ui/display-utils.js";
+import {
+  describeHistoryEntry,
+  formatDuration,
+  getReplayOptions,
+  loadHistory,
+} from "../history.js";
+import { searchHistory } from "../search.js";
+import {
+  ConnectOptionsSchema,
+  ExecOptionsSchema,
+  type HistoryEntry,
+  HistoryOptionsSchema,
+} from "../types.js";
+import {
+  displayFriendlyError,
+  displayParsingErrors,
+  emitJSON,
+  getPromptContext,
+  isJSONOutput,
+  messages,
+} from "../utils/index.js";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+function formatHistoryRows(entries: HistoryEntry[]): string[] {
+  return formatTable([
+    ["TIME", "KIND", "REGION", "TARGET", "DURATION"],
+    ...entries.map((entry) => [
+      new Date(entry.timestamp).toLocaleString(),
+      entry.kind,
+      entry.region,
+      describeHistoryEntry(entry),
+      formatDuration(entry.durationMs),
+    ]),
+  ]);
+}
+
+/**
+ * Run the selected session again, resolving a fresh task from its service
+ */
+async function replayHistoryEntry(entry: HistoryEntry): Promise<void> {
+  const rawOptions = getReplayOptions(entry);
+  if (entry.kind === "connect") {
+    const { success, issues, output } = safeParse(
+      ConnectOptionsSchema,
+      rawOptions,
+    );
+    if (!success) {
+      displayParsingErrors(issues);
+      process.exit(1);
+    }
+    await connectToRDSWithSimpleUI(output);
+    return;
+  }
+
+  const { success, issues, output } = safeParse(ExecOptionsSchema, rawOptions);
+  if (!success) {
+    displayParsingErrors(issues);
+    process.exit(1);
+  }
+  await execECSTaskWithSimpleUI(output);
+}
+
+/**
+ * Run history command
+ */
+export async function runHistoryCommand(rawOptions: unknown): Promise<void> {
+  try {
+    const parseResult = safeParse(HistoryOptionsSchema, rawOptions);
+    if (!parseResult.success) {
+      displayParsingErrors(parseResult.issues);
+      process.exit(1);
+    }
+
+    const historyResult = await loadHistory();
+    if (!historyResult.success) throw new Error(historyResult.error);
+    // Newest first
+    const entries = historyResult.data.toReversed();
+    if (parseResult.output.list && isJSONOutput()) {
+      emitJSON("history", { entries });
+      return;
+    }
+    if (entries.length === 0) {
+      messages.info("No sessions recorded yet");
+      return;
+    }
+
+    if (parseResult.output.list) {
+      for (const line of formatHistoryRows(entries)) {
+        messages.log(line);
+      }
+      return;
+    }
+
+    const selected = await search(
+      {
+        message: "Search past sessions (select one to run it again):",
+        source: async (input) => await searchHistory(entries, input || ""),
+        pageSize: DEFAULT_PAGE_SIZE,
+      },
+      getPromptContext(),
+    );
+    const entry = entries.find((candidate) => candidate === selected);
+    if (!entry) {
+      throw new Error("Invalid history selection");
+    }
+    await replayHistoryEntry(entry);
+  } catch (error) {
+    displayFriendlyError(error);
+    process.exit(1);
+  }
+}
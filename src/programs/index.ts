@@ -1,33 +1,120 @@
 import type { Command } from "commander";
 
+/**
+ * Collect a repeatable option into an array
+ */
+function collectValues(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
 export function registerAllCommands(program: Command): void {
   program
     .command("connect")
     .description("Connect to an AWS RDS instance via ECS Exec")
+    .argument("[preset]", "Preset name from .ecs-pf.json / .ecs-pf.yaml")
     .option("-r, --region <region>", "AWS region")
     .option("-c, --cluster <cluster>", "ECS cluster name")
     .option("-t, --task <task>", "ECS task ID")
-    .option("--rds <rds>", "RDS instance identifier")
+    .option(
+      "--service <service>",
+      "ECS service name (resolved to a running task at connect time)",
+    )
+    .option(
+      "--pick <strategy>",
+      "Task to use for --service: newest (default) or least-loaded",
+    )
+    .option(
+      "--target-type <type>",
+      "What to forward to: rds (default) or elasticache",
+    )
+    .option(
+      "--rds <rds>",
+      "RDS instance or ElastiCache endpoint identifier (repeat to forward several at once)",
+      collectValues,
+    )
     .option("--rds-port <port>", "RDS port number")
-    .option("-p, --local-port <port>", "Local port number")
+    .option(
+      "-p, --local-port <port>",
+      "Local port number (first port when forwarding several)",
+    )
+    .option(
+      "--keep-alive",
+      "Reconnect automatically when the session drops (stop with Ctrl+C)",
+    )
+    .option(
+      "--detach",
+      "Run the tunnel in the background (manage with ls / stop)",
+    )
+    .option(
+      "--last",
+      "Reconnect to the most recent connection (a fresh task is resolved from its service)",
+    )
     .option("--dry-run", "Show commands without execution")
-    .action(async (rawOptions: unknown) => {
+    .option("--profile <profile>", "AWS named profile to use")
+    .option("--role-arn <arn>", "IAM role ARN to assume")
+    .option("--external-id <id>", "External ID for assuming the role")
+    .action(async (preset: string | undefined, rawOptions: unknown) => {
       const { runConnectCommand } = await import("./connect.js");
-      await runConnectCommand(rawOptions);
+      await runConnectCommand(rawOptions, preset);
     });
 
   program
     .command("exec")
     .description("Execute a command on an AWS ECS task")
+    .argument("[preset]", "Preset name from .ecs-pf.json / .ecs-pf.yaml")
     .option("-r, --region <region>", "AWS region")
     .option("-c, --cluster <cluster>", "ECS cluster name")
     .option("-t, --task <task>", "ECS task ID")
+    .option(
+      "--service <service>",
+      "ECS service name (resolved to a running task at exec time)",
+    )
+    .option(
+      "--pick <strategy>",
+      "Task to use for --service: newest (default) or least-loaded",
+    )
     .option("--container <container>", "Container name")
     .option("--command <command>", "Command to execute (default: /bin/bash)")
     .option("--dry-run", "Show commands without execution")
-    .action(async (rawOptions: unknown) => {
+    .option("--profile <profile>", "AWS named profile to use")
+    .option("--role-arn <arn>", "IAM role ARN to assume")
+    .option("--external-id <id>", "External ID for assuming the role")
+    .action(async (preset: string | undefined, rawOptions: unknown) => {
       const { runExecTaskCommand } = await import("./exec.js");
-      await runExecTaskCommand(rawOptions);
+      await runExecTaskCommand(rawOptions, preset);
+    });
+
+  program
+    .command("forward")
+    .description(
+      "Forward a local port to any host:port reachable from an ECS task",
+    )
+    .option("-r, --region <region>", "AWS region")
+    .option("-c, --cluster <cluster>", "ECS cluster name")
+    .option("-t, --task <task>", "ECS task ID")
+    .option(
+      "--service <service>",
+      "ECS service name (resolved to a running task at connect time)",
+    )
+    .option(
+      "--pick <strategy>",
+      "Task to use for --service: newest (default) or least-loaded",
+    )
+    .option("--host <host>", "Remote host name or IP address")
+    .option(
+      "--on-task",
+      "Forward to a port on the task itself instead of a remote host",
+    )
+    .option("--container <container>", "Container name for --on-task")
+    .option("--remote-port <port>", "Remote port number")
+    .option("-p, --local-port <port>", "Local port number")
+    .option("--dry-run", "Show commands without execution")
+    .option("--profile <profile>", "AWS named profile to use")
+    .option("--role-arn <arn>", "IAM role ARN to assume")
+    .option("--external-id <id>", "External ID for assuming the role")
+    .action(async (rawOptions: unknown) => {
+      const { runForwardCommand } = await import("./forward.js");
+      await runForwardCommand(rawOptions);
     });
 
   program
@@ -36,9 +123,175 @@ export function registerAllCommands(program: Command): void {
     .option("-r, --region <region>", "AWS region (required)")
     .option("-c, --cluster <cluster>", "ECS cluster name")
     .option("-s, --service <service>", "ECS service name")
+    .option(
+      "--force-new-deployment",
+      "Replace running tasks so they get exec, and wait for the rollout",
+    )
+    .option(
+      "--print-policy",
+      "Print a minimal inline policy for task roles missing ssmmessages permissions",
+    )
+    .option(
+      "--apply-policy",
+      "Attach that inline policy to task roles missing ssmmessages permissions",
+    )
     .option("--dry-run", "Show commands without execution")
+    .option("--profile <profile>", "AWS named profile to use")
+    .option("--role-arn <arn>", "IAM role ARN to assume")
+    .option("--external-id <id>", "External ID for assuming the role")
     .action(async (rawOptions: unknown) => {
       const { runEnableExecCommand } = await import("./enable-exec.js");
       await runEnableExecCommand(rawOptions);
     });
+
+  program
+    .command("disable-exec")
+    .description("Disable ECS exec for services that have it enabled")
+    .option("-r, --region <region>", "AWS region (required)")
+    .option("-c, --cluster <cluster>", "ECS cluster name")
+    .option("-s, --service <service>", "ECS service name")
+    .option(
+      "--force-new-deployment",
+      "Replace running tasks so they lose exec, and wait for the rollout",
+    )
+    .option("--dry-run", "Show commands without execution")
+    .option("--profile <profile>", "AWS named profile to use")
+    .option("--role-arn <arn>", "IAM role ARN to assume")
+    .option("--external-id <id>", "External ID for assuming the role")
+    .action(async (rawOptions: unknown) => {
+      const { runDisableExecCommand } = await import("./disable-exec.js");
+      await runDisableExecCommand(rawOptions);
+    });
+
+  program
+    .command("revert")
+    .description(
+      "Restore a service's exec setting recorded by enable-exec / disable-exec",
+    )
+    .argument("[entry]", "Journal entry ID (select interactively if omitted)")
+    .option("--list", "List the exec change journal")
+    .option("--dry-run", "Show commands without execution")
+    .option("--profile <profile>", "AWS named profile to use")
+    .option("--role-arn <arn>", "IAM role ARN to assume")
+    .option("--external-id <id>", "External ID for assuming the role")
+    .action(async (entry: string | undefined, rawOptions: unknown) => {
+      const { runRevertCommand } = await import("./revert.js");
+      await runRevertCommand(rawOptions, entry);
+    });
+
+  program
+    .command("doctor")
+    .description(
+      "Check that sessions can be started (tools, credentials, task)",
+    )
+    .option("-r, --region <region>", "AWS region")
+    .option("-c, --cluster <cluster>", "ECS cluster name")
+    .option("-t, --task <task>", "ECS task ID to check for ECS Exec")
+    .option("--profile <profile>", "AWS named profile to use")
+    .option("--role-arn <arn>", "IAM role ARN to assume")
+    .option("--external-id <id>", "External ID for assuming the role")
+    .action(async (rawOptions: unknown) => {
+      const { runDoctorCommand } = await import("./doctor.js");
+      await runDoctorCommand(rawOptions);
+    });
+
+  program
+    .command("history")
+    .description("Browse past connect and exec sessions and run one again")
+    .option("--list", "Print the history instead of searching it")
+    .action(async (rawOptions: unknown) => {
+      const { runHistoryCommand } = await import("./history.js");
+      await runHistoryCommand(rawOptions);
+    });
+
+  program
+    .command("favorite")
+    .description(
+      "Star a region, cluster, service or RDS so pickers show it first (lists favorites without arguments)",
+    )
+    .argument("[kind]", "region, cluster, service or rds")
+    .argument("[name]", "Name of the item")
+    .option("--remove", "Unstar the item")
+    .action(
+      async (
+        kind: string | undefined,
+        name: string | undefined,
+        rawOptions: unknown,
+      ) => {
+        const { runFavoriteCommand } = await import("./favorite.js");
+        await runFavoriteCommand(rawOptions, kind, name);
+      },
+    );
+
+  program
+    .command("infer")
+    .description(
+      "Rank the ECS tasks that could connect to an RDS instance, with their scores",
+    )
+    .option("-r, --region <region>", "AWS region (required)")
+    .option("--rds <rds>", "RDS instance identifier (required)")
+    .option("--target-type <type>", "Target type: rds (default) or elasticache")
+    .option("--explain", "Show the points each scoring rule gave a candidate")
+    .option("--timings", "Print how long each inference step took")
+    .option("--profile <profile>", "AWS named profile to use")
+    .option("--role-arn <arn>", "IAM role ARN to assume")
+    .option("--external-id <id>", "External ID for assuming the role")
+    .action(async (rawOptions: unknown) => {
+      const { runInferCommand } = await import("./infer.js");
+      await runInferCommand(rawOptions);
+    });
+
+  program
+    .command("list")
+    .description(
+      "List clusters, services, tasks, rds or regions without prompts",
+    )
+    .argument("<resource>", "clusters, services, tasks, rds or regions")
+    .argument(
+      "[query...]",
+      "Keywords that must all match (same as typing in a picker)",
+    )
+    .option("-r, --region <region>", "AWS region (required except for regions)")
+    .option("-c, --cluster <cluster>", "Only services or tasks of this cluster")
+    .option(
+      "--exec-enabled",
+      "Only clusters, services or tasks where ECS Exec is usable",
+    )
+    .option(
+      "--status <status>",
+      "Only items with this status (e.g. ACTIVE, RUNNING, available)",
+    )
+    .option("--profile <profile>", "AWS named profile to use")
+    .option("--role-arn <arn>", "IAM role ARN to assume")
+    .option("--external-id <id>", "External ID for assuming the role")
+    .action(async (resource: string, query: string[], rawOptions: unknown) => {
+      const { runListCommand } = await import("./list.js");
+      await runListCommand(rawOptions, resource, query);
+    });
+
+  program
+    .command("ls")
+    .description("List background tunnels started with connect --detach")
+    .action(async () => {
+      const { runListTunnelsCommand } = await import("./tunnels.js");
+      await runListTunnelsCommand();
+    });
+
+  program
+    .command("stop")
+    .description("Stop background tunnels")
+    .argument("<target>", "Tunnel ID, local port, or all")
+    .action(async (target: string) => {
+      const { runStopTunnelsCommand } = await import("./tunnels.js");
+      await runStopTunnelsCommand(target);
+    });
+
+  // Entry point of the background supervisor spawned by connect --detach
+  program
+    .command("tunnel-daemon", { hidden: true })
+    .argument("<id>")
+    .action(async (id: string) => {
+      const { runTunnelDaemonCommand } = await import("./tunnels.js");
+      await runTunnelDaemonCommand(id);
+    });
 }
@@ -0,0 +1,95 @@
+import { EC2Client } from "@aws-sdk/client-ec2";
+import { ECSClient } from "@aws-sdk/client-ecs";
+import { ElastiCacheClient } from "@aws-sdk/client-elasticache";
+import { RDSClient } from "@aws-sdk/client-rds";
+import { safeParse } from "valibot";
+import {
+  createAWSClientConfig,
+  pickCredentialOptions,
+} from "../aws-credentials.js";
+import {
+  formatInferenceTable,
+  formatScoreExplanation,
+} from "../core/inference-report.js";
+import {
+  selectElastiCacheEndpoint,
+  selectRDSInstance,
+} from "../core/selection/rds-selection.js";
+import { inferECSTargets } from "../inference/index.js";
+import { InferOptionsSchema } from "../types.js";
+import {
+  displayFriendlyError,
+  displayParsingErrors,
+  emitJSON,
+  isJSONOutput,
+  messages,
+} from "../utils/index.js";
+
+/**
+ * Run infer command: rank the ECS targets that could reach an RDS instance
+ */
+export async function runInferCommand(rawOptions: unknown): Promise<void> {
+  try {
+    const { success, issues, output } = safeParse(
+      InferOptionsSchema,
+      rawOptions,
+    );
+    if (!success) {
+      displayParsingErrors(issues);
+      process.exit(1);
+    }
+    if (!output.region) {
+      throw new Error("--region is required");
+    }
+    if (!output.rds) {
+      throw new Error("--rds is required");
+    }
+
+    const clientConfig = createAWSClientConfig(
+      output.region,
+      pickCredentialOptions(output),
+    );
+    const target = { rds: output.rds };
+    const selectedRDS =
+      output.targetType === "elasticache"
+        ? await selectElastiCacheEndpoint(
+            new ElastiCacheClient(clientConfig),
+            target,
+            {},
+          )
+        : await selectRDSInstance(new RDSClient(clientConfig), target, {});
+
+    messages.warning("Scoring ECS tasks with exec capability...");
+    const results = await inferECSTargets({
+      ecsClient: new ECSClient(clientConfig),
+      ec2Client: new EC2Client(clientConfig),
+      selectedRDS,
+      enablePerformanceTracking: output.timings,
+    });
+
+    if (isJSONOutput()) {
+      emitJSON("infer", { rds: output.rds, results });
+      return;
+    }
+    if (results.length === 0) {
+      messages.info("No ECS tasks with exec capability found");
+      return;
+    }
+
+    messages.empty();
+    for (const line of formatInferenceTable(results)) {
+      messages.log(line);
+    }
+    if (output.explain) {
+      results.forEach((result, index) => {
+        messages.empty();
+        for (const line of formatScoreExplanation(result, index + 1)) {
+          messages.log(line);
+        }
+      });
+    }
+  } catch (error) {
+    displayFriendlyError(error);
+    process.exit(1);
+  }
+}
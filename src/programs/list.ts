@@ -0,0 +1,85 @@
+import { EC2Client } from "@aws-sdk/client-ec2";
+import { ECSClient } from "@aws-sdk/client-ecs";
+import { RDSClient } from "@aws-sdk/client-rds";
+import { safeParse } from "valibot";
+import {
+  createAWSClientConfig,
+  pickCredentialOptions,
+} from "../aws-credentials.js";
+import { formatResourceTable, listResources } from "../core/resource-list.js";
+import { ListOptionsSchema, ListResourceSchema } from "../types.js";
+import {
+  displayFriendlyError,
+  displayParsingErrors,
+  emitJSON,
+  isJSONOutput,
+  messages,
+} from "../utils/index.js";
+
+// Regions can be listed from any region
+const DEFAULT_REGION = "us-east-1";
+
+/**
+ * Run list command: print clusters, services, tasks, RDS or regions without prompts
+ */
+export async function runListCommand(
+  rawOptions: unknown,
+  resource: string,
+  query: string[],
+): Promise<void> {
+  try {
+    const parseResult = safeParse(ListOptionsSchema, rawOptions);
+    if (!parseResult.success) {
+      displayParsingErrors(parseResult.issues);
+      process.exit(1);
+    }
+    const options = parseResult.output;
+
+    const resourceResult = safeParse(ListResourceSchema, resource);
+    if (!resourceResult.success) {
+      throw new Error(resourceResult.issues[0].message);
+    }
+    const region =
+      options.region ??
+      (resourceResult.output === "regions" ? DEFAULT_REGION : undefined);
+    if (!region) {
+      throw new Error(`--region is required to list ${resource}`);
+    }
+
+    const clientConfig = createAWSClientConfig(
+      region,
+      pickCredentialOptions(options),
+    );
+    const listingResult = await listResources(
+      resourceResult.output,
+      {
+        ecsClient: new ECSClient(clientConfig),
+        rdsClient: new RDSClient(clientConfig),
+        ec2Client: new EC2Client(clientConfig),
+      },
+      {
+        cluster: options.cluster,
+        execEnabled: options.execEnabled,
+        status: options.status,
+        query: query.join(" "),
+      },
+    );
+    if (!listingResult.success) throw new Error(listingResult.error);
+
+    const listing = listingResult.data;
+    if (isJSONOutput()) {
+      emitJSON(listing.resource, { [listing.resource]: listing.items });
+      return;
+    }
+    if (listing.items.length === 0) {
+      messages.info(`No ${listing.resource} found`);
+      return;
+    }
+    for (const line of formatResourceTable(listing)) {
+      messages.log(line);
+    }
+  } catch (error) {
+    displayFriendlyError(error);
+    process.exit(1);
+  }
+}
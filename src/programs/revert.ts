@@ -0,0 +1,32 @@
+import { safeParse } from "valibot";
+import { revertECSExec } from "../aws-enable-exec.js";
+import { RevertOptionsSchema } from "../types.js";
+import { displayFriendlyError, messages } from "../utils/index.js";
+
+/**
+ * Run revert command
+ */
+export async function runRevertCommand(
+  rawOptions: unknown,
+  entryId?: string,
+): Promise<void> {
+  try {
+    // Parse and validate options
+    const parseResult = safeParse(RevertOptionsSchema, rawOptions);
+
+    if (!parseResult.success) {
+      messages.error("Invalid options provided");
+      for (const issue of parseResult.issues) {
+        messages.error(
+          `  ${issue.path?.join(".") || "root"}: ${issue.message}`,
+        );
+      }
+      throw new Error("Invalid command options");
+    }
+
+    await revertECSExec(parseResult.output, entryId);
+  } catch (error) {
+    displayFriendlyError(error);
+    process.exit(1);
+  }
+}
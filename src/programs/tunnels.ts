@@ -0,0 +1,113 @@
+import {
+  runTunnelDaemon,
+  stopTunnel,
+} from "../core/connection/detached-tunnel.js";
+import { formatTable } from "../core/ui/display-utils.js";
+import { pruneStaleTunnels, selectTunnels } from "../tunnels.js";
+import type { TunnelEntry } from "../types.js";
+import {
+  displayFriendlyError,
+  emitJSON,
+  isJSONOutput,
+  messages,
+} from "../utils/index.js";
+
+/**
+ * Format how long ago a tunnel was started
+ */
+function formatUptime(startedAt: string, now = Date.now()): string {
+  const seconds = Math.max(
+    0,
+    Math.floor((now - new Date(startedAt).getTime()) / 1000),
+  );
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  return `${Math.floor(seconds / 3600)}h${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+function formatTunnelRows(tunnels: TunnelEntry[]): string[] {
+  return formatTable([
+    ["ID", "PID", "LOCAL", "RDS", "TASK", "UPTIME"],
+    ...tunnels.map((tunnel) => [
+      tunnel.id,
+      String(tunnel.pid),
+      `localhost:${tunnel.session.localPort}`,
+      tunnel.name,
+      String(tunnel.session.taskArn).split("_")[1] ?? tunnel.session.taskArn,
+      formatUptime(tunnel.startedAt),
+    ]),
+  ]);
+}
+
+/**
+ * Load tunnels, reporting (and forgetting) those whose supervisor died
+ */
+async function loadLiveTunnels(): Promise<TunnelEntry[]> {
+  const result = await pruneStaleTunnels();
+  if (!result.success) throw new Error(result.error);
+
+  for (const stale of result.data.stale) {
+    messages.warning(
+      `Removed stale tunnel ${stale.id} (pid ${stale.pid} is no longer running)`,
+    );
+  }
+  return result.data.tunnels;
+}
+
+/**
+ * Run ls command
+ */
+export async function runListTunnelsCommand(): Promise<void> {
+  try {
+    const tunnels = await loadLiveTunnels();
+    if (isJSONOutput()) {
+      emitJSON("tunnels", { tunnels });
+      return;
+    }
+    if (tunnels.length === 0) {
+      messages.info("No background tunnels running");
+      return;
+    }
+    for (const line of formatTunnelRows(tunnels)) {
+      messages.log(line);
+    }
+  } catch (error) {
+    displayFriendlyError(error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Run stop command
+ */
+export async function runStopTunnelsCommand(target: string): Promise<void> {
+  try {
+    const tunnels = selectTunnels(await loadLiveTunnels(), target);
+    if (tunnels.length === 0 && target === "all") {
+      messages.info("No background tunnels running");
+      return;
+    }
+    if (tunnels.length === 0) {
+      messages.error(`No background tunnel matches "${target}"`);
+      process.exit(1);
+    }
+
+    for (const tunnel of tunnels) {
+      await stopTunnel(tunnel);
+      messages.success(
+        `✓ Stopped tunnel ${tunnel.id} (localhost:${tunnel.session.localPort})`,
+      );
+    }
+  } catch (error) {
+    displayFriendlyError(error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Run the hidden background supervisor command
+ */
+export async function runTunnelDaemonCommand(id: string): Promise<void> {
+  await runTunnelDaemon(id);
+  process.exit(0);
+}
@@ -48,6 +48,23 @@ export const ECS_TASK_ARN = new RegExp(
   /^arn:aws:ecs:[a-z0-9-]+:\d{12}:task\/[A-Za-z0-9-_]+\/[A-Za-z0-9]+$/,
 );
 
+/**
+ * IAM ロール ARN の形式を検証する正規表現
+ * ロール ARN は "arn:{partition}:iam::{account-id}:role/{role-path-and-name}" の形式
+ */
+export const IAM_ROLE_ARN = /^arn:aws[a-z-]*:iam::\d{12}:role\/[\w+=,.@/-]+$/;
+
+/**
+ * INI ファイルのセクション見出しを抽出する正規表現
+ * ~/.aws/config の "[profile name]" や ~/.aws/credentials の "[name]" に使用
+ */
+export const INI_SECTION_HEADER = /^\[\s*([^\]]+?)\s*\]$/;
+
+/**
+ * INI ファイルの "key = value" 行を抽出する正規表現
+ */
+export const INI_KEY_VALUE = /^([^=]+?)\s*=\s*(.*)$/;
+
 // =============================================================================
 // 正規表現パターンのテスト関数
 // =============================================================================
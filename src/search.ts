@@ -1,12 +1,27 @@
 import chalk from "chalk";
 import Fuse from "fuse.js";
 import { isEmpty, isObjectType } from "remeda";
+import { describeHistoryEntry, formatDuration } from "./history.js";
 import {
   formatInferenceResult,
   type InferenceResult,
 } from "./inference/index.js";
 import { splitByWhitespace } from "./regex.js";
-import type { AWSRegion, ECSCluster, ECSTask, RDSInstance } from "./types.js";
+import type {
+  AWSProfile,
+  AWSRegion,
+  ECSCluster,
+  ECSTask,
+  HistoryEntry,
+  RDSInstance,
+  UsageKind,
+} from "./types.js";
+import {
+  compareUsageRanks,
+  createUsageRanker,
+  loadUsage,
+  type UsageRank,
+} from "./usage.js";
 
 // Helper functions for type-safe property access
 function hasRegionName(item: unknown): item is AWSRegion {
@@ -21,7 +36,12 @@ function hasDbInstanceIdentifier(item: unknown): item is RDSInstance {
   return isObjectType(item) && "dbInstanceIdentifier" in item;
 }
 
+function hasProfileName(item: unknown): item is AWSProfile {
+  return isObjectType(item) && "profileName" in item;
+}
+
 function getResourceIdentifier(item: unknown): string | undefined {
+  if (hasProfileName(item)) return item.profileName;
   if (hasRegionName(item)) return item.regionName;
   if (hasClusterName(item)) return item.clusterName;
   if (hasDbInstanceIdentifier(item)) return item.dbInstanceIdentifier;
@@ -34,6 +54,7 @@ interface SearchableItem {
   description?: string;
   metadata?: string;
   isDefault?: boolean;
+  disabled?: string;
 }
 
 interface SearchConfig<T> {
@@ -53,6 +74,27 @@ interface SearchConfig<T> {
   threshold?: number;
   distance?: number;
   pageSize?: number;
+  // Float starred and frequently used items to the top, with a marker
+  usage?: {
+    kind: UsageKind;
+    getName: (item: T) => string | undefined;
+  };
+}
+
+async function loadUsageRanker(
+  kind: UsageKind,
+): Promise<((name: string | undefined) => UsageRank) | undefined> {
+  const storeResult = await loadUsage();
+  // A broken usage file only loses the ordering
+  return storeResult.success
+    ? createUsageRanker(storeResult.data, kind)
+    : undefined;
+}
+
+function formatUsageMarker(rank: UsageRank | undefined): string {
+  if (rank?.favorite) return chalk.yellow(" ★");
+  if (rank?.recent) return chalk.cyan(" ↺");
+  return "";
 }
 
 export async function universalSearch<T>(
@@ -67,8 +109,21 @@ export async function universalSearch<T>(
     emptyInputFormatter = displayFormatter,
     threshold = 0.3, // より厳格に
     distance = 100, // より厳格に
+    usage,
   } = config;
 
+  // 利用履歴とお気に入りによる順位付け
+  const ranker = usage ? await loadUsageRanker(usage.kind) : undefined;
+  const getRank = (item: T): UsageRank | undefined =>
+    ranker && usage ? ranker(usage.getName(item)) : undefined;
+  const withUsageMarker = (
+    formatted: SearchableItem,
+    item: T,
+  ): SearchableItem => ({
+    ...formatted,
+    name: `${formatted.name}${formatUsageMarker(getRank(item))}`,
+  });
+
   // 空の入力の場合
   if (!input || input.trim() === "") {
     // デフォルト値がある場合は先頭に表示
@@ -93,14 +148,29 @@ export async function universalSearch<T>(
         })()
       : items;
 
-    return sortedItems.map((item, index) => {
-      const isDefault =
-        defaultValue &&
-        ((typeof defaultValue === "string" &&
-          getResourceIdentifier(item) === defaultValue) ||
-          item === defaultValue);
-      return emptyInputFormatter(item, index, !!isDefault);
-    });
+    const isDefaultItem = (item: T) =>
+      !!defaultValue &&
+      ((typeof defaultValue === "string" &&
+        getResourceIdentifier(item) === defaultValue) ||
+        item === defaultValue);
+
+    // デフォルト値の次にお気に入り・よく使う項目を表示
+    const rankedItems = ranker
+      ? [...sortedItems].sort((a, b) => {
+          const aIsDefault = isDefaultItem(a);
+          if (aIsDefault !== isDefaultItem(b)) return aIsDefault ? -1 : 1;
+          const aRank = getRank(a);
+          const bRank = getRank(b);
+          return aRank && bRank ? compareUsageRanks(aRank, bRank) : 0;
+        })
+      : sortedItems;
+
+    return rankedItems.map((item, index) =>
+      withUsageMarker(
+        emptyInputFormatter(item, index, isDefaultItem(item)),
+        item,
+      ),
+    );
   }
 
   // キーワード検索関数を定義
@@ -172,6 +242,14 @@ export async function universalSearch<T>(
             return bExactMatches - aExactMatches;
           }
 
+          // お気に入り・よく使う項目を優先
+          const aRank = getRank(a);
+          const bRank = getRank(b);
+          if (aRank && bRank) {
+            const usageDiff = compareUsageRanks(aRank, bRank);
+            if (usageDiff !== 0) return usageDiff;
+          }
+
           // アルファベット順
           return aText.localeCompare(bText);
         })
@@ -181,7 +259,10 @@ export async function universalSearch<T>(
             ((typeof defaultValue === "string" &&
               getResourceIdentifier(item) === defaultValue) ||
               item === defaultValue);
-          return displayFormatter(item, index, !!isDefault);
+          return withUsageMarker(
+            displayFormatter(item, index, !!isDefault),
+            item,
+          );
         });
     }
   }
@@ -225,7 +306,10 @@ export async function universalSearch<T>(
         ((typeof defaultValue === "string" &&
           getResourceIdentifier(result.item) === defaultValue) ||
           result.item === defaultValue);
-      return displayFormatter(result.item, index, !!isDefault, result.score);
+      return withUsageMarker(
+        displayFormatter(result.item, index, !!isDefault, result.score),
+        result.item,
+      );
     });
 }
 
@@ -286,11 +370,54 @@ export async function searchRegions(
         value: region.regionName,
       };
     },
+    usage: { kind: "region", getName: (region) => region.regionName },
   };
 
   return universalSearch(config, input, defaultRegion);
 }
 
+export async function searchProfiles(
+  profiles: AWSProfile[],
+  input: string,
+  defaultProfile?: string,
+): Promise<SearchableItem[]> {
+  const describeProfile = (profile: AWSProfile): string => {
+    const details = [
+      profile.region ?? "no default region",
+      profile.isSSO ? "SSO" : undefined,
+      profile.ssoAccountId,
+      profile.ssoRoleName,
+    ].filter(Boolean);
+    return chalk.dim(`(${details.join(", ")})`);
+  };
+
+  const config: SearchConfig<AWSProfile> = {
+    items: profiles,
+    searchKeys: ["profileName", "region", "ssoAccountId", "ssoRoleName"],
+    displayFormatter: (profile, index, isDefault, score) => {
+      const icon = index === 0 ? chalk.green("•") : "  ";
+      const defaultLabel = isDefault ? chalk.cyan(" (current)") : "";
+      const scoreLabel = score ? ` [${((1 - score) * 100).toFixed(0)}%]` : "";
+
+      return {
+        name: `${icon} ${profile.profileName}${defaultLabel} ${describeProfile(profile)}${chalk.dim(scoreLabel)}`,
+        value: profile,
+      };
+    },
+    emptyInputFormatter: (profile, index, isDefault) => {
+      const icon = index === 0 && isDefault ? chalk.green("•") : "  ";
+      const defaultLabel = isDefault ? chalk.cyan(" (current)") : "";
+
+      return {
+        name: `${icon} ${profile.profileName}${defaultLabel} ${describeProfile(profile)}`,
+        value: profile,
+      };
+    },
+  };
+
+  return universalSearch(config, input, defaultProfile);
+}
+
 export async function searchClusters(
   clusters: ECSCluster[],
   input: string,
@@ -317,6 +444,7 @@ export async function searchClusters(
         value: cluster,
       };
     },
+    usage: { kind: "cluster", getName: (cluster) => cluster.clusterName },
   };
 
   return universalSearch(config, input);
@@ -359,13 +487,57 @@ export async function searchServices(
   return universalSearch(config, input);
 }
 
+export async function searchHistory(
+  entries: HistoryEntry[],
+  input: string,
+): Promise<SearchableItem[]> {
+  const formatEntry = (entry: HistoryEntry): SearchableItem => {
+    const kind =
+      entry.kind === "connect" ? chalk.cyan("connect") : chalk.magenta("exec");
+    return {
+      name: `${kind} ${describeHistoryEntry(entry)} ${chalk.dim(`(${entry.region}, ${new Date(entry.timestamp).toLocaleString()}, ${formatDuration(entry.durationMs)})`)}`,
+      value: entry,
+    };
+  };
+  const config: SearchConfig<HistoryEntry> = {
+    items: entries,
+    searchKeys: [
+      "kind",
+      "region",
+      "cluster",
+      "service",
+      "rds",
+      "container",
+      "command",
+    ],
+    displayFormatter: formatEntry,
+  };
+
+  return universalSearch(config, input);
+}
+
+// Tasks that cannot run ECS Exec stay listed, but disabled with the reason
+function getExecDisabledReason(
+  task: Pick<ECSTask, "execReadiness">,
+): string | undefined {
+  return task.execReadiness && task.execReadiness.status !== "ready"
+    ? task.execReadiness.reason
+    : undefined;
+}
+
 export async function searchTasks(
   tasks: ECSTask[],
   input: string,
 ): Promise<SearchableItem[]> {
   const config: SearchConfig<ECSTask> = {
     items: tasks,
-    searchKeys: ["serviceName", "taskId", "displayName", "taskStatus"],
+    searchKeys: [
+      "serviceName",
+      "taskId",
+      "displayName",
+      "taskStatus",
+      "execReadiness.status",
+    ],
     displayFormatter: (task, index, _isDefault, score) => {
       const icon = index === 0 ? chalk.green("•") : "  ";
       const taskShortId = task.taskId.substring(0, 8);
@@ -374,6 +546,7 @@ export async function searchTasks(
       return {
         name: `${icon} ${task.serviceName} ${chalk.dim(`(${taskShortId}...)${scoreLabel}`)}`,
         value: task.taskArn,
+        disabled: getExecDisabledReason(task),
       };
     },
     emptyInputFormatter: (task) => {
@@ -382,35 +555,48 @@ export async function searchTasks(
       return {
         name: `  ${task.serviceName} ${chalk.dim(`(${taskShortId}...)`)}`,
         value: task.taskArn,
+        disabled: getExecDisabledReason(task),
       };
     },
+    usage: { kind: "service", getName: (task) => task.serviceName },
   };
 
   return universalSearch(config, input);
 }
 
+// Cluster endpoints are labelled so they stand apart from the member instances
+function formatRDSEndpointType(rds: RDSInstance): string {
+  return rds.endpointType && rds.endpointType !== "instance"
+    ? chalk.dim(` [cluster ${rds.endpointType}]`)
+    : "";
+}
+
+/**
+ * Search RDS targets; "writer", "reader" or "custom" narrows to Aurora cluster endpoints
+ */
 export async function searchRDS(
   rdsInstances: RDSInstance[],
   input: string,
 ): Promise<SearchableItem[]> {
   const config: SearchConfig<RDSInstance> = {
     items: rdsInstances,
-    searchKeys: ["dbInstanceIdentifier", "engine", "endpoint"],
+    searchKeys: ["dbInstanceIdentifier", "engine", "endpoint", "endpointType"],
     displayFormatter: (rds, index, _isDefault, score) => {
       const icon = index === 0 ? chalk.green("•") : "  ";
       const scoreLabel = score ? ` [${((1 - score) * 100).toFixed(0)}%]` : "";
 
       return {
-        name: `${icon} (${rds.engine}): ${rds.dbInstanceIdentifier} ${chalk.dim(scoreLabel)}`,
+        name: `${icon} (${rds.engine}): ${rds.dbInstanceIdentifier}${formatRDSEndpointType(rds)} ${chalk.dim(scoreLabel)}`,
         value: rds,
       };
     },
     emptyInputFormatter: (rds) => {
       return {
-        name: `  (${rds.engine}): ${rds.dbInstanceIdentifier}`,
+        name: `  (${rds.engine}): ${rds.dbInstanceIdentifier}${formatRDSEndpointType(rds)}`,
         value: rds,
       };
     },
+    usage: { kind: "rds", getName: (rds) => rds.dbInstanceIdentifier },
   };
 
   return universalSearch(config, input);
@@ -463,18 +649,52 @@ export async function searchContainers(
     });
 }
 
+function formatNetworkFlag(result: InferenceResult): string {
+  return result.network?.verdict === "unreachable"
+    ? chalk.red(" [unreachable]")
+    : "";
+}
+
 export async function searchInferenceResults(
   results: InferenceResult[],
   input: string,
 ): Promise<SearchableItem[]> {
+  // 利用履歴とお気に入りはサービス単位で記録されている
+  const ranker = await loadUsageRanker("service");
+  const getRank = (result: InferenceResult) =>
+    ranker?.(result.task.serviceName);
+
+  // 信頼度 → お気に入り・よく使うサービス → スコアの順に並べる
+  const compareResults = (a: InferenceResult, b: InferenceResult): number => {
+    // 信頼度でソート（high > medium > low）
+    const confidenceOrder = { high: 3, medium: 2, low: 1 };
+    const confidenceDiff =
+      confidenceOrder[b.confidence] - confidenceOrder[a.confidence];
+    if (confidenceDiff !== 0) return confidenceDiff;
+
+    // お気に入り・よく使うサービスを優先
+    if (ranker) {
+      const usageDiff = compareUsageRanks(
+        ranker(a.task.serviceName),
+        ranker(b.task.serviceName),
+      );
+      if (usageDiff !== 0) return usageDiff;
+    }
+
+    // スコアでソート
+    return b.score - a.score;
+  };
+
   // 空の入力の場合
   if (!input || input.trim() === "") {
-    return results.map((result) => {
+    return [...results].sort(compareResults).map((result) => {
       const isUnavailable = result.reason.includes("接続不可");
       return {
-        name: `  ${formatInferenceResult(result)}`,
+        name: `  ${formatInferenceResult(result)}${formatNetworkFlag(result)}${formatUsageMarker(getRank(result))}`,
         value: result,
-        disabled: isUnavailable ? "Task stopped - Cannot select" : undefined,
+        disabled: isUnavailable
+          ? "Task stopped - Cannot select"
+          : getExecDisabledReason(result.task),
       };
     });
   }
@@ -489,6 +709,8 @@ export async function searchInferenceResults(
     result.confidence,
     result.method,
     result.reason,
+    result.network?.verdict ?? "",
+    result.task.execReadiness?.status ?? "",
     formatInferenceResult(result),
     // 信頼度レベルの日本語対応
     result.confidence === "high" ? "high 高" : "",
@@ -498,27 +720,18 @@ export async function searchInferenceResults(
 
   // キーワード検索で結果がある場合はそれを使用
   if (keywordFiltered.length > 0) {
-    return keywordFiltered
-      .sort((a, b) => {
-        // 信頼度でソート（high > medium > low）
-        const confidenceOrder = { high: 3, medium: 2, low: 1 };
-        const confidenceDiff =
-          confidenceOrder[b.confidence] - confidenceOrder[a.confidence];
-        if (confidenceDiff !== 0) return confidenceDiff;
-
-        // スコアでソート
-        return b.score - a.score;
-      })
-      .map((result, index) => {
-        const icon = index === 0 ? chalk.green("•") : "  ";
-        const isUnavailable = result.reason.includes("接続不可");
+    return keywordFiltered.sort(compareResults).map((result, index) => {
+      const icon = index === 0 ? chalk.green("•") : "  ";
+      const isUnavailable = result.reason.includes("接続不可");
 
-        return {
-          name: `${icon} ${formatInferenceResult(result)}`,
-          value: result,
-          disabled: isUnavailable ? "Task stopped - Cannot select" : undefined,
-        };
-      });
+      return {
+        name: `${icon} ${formatInferenceResult(result)}${formatNetworkFlag(result)}${formatUsageMarker(getRank(result))}`,
+        value: result,
+        disabled: isUnavailable
+          ? "Task stopped - Cannot select"
+          : getExecDisabledReason(result.task),
+      };
+    });
   }
 
   // キーワード検索で結果がない場合は制限されたファジー検索（補助的）
@@ -530,15 +743,18 @@ export async function searchInferenceResults(
       "task.serviceName",
       "confidence",
     ],
+    usage: { kind: "service", getName: (result) => result.task.serviceName },
     displayFormatter: (result, index, _isDefault, score) => {
       const icon = index === 0 ? chalk.green("•") : "  ";
       const scoreLabel = score ? ` [${((1 - score) * 100).toFixed(0)}%]` : "";
       const isUnavailable = result.reason.includes("接続不可");
 
       return {
-        name: `${icon} ${formatInferenceResult(result)} ${chalk.dim(`[fuzzy]${scoreLabel}`)}`,
+        name: `${icon} ${formatInferenceResult(result)}${formatNetworkFlag(result)} ${chalk.dim(`[fuzzy]${scoreLabel}`)}`,
         value: result,
-        disabled: isUnavailable ? "Task stopped - Cannot select" : undefined,
+        disabled: isUnavailable
+          ? "Task stopped - Cannot select"
+          : getExecDisabledReason(result.task),
       };
     },
   };
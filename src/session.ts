@@ -1,209 +1,356 @@
 import { spawn } from "node:child_process";
-import type { ECSExecParams, SSMSessionParams } from "./types.js";
-import { messages } from "./utils/index.js";
+import {
+  SSMClient,
+  StartSessionCommand,
+  type StartSessionCommandInput,
+  type StartSessionCommandOutput,
+} from "@aws-sdk/client-ssm";
+import {
+  createAWSClientConfig,
+  formatAWSCLICredentialFlags,
+  resolveAWSCLIEnvironment,
+} from "./aws-credentials.js";
+import type { ECSExecParams, RegionName, SSMSessionParams } from "./types.js";
+import { getChildStdout, messages } from "./utils/index.js";
+
+const PORT_FORWARDING_DOCUMENT = "AWS-StartPortForwardingSessionToRemoteHost";
+// Forwards to the task's own loopback instead of a remote host
+const TASK_PORT_FORWARDING_DOCUMENT = "AWS-StartPortForwardingSession";
+const SESSION_MANAGER_PLUGIN = "session-manager-plugin";
+
+interface SessionFailure {
+  reason: string;
+  retryable: boolean;
+}
 
-export async function startSSMSession(params: SSMSessionParams): Promise<void> {
-  const { taskArn, rdsInstance, rdsPort, localPort, reproducibleCommand } =
-    params;
+/**
+ * How a single port forwarding session ended
+ */
+export type SessionExit =
+  | { kind: "user" }
+  | { kind: "closed"; code: number | null }
+  | ({ kind: "failed" } & SessionFailure);
 
-  const parameters = {
-    host: [rdsInstance.endpoint],
-    portNumber: [String(rdsPort)],
-    localPortNumber: [String(localPort)],
-  };
+/**
+ * Build the equivalent AWS CLI command, shown for reference after the session
+ */
+export function buildPortForwardingCommand(params: SSMSessionParams): string {
+  const { taskArn, credentials } = params;
+  const { Parameters, DocumentName } = buildStartSessionRequest(params);
 
   // Build command string (properly escape JSON parameters)
-  const parametersJson = JSON.stringify(parameters);
-  const commandString = `aws ssm start-session --target ${taskArn} --parameters '${parametersJson}' --document-name AWS-StartPortForwardingSessionToRemoteHost`;
+  const parametersJson = JSON.stringify(Parameters);
+  return `aws ssm start-session --target ${taskArn} --parameters '${parametersJson}' --document-name ${DocumentName}${formatAWSCLICredentialFlags(credentials)}`;
+}
 
+/**
+ * Display the executed AWS CLI command and the reproducible ecs-pf command
+ */
+export function displaySessionCommands(
+  commandString: string,
+  reproducibleCommand?: string,
+): void {
   messages.empty();
-  messages.success(
-    `🌈 RDS connection will be available at localhost:${localPort}`,
-  );
+  messages.info("Equivalent AWS CLI command:");
+  messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  messages.info(commandString);
+  messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
   messages.empty();
 
-  return new Promise((resolve, reject) => {
-    const state = {
-      isUserTermination: false,
-      hasSessionStarted: false,
+  // Display reproducible command if provided
+  if (reproducibleCommand) {
+    messages.info("To reproduce this connection, use:");
+    messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    messages.info(reproducibleCommand);
+    messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    messages.empty();
+  }
+}
+
+/**
+ * Classify a StartSession error. Target errors are retryable because the task may
+ * have been replaced; permission errors are not.
+ */
+export function classifySessionError(error: unknown): SessionFailure & {
+  hint?: string;
+} {
+  const name = error instanceof Error ? error.name : "";
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (name === "TargetNotConnected" || message.includes("TargetNotConnected")) {
+    return {
+      reason: "Cannot connect to target",
+      hint: "Please verify that the ECS task is running and SSM Agent is enabled",
+      retryable: true,
+    };
+  }
+  if (name.includes("AccessDenied") || message.includes("AccessDenied")) {
+    return {
+      reason: "Access denied",
+      hint: "Please verify you have SSM-related IAM permissions",
+      retryable: false,
     };
+  }
+  if (name === "InvalidTarget" || message.includes("InvalidTarget")) {
+    return {
+      reason: "Invalid target",
+      hint: "Please verify the specified ECS task exists and is running",
+      retryable: true,
+    };
+  }
+  return {
+    reason: `Failed to start session: ${message}`,
+    retryable: true,
+  };
+}
 
-    // Use pipe mode to capture output while still showing it to user
-    const child = spawn(commandString, [], {
-      stdio: ["inherit", "pipe", "pipe"],
-      env: process.env,
-      shell: true,
-    });
+/**
+ * Build the StartSession request for port forwarding to the RDS endpoint,
+ * or to a port on the task itself when onTask is set
+ */
+export function buildStartSessionRequest(
+  params: SSMSessionParams,
+): StartSessionCommandInput {
+  const { taskArn, rdsInstance, rdsPort, localPort, onTask } = params;
+  if (onTask) {
+    return {
+      Target: taskArn,
+      DocumentName: TASK_PORT_FORWARDING_DOCUMENT,
+      Parameters: {
+        portNumber: [String(rdsPort)],
+        localPortNumber: [String(localPort)],
+      },
+    };
+  }
+  return {
+    Target: taskArn,
+    DocumentName: PORT_FORWARDING_DOCUMENT,
+    Parameters: {
+      host: [rdsInstance.endpoint],
+      portNumber: [String(rdsPort)],
+      localPortNumber: [String(localPort)],
+    },
+  };
+}
 
-    // Forward stdout to console while monitoring for session start
-    child.stdout?.on("data", (data) => {
-      const output = data.toString();
-      process.stdout.write(output); // Forward to user
-
-      // Detect session start with more patterns
-      if (
-        output.includes("Starting session") ||
-        output.includes("Port forwarding started") ||
-        output.includes("Waiting for connections") ||
-        output.includes("Port forwarding session started") ||
-        (output.includes("Session") && output.includes("started"))
-      ) {
-        if (!state.hasSessionStarted) {
-          state.hasSessionStarted = true;
-          clearTimeout(timeout);
-        }
-      }
-    });
+/**
+ * Arguments for session-manager-plugin, in the order the AWS CLI passes them
+ */
+export function buildSessionManagerPluginArgs(params: {
+  session: Pick<
+    StartSessionCommandOutput,
+    "SessionId" | "StreamUrl" | "TokenValue"
+  >;
+  request: StartSessionCommandInput;
+  region: RegionName;
+  profile?: string;
+}): string[] {
+  const { session, request, region, profile } = params;
+  return [
+    JSON.stringify({
+      SessionId: session.SessionId,
+      StreamUrl: session.StreamUrl,
+      TokenValue: session.TokenValue,
+    }),
+    region,
+    "StartSession",
+    profile ?? "",
+    JSON.stringify(request),
+    `https://ssm.${region}.amazonaws.com`,
+  ];
+}
 
-    // Forward stderr to console while monitoring for errors
-    child.stderr?.on("data", (data) => {
-      const output = data.toString();
-
-      // Check for critical errors first
-      if (output.includes("TargetNotConnected")) {
-        messages.error("Cannot connect to target");
-        messages.error(
-          "Please verify that the ECS task is running and SSM Agent is enabled",
-        );
-        child.kill("SIGTERM");
-        reject(new Error("Cannot connect to target"));
-        return;
-      } else if (output.includes("AccessDenied")) {
-        messages.error("Access denied");
-        messages.error("Please verify you have SSM-related IAM permissions");
-        child.kill("SIGTERM");
-        reject(new Error("Access denied"));
-        return;
-      } else if (output.includes("InvalidTarget")) {
-        messages.error("Invalid target");
-        messages.error(
-          "Please verify the specified ECS task exists and is running",
-        );
-        child.kill("SIGTERM");
-        reject(new Error("Invalid target"));
-        return;
+/**
+ * Run one port forwarding session: StartSession through the SDK, then hand the
+ * session over to session-manager-plugin until it exits.
+ * In quiet mode nothing is written to the terminal so a caller can render its own status.
+ * Aborting the signal ends the session like Ctrl+C does.
+ */
+export async function runPortForwardingSession(
+  params: SSMSessionParams,
+  options: {
+    quiet?: boolean;
+    onStarted?: (sessionId?: string) => void;
+    signal?: AbortSignal;
+  } = {},
+): Promise<SessionExit> {
+  const { quiet = false, onStarted, signal } = options;
+  if (signal?.aborted) {
+    return { kind: "user" };
+  }
+  const { region, credentials } = params;
+  const ssmClient = new SSMClient(createAWSClientConfig(region, credentials));
+  const request = buildStartSessionRequest(params);
+
+  let session: StartSessionCommandOutput;
+  try {
+    session = await ssmClient.send(new StartSessionCommand(request), {
+      abortSignal: signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      return { kind: "user" };
+    }
+    const failure = classifySessionError(error);
+    if (!quiet) {
+      messages.error(failure.reason);
+      if (failure.hint) {
+        messages.error(failure.hint);
       }
+    }
+    return { kind: "failed", ...failure };
+  }
+
+  const args = buildSessionManagerPluginArgs({
+    session,
+    request,
+    region,
+    // The plugin only understands plain profiles; assumed roles come through env
+    profile: credentials?.roleArn ? undefined : credentials?.profile,
+  });
+  const env = await resolveAWSCLIEnvironment(credentials);
+  if (signal?.aborted) {
+    return { kind: "user" };
+  }
+
+  return new Promise((resolve) => {
+    const state = { isUserTermination: false };
 
-      // Forward non-critical stderr to console
-      process.stderr.write(output);
+    // No shell: the session payload is passed as plain arguments
+    const child = spawn(SESSION_MANAGER_PLUGIN, args, {
+      stdio: quiet ? "ignore" : ["inherit", getChildStdout(), "inherit"],
+      env,
     });
 
+    if (!quiet) {
+      messages.success(
+        `Port forwarding session started (${session.SessionId})`,
+      );
+    }
+    onStarted?.(session.SessionId);
+
     child.on("error", (error) => {
-      clearTimeout(timeout);
-      messages.error(`Command execution error: ${error.message}`);
+      process.off("SIGINT", onSigint);
+      signal?.removeEventListener("abort", onSigint);
+      if (!quiet) {
+        messages.error(`Command execution error: ${error.message}`);
+      }
 
       if (error.message.includes("ENOENT")) {
-        reject(new Error("AWS CLI may not be installed"));
+        resolve({
+          kind: "failed",
+          reason: "Session Manager Plugin may not be installed",
+          retryable: false,
+        });
       } else if (error.message.includes("EACCES")) {
-        reject(new Error("No permission to execute AWS CLI"));
+        resolve({
+          kind: "failed",
+          reason: "No permission to execute Session Manager Plugin",
+          retryable: false,
+        });
       } else {
-        reject(new Error(`Command execution error: ${error.message}`));
+        resolve({
+          kind: "failed",
+          reason: `Command execution error: ${error.message}`,
+          retryable: false,
+        });
       }
     });
 
-    child.on("close", (code, signal) => {
-      clearTimeout(timeout);
+    child.on("close", (code, exitSignal) => {
+      process.off("SIGINT", onSigint);
+      signal?.removeEventListener("abort", onSigint);
 
       // Handle user termination (SIGINT/Ctrl+C) as normal termination
-      if (signal === "SIGINT" || code === 130 || state.isUserTermination) {
-        messages.success("Process completed successfully");
-
-        // Display commands after successful termination
-        messages.empty();
-        messages.info("Command to execute:");
-        messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-        messages.info(commandString);
-        messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-        messages.empty();
-
-        // Display reproducible command if provided
-        if (reproducibleCommand) {
-          messages.info("To reproduce this connection, use:");
-          messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-          messages.info(reproducibleCommand);
-          messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-          messages.empty();
-        }
-
-        resolve();
+      if (exitSignal === "SIGINT" || code === 130 || state.isUserTermination) {
+        resolve({ kind: "user" });
         return;
       }
 
-      if (code === 0) {
-        messages.success("Process completed successfully");
-
-        // Display commands after successful termination
-        messages.empty();
-        messages.info("Command to execute:");
-        messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-        messages.info(commandString);
-        messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-        messages.empty();
-
-        // Display reproducible command if provided
-        if (reproducibleCommand) {
-          messages.info("To reproduce this connection, use:");
-          messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-          messages.info(reproducibleCommand);
-          messages.info("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-          messages.empty();
-        }
-
-        resolve();
-      } else {
-        let errorMessage = `Session terminated with error code ${code}`;
-
-        // Detailed messages based on error codes
-        switch (code) {
-          case 1:
-            errorMessage +=
-              "\nGeneral error. Please check your AWS CLI configuration and permissions";
-            break;
-          case 2:
-            errorMessage += "\nConfiguration file or parameter issue";
-            break;
-          case 255:
-            errorMessage +=
-              "\nConnection error or timeout. Please check network connection and target status";
-            break;
-          default:
-            errorMessage += "\nUnexpected error. Please check AWS CLI logs";
-        }
-
-        reject(new Error(errorMessage));
-      }
+      resolve({ kind: "closed", code });
     });
 
     // Process termination handling
-    process.on("SIGINT", () => {
+    const onSigint = () => {
       if (!state.isUserTermination) {
         state.isUserTermination = true;
         child.kill("SIGINT");
       }
-    });
+    };
+    process.on("SIGINT", onSigint);
+    signal?.addEventListener("abort", onSigint, { once: true });
+  });
+}
 
-    // Optimistic timeout - assume session will start successfully after 5 seconds
-    // if no explicit errors are encountered
-    const timeout = setTimeout(() => {
-      if (!state.hasSessionStarted) {
-        state.hasSessionStarted = true;
-        messages.success("Port forwarding session should be active");
-        messages.info(
-          "If connection fails, the session may still be starting. Please wait a moment and try again.",
-        );
-      }
-    }, 5000);
+export async function startSSMSession(
+  params: SSMSessionParams,
+  options: { onStarted?: (sessionId?: string) => void } = {},
+): Promise<void> {
+  const { localPort, reproducibleCommand } = params;
+  const commandString = buildPortForwardingCommand(params);
+
+  messages.empty();
+  messages.success(`🌈 Connection will be available at localhost:${localPort}`);
+  messages.empty();
+
+  const exit = await runPortForwardingSession(params, {
+    onStarted: options.onStarted,
   });
+
+  if (exit.kind === "failed") {
+    throw new Error(exit.reason);
+  }
+
+  if (exit.kind === "user" || exit.code === 0) {
+    messages.success("Process completed successfully");
+
+    // Display commands after successful termination
+    displaySessionCommands(commandString, reproducibleCommand);
+    return;
+  }
+
+  throw new Error(describeSessionExitCode(exit.code));
+}
+
+/**
+ * Describe a non-zero AWS CLI exit code of a port forwarding session
+ */
+export function describeSessionExitCode(code: number | null): string {
+  let errorMessage = `Session terminated with error code ${code}`;
+
+  // Detailed messages based on error codes
+  switch (code) {
+    case 1:
+      errorMessage +=
+        "\nGeneral error. Please check your AWS CLI configuration and permissions";
+      break;
+    case 2:
+      errorMessage += "\nConfiguration file or parameter issue";
+      break;
+    case 255:
+      errorMessage +=
+        "\nConnection error or timeout. Please check network connection and target status";
+      break;
+    default:
+      errorMessage += "\nUnexpected error. Please check AWS CLI logs";
+  }
+
+  return errorMessage;
 }
 
 /**
  * Execute command in ECS task container using AWS ECS execute-command
  */
-export async function executeECSCommand(params: ECSExecParams): Promise<void> {
-  const { region, clusterName, taskArn, containerName, command } = params;
+export async function executeECSCommand(
+  params: ECSExecParams,
+  options: { onStarted?: () => void } = {},
+): Promise<void> {
+  const { region, clusterName, taskArn, containerName, command, credentials } =
+    params;
 
   // Build command string
-  const commandString = `aws ecs execute-command --region ${String(region)} --cluster ${String(clusterName)} --task ${String(taskArn)} --container ${String(containerName)} --command "${command}" --interactive`;
+  const commandString = `aws ecs execute-command --region ${String(region)} --cluster ${String(clusterName)} --task ${String(taskArn)} --container ${String(containerName)} --command "${command}" --interactive${formatAWSCLICredentialFlags(credentials)}`;
+  const env = await resolveAWSCLIEnvironment(credentials);
 
   messages.empty();
   messages.success(`🚀 Executing command in ECS container: ${containerName}`);
@@ -215,11 +362,13 @@ export async function executeECSCommand(params: ECSExecParams): Promise<void> {
 
     // Use inherit mode to pass through stdin/stdout/stderr directly
     const child = spawn(commandString, [], {
-      stdio: "inherit",
-      env: process.env,
+      stdio: ["inherit", getChildStdout(), "inherit"],
+      env,
       shell: true,
     });
 
+    child.on("spawn", () => options.onStarted?.());
+
     child.on("error", (error) => {
       messages.error(`Command execution error: ${error.message}`);
 
@@ -0,0 +1,112 @@
+import { mkdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { failure, type Result, success } from "./types.js";
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 50;
+// A lock held this long belongs to a process that died before releasing it
+const STALE_LOCK_MS = 30_000;
+
+/**
+ * Take the lock file next to a state file, waiting for other ecs-pf processes to release it
+ */
+async function acquireLock(lockPath: string): Promise<Result<void, string>> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    try {
+      await writeFile(lockPath, String(process.pid), { flag: "wx" });
+      return success(undefined);
+    } catch (error) {
+      if (
+        !(error instanceof Error && "code" in error && error.code === "EEXIST")
+      ) {
+        return failure(
+          `Failed to lock ${lockPath}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    const lockStat = await stat(lockPath).catch(() => undefined);
+    if (lockStat && Date.now() - lockStat.mtimeMs > STALE_LOCK_MS) {
+      await rm(lockPath, { force: true });
+    } else {
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+  return failure(`Timed out waiting for ${lockPath}`);
+}
+
+/**
+ * Read a JSON state file and check its shape with parse (empty when the file does not exist yet)
+ */
+export async function readStateFile<T>(
+  path: string,
+  parse: (raw: unknown) => Result<T, string>,
+  empty: T,
+): Promise<Result<T, string>> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return success(empty);
+    }
+    return failure(
+      `Failed to read ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return failure(`${path} is not valid JSON`);
+  }
+  const parsed = parse(raw);
+  if (!parsed.success) {
+    return failure(`${path}: ${parsed.error}`);
+  }
+  return parsed;
+}
+
+/**
+ * Update a JSON state file: load it and write back what update returns (nothing when
+ * it returns undefined). A lock keeps concurrent ecs-pf processes from losing each
+ * other's changes, and the file is replaced atomically so readers never see a partial write
+ */
+export async function writeStateFile<T>(
+  path: string,
+  load: () => Promise<Result<T, string>>,
+  update: (current: T) => unknown,
+): Promise<Result<void, string>> {
+  try {
+    await mkdir(dirname(path), { recursive: true });
+  } catch (error) {
+    return failure(
+      `Failed to write ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const lockPath = `${path}.lock`;
+  const lockResult = await acquireLock(lockPath);
+  if (!lockResult.success) return lockResult;
+
+  try {
+    const currentResult = await load();
+    if (!currentResult.success) return currentResult;
+    const data = update(currentResult.data);
+    if (data === undefined) return success(undefined);
+
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await writeFile(tempPath, `${JSON.stringify(data, null, 2)}\n`);
+    await rename(tempPath, path);
+    return success(undefined);
+  } catch (error) {
+    return failure(
+      `Failed to write ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  } finally {
+    await rm(lockPath, { force: true });
+  }
+}
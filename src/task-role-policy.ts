@@ -0,0 +1,119 @@
+import type { ECSClient } from "@aws-sdk/client-ecs";
+import type { IAMClient } from "@aws-sdk/client-iam";
+import {
+  getServiceTaskRoleArn,
+  putRoleInlinePolicy,
+  simulatePrincipalActions,
+} from "./aws-services.js";
+import type { Result, TaskRoleCheck } from "./types.js";
+import { failure } from "./types.js";
+
+// Actions the task role needs so the SSM agent can open its channels
+export const SSM_MESSAGES_ACTIONS = [
+  "ssmmessages:CreateControlChannel",
+  "ssmmessages:CreateDataChannel",
+  "ssmmessages:OpenControlChannel",
+  "ssmmessages:OpenDataChannel",
+];
+
+export const EXEC_TASK_ROLE_POLICY_NAME = "ecs-pf-ecs-exec";
+
+/**
+ * Resolve a service's task role and simulate the actions ECS Exec needs
+ */
+export async function checkServiceTaskRole(
+  clients: { ecsClient: ECSClient; iamClient: IAMClient },
+  clusterName: string,
+  serviceName: string,
+): Promise<TaskRoleCheck> {
+  const roleResult = await getServiceTaskRoleArn(
+    clients.ecsClient,
+    clusterName,
+    serviceName,
+  );
+  if (!roleResult.success) {
+    return {
+      clusterName,
+      serviceName,
+      missingActions: [],
+      error: roleResult.error,
+    };
+  }
+
+  const taskRoleArn = roleResult.data;
+  if (!taskRoleArn) {
+    return { clusterName, serviceName, missingActions: SSM_MESSAGES_ACTIONS };
+  }
+
+  const simulationResult = await simulatePrincipalActions(
+    clients.iamClient,
+    taskRoleArn,
+    SSM_MESSAGES_ACTIONS,
+  );
+  if (!simulationResult.success) {
+    return {
+      clusterName,
+      serviceName,
+      taskRoleArn,
+      missingActions: [],
+      error: simulationResult.error,
+    };
+  }
+
+  return {
+    clusterName,
+    serviceName,
+    taskRoleArn,
+    missingActions: simulationResult.data
+      .filter((result) => !result.allowed)
+      .map((result) => result.action),
+  };
+}
+
+function createExecTaskRolePolicy(actions: string[]) {
+  return {
+    Version: "2012-10-17",
+    Statement: [{ Effect: "Allow", Action: actions, Resource: "*" }],
+  };
+}
+
+/**
+ * Inline policy document granting only the missing actions
+ */
+export function buildExecTaskRolePolicy(actions: string[]): string {
+  return JSON.stringify(createExecTaskRolePolicy(actions), null, 2);
+}
+
+// arn:aws:iam::<account>:role/<path>/<name>
+export function getRoleName(roleArn: string): string {
+  return roleArn.split("/").pop() ?? roleArn;
+}
+
+export function formatPutRolePolicyCommand(
+  taskRoleArn: string,
+  actions: string[],
+  credentialFlags = "",
+): string {
+  const document = JSON.stringify(createExecTaskRolePolicy(actions));
+  return `aws iam put-role-policy --role-name ${getRoleName(taskRoleArn)} --policy-name ${EXEC_TASK_ROLE_POLICY_NAME} --policy-document '${document}'${credentialFlags}`;
+}
+
+/**
+ * Attach the minimal inline policy to the task role of a failed check
+ */
+export async function applyExecTaskRolePolicy(
+  iamClient: IAMClient,
+  check: TaskRoleCheck,
+): Promise<Result<void, string>> {
+  if (!check.taskRoleArn) {
+    return failure(
+      `Service "${check.serviceName}" has no task role; add one to its task definition first`,
+    );
+  }
+  return putRoleInlinePolicy(
+    iamClient,
+    getRoleName(check.taskRoleArn),
+    EXEC_TASK_ROLE_POLICY_NAME,
+    buildExecTaskRolePolicy(check.missingActions),
+  );
+}
@@ -0,0 +1,145 @@
+import { spawnSync } from "node:child_process";
+import { randomBytes } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { readStateFile, writeStateFile } from "./state-file.js";
+import {
+  parseTunnelState,
+  type Result,
+  success,
+  type TunnelEntry,
+} from "./types.js";
+
+/**
+ * Directory for ecs-pf's own state. ECS_PF_HOME overrides ~/.ecs-pf
+ */
+export function getStateDir(): string {
+  return process.env.ECS_PF_HOME || join(homedir(), ".ecs-pf");
+}
+
+// Hidden command the background supervisor runs as, followed by the tunnel ID
+export const TUNNEL_DAEMON_COMMAND = "tunnel-daemon";
+
+export function getTunnelStateFile(): string {
+  return join(getStateDir(), "tunnels.json");
+}
+
+export function generateTunnelId(): string {
+  return randomBytes(3).toString("hex");
+}
+
+/**
+ * Check whether a process is still running (signal 0 only checks existence)
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return error instanceof Error && "code" in error && error.code === "EPERM";
+  }
+}
+
+/**
+ * Command line of a process, or undefined when it cannot be read
+ */
+function readProcessCommandLine(pid: number): string | undefined {
+  try {
+    // Linux: arguments separated by NUL
+    return readFileSync(`/proc/${pid}/cmdline`, "utf8").replaceAll("\0", " ");
+  } catch {
+    const result = spawnSync(
+      "ps",
+      ["-ww", "-o", "command=", "-p", String(pid)],
+      { encoding: "utf8" },
+    );
+    return result.status === 0 ? result.stdout : undefined;
+  }
+}
+
+/**
+ * Check whether a tunnel's supervisor is still running. The pid alone is not enough,
+ * since it can be reused once the supervisor dies: the process must also carry the
+ * tunnel's ID, which the supervisor receives in its command line
+ */
+export function isTunnelProcessAlive(
+  tunnel: Pick<TunnelEntry, "id" | "pid">,
+): boolean {
+  if (!isProcessAlive(tunnel.pid)) {
+    return false;
+  }
+  const args = readProcessCommandLine(tunnel.pid)?.trim().split(/\s+/) ?? [];
+  return args.at(-2) === TUNNEL_DAEMON_COMMAND && args.at(-1) === tunnel.id;
+}
+
+/**
+ * Load recorded tunnels from the state file
+ */
+export async function loadTunnels(): Promise<Result<TunnelEntry[], string>> {
+  const result = await readStateFile(getTunnelStateFile(), parseTunnelState, {
+    tunnels: [],
+  });
+  return result.success ? success(result.data.tunnels) : result;
+}
+
+/**
+ * Record a newly started tunnel
+ */
+export async function addTunnel(
+  entry: TunnelEntry,
+): Promise<Result<void, string>> {
+  return writeStateFile(getTunnelStateFile(), loadTunnels, (tunnels) => ({
+    tunnels: [...tunnels, entry],
+  }));
+}
+
+/**
+ * Forget tunnels by ID
+ */
+export async function removeTunnels(
+  ids: string[],
+): Promise<Result<void, string>> {
+  return writeStateFile(getTunnelStateFile(), loadTunnels, (tunnels) => ({
+    tunnels: tunnels.filter((tunnel) => !ids.includes(tunnel.id)),
+  }));
+}
+
+/**
+ * Load tunnels and drop entries whose supervisor process has died (or whose pid is
+ * now used by another process)
+ */
+export async function pruneStaleTunnels(): Promise<
+  Result<{ tunnels: TunnelEntry[]; stale: TunnelEntry[] }, string>
+> {
+  let tunnels: TunnelEntry[] = [];
+  let stale: TunnelEntry[] = [];
+  const writeResult = await writeStateFile(
+    getTunnelStateFile(),
+    loadTunnels,
+    (recorded) => {
+      tunnels = recorded.filter(isTunnelProcessAlive);
+      stale = recorded.filter((tunnel) => !tunnels.includes(tunnel));
+      return stale.length > 0 ? { tunnels } : undefined;
+    },
+  );
+  if (!writeResult.success) return writeResult;
+  return success({ tunnels, stale });
+}
+
+/**
+ * Match tunnels by "all", tunnel ID or local port
+ */
+export function selectTunnels(
+  tunnels: TunnelEntry[],
+  selector: string,
+): TunnelEntry[] {
+  if (selector === "all") {
+    return tunnels;
+  }
+  return tunnels.filter(
+    (tunnel) =>
+      tunnel.id === selector || String(tunnel.session.localPort) === selector,
+  );
+}
@@ -21,7 +21,12 @@ import {
   unknown,
   type ValiError,
 } from "valibot";
-import { AWS_REGION_NAME, DB_ENDPOINT_FORMAT, DIGITS_ONLY } from "../regex.js";
+import {
+  AWS_REGION_NAME,
+  DB_ENDPOINT_FORMAT,
+  DIGITS_ONLY,
+  IAM_ROLE_ARN,
+} from "../regex.js";
 
 // =============================================================================
 // Branded Types - 不正な状態を表現できない型システム
@@ -170,6 +175,31 @@ export const DatabaseEngineSchema = pipe(
 );
 export type DatabaseEngine = InferOutput<typeof DatabaseEngineSchema>;
 
+// AWS named profile schema
+export const ProfileNameSchema = pipe(
+  string(),
+  minLength(1, "Profile name cannot be empty"),
+  brand("ProfileName"),
+);
+export type ProfileName = InferOutput<typeof ProfileNameSchema>;
+
+// IAM role ARN schema (for --role-arn)
+export const RoleArnSchema = pipe(
+  string(),
+  minLength(1, "Role ARN cannot be empty"),
+  regex(IAM_ROLE_ARN, "Invalid IAM role ARN format"),
+  brand("RoleArn"),
+);
+export type RoleArn = InferOutput<typeof RoleArnSchema>;
+
+// External ID schema used when assuming a role
+export const ExternalIdSchema = pipe(
+  string(),
+  minLength(1, "External ID cannot be empty"),
+  brand("ExternalId"),
+);
+export type ExternalId = InferOutput<typeof ExternalIdSchema>;
+
 // Command schema for CLI commands
 export const CommandSchema = pipe(
   string(),
@@ -220,6 +250,23 @@ export const DBInstanceStatusSchema = union([
 ]);
 export type DBInstanceStatus = InferOutput<typeof DBInstanceStatusSchema>;
 
+// Which endpoint a target connects to: a DB instance, an Aurora cluster endpoint
+// or an ElastiCache primary/reader/configuration/node endpoint
+export const RDSEndpointTypeSchema = union([
+  literal("instance"),
+  literal("writer"),
+  literal("reader"),
+  literal("custom"),
+  literal("primary"),
+  literal("configuration"),
+  literal("node"),
+]);
+export type RDSEndpointType = InferOutput<typeof RDSEndpointTypeSchema>;
+
+// Which service `connect` forwards to
+export const TargetTypeSchema = union([literal("rds"), literal("elasticache")]);
+export type TargetType = InferOutput<typeof TargetTypeSchema>;
+
 // AWS SDK Custom Schemas
 export const ECSClientSchema = pipe(
   object({
@@ -7,10 +7,12 @@ import type {
   DBInstanceIdentifier,
   DBInstanceStatus,
   Port,
+  RDSEndpointType,
   RegionName,
   RuntimeId,
   ServiceArn,
   ServiceName,
+  TargetType,
   TaskArn,
   TaskId,
   TaskStatus,
@@ -20,6 +22,17 @@ import type {
 // Domain Entities
 // =============================================================================
 
+export type ExecReadinessStatus =
+  | "ready"
+  | "exec-disabled"
+  | "agent-not-running";
+
+// Whether ECS Exec sessions can be started on a task, and why not
+export interface ExecReadiness {
+  status: ExecReadinessStatus;
+  reason: string;
+}
+
 export interface ECSTask {
   taskArn: TaskArn; // Custom format for SSM: ecs:cluster_name_task_id_runtime_id
   realTaskArn: TaskArn; // Actual AWS Task ARN
@@ -29,7 +42,58 @@ export interface ECSTask {
   clusterName: ClusterName;
   serviceName: ServiceName;
   taskStatus: TaskStatus;
+  healthStatus?: string;
   createdAt?: Date;
+  taskDefinitionArn?: string;
+  // awsvpc tasks only (from the ElasticNetworkInterface attachment)
+  networkInterfaceId?: string;
+  privateIpAddress?: string;
+  execReadiness?: ExecReadiness;
+}
+
+export interface ContainerPortMapping {
+  containerPort: Port;
+  protocol: string;
+  name?: string;
+}
+
+// A running container of a task with the ports its task definition maps
+export interface ECSContainerPorts {
+  containerName: ContainerName;
+  runtimeId: RuntimeId;
+  portMappings: ContainerPortMapping[];
+}
+
+// An environment variable or secret reference from a container definition.
+// For secrets, value holds the valueFrom ARN or parameter name.
+export interface TaskDefinitionEnvironmentEntry {
+  containerName: string;
+  name: string;
+  value: string;
+  source: "environment" | "secret";
+}
+
+export interface NetworkInterfaceInfo {
+  networkInterfaceId: string;
+  vpcId?: string;
+  securityGroupIds: string[];
+  privateIpAddress?: string;
+}
+
+export interface SecurityGroupIngressRule {
+  // "-1" means all protocols
+  protocol: string;
+  fromPort?: number;
+  toPort?: number;
+  sourceGroupIds: string[];
+  cidrs: string[];
+  prefixListIds: string[];
+}
+
+export interface SecurityGroupInfo {
+  groupId: string;
+  vpcId?: string;
+  ingressRules: SecurityGroupIngressRule[];
 }
 
 export interface ECSCluster {
@@ -48,7 +112,11 @@ export interface RDSInstance {
   availabilityZone: string;
   vpcSecurityGroups: string[];
   dbSubnetGroup?: string;
+  vpcId?: string; // VPC of the subnet group, when it could be described
   createdTime?: Date;
+  endpointType?: RDSEndpointType; // Omitted means a DB instance
+  dbClusterIdentifier?: DBInstanceIdentifier; // Set for Aurora and ElastiCache endpoints
+  targetType?: TargetType; // Omitted means RDS
 }
 
 export interface AWSRegion {
@@ -56,6 +124,32 @@ export interface AWSRegion {
   optInStatus: string;
 }
 
+// Scoring rules of ECS target inference
+export type ScoreRule =
+  | "base"
+  | "name"
+  | "segment"
+  | "word"
+  | "env-indicator"
+  | "pattern"
+  | "env-variable"
+  | "network"
+  | "stopped";
+
+// Points one rule added to (or took from) an inference score
+export interface ScoreContribution {
+  rule: ScoreRule;
+  points: number;
+  detail: string;
+}
+
+// How a cluster ranked when matching cluster names against the RDS name
+export interface ClusterNameScore {
+  clusterName: ClusterName;
+  score: number;
+  breakdown: ScoreContribution[];
+}
+
 export interface InferenceResult {
   cluster: ECSCluster;
   score: number;
@@ -71,6 +165,8 @@ export interface DryRunResult {
     task: TaskArn;
     rds?: DBInstanceIdentifier;
     rdsPort?: Port;
+    host?: DBEndpoint;
+    remotePort?: Port;
     localPort?: Port;
     container?: ContainerName;
     command?: string;
@@ -89,6 +185,9 @@ export interface ConnectOptions {
   rdsPort?: string;
   localPort?: string;
   dryRun?: boolean;
+  profile?: string;
+  roleArn?: string;
+  externalId?: string;
 }
 
 export interface ExecOptions {
@@ -98,13 +197,22 @@ export interface ExecOptions {
   container?: string;
   command?: string;
   dryRun?: boolean;
+  profile?: string;
+  roleArn?: string;
+  externalId?: string;
 }
 
 export interface EnableExecOptions {
   region?: string;
   cluster?: string;
   service?: string;
+  forceNewDeployment?: boolean;
+  printPolicy?: boolean;
+  applyPolicy?: boolean;
   dryRun?: boolean;
+  profile?: string;
+  roleArn?: string;
+  externalId?: string;
 }
 
 export interface ECSService {
@@ -119,6 +227,26 @@ export interface ECSService {
   pendingCount: number;
 }
 
+// Primary deployment of a service as reported by DescribeServices
+export interface ServiceDeploymentStatus {
+  // rolloutState of the primary deployment (absent for non-ECS deployment controllers)
+  rolloutState?: string;
+  rolloutStateReason?: string;
+  desiredCount: number;
+  runningCount: number;
+  // Older deployments still draining
+  activeDeployments: number;
+}
+
+// Outcome of waiting for a forced redeployment
+export interface EnableExecRollout {
+  state: "completed" | "failed" | "timed-out";
+  detail: string;
+  // Enable: every running task has exec and at least one agent is running.
+  // Disable: some running task still has exec
+  execTasksRunning: boolean;
+}
+
 export interface EnableExecResult {
   serviceName: ServiceName;
   clusterName: ClusterName;
@@ -126,10 +254,40 @@ export interface EnableExecResult {
   newState: boolean;
   success: boolean;
   error?: string;
+  // Set when --force-new-deployment replaced the running tasks
+  rollout?: EnableExecRollout;
+}
+
+export type DoctorCheckStatus = "pass" | "warn" | "fail" | "skip";
+
+export interface DoctorCheck {
+  name: string;
+  status: DoctorCheckStatus;
+  detail: string;
+}
+
+// Whether a service's task role allows what ECS Exec needs
+export interface TaskRoleCheck {
+  clusterName: string;
+  serviceName: string;
+  taskRoleArn?: string;
+  // Actions the role does not allow (all of them when there is no task role)
+  missingActions: string[];
+  // Set when the role or its permissions could not be determined
+  error?: string;
+}
+
+// ECS Exec state of a running task as reported by DescribeTasks
+export interface TaskExecStatus {
+  enableExecuteCommand: boolean;
+  agents: { containerName: string; status: string }[];
+  taskRoleArn?: string;
 }
 
 export interface ProcessClusterServicesParams {
   ecsClient: import("@aws-sdk/client-ecs").ECSClient;
   cluster: ECSCluster;
   options: EnableExecOptions;
+  // true for enable-exec, false for disable-exec
+  enable: boolean;
 }
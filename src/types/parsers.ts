@@ -36,11 +36,21 @@ import {
   TaskStatusSchema,
 } from "./branded.js";
 import {
+  type ConnectionHistory,
+  ConnectionHistorySchema,
+  type ExecJournal,
+  ExecJournalSchema,
   type HandleConnectionParams,
   HandleConnectionParamsSchema,
+  type PresetConfig,
+  PresetConfigSchema,
   ProcessClusterServicesParamsSchema,
   type SelectionState,
   SelectionStateSchema,
+  type TunnelState,
+  TunnelStateSchema,
+  type UsageStore,
+  UsageStoreSchema,
 } from "./schemas.js";
 
 // =============================================================================
@@ -255,3 +265,70 @@ export function parseProcessClusterServicesParams(
   }
   return failure("Invalid process cluster services parameters");
 }
+
+/**
+ * Safely parse a preset config file (.ecs-pf.json / .ecs-pf.yaml)
+ */
+export function parsePresetConfig(
+  config: unknown,
+): Result<PresetConfig, string> {
+  const result = safeParse(PresetConfigSchema, config);
+  if (result.success) {
+    return success(result.output);
+  }
+  const details = result.issues
+    .map((issue) => {
+      const path = issue.path?.map((p) => String(p.key)).join(".");
+      return path ? `${path}: ${issue.message}` : issue.message;
+    })
+    .join(", ");
+  return failure(`Invalid preset config: ${details}`);
+}
+
+/**
+ * Safely parse the detached tunnel state file
+ */
+export function parseTunnelState(state: unknown): Result<TunnelState, string> {
+  const result = safeParse(TunnelStateSchema, state);
+  if (result.success) {
+    return success(result.output);
+  }
+  return failure("Invalid tunnel state file");
+}
+
+/**
+ * Safely parse the exec journal file
+ */
+export function parseExecJournal(
+  journal: unknown,
+): Result<ExecJournal, string> {
+  const result = safeParse(ExecJournalSchema, journal);
+  if (result.success) {
+    return success(result.output);
+  }
+  return failure("Invalid exec journal file");
+}
+
+/**
+ * Safely parse the connection history file
+ */
+export function parseConnectionHistory(
+  history: unknown,
+): Result<ConnectionHistory, string> {
+  const result = safeParse(ConnectionHistorySchema, history);
+  if (result.success) {
+    return success(result.output);
+  }
+  return failure("Invalid connection history file");
+}
+
+/**
+ * Safely parse the picker usage file
+ */
+export function parseUsageStore(store: unknown): Result<UsageStore, string> {
+  const result = safeParse(UsageStoreSchema, store);
+  if (result.success) {
+    return success(result.output);
+  }
+  return failure("Invalid usage file");
+}
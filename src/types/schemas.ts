@@ -2,13 +2,17 @@ import {
   array,
   boolean,
   custom,
+  forward,
   type InferOutput,
   literal,
   minLength,
   number,
   object,
   optional,
+  partialCheck,
+  picklist,
   pipe,
+  record,
   string,
   transform,
   union,
@@ -24,16 +28,60 @@ import {
   DBInstanceIdentifierSchema,
   DBInstanceStatusSchema,
   ECSClientSchema,
+  ExternalIdSchema,
   NonEmptyStringSchema,
   PortSchema,
+  ProfileNameSchema,
+  RDSEndpointTypeSchema,
   RegionNameSchema,
+  type Result,
+  RoleArnSchema,
   RuntimeIdSchema,
   ServiceNameSchema,
+  TargetTypeSchema,
   TaskArnSchema,
   TaskIdSchema,
   TaskStatusSchema,
   VpcSecurityGroupsSchema,
 } from "./branded.js";
+import type { TaskDefinitionEnvironmentEntry } from "./entities.js";
+
+// =============================================================================
+// AWS Credential Schemas
+// =============================================================================
+
+// Credential entries shared by every command's options (--profile, --role-arn, --external-id)
+const AWSCredentialEntries = {
+  profile: optional(ProfileNameSchema),
+  roleArn: optional(RoleArnSchema),
+  externalId: optional(ExternalIdSchema),
+};
+
+export const AWSCredentialOptionsSchema = object(AWSCredentialEntries);
+
+// --external-id is only meaningful together with --role-arn
+const EXTERNAL_ID_REQUIRES_ROLE_ARN = "--external-id requires --role-arn";
+
+// How --service resolves to one of its running tasks
+export const TaskPickStrategySchema = picklist(
+  ["newest", "least-loaded"],
+  'Task pick strategy must be "newest" or "least-loaded"',
+);
+
+// Global --output mode: human text, or JSON events on stdout with logs on stderr
+export const OutputFormatSchema = picklist(
+  ["text", "json"],
+  'Output format must be "text" or "json"',
+);
+
+// Profile parsed from ~/.aws/config and ~/.aws/credentials
+export const AWSProfileSchema = object({
+  profileName: ProfileNameSchema,
+  region: optional(RegionNameSchema),
+  isSSO: boolean(),
+  ssoAccountId: optional(string()),
+  ssoRoleName: optional(string()),
+});
 
 // =============================================================================
 // Entity Schemas
@@ -51,6 +99,7 @@ export const RDSInstanceSchema = object({
   availabilityZone: string(),
   vpcSecurityGroups: VpcSecurityGroupsSchema,
   dbSubnetGroup: optional(string()),
+  vpcId: optional(string()),
   createdTime: optional(
     pipe(
       union([string(), custom<Date>((input) => input instanceof Date)]),
@@ -60,6 +109,9 @@ export const RDSInstanceSchema = object({
       }),
     ),
   ),
+  endpointType: optional(RDSEndpointTypeSchema),
+  dbClusterIdentifier: optional(DBInstanceIdentifierSchema),
+  targetType: optional(TargetTypeSchema),
 });
 
 // =============================================================================
@@ -71,34 +123,68 @@ export const ConnectDryRunParamsSchema = object({
   region: RegionNameSchema,
   cluster: ClusterNameSchema,
   task: TaskIdSchema,
+  service: optional(ServiceNameSchema),
+  pick: optional(TaskPickStrategySchema),
+  keepAlive: optional(boolean()),
   rdsInstance: RDSInstanceSchema,
   rdsPort: PortSchema,
   localPort: PortSchema,
+  credentials: optional(AWSCredentialOptionsSchema),
 });
 
 export const ExecDryRunParamsSchema = object({
   region: RegionNameSchema,
   cluster: ClusterNameSchema,
   task: TaskIdSchema,
+  service: optional(ServiceNameSchema),
+  pick: optional(TaskPickStrategySchema),
   container: ContainerNameSchema,
   command: CommandSchema,
+  credentials: optional(AWSCredentialOptionsSchema),
 });
 
+// `forward` reaches an arbitrary host:port instead of an RDS instance.
+// Without host it forwards to a port on the task itself (--on-task).
+export const ForwardDryRunParamsSchema = object({
+  region: RegionNameSchema,
+  cluster: ClusterNameSchema,
+  task: TaskIdSchema,
+  // SSM target naming the container by its runtime ID (--on-task)
+  target: optional(TaskArnSchema),
+  service: optional(ServiceNameSchema),
+  pick: optional(TaskPickStrategySchema),
+  host: optional(DBEndpointSchema),
+  container: optional(ContainerNameSchema),
+  remotePort: PortSchema,
+  localPort: PortSchema,
+  credentials: optional(AWSCredentialOptionsSchema),
+});
+
+// When service is known, the reproducible command targets the service instead of the task
 export const ReproducibleCommandParamsSchema = object({
   region: RegionNameSchema,
   cluster: ClusterNameSchema,
   task: TaskArnSchema,
+  service: optional(ServiceNameSchema),
+  pick: optional(TaskPickStrategySchema),
+  targetType: optional(TargetTypeSchema),
   rds: DBInstanceIdentifierSchema,
   rdsPort: PortSchema,
   localPort: PortSchema,
+  keepAlive: optional(boolean()),
+  credentials: optional(AWSCredentialOptionsSchema),
 });
 
 export const SSMSessionParamsSchema = object({
+  region: RegionNameSchema,
   taskArn: TaskArnSchema,
   rdsInstance: RDSInstanceSchema,
   rdsPort: PortSchema,
   localPort: PortSchema,
+  // Forward to rdsPort on the task's own loopback instead of rdsInstance
+  onTask: optional(boolean()),
   reproducibleCommand: optional(NonEmptyStringSchema),
+  credentials: optional(AWSCredentialOptionsSchema),
 });
 
 export const ECSExecParamsSchema = object({
@@ -107,9 +193,15 @@ export const ECSExecParamsSchema = object({
   taskArn: union([TaskArnSchema, TaskIdSchema]),
   containerName: ContainerNameSchema,
   command: CommandSchema,
+  credentials: optional(AWSCredentialOptionsSchema),
 });
 
 // Task scoring parameter schemas
+// Task definitions fetched during one inference run, keyed by ARN
+const TaskDefinitionCacheSchema = custom<
+  Map<string, Promise<Result<TaskDefinitionEnvironmentEntry[], string>>>
+>((input) => input instanceof Map, "Invalid task definition cache");
+
 export const TaskScoringParamsSchema = object({
   ecsClient: ECSClientSchema,
   tasks: array(
@@ -121,6 +213,7 @@ export const TaskScoringParamsSchema = object({
       clusterName: ClusterNameSchema,
       serviceName: ServiceNameSchema,
       taskStatus: TaskStatusSchema,
+      taskDefinitionArn: optional(string()),
     }),
   ),
   cluster: object({
@@ -154,11 +247,16 @@ export const TaskScoringParamsSchema = object({
       }),
     ),
   }),
+  taskDefinitionCache: optional(TaskDefinitionCacheSchema),
+  // Return only tasks whose task definition references the RDS (no name fallback)
+  taskDefinitionOnly: optional(boolean()),
 });
 
 // ECS target selection parameter schemas
 export const ECSTargetSelectionOptionsSchema = object({
   cluster: optional(ClusterNameSchema),
+  service: optional(ServiceNameSchema),
+  pick: optional(TaskPickStrategySchema),
   task: optional(TaskIdSchema),
 });
 
@@ -184,8 +282,10 @@ export const TaskEnvironmentCheckParamsSchema = object({
     clusterName: ClusterNameSchema,
     serviceName: ServiceNameSchema,
     taskStatus: TaskStatusSchema,
+    taskDefinitionArn: optional(string()),
   }),
   rdsInstance: RDSInstanceSchema,
+  taskDefinitionCache: optional(TaskDefinitionCacheSchema),
 });
 
 export const TaskNamingScoringParamsSchema = object({
@@ -342,45 +442,260 @@ export const SearchInferenceResultsParamsSchema = object({
 });
 
 // Parse-first Schemas for CLI Options
-export const ConnectOptionsSchema = object({
-  region: optional(RegionNameSchema),
-  cluster: optional(ClusterNameSchema),
-  task: optional(
-    pipe(
-      string(),
-      minLength(1, "Task ID cannot be empty"),
-      transform(
-        (task): import("./branded.js").TaskId =>
-          task as import("./branded.js").TaskId,
+export const ConnectOptionsSchema = pipe(
+  object({
+    region: optional(RegionNameSchema),
+    cluster: optional(ClusterNameSchema),
+    task: optional(
+      pipe(
+        string(),
+        minLength(1, "Task ID cannot be empty"),
+        transform(
+          (task): import("./branded.js").TaskId =>
+            task as import("./branded.js").TaskId,
+        ),
       ),
     ),
+    rds: optional(
+      pipe(
+        string(),
+        minLength(1, "RDS instance identifier cannot be empty"),
+        transform((rds): DBInstanceIdentifier => rds as DBInstanceIdentifier),
+      ),
+    ),
+    service: optional(ServiceNameSchema),
+    pick: optional(TaskPickStrategySchema),
+    targetType: optional(TargetTypeSchema),
+    rdsPort: optional(PortSchema),
+    localPort: optional(PortSchema),
+    keepAlive: optional(boolean()),
+    detach: optional(boolean()),
+    last: optional(boolean()),
+    dryRun: optional(boolean(), false),
+    ...AWSCredentialEntries,
+  }),
+  forward(
+    partialCheck(
+      [["roleArn"], ["externalId"]],
+      (input) => !input.externalId || !!input.roleArn,
+      EXTERNAL_ID_REQUIRES_ROLE_ARN,
+    ),
+    ["externalId"],
   ),
-  rds: optional(
-    pipe(
-      string(),
-      minLength(1, "RDS instance identifier cannot be empty"),
-      transform((rds): DBInstanceIdentifier => rds as DBInstanceIdentifier),
+);
+
+export const ExecOptionsSchema = pipe(
+  object({
+    region: optional(RegionNameSchema),
+    cluster: optional(ClusterNameSchema),
+    service: optional(ServiceNameSchema),
+    pick: optional(TaskPickStrategySchema),
+    task: optional(TaskIdSchema),
+    container: optional(ContainerNameSchema),
+    command: optional(CommandSchema),
+    dryRun: optional(boolean()),
+    ...AWSCredentialEntries,
+  }),
+  forward(
+    partialCheck(
+      [["roleArn"], ["externalId"]],
+      (input) => !input.externalId || !!input.roleArn,
+      EXTERNAL_ID_REQUIRES_ROLE_ARN,
     ),
+    ["externalId"],
   ),
-  rdsPort: optional(PortSchema),
-  localPort: optional(PortSchema),
-  dryRun: optional(boolean(), false),
+);
+
+export const ForwardOptionsSchema = pipe(
+  object({
+    region: optional(RegionNameSchema),
+    cluster: optional(ClusterNameSchema),
+    service: optional(ServiceNameSchema),
+    pick: optional(TaskPickStrategySchema),
+    task: optional(TaskIdSchema),
+    host: optional(DBEndpointSchema),
+    onTask: optional(boolean()),
+    container: optional(ContainerNameSchema),
+    remotePort: optional(PortSchema),
+    localPort: optional(PortSchema),
+    dryRun: optional(boolean()),
+    ...AWSCredentialEntries,
+  }),
+  forward(
+    partialCheck(
+      [["roleArn"], ["externalId"]],
+      (input) => !input.externalId || !!input.roleArn,
+      EXTERNAL_ID_REQUIRES_ROLE_ARN,
+    ),
+    ["externalId"],
+  ),
+  forward(
+    partialCheck(
+      [["host"], ["onTask"]],
+      (input) => !(input.host && input.onTask),
+      "--host cannot be combined with --on-task",
+    ),
+    ["onTask"],
+  ),
+);
+
+export const EnableExecOptionsSchema = pipe(
+  object({
+    region: optional(RegionNameSchema),
+    cluster: optional(ClusterNameSchema),
+    service: optional(ServiceNameSchema),
+    forceNewDeployment: optional(boolean()),
+    printPolicy: optional(boolean()),
+    applyPolicy: optional(boolean()),
+    dryRun: optional(boolean()),
+    ...AWSCredentialEntries,
+  }),
+  forward(
+    partialCheck(
+      [["roleArn"], ["externalId"]],
+      (input) => !input.externalId || !!input.roleArn,
+      EXTERNAL_ID_REQUIRES_ROLE_ARN,
+    ),
+    ["externalId"],
+  ),
+);
+
+// disable-exec takes the same options as enable-exec
+export const DisableExecOptionsSchema = EnableExecOptionsSchema;
+
+export const RevertOptionsSchema = pipe(
+  object({
+    list: optional(boolean()),
+    dryRun: optional(boolean()),
+    ...AWSCredentialEntries,
+  }),
+  forward(
+    partialCheck(
+      [["roleArn"], ["externalId"]],
+      (input) => !input.externalId || !!input.roleArn,
+      EXTERNAL_ID_REQUIRES_ROLE_ARN,
+    ),
+    ["externalId"],
+  ),
+);
+
+export const HistoryOptionsSchema = object({
+  list: optional(boolean()),
 });
 
-export const ExecOptionsSchema = object({
-  region: optional(RegionNameSchema),
-  cluster: optional(ClusterNameSchema),
-  task: optional(TaskIdSchema),
-  container: optional(ContainerNameSchema),
-  command: optional(CommandSchema),
-  dryRun: optional(boolean()),
+// Without a name, favorite lists the starred items
+export const FavoriteOptionsSchema = object({
+  remove: optional(boolean()),
 });
 
-export const EnableExecOptionsSchema = object({
-  region: optional(RegionNameSchema),
-  cluster: optional(ClusterNameSchema),
-  service: optional(ServiceNameSchema),
-  dryRun: optional(boolean()),
+// Task checks run only when cluster and task are given
+export const DoctorOptionsSchema = pipe(
+  object({
+    region: optional(RegionNameSchema),
+    cluster: optional(ClusterNameSchema),
+    task: optional(TaskIdSchema),
+    ...AWSCredentialEntries,
+  }),
+  forward(
+    partialCheck(
+      [["roleArn"], ["externalId"]],
+      (input) => !input.externalId || !!input.roleArn,
+      EXTERNAL_ID_REQUIRES_ROLE_ARN,
+    ),
+    ["externalId"],
+  ),
+  forward(
+    partialCheck(
+      [["cluster"], ["task"]],
+      (input) => !input.task || !!input.cluster,
+      "--task requires --cluster",
+    ),
+    ["task"],
+  ),
+);
+
+// Resources that `ecs-pf list` can enumerate
+export const ListResourceSchema = picklist(
+  ["clusters", "services", "tasks", "rds", "regions"],
+  'Resource must be "clusters", "services", "tasks", "rds" or "regions"',
+);
+
+export const ListOptionsSchema = pipe(
+  object({
+    region: optional(RegionNameSchema),
+    cluster: optional(ClusterNameSchema),
+    execEnabled: optional(boolean()),
+    status: optional(pipe(string(), minLength(1, "Status cannot be empty"))),
+    ...AWSCredentialEntries,
+  }),
+  forward(
+    partialCheck(
+      [["roleArn"], ["externalId"]],
+      (input) => !input.externalId || !!input.roleArn,
+      EXTERNAL_ID_REQUIRES_ROLE_ARN,
+    ),
+    ["externalId"],
+  ),
+);
+
+export const InferOptionsSchema = pipe(
+  object({
+    region: optional(RegionNameSchema),
+    rds: optional(DBInstanceIdentifierSchema),
+    targetType: optional(TargetTypeSchema),
+    explain: optional(boolean()),
+    timings: optional(boolean()),
+    ...AWSCredentialEntries,
+  }),
+  forward(
+    partialCheck(
+      [["roleArn"], ["externalId"]],
+      (input) => !input.externalId || !!input.roleArn,
+      EXTERNAL_ID_REQUIRES_ROLE_ARN,
+    ),
+    ["externalId"],
+  ),
+);
+
+// Named presets checked in as .ecs-pf.json / .ecs-pf.yaml.
+// Presets reference a service rather than a task, since task ids change on every deploy.
+export const PresetSchema = pipe(
+  object({
+    region: optional(RegionNameSchema),
+    cluster: optional(ClusterNameSchema),
+    service: optional(ServiceNameSchema),
+    pick: optional(TaskPickStrategySchema),
+    targetType: optional(TargetTypeSchema),
+    rds: optional(DBInstanceIdentifierSchema),
+    rdsPort: optional(PortSchema),
+    localPort: optional(PortSchema),
+    keepAlive: optional(boolean()),
+    container: optional(ContainerNameSchema),
+    command: optional(CommandSchema),
+    ...AWSCredentialEntries,
+  }),
+  forward(
+    partialCheck(
+      [["roleArn"], ["externalId"]],
+      (input) => !input.externalId || !!input.roleArn,
+      EXTERNAL_ID_REQUIRES_ROLE_ARN,
+    ),
+    ["externalId"],
+  ),
+);
+
+export const PresetConfigSchema = object({
+  presets: record(string(), PresetSchema),
+  // Named lists of presets that `connect` opens together
+  groups: optional(
+    record(
+      string(),
+      pipe(
+        array(string()),
+        minLength(1, "A preset group must list at least one preset"),
+      ),
+    ),
+  ),
 });
 
 export const ECSServiceSchema = object({
@@ -408,6 +723,7 @@ export const EnableExecResultSchema = object({
 // UI Selection State Schema
 // =============================================================================
 export const SelectionStateSchema = object({
+  profile: optional(ProfileNameSchema),
   region: optional(RegionNameSchema),
   rds: optional(DBInstanceIdentifierSchema),
   rdsPort: optional(PortSchema),
@@ -428,6 +744,7 @@ export const ProcessClusterServicesParamsSchema = object({
   ecsClient: ECSClientSchema, // ECSClient from AWS SDK
   cluster: ECSClusterSchema,
   options: EnableExecOptionsSchema,
+  enable: boolean(),
 });
 
 export const InferenceResultSchema = object({
@@ -442,6 +759,7 @@ export const InferenceResultSchema = object({
     clusterName: ClusterNameSchema,
     serviceName: ServiceNameSchema,
     taskStatus: TaskStatusSchema,
+    healthStatus: optional(string()),
     createdAt: optional(
       pipe(
         union([string(), custom<Date>((input) => input instanceof Date)]),
@@ -463,21 +781,163 @@ export const HandleConnectionParamsSchema = object({
   selectedTask: TaskArnSchema,
   selectedInference: InferenceResultSchema,
   rdsPort: PortSchema,
-  options: object({ dryRun: optional(boolean()) }),
+  options: object({
+    dryRun: optional(boolean()),
+    pick: optional(TaskPickStrategySchema),
+    keepAlive: optional(boolean()),
+    detach: optional(boolean()),
+    ...AWSCredentialEntries,
+  }),
+});
+
+// =============================================================================
+// Detached Tunnel Schemas
+// =============================================================================
+
+/**
+ * Everything a background supervisor needs to run (and re-resolve) a tunnel
+ */
+export const TunnelSpecSchema = object({
+  id: pipe(string(), minLength(1, "Tunnel ID cannot be empty")),
+  name: string(),
+  session: SSMSessionParamsSchema,
+  cluster: ECSClusterSchema,
+  service: ServiceNameSchema,
+  pick: optional(TaskPickStrategySchema),
+  keepAlive: optional(boolean()),
+});
+
+export const TunnelEntrySchema = object({
+  ...TunnelSpecSchema.entries,
+  pid: number(),
+  startedAt: string(),
+  logFile: string(),
+});
+
+export const TunnelStateSchema = object({
+  tunnels: array(TunnelEntrySchema),
+});
+
+// =============================================================================
+// Exec Journal Schemas
+// =============================================================================
+
+/**
+ * One service update made by enable-exec, disable-exec or revert
+ */
+export const ExecJournalEntrySchema = object({
+  id: pipe(string(), minLength(1, "Journal entry ID cannot be empty")),
+  timestamp: string(),
+  action: picklist(["enable", "disable", "revert"]),
+  // AWS account ID (absent when the caller identity could not be resolved)
+  account: optional(string()),
+  region: RegionNameSchema,
+  cluster: ClusterNameSchema,
+  service: ServiceNameSchema,
+  previousState: boolean(),
+  newState: boolean(),
+  forceNewDeployment: optional(boolean()),
+  // ID of the entry a revert undid
+  revertOf: optional(string()),
+});
+
+export const ExecJournalSchema = object({
+  entries: array(ExecJournalEntrySchema),
+});
+
+// =============================================================================
+// Connection History Schemas
+// =============================================================================
+
+/**
+ * One connect or exec session that ran, recorded for history and connect --last
+ */
+export const HistoryEntrySchema = object({
+  id: pipe(string(), minLength(1, "History entry ID cannot be empty")),
+  kind: picklist(["connect", "exec"]),
+  // When the session started
+  timestamp: string(),
+  // Absent for detached tunnels, which outlive the command
+  durationMs: optional(number()),
+  region: RegionNameSchema,
+  cluster: ClusterNameSchema,
+  service: optional(ServiceNameSchema),
+  // Task used at the time; replays resolve a fresh one from the service
+  task: TaskIdSchema,
+  pick: optional(TaskPickStrategySchema),
+  targetType: optional(TargetTypeSchema),
+  rds: optional(string()),
+  rdsPort: optional(PortSchema),
+  localPort: optional(PortSchema),
+  container: optional(ContainerNameSchema),
+  command: optional(CommandSchema),
+  credentials: optional(AWSCredentialOptionsSchema),
+});
+
+export const ConnectionHistorySchema = object({
+  entries: array(HistoryEntrySchema),
+});
+
+// =============================================================================
+// Usage Schemas
+// =============================================================================
+
+// What the pickers remember; tasks and inference results are keyed by service
+export const UsageKindSchema = picklist(
+  ["region", "cluster", "service", "rds"],
+  'Kind must be "region", "cluster", "service" or "rds"',
+);
+
+export const UsageRecordSchema = object({
+  kind: UsageKindSchema,
+  name: pipe(string(), minLength(1, "Name cannot be empty")),
+  count: number(),
+  lastUsed: string(),
+});
+
+export const FavoriteSchema = object({
+  kind: UsageKindSchema,
+  name: pipe(string(), minLength(1, "Name cannot be empty")),
+});
+
+export const UsageStoreSchema = object({
+  usage: array(UsageRecordSchema),
+  favorites: array(FavoriteSchema),
 });
 
 // =============================================================================
 // Type Exports
 // =============================================================================
 
+export type AWSCredentialOptions = InferOutput<
+  typeof AWSCredentialOptionsSchema
+>;
+export type TaskPickStrategy = InferOutput<typeof TaskPickStrategySchema>;
+export type OutputFormat = InferOutput<typeof OutputFormatSchema>;
+export type AWSProfile = InferOutput<typeof AWSProfileSchema>;
+export type Preset = InferOutput<typeof PresetSchema>;
+export type PresetConfig = InferOutput<typeof PresetConfigSchema>;
+export type TunnelSpec = InferOutput<typeof TunnelSpecSchema>;
+export type TunnelEntry = InferOutput<typeof TunnelEntrySchema>;
+export type TunnelState = InferOutput<typeof TunnelStateSchema>;
+export type ExecJournalEntry = InferOutput<typeof ExecJournalEntrySchema>;
+export type ExecJournal = InferOutput<typeof ExecJournalSchema>;
+export type HistoryEntry = InferOutput<typeof HistoryEntrySchema>;
+export type UsageKind = InferOutput<typeof UsageKindSchema>;
+export type UsageRecord = InferOutput<typeof UsageRecordSchema>;
+export type Favorite = InferOutput<typeof FavoriteSchema>;
+export type UsageStore = InferOutput<typeof UsageStoreSchema>;
+export type ConnectionHistory = InferOutput<typeof ConnectionHistorySchema>;
 export type ConnectDryRunParams = InferOutput<typeof ConnectDryRunParamsSchema>;
 export type ExecDryRunParams = InferOutput<typeof ExecDryRunParamsSchema>;
+export type ForwardDryRunParams = InferOutput<typeof ForwardDryRunParamsSchema>;
 export type ReproducibleCommandParams = InferOutput<
   typeof ReproducibleCommandParamsSchema
 >;
 export type SSMSessionParams = InferOutput<typeof SSMSessionParamsSchema>;
 export type ECSExecParams = InferOutput<typeof ECSExecParamsSchema>;
 export type TaskScoringParams = InferOutput<typeof TaskScoringParamsSchema>;
+export type TaskDefinitionCache = InferOutput<typeof TaskDefinitionCacheSchema>;
 export type ECSTargetSelectionOptions = InferOutput<
   typeof ECSTargetSelectionOptionsSchema
 >;
@@ -518,9 +978,22 @@ export type SearchInferenceResultsParams = InferOutput<
 >;
 export type ValidatedConnectOptions = InferOutput<typeof ConnectOptionsSchema>;
 export type ValidatedExecOptions = InferOutput<typeof ExecOptionsSchema>;
+export type ValidatedForwardOptions = InferOutput<typeof ForwardOptionsSchema>;
 export type ValidatedEnableExecOptions = InferOutput<
   typeof EnableExecOptionsSchema
 >;
+export type ValidatedDisableExecOptions = InferOutput<
+  typeof DisableExecOptionsSchema
+>;
+export type ValidatedRevertOptions = InferOutput<typeof RevertOptionsSchema>;
+export type ValidatedHistoryOptions = InferOutput<typeof HistoryOptionsSchema>;
+export type ValidatedFavoriteOptions = InferOutput<
+  typeof FavoriteOptionsSchema
+>;
+export type ValidatedDoctorOptions = InferOutput<typeof DoctorOptionsSchema>;
+export type ListResource = InferOutput<typeof ListResourceSchema>;
+export type ValidatedListOptions = InferOutput<typeof ListOptionsSchema>;
+export type ValidatedInferOptions = InferOutput<typeof InferOptionsSchema>;
 export type ValidatedProcessClusterServicesParams = InferOutput<
   typeof ProcessClusterServicesParamsSchema
 >;
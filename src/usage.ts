@@ -0,0 +1,130 @@
+import { join } from "node:path";
+import { readStateFile, writeStateFile } from "./state-file.js";
+import { getStateDir } from "./tunnels.js";
+import {
+  parseUsageStore,
+  type Result,
+  type UsageKind,
+  type UsageStore,
+} from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A use counts half as much after two weeks
+const USAGE_HALF_LIFE_DAYS = 14;
+// Items used within this window get the "recent" marker
+const RECENT_DAYS = 30;
+
+const EMPTY_STORE: UsageStore = { usage: [], favorites: [] };
+
+export function getUsageFile(): string {
+  return join(getStateDir(), "usage.json");
+}
+
+/**
+ * Load usage counts and favorites (an empty store when nothing was recorded yet)
+ */
+export async function loadUsage(): Promise<Result<UsageStore, string>> {
+  return readStateFile(getUsageFile(), parseUsageStore, EMPTY_STORE);
+}
+
+/**
+ * Apply a change to the store
+ */
+async function updateUsage(
+  update: (store: UsageStore) => UsageStore,
+): Promise<Result<void, string>> {
+  return writeStateFile(getUsageFile(), loadUsage, update);
+}
+
+/**
+ * Count one use of each item
+ */
+export async function recordUsage(
+  items: { kind: UsageKind; name: string }[],
+  now = new Date(),
+): Promise<Result<void, string>> {
+  return updateUsage((store) => {
+    const usage = [...store.usage];
+    for (const { kind, name } of items) {
+      const index = usage.findIndex(
+        (record) => record.kind === kind && record.name === name,
+      );
+      const count = (usage[index]?.count ?? 0) + 1;
+      const record = { kind, name, count, lastUsed: now.toISOString() };
+      if (index === -1) {
+        usage.push(record);
+      } else {
+        usage[index] = record;
+      }
+    }
+    return { ...store, usage };
+  });
+}
+
+/**
+ * Star or unstar an item
+ */
+export async function setFavorite(
+  kind: UsageKind,
+  name: string,
+  starred: boolean,
+): Promise<Result<void, string>> {
+  return updateUsage((store) => {
+    const favorites = store.favorites.filter(
+      (favorite) => favorite.kind !== kind || favorite.name !== name,
+    );
+    return {
+      ...store,
+      favorites: starred ? [...favorites, { kind, name }] : favorites,
+    };
+  });
+}
+
+export interface UsageRank {
+  favorite: boolean;
+  recent: boolean;
+  // Uses weighted by how long ago they were (0 when never used)
+  score: number;
+}
+
+/**
+ * Rank items of one kind by the stored usage
+ */
+export function createUsageRanker(
+  store: UsageStore,
+  kind: UsageKind,
+  now = Date.now(),
+): (name: string | undefined) => UsageRank {
+  const favorites = new Set(
+    store.favorites
+      .filter((favorite) => favorite.kind === kind)
+      .map((favorite) => favorite.name),
+  );
+  const records = new Map(
+    store.usage
+      .filter((record) => record.kind === kind)
+      .map((record) => [record.name, record]),
+  );
+
+  return (name) => {
+    const record = name === undefined ? undefined : records.get(name);
+    const ageDays = record
+      ? Math.max(0, (now - new Date(record.lastUsed).getTime()) / DAY_MS)
+      : Number.POSITIVE_INFINITY;
+    return {
+      favorite: name !== undefined && favorites.has(name),
+      recent: ageDays <= RECENT_DAYS,
+      score: record
+        ? record.count * 0.5 ** (ageDays / USAGE_HALF_LIFE_DAYS)
+        : 0,
+    };
+  };
+}
+
+/**
+ * Favorites first, then used items by score; everything else keeps its order
+ */
+export function compareUsageRanks(a: UsageRank, b: UsageRank): number {
+  if (a.favorite !== b.favorite) return a.favorite ? -1 : 1;
+  return b.score - a.score;
+}
@@ -19,6 +19,10 @@ export function getDefaultPortForEngine(engine: string): number {
     return 3306;
   } else if (engineLower.includes("aurora-postgresql")) {
     return 5432;
+  } else if (engineLower.includes("redis") || engineLower.includes("valkey")) {
+    return 6379;
+  } else if (engineLower.includes("memcached")) {
+    return 11211;
   } else {
     // Default to PostgreSQL port
     return 5432;
@@ -193,6 +193,22 @@ function getErrorDetails(error: unknown): ErrorDetails {
     };
   }
 
+  // Session Manager Plugin related errors
+  if (errorMessage.includes("Session Manager Plugin may not be installed")) {
+    return {
+      title: "Session Manager Plugin Not Found",
+      message: "session-manager-plugin is not installed or not accessible",
+      suggestions: [
+        "Please install the Session Manager Plugin",
+        "Please verify that session-manager-plugin is in your PATH",
+        "Please restart your terminal after installation",
+      ],
+      technicalDetails: errorMessage,
+      documentation:
+        "https://docs.aws.amazon.com/systems-manager/latest/userguide/session-manager-working-with-install-plugin.html",
+    };
+  }
+
   // AWS CLI related errors
   if (
     errorMessage.includes("AWS CLI may not be installed") ||
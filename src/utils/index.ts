@@ -18,6 +18,15 @@ export { displayFriendlyError } from "./error-display.js";
 export { askRetry } from "./interactive.js";
 export { messages } from "./messages.js";
 export {
+  emitJSON,
+  getChildStdout,
+  getPromptContext,
+  getUIOutput,
+  isJSONOutput,
+  setOutputFormat,
+} from "./output.js";
+export {
+  allocateAvailablePort,
   areAllPortsInRange,
   displayParsingErrors,
   findAvailablePort,
@@ -1,24 +1,30 @@
 import chalk from "chalk";
+import { getUIOutput, isJSONOutput } from "./output.js";
+
+// In JSON mode stdout carries only JSON events, so logs go to stderr
+const print = (message: string) => {
+  getUIOutput().write(`${message}\n`);
+};
 
 export const messages = {
   info: (message: string) => {
-    console.log(chalk.blue(message));
+    print(chalk.blue(message));
   },
 
   success: (message: string) => {
-    console.log(chalk.green(message));
+    print(chalk.green(message));
   },
 
   error: (message: string) => {
-    console.log(chalk.red(message));
+    print(chalk.red(message));
   },
 
   warning: (message: string) => {
-    console.log(chalk.yellow(message));
+    print(chalk.yellow(message));
   },
 
   log: (message: string) => {
-    console.log(message);
+    print(message);
   },
 
   warn: (message: string) => {
@@ -26,25 +32,32 @@ export const messages = {
   },
 
   debug: (message: string) => {
-    console.log(chalk.gray(`[DEBUG] ${message}`));
+    print(chalk.gray(`[DEBUG] ${message}`));
+  },
+
+  // Clear the terminal (skipped in JSON mode, where the screen is not ours)
+  clearScreen: () => {
+    if (!isJSONOutput()) {
+      console.clear();
+    }
   },
 
   // Clear previous lines
   clearLines: (count: number) => {
     for (const _ of Array(count)) {
-      process.stdout.write("\x1b[1A"); // Move cursor up
-      process.stdout.write("\x1b[2K"); // Clear entire line
+      getUIOutput().write("\x1b[1A"); // Move cursor up
+      getUIOutput().write("\x1b[2K"); // Clear entire line
     }
   },
 
   // Clear previous line (commonly used pattern)
   clearPreviousLine: () => {
-    process.stdout.write("\x1b[1A\x1b[2K\r");
+    getUIOutput().write("\x1b[1A\x1b[2K\r");
   },
 
   // Clear current line (for progress indicators)
   clearCurrentLine: () => {
-    process.stdout.write("\r\x1b[2K");
+    getUIOutput().write("\r\x1b[2K");
   },
 
   // Clear and replace the last line
@@ -52,61 +65,62 @@ export const messages = {
     newMessage: string,
     color: "info" | "success" | "error" | "warning" = "success",
   ) => {
-    process.stdout.write("\x1b[1A"); // Move cursor up
-    process.stdout.write("\x1b[2K"); // Clear entire line
-    process.stdout.write("\r"); // Move to start of line
+    getUIOutput().write("\x1b[1A"); // Move cursor up
+    getUIOutput().write("\x1b[2K"); // Clear entire line
+    getUIOutput().write("\r"); // Move to start of line
     messages[color](newMessage);
   },
 
   // 色付きのメッセージ（既存の色指定を維持）
   cyan: (message: string) => {
-    console.log(chalk.cyan(message));
+    print(chalk.cyan(message));
   },
 
   white: (message: string) => {
-    console.log(chalk.white(message));
+    print(chalk.white(message));
   },
 
   gray: (message: string) => {
-    console.log(chalk.gray(message));
+    print(chalk.gray(message));
   },
 
   // 太字バリエーション
   bold: {
     info: (message: string) => {
-      console.log(chalk.blue.bold(message));
+      print(chalk.blue.bold(message));
     },
 
     success: (message: string) => {
-      console.log(chalk.green.bold(message));
+      print(chalk.green.bold(message));
     },
 
     error: (message: string) => {
-      console.log(chalk.red.bold(message));
+      print(chalk.red.bold(message));
     },
 
     warning: (message: string) => {
-      console.log(chalk.yellow.bold(message));
+      print(chalk.yellow.bold(message));
     },
 
     white: (message: string) => {
-      console.log(chalk.white.bold(message));
+      print(chalk.white.bold(message));
     },
 
     gray: (message: string) => {
-      console.log(chalk.gray.bold(message));
+      print(chalk.gray.bold(message));
     },
   },
 
   // 空行
   empty: () => {
-    console.log("");
+    print("");
   },
 
   // Network selection UI
   ui: {
     // Display the current selection state in step-by-step format matching the mockup
     displaySelectionState: (selections: {
+      profile?: string;
       region?: string;
       rds?: string;
       rdsPort?: string;
@@ -114,8 +128,8 @@ export const messages = {
       ecsCluster?: string;
       localPort?: string;
     }) => {
-      console.clear();
-      console.log(chalk.bold.white("Select Network Configuration"));
+      messages.clearScreen();
+      print(chalk.bold.white("Select Network Configuration"));
       messages.empty();
 
       // Helper function to format line with proper spacing and alignment
@@ -161,53 +175,60 @@ export const messages = {
         return `  ${paddedLabel}: ${spaces}${chalk.cyan(value)}`;
       };
 
+      // Profile selection (only shown when a profile is in use)
+      if (selections.profile) {
+        print(formatSelectionLine("Profile", selections.profile));
+      }
+
       // Region selection
-      console.log(formatSelectionLine("Region", selections.region));
+      print(formatSelectionLine("Region", selections.region));
 
       // RDS Instance selection
-      console.log(formatSelectionLine("RDS", selections.rds));
+      print(formatSelectionLine("RDS", selections.rds));
 
       // RDS Port (auto-determined when RDS is selected)
       if (selections.rds && selections.rdsPort) {
-        console.log(
-          formatSelectionLine("", selections.rdsPort, true, "RDS port"),
-        );
+        print(formatSelectionLine("", selections.rdsPort, true, "RDS port"));
       } else if (selections.rds) {
-        console.log(formatSelectionLine("", "determining port...", true));
+        print(formatSelectionLine("", "determining port...", true));
       } else {
-        console.log(formatSelectionLine("", undefined));
+        print(formatSelectionLine("", undefined));
       }
 
       // ECS Target selection
-      console.log(formatSelectionLine("ECS Target", selections.ecsTarget));
+      print(formatSelectionLine("ECS Target", selections.ecsTarget));
 
       // ECS Cluster (auto-determined when ECS Target is selected)
       if (selections.ecsTarget && selections.ecsCluster) {
-        console.log(
+        print(
           formatSelectionLine("", selections.ecsCluster, true, "ECS Cluster"),
         );
       } else if (selections.ecsTarget) {
-        console.log(formatSelectionLine("", "determining cluster...", true));
+        print(formatSelectionLine("", "determining cluster...", true));
       } else {
-        console.log(formatSelectionLine("", undefined));
+        print(formatSelectionLine("", undefined));
       }
 
       // Local Port selection
-      console.log(formatSelectionLine("Local Port", selections.localPort));
+      print(formatSelectionLine("Local Port", selections.localPort));
 
       messages.empty();
     },
 
     // Display ECS exec selection state
-    displayExecSelectionState: (selections: {
-      region?: string;
-      cluster?: string;
-      task?: string;
-      container?: string;
-      command?: string;
-    }) => {
-      console.clear();
-      console.log(chalk.bold.white("ECS Execute Command Configuration"));
+    displayExecSelectionState: (
+      selections: {
+        profile?: string;
+        region?: string;
+        cluster?: string;
+        task?: string;
+        container?: string;
+        command?: string;
+      },
+      title = "ECS Execute Command Configuration",
+    ) => {
+      messages.clearScreen();
+      print(chalk.bold.white(title));
       messages.empty();
 
       // Helper function to format line with proper spacing and alignment
@@ -233,20 +254,25 @@ export const messages = {
         return `  ${paddedLabel}: ${spaces}${chalk.cyan(value)}`;
       };
 
+      // Profile selection (only shown when a profile is in use)
+      if (selections.profile) {
+        print(formatSelectionLine("Profile", selections.profile));
+      }
+
       // Region selection
-      console.log(formatSelectionLine("Region", selections.region));
+      print(formatSelectionLine("Region", selections.region));
 
       // ECS Cluster selection
-      console.log(formatSelectionLine("Cluster", selections.cluster));
+      print(formatSelectionLine("Cluster", selections.cluster));
 
       // ECS Task selection
-      console.log(formatSelectionLine("Task", selections.task));
+      print(formatSelectionLine("Task", selections.task));
 
       // Container selection
-      console.log(formatSelectionLine("Container", selections.container));
+      print(formatSelectionLine("Container", selections.container));
 
       // Command selection
-      console.log(formatSelectionLine("Command", selections.command));
+      print(formatSelectionLine("Command", selections.command));
 
       messages.empty();
     },
@@ -255,27 +281,25 @@ export const messages = {
   // Dry Run functionality
   dryRun: {
     header: () => {
-      console.log("");
-      console.log(
-        chalk.cyan("🏃 Dry Run Mode - Commands that would be executed:"),
-      );
-      console.log("");
+      print("");
+      print(chalk.cyan("🏃 Dry Run Mode - Commands that would be executed:"));
+      print("");
     },
 
     awsCommand: (cmd: string) => {
-      console.log(chalk.blue("AWS Command:"));
-      console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-      console.log(cmd);
-      console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-      console.log("");
+      print(chalk.blue("AWS Command:"));
+      print("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+      print(cmd);
+      print("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+      print("");
     },
 
     reproducibleCommand: (cmd: string) => {
-      console.log(chalk.green("Reproducible Command:"));
-      console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-      console.log(cmd);
-      console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-      console.log("");
+      print(chalk.green("Reproducible Command:"));
+      print("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+      print(cmd);
+      print("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+      print("");
     },
 
     sessionInfo: (info: {
@@ -284,27 +308,38 @@ export const messages = {
       task: string;
       rds?: string;
       rdsPort?: string;
+      host?: string;
+      remotePort?: string;
       localPort?: string;
       container?: string;
       command?: string;
     }) => {
-      console.log(chalk.yellow("Session Information:"));
-      console.log(`Region: ${info.region}`);
-      console.log(`Cluster: ${info.cluster}`);
-      console.log(`Task: ${info.task}`);
+      print(chalk.yellow("Session Information:"));
+      print(`Region: ${info.region}`);
+      print(`Cluster: ${info.cluster}`);
+      print(`Task: ${info.task}`);
 
       if (info.rds) {
-        console.log(`RDS: ${info.rds}`);
-        console.log(`RDS Port: ${info.rdsPort}`);
-        console.log(`Local Port: ${info.localPort}`);
+        print(`RDS: ${info.rds}`);
+        print(`RDS Port: ${info.rdsPort}`);
+        print(`Local Port: ${info.localPort}`);
+      }
+
+      if (info.remotePort) {
+        print(`Host: ${info.host ?? "localhost (on the task)"}`);
+        print(`Remote Port: ${info.remotePort}`);
+        print(`Local Port: ${info.localPort}`);
       }
 
       if (info.container) {
-        console.log(`Container: ${info.container}`);
-        console.log(`Command: ${info.command}`);
+        print(`Container: ${info.container}`);
+      }
+
+      if (info.command) {
+        print(`Command: ${info.command}`);
       }
 
-      console.log("");
+      print("");
     },
   },
 };
@@ -0,0 +1,41 @@
+import type { OutputFormat } from "../types.js";
+
+let outputFormat: OutputFormat = "text";
+
+export function setOutputFormat(format: OutputFormat): void {
+  outputFormat = format;
+}
+
+export function isJSONOutput(): boolean {
+  return outputFormat === "json";
+}
+
+/**
+ * Stream for logs, prompts and cursor movement: stderr in JSON mode, leaving
+ * stdout to emitJSON
+ */
+export function getUIOutput(): NodeJS.WriteStream {
+  return isJSONOutput() ? process.stderr : process.stdout;
+}
+
+/**
+ * Context for inquirer prompts, which otherwise always render on stdout
+ */
+export function getPromptContext(): { output: NodeJS.WriteStream } {
+  return { output: getUIOutput() };
+}
+
+/**
+ * Write one event as a JSON line on stdout (a no-op in text mode)
+ */
+export function emitJSON(type: string, data: Record<string, unknown>): void {
+  if (!isJSONOutput()) return;
+  process.stdout.write(`${JSON.stringify({ type, ...data })}\n`);
+}
+
+/**
+ * Stdout for spawned AWS CLI and plugin processes: stderr in JSON mode
+ */
+export function getChildStdout(): "inherit" | number {
+  return isJSONOutput() ? 2 : "inherit";
+}
@@ -2,8 +2,14 @@ import * as net from "node:net";
 import { type InferIssue, safeParse } from "valibot";
 import {
   ConnectOptionsSchema,
+  type DoctorOptionsSchema,
   ExecOptionsSchema,
+  type FavoriteOptionsSchema,
+  type ForwardOptionsSchema,
   failure,
+  type HistoryOptionsSchema,
+  type InferOptionsSchema,
+  type ListOptionsSchema,
   type Port,
   type PortSchema,
   parsePort,
@@ -65,7 +71,13 @@ export function parseExecOptions(
 export function displayParsingErrors(
   issues:
     | InferIssue<typeof ConnectOptionsSchema>[]
-    | InferIssue<typeof ExecOptionsSchema>[],
+    | InferIssue<typeof ExecOptionsSchema>[]
+    | InferIssue<typeof ForwardOptionsSchema>[]
+    | InferIssue<typeof DoctorOptionsSchema>[]
+    | InferIssue<typeof HistoryOptionsSchema>[]
+    | InferIssue<typeof FavoriteOptionsSchema>[]
+    | InferIssue<typeof ListOptionsSchema>[]
+    | InferIssue<typeof InferOptionsSchema>[],
 ): void {
   messages.error("Invalid CLI options:");
   for (const issue of issues) {
@@ -152,6 +164,28 @@ export async function findAvailablePortSafe(
   return findPort(parseResult.data);
 }
 
+/**
+ * Find an available port that has not been handed out yet in this run.
+ * Ports are only bound once the sessions start, so allocations are tracked in `reserved`.
+ */
+export async function allocateAvailablePort(
+  startPort: number,
+  reserved: Set<number>,
+): Promise<Result<Port, string>> {
+  let candidate = startPort;
+  while (true) {
+    const result = await findAvailablePortSafe(candidate);
+    if (!result.success) {
+      return result;
+    }
+    if (!reserved.has(Number(result.data))) {
+      reserved.add(Number(result.data));
+      return result;
+    }
+    candidate = Number(result.data) + 1;
+  }
+}
+
 /**
  * Legacy function for backward compatibility
  * This maintains the original API while internally using the new type-safe version
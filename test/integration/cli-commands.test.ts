@@ -1,5 +1,7 @@
 import { describe, expect, it } from "bun:test";
 import { spawn } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
 
@@ -15,6 +17,7 @@ const CLI_PATH = process.env.CI
 function runCLI(
   args: string[],
   timeout = process.env.CI ? 10000 : 5000, // CI環境では長めのタイムアウト
+  env: Record<string, string> = {},
 ): Promise<{
   code: number | null;
   stdout: string;
@@ -22,7 +25,7 @@ function runCLI(
 }> {
   return new Promise((resolve) => {
     const child = spawn("bun", [CLI_PATH, ...args], {
-      env: { ...process.env, NODE_ENV: "test" },
+      env: { ...process.env, NODE_ENV: "test", ...env },
     });
 
     let stdout = "";
@@ -200,6 +203,30 @@ describe("CLI Commands Integration", () => {
       expect(code).toBe(1);
       expect(stdout).toContain("Invalid type"); // 統合後のValibot validation error
     });
+
+    it("should reject --last combined with a preset", async () => {
+      const { code, stdout } = await runCLI(["connect", "prod", "--last"]);
+
+      expect(code).toBe(1);
+      expect(stdout).toContain("--last cannot be combined with a preset");
+    });
+
+    it("should fail --last without a previous connection", async () => {
+      // 空の履歴を使う
+      const stateDir = await mkdtemp(join(tmpdir(), "ecs-pf-last-"));
+      try {
+        const { code, stdout } = await runCLI(
+          ["connect", "--last"],
+          undefined,
+          { ECS_PF_HOME: stateDir },
+        );
+
+        expect(code).toBe(1);
+        expect(stdout).toContain("No previous connection found");
+      } finally {
+        await rm(stateDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe("exec command", () => {
@@ -433,4 +460,54 @@ describe("CLI Commands Integration", () => {
       }
     });
   });
+
+  describe("JSON output", () => {
+    // 状態ファイルは一時ディレクトリに書き込む
+    async function runWithStateDir(args: string[]) {
+      const stateDir = await mkdtemp(join(tmpdir(), "ecs-pf-output-"));
+      try {
+        return await runCLI(args, undefined, { ECS_PF_HOME: stateDir });
+      } finally {
+        await rm(stateDir, { recursive: true, force: true });
+      }
+    }
+
+    it("should print listings as JSON lines on stdout", async () => {
+      const { code, stdout } = await runWithStateDir([
+        "ls",
+        "--output",
+        "json",
+      ]);
+
+      expect(code).toBe(0);
+      expect(JSON.parse(stdout)).toEqual({ type: "tunnels", tunnels: [] });
+    });
+
+    it("should move logs to stderr", async () => {
+      const { code, stdout, stderr } = await runWithStateDir([
+        "favorite",
+        "region",
+        "ap-northeast-1",
+        "-o",
+        "json",
+      ]);
+
+      expect(code).toBe(0);
+      expect(stdout).toBe("");
+      expect(stderr).toContain("ap-northeast-1");
+    });
+
+    it("should reject an unknown output format", async () => {
+      const { code, stdout, stderr } = await runWithStateDir([
+        "ls",
+        "--output",
+        "yaml",
+      ]);
+
+      expect(code).toBe(1);
+      expect(stdout + stderr).toContain(
+        'Output format must be "text" or "json"',
+      );
+    });
+  });
 });
@@ -1,4 +1,10 @@
-import type { DescribeRegionsCommandInput } from "@aws-sdk/client-ec2";
+import type {
+  DescribeNetworkInterfacesCommandInput,
+  DescribeRegionsCommandInput,
+  DescribeSecurityGroupsCommandInput,
+  NetworkInterface,
+  SecurityGroup,
+} from "@aws-sdk/client-ec2";
 import { mockAWSRegions } from "../mock-data/index.js";
 
 interface MockCommand {
@@ -6,7 +12,15 @@ interface MockCommand {
   input?: unknown;
 }
 
+interface MockEC2ClientOptions {
+  // ネットワーク到達性の検証用
+  securityGroups?: SecurityGroup[];
+  networkInterfaces?: NetworkInterface[];
+}
+
 export class EC2Client {
+  constructor(private readonly options: MockEC2ClientOptions = {}) {}
+
   send(command: MockCommand) {
     const commandName = command.constructor.name;
     switch (commandName) {
@@ -17,6 +31,41 @@ export class EC2Client {
             OptInStatus: region.optInStatus,
           })),
         });
+      case "DescribeSecurityGroupsCommand": {
+        const input = command.input as DescribeSecurityGroupsCommandInput;
+        return Promise.resolve({
+          SecurityGroups: (this.options.securityGroups ?? []).filter(
+            (group) => group.GroupId && input.GroupIds?.includes(group.GroupId),
+          ),
+        });
+      }
+      case "DescribeNetworkInterfacesCommand": {
+        const input = command.input as DescribeNetworkInterfacesCommandInput;
+        // NetworkInterfaceIdsは存在しないIDがあると全体がエラーになる（実際のAPIと同じ）
+        const requestedIds = input.NetworkInterfaceIds ?? [];
+        const knownIds = (this.options.networkInterfaces ?? []).map(
+          (eni) => eni.NetworkInterfaceId,
+        );
+        const missingId = requestedIds.find((id) => !knownIds.includes(id));
+        if (missingId) {
+          const error = new Error(
+            `The networkInterface ID '${missingId}' does not exist`,
+          );
+          error.name = "InvalidNetworkInterfaceID.NotFound";
+          return Promise.reject(error);
+        }
+        const filterIds =
+          input.Filters?.find(
+            (filter) => filter.Name === "network-interface-id",
+          )?.Values ?? requestedIds;
+        return Promise.resolve({
+          NetworkInterfaces: (this.options.networkInterfaces ?? []).filter(
+            (eni) =>
+              eni.NetworkInterfaceId &&
+              filterIds.includes(eni.NetworkInterfaceId),
+          ),
+        });
+      }
       default:
         throw new Error(`Unknown command: ${commandName}`);
     }
@@ -26,3 +75,9 @@ export class EC2Client {
 export class DescribeRegionsCommand {
   constructor(public input?: DescribeRegionsCommandInput) {}
 }
+export class DescribeSecurityGroupsCommand {
+  constructor(public input?: DescribeSecurityGroupsCommandInput) {}
+}
+export class DescribeNetworkInterfacesCommand {
+  constructor(public input?: DescribeNetworkInterfacesCommandInput) {}
+}
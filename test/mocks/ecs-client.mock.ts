@@ -1,5 +1,7 @@
 import type {
   DescribeClustersCommandInput,
+  DescribeServicesCommandInput,
+  DescribeTaskDefinitionCommandInput,
   DescribeTasksCommandInput,
   ListClustersCommandInput,
   ListServicesCommandInput,
@@ -12,18 +14,66 @@ interface MockCommand {
   input?: unknown;
 }
 
+interface MockECSClientOptions {
+  // List APIの1ページあたりの件数（ページネーション検証用）
+  pageSize?: number;
+  // ECS Execが無効なサービス（サービス名）
+  execDisabledServices?: string[];
+  // ECS Execが無効なタスク（realTaskArn）
+  execDisabledTaskArns?: string[];
+  // ExecuteCommandAgentが起動していないタスク（realTaskArn）
+  agentPendingTaskArns?: string[];
+  // タスクロールが無いタスク定義（ファミリー名）
+  noTaskRoleFamilies?: string[];
+}
+
+// nextTokenをオフセットとして扱い、配列をページ単位で返す
+function paginate<T>(
+  items: T[],
+  pageSize: number | undefined,
+  nextToken: string | undefined,
+): { items: T[]; nextToken?: string } {
+  if (!pageSize) {
+    return { items };
+  }
+  const offset = nextToken ? Number(nextToken) : 0;
+  const end = offset + pageSize;
+  return {
+    items: items.slice(offset, end),
+    nextToken: end < items.length ? String(end) : undefined,
+  };
+}
+
 export class ECSClient {
+  constructor(private readonly options: MockECSClientOptions = {}) {}
+
   send(command: MockCommand) {
     const commandName = command.constructor.name;
     switch (commandName) {
-      case "ListClustersCommand":
-        return Promise.resolve({
-          clusterArns: mockECSClusters.map((c) => c.clusterArn),
-        });
-      case "DescribeClustersCommand":
+      case "ListClustersCommand": {
+        const input = command.input as ListClustersCommandInput;
+        const page = paginate(
+          mockECSClusters.map((c) => c.clusterArn),
+          this.options.pageSize,
+          input?.nextToken,
+        );
         return Promise.resolve({
-          clusters: mockECSClusters,
+          clusterArns: page.items,
+          nextToken: page.nextToken,
         });
+      }
+      case "DescribeClustersCommand": {
+        const input = command.input as DescribeClustersCommandInput;
+        // clusters指定がある場合はARNまたは名前でフィルタ
+        const clusters = input?.clusters
+          ? mockECSClusters.filter(
+              (c) =>
+                input.clusters?.includes(c.clusterArn) ||
+                input.clusters?.includes(c.clusterName),
+            )
+          : mockECSClusters;
+        return Promise.resolve({ clusters });
+      }
       case "ListServicesCommand": {
         const input = command.input as ListServicesCommandInput;
         // cluster名でフィルタ
@@ -33,13 +83,42 @@ export class ECSClient {
         const uniqueServices = [
           ...new Set(clusterTasks.map((t) => t.serviceName)),
         ];
-        return Promise.resolve({
-          serviceArns: uniqueServices.map(
+        const page = paginate(
+          uniqueServices.map(
             (serviceName) =>
               `arn:aws:ecs:ap-northeast-1:123456789012:service/${input.cluster}/${serviceName}`,
           ),
+          this.options.pageSize,
+          input.nextToken,
+        );
+        return Promise.resolve({
+          serviceArns: page.items,
+          nextToken: page.nextToken,
         });
       }
+      case "DescribeServicesCommand": {
+        const input = command.input as DescribeServicesCommandInput;
+        const services = (input.services ?? []).map((serviceArn) => {
+          const serviceName = serviceArn.split("/").pop() ?? serviceArn;
+          const serviceTasks = mockECSTasks.filter(
+            (t) =>
+              t.clusterName === input.cluster && t.serviceName === serviceName,
+          );
+          return {
+            serviceName,
+            serviceArn,
+            status: "ACTIVE",
+            taskDefinition: `arn:aws:ecs:ap-northeast-1:123456789012:task-definition/${serviceName}:1`,
+            enableExecuteCommand:
+              !this.options.execDisabledServices?.includes(serviceName),
+            desiredCount: serviceTasks.length,
+            runningCount: serviceTasks.filter((t) => t.taskStatus === "RUNNING")
+              .length,
+            pendingCount: 0,
+          };
+        });
+        return Promise.resolve({ services });
+      }
       case "ListTasksCommand": {
         const input = command.input as ListTasksCommandInput;
         // cluster, serviceNameでフィルタ
@@ -48,9 +127,14 @@ export class ECSClient {
             t.clusterName === input.cluster &&
             (!input.serviceName || t.serviceName === input.serviceName),
         );
-        const taskArns = filteredTasks.map((t) => t.realTaskArn);
+        const page = paginate(
+          filteredTasks.map((t) => t.realTaskArn),
+          this.options.pageSize,
+          input.nextToken,
+        );
         return Promise.resolve({
-          taskArns,
+          taskArns: page.items,
+          nextToken: page.nextToken,
         });
       }
       case "DescribeTasksCommand": {
@@ -83,13 +167,27 @@ export class ECSClient {
         );
         const result = filteredTasks.map((t) => ({
           taskArn: t.realTaskArn,
+          taskDefinitionArn: `arn:aws:ecs:ap-northeast-1:123456789012:task-definition/${t.serviceName}:1`,
           lastStatus: t.taskStatus,
           createdAt: t.createdAt,
+          enableExecuteCommand: !this.options.execDisabledTaskArns?.includes(
+            t.realTaskArn,
+          ),
           containers: [
             {
               name: "web-container",
               runtimeId: t.runtimeId,
               lastStatus: "RUNNING",
+              managedAgents: [
+                {
+                  name: "ExecuteCommandAgent",
+                  lastStatus: this.options.agentPendingTaskArns?.includes(
+                    t.realTaskArn,
+                  )
+                    ? "PENDING"
+                    : "RUNNING",
+                },
+              ],
             },
           ],
         }));
@@ -97,6 +195,29 @@ export class ECSClient {
           tasks: result,
         });
       }
+      case "DescribeTaskDefinitionCommand": {
+        const input = command.input as DescribeTaskDefinitionCommandInput;
+        // arn:...:task-definition/<family>:<revision>
+        const family =
+          input.taskDefinition?.split("/").pop()?.split(":")[0] ?? "";
+        return Promise.resolve({
+          taskDefinition: {
+            taskDefinitionArn: input.taskDefinition,
+            taskRoleArn: this.options.noTaskRoleFamilies?.includes(family)
+              ? undefined
+              : `arn:aws:iam::123456789012:role/${family}-task-role`,
+            containerDefinitions: [
+              {
+                name: "web-container",
+                portMappings: [
+                  { containerPort: 8080, protocol: "tcp", name: "http" },
+                  { containerPort: 9090, protocol: "tcp" },
+                ],
+              },
+            ],
+          },
+        });
+      }
       default:
         throw new Error(`Unknown command: ${commandName}`);
     }
@@ -110,6 +231,9 @@ export class ListClustersCommand {
 export class DescribeClustersCommand {
   constructor(public input?: DescribeClustersCommandInput) {}
 }
+export class DescribeServicesCommand {
+  constructor(public input?: DescribeServicesCommandInput) {}
+}
 export class ListServicesCommand {
   constructor(public input?: ListServicesCommandInput) {}
 }
@@ -119,3 +243,6 @@ export class ListTasksCommand {
 export class DescribeTasksCommand {
   constructor(public input?: DescribeTasksCommandInput) {}
 }
+export class DescribeTaskDefinitionCommand {
+  constructor(public input?: DescribeTaskDefinitionCommandInput) {}
+}
@@ -0,0 +1,53 @@
+import type {
+  CacheCluster,
+  DescribeCacheClustersCommandInput,
+  DescribeReplicationGroupsCommandInput,
+  ReplicationGroup,
+} from "@aws-sdk/client-elasticache";
+
+interface MockCommand {
+  constructor: { name: string };
+  input?: unknown;
+}
+
+interface MockElastiCacheClientOptions {
+  replicationGroups?: ReplicationGroup[];
+  cacheClusters?: CacheCluster[];
+  // 全てのDescribe系APIでAccessDeniedを返す
+  denyAccess?: boolean;
+}
+
+export class ElastiCacheClient {
+  constructor(private readonly options: MockElastiCacheClientOptions = {}) {}
+
+  send(command: MockCommand) {
+    const commandName = command.constructor.name;
+    if (this.options.denyAccess) {
+      const error = new Error("not authorized to perform this operation");
+      error.name = "AccessDenied";
+      return Promise.reject(error);
+    }
+    switch (commandName) {
+      case "DescribeReplicationGroupsCommand":
+        return Promise.resolve({
+          Marker: undefined,
+          ReplicationGroups: this.options.replicationGroups ?? [],
+        });
+      case "DescribeCacheClustersCommand":
+        return Promise.resolve({
+          Marker: undefined,
+          CacheClusters: this.options.cacheClusters ?? [],
+        });
+      default:
+        throw new Error(`Unknown command: ${commandName}`);
+    }
+  }
+}
+
+export class DescribeReplicationGroupsCommand {
+  constructor(public input?: DescribeReplicationGroupsCommandInput) {}
+}
+
+export class DescribeCacheClustersCommand {
+  constructor(public input?: DescribeCacheClustersCommandInput) {}
+}
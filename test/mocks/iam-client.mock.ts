@@ -0,0 +1,61 @@
+import type {
+  PutRolePolicyCommandInput,
+  SimulatePrincipalPolicyCommandInput,
+} from "@aws-sdk/client-iam";
+
+interface MockCommand {
+  constructor: { name: string };
+  input?: unknown;
+}
+
+interface MockIAMClientOptions {
+  // ロールARNごとに許可されていないアクション
+  deniedActions?: Record<string, string[]>;
+  // SimulatePrincipalPolicy で AccessDenied を返す
+  denySimulation?: boolean;
+}
+
+export class IAMClient {
+  // PutRolePolicy で追加されたインラインポリシー
+  readonly putPolicies: PutRolePolicyCommandInput[] = [];
+
+  constructor(private readonly options: MockIAMClientOptions = {}) {}
+
+  send(command: MockCommand) {
+    const commandName = command.constructor.name;
+    switch (commandName) {
+      case "SimulatePrincipalPolicyCommand": {
+        if (this.options.denySimulation) {
+          const error = new Error(
+            "not authorized to perform iam:SimulatePrincipalPolicy",
+          );
+          error.name = "AccessDenied";
+          return Promise.reject(error);
+        }
+        const input = command.input as SimulatePrincipalPolicyCommandInput;
+        const denied =
+          this.options.deniedActions?.[input.PolicySourceArn ?? ""] ?? [];
+        return Promise.resolve({
+          EvaluationResults: (input.ActionNames ?? []).map((action) => ({
+            EvalActionName: action,
+            EvalDecision: denied.includes(action) ? "implicitDeny" : "allowed",
+          })),
+          IsTruncated: false,
+        });
+      }
+      case "PutRolePolicyCommand": {
+        this.putPolicies.push(command.input as PutRolePolicyCommandInput);
+        return Promise.resolve({});
+      }
+      default:
+        throw new Error(`Unknown command: ${commandName}`);
+    }
+  }
+}
+
+export class SimulatePrincipalPolicyCommand {
+  constructor(public input?: SimulatePrincipalPolicyCommandInput) {}
+}
+export class PutRolePolicyCommand {
+  constructor(public input?: PutRolePolicyCommandInput) {}
+}
@@ -1,4 +1,9 @@
-import type { DescribeDBInstancesCommandInput } from "@aws-sdk/client-rds";
+import type {
+  DBCluster,
+  DescribeDBClustersCommandInput,
+  DescribeDBInstancesCommandInput,
+  DescribeDBSubnetGroupsCommandInput,
+} from "@aws-sdk/client-rds";
 import { mockRDSInstances } from "../mock-data/index.js";
 
 interface MockCommand {
@@ -6,13 +11,33 @@ interface MockCommand {
   input?: unknown;
 }
 
+interface MockRDSClientOptions {
+  // DescribeDBInstancesの1ページあたりの件数（ページネーション検証用）
+  pageSize?: number;
+  // DescribeDBClustersで返すAuroraクラスター（既定は無し）
+  dbClusters?: DBCluster[];
+  // DescribeDBClustersをAccessDeniedにする
+  denyDescribeDBClusters?: boolean;
+  // DBサブネットグループ名ごとのVPC
+  subnetGroupVpcIds?: Record<string, string>;
+}
+
 export class RDSClient {
+  constructor(private readonly options: MockRDSClientOptions = {}) {}
+
   send(command: MockCommand) {
     const commandName = command.constructor.name;
     switch (commandName) {
-      case "DescribeDBInstancesCommand":
+      case "DescribeDBInstancesCommand": {
+        const input = command.input as DescribeDBInstancesCommandInput;
+        // Markerをオフセットとして扱う
+        const offset = input?.Marker ? Number(input.Marker) : 0;
+        const end = this.options.pageSize
+          ? offset + this.options.pageSize
+          : mockRDSInstances.length;
         return Promise.resolve({
-          DBInstances: mockRDSInstances.map((instance) => ({
+          Marker: end < mockRDSInstances.length ? String(end) : undefined,
+          DBInstances: mockRDSInstances.slice(offset, end).map((instance) => ({
             DBInstanceIdentifier: instance.dbInstanceIdentifier,
             Endpoint: {
               Address: instance.endpoint,
@@ -32,6 +57,31 @@ export class RDSClient {
             InstanceCreateTime: instance.createdTime,
           })),
         });
+      }
+      case "DescribeDBClustersCommand": {
+        if (this.options.denyDescribeDBClusters) {
+          const error = new Error("Access denied");
+          error.name = "AccessDenied";
+          return Promise.reject(error);
+        }
+        return Promise.resolve({
+          Marker: undefined,
+          DBClusters: this.options.dbClusters ?? [],
+        });
+      }
+      case "DescribeDBSubnetGroupsCommand": {
+        const input = command.input as DescribeDBSubnetGroupsCommandInput;
+        const name = input?.DBSubnetGroupName ?? "";
+        const vpcId = this.options.subnetGroupVpcIds?.[name];
+        if (!vpcId) {
+          const error = new Error(`DB subnet group ${name} not found`);
+          error.name = "DBSubnetGroupNotFoundFault";
+          return Promise.reject(error);
+        }
+        return Promise.resolve({
+          DBSubnetGroups: [{ DBSubnetGroupName: name, VpcId: vpcId }],
+        });
+      }
       default:
         throw new Error(`Unknown command: ${commandName}`);
     }
@@ -41,3 +91,11 @@ export class RDSClient {
 export class DescribeDBInstancesCommand {
   constructor(public input?: DescribeDBInstancesCommandInput) {}
 }
+
+export class DescribeDBClustersCommand {
+  constructor(public input?: DescribeDBClustersCommandInput) {}
+}
+
+export class DescribeDBSubnetGroupsCommand {
+  constructor(public input?: DescribeDBSubnetGroupsCommandInput) {}
+}
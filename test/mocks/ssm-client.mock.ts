@@ -0,0 +1,46 @@
+import type { DescribeSessionsCommandInput } from "@aws-sdk/client-ssm";
+
+interface MockCommand {
+  constructor: { name: string };
+  input?: unknown;
+}
+
+interface MockSSMClientOptions {
+  // ターゲットごとのアクティブセッション数
+  activeSessions?: Record<string, number>;
+  // DescribeSessions で AccessDenied を返す
+  denyDescribeSessions?: boolean;
+}
+
+export class SSMClient {
+  constructor(private readonly options: MockSSMClientOptions = {}) {}
+
+  send(command: MockCommand) {
+    const commandName = command.constructor.name;
+    switch (commandName) {
+      case "DescribeSessionsCommand": {
+        if (this.options.denyDescribeSessions) {
+          const error = new Error("not authorized to perform DescribeSessions");
+          error.name = "AccessDeniedException";
+          return Promise.reject(error);
+        }
+        const input = command.input as DescribeSessionsCommandInput;
+        const target = input.Filters?.find((f) => f.key === "Target")?.value;
+        const count = target ? (this.options.activeSessions?.[target] ?? 0) : 0;
+        return Promise.resolve({
+          Sessions: Array.from({ length: count }, (_, i) => ({
+            SessionId: `session-${i}`,
+            Target: target,
+            Status: "Connected",
+          })),
+        });
+      }
+      default:
+        throw new Error(`Unknown command: ${commandName}`);
+    }
+  }
+}
+
+export class DescribeSessionsCommand {
+  constructor(public input?: DescribeSessionsCommandInput) {}
+}
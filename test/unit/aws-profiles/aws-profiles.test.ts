@@ -0,0 +1,82 @@
+import { describe, expect, it } from "bun:test";
+import { parseAWSProfiles } from "../../../src/aws-profiles.js";
+
+const CONFIG = `
+[default]
+region = ap-northeast-1
+
+# SSO profile using a shared sso-session
+[profile staging]
+sso_session = my-sso
+sso_account_id = 123456789012
+sso_role_name = Developer
+region = us-west-2
+
+[profile legacy-sso]
+sso_start_url = https://example.awsapps.com/start
+sso_region = us-east-1
+
+[sso-session my-sso]
+sso_start_url = https://example.awsapps.com/start
+sso_region = us-east-1
+`;
+
+const CREDENTIALS = `
+[default]
+aws_access_key_id = AKIAEXAMPLE
+aws_secret_access_key = secret
+
+; credentials-only profile
+[ci]
+aws_access_key_id = AKIAEXAMPLE2
+aws_secret_access_key = secret2
+region = eu-west-1
+`;
+
+describe("parseAWSProfiles", () => {
+  it("config と credentials のプロファイルを統合する", () => {
+    const profiles = parseAWSProfiles(CONFIG, CREDENTIALS);
+
+    expect(profiles.map((profile) => profile.profileName)).toEqual([
+      "default",
+      "staging",
+      "legacy-sso",
+      "ci",
+    ]);
+  });
+
+  it("SSO プロファイルとデフォルトリージョンを認識する", () => {
+    const profiles = parseAWSProfiles(CONFIG, CREDENTIALS);
+    const staging = profiles.find((p) => p.profileName === "staging");
+    const legacy = profiles.find((p) => p.profileName === "legacy-sso");
+
+    expect(staging?.isSSO).toBe(true);
+    expect(staging?.region).toBe("us-west-2");
+    expect(staging?.ssoAccountId).toBe("123456789012");
+    expect(staging?.ssoRoleName).toBe("Developer");
+    // sso_region は SSO ポータルのリージョンであり、デフォルトリージョンではない
+    expect(legacy?.isSSO).toBe(true);
+    expect(legacy?.region).toBeUndefined();
+  });
+
+  it("sso-session セクションはプロファイルとして扱わない", () => {
+    const profiles = parseAWSProfiles(CONFIG, "");
+
+    expect(profiles.some((p) => p.profileName.includes("my-sso"))).toBe(false);
+  });
+
+  it("config の設定が credentials より優先される", () => {
+    const profiles = parseAWSProfiles(
+      "[profile ci]\nregion = us-east-1\n",
+      CREDENTIALS,
+    );
+    const ci = profiles.find((p) => p.profileName === "ci");
+
+    expect(ci?.region).toBe("us-east-1");
+    expect(ci?.isSSO).toBe(false);
+  });
+
+  it("空のファイルの場合は空配列を返す", () => {
+    expect(parseAWSProfiles("", "")).toEqual([]);
+  });
+});
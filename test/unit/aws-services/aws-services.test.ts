@@ -1,21 +1,32 @@
 import { beforeEach, describe, expect, it, vi } from "bun:test";
 import type { EC2Client } from "@aws-sdk/client-ec2";
 import type { ECSClient } from "@aws-sdk/client-ecs";
+import type { ElastiCacheClient } from "@aws-sdk/client-elasticache";
 import type { RDSClient } from "@aws-sdk/client-rds";
 import {
   checkECSExecCapability,
+  enableECSExecForService,
   getAWSRegions,
   getECSClusters,
   getECSClustersWithExecCapability,
+  getECSServices,
+  getECSTaskContainerPorts,
   getECSTaskContainers,
   getECSTasks,
   getECSTasksWithExecCapability,
+  getElastiCacheEndpoints,
   getRDSInstances,
+  setECSExecForService,
 } from "../../../src/aws-services.js";
 import type { ClusterArn, ClusterName, TaskArn } from "../../../src/types.js";
-import { mockECSClusters } from "../../mock-data/index.js";
+import {
+  mockECSClusters,
+  mockECSTasks,
+  mockRDSInstances,
+} from "../../mock-data/index.js";
 import { EC2Client as MockEC2Client } from "../../mocks/ec2-client.mock.js";
 import { ECSClient as MockECSClient } from "../../mocks/ecs-client.mock.js";
+import { ElastiCacheClient as MockElastiCacheClient } from "../../mocks/elasticache-client.mock.js";
 import { RDSClient as MockRDSClient } from "../../mocks/rds-client.mock.js";
 
 // Type for mock clients
@@ -161,17 +172,13 @@ describe("AWS Services", () => {
       }
     });
 
-    it("should prioritize common regions", async () => {
+    it("should sort regions by name", async () => {
       const result = await getAWSRegions(ec2Client);
 
       expect(result.success).toBe(true);
       if (result.success) {
-        // ap-northeast-1 should be first (priority region)
-        expect(result.data[0].regionName).toBe("ap-northeast-1");
-        // ap-northeast-2 should be second (priority region)
-        expect(result.data[1].regionName).toBe("ap-northeast-2");
-        // us-east-1 should be third
-        expect(result.data[2].regionName).toBe("us-east-1");
+        const names = result.data.map((region) => region.regionName);
+        expect(names).toEqual([...names].sort());
       }
     });
 
@@ -242,41 +249,254 @@ describe("AWS Services", () => {
         expect(result.error).toContain("Access denied to RDS instances");
       }
     });
+
+    it("should list Aurora writer, reader and custom endpoints as targets", async () => {
+      const clusterClient = new MockRDSClient({
+        dbClusters: [
+          {
+            DBClusterIdentifier: "orders-aurora",
+            Status: "available",
+            Engine: "aurora-postgresql",
+            Port: 5432,
+            Endpoint:
+              "orders-aurora.cluster-abc.ap-northeast-1.rds.amazonaws.com",
+            ReaderEndpoint:
+              "orders-aurora.cluster-ro-abc.ap-northeast-1.rds.amazonaws.com",
+            CustomEndpoints: [
+              "analytics.cluster-custom-abc.ap-northeast-1.rds.amazonaws.com",
+            ],
+            VpcSecurityGroups: [{ VpcSecurityGroupId: "sg-44444444" }],
+            DBSubnetGroup: "orders-subnet-group",
+          },
+          {
+            DBClusterIdentifier: "stopped-aurora",
+            Status: "stopped",
+            Engine: "aurora-mysql",
+            Endpoint:
+              "stopped-aurora.cluster-def.ap-northeast-1.rds.amazonaws.com",
+          },
+        ],
+        subnetGroupVpcIds: { "orders-subnet-group": "vpc-orders" },
+      }) as unknown as RDSClient;
+
+      const result = await getRDSInstances(clusterClient);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const clusterEndpoints = result.data.filter(
+          (rds) => rds.endpointType !== "instance",
+        );
+        expect(clusterEndpoints).toHaveLength(3);
+        expect(clusterEndpoints).toContainEqual(
+          expect.objectContaining({
+            dbInstanceIdentifier: "orders-aurora:writer",
+            dbClusterIdentifier: "orders-aurora",
+            endpointType: "writer",
+            engine: "aurora-postgresql",
+            port: 5432,
+            vpcSecurityGroups: ["sg-44444444"],
+            vpcId: "vpc-orders",
+          }),
+        );
+        expect(clusterEndpoints).toContainEqual(
+          expect.objectContaining({
+            dbInstanceIdentifier: "orders-aurora:reader",
+            endpoint:
+              "orders-aurora.cluster-ro-abc.ap-northeast-1.rds.amazonaws.com",
+            endpointType: "reader",
+          }),
+        );
+        expect(clusterEndpoints).toContainEqual(
+          expect.objectContaining({
+            dbInstanceIdentifier: "orders-aurora:analytics",
+            endpointType: "custom",
+          }),
+        );
+        expect(
+          result.data.filter((rds) => rds.endpointType === "instance"),
+        ).toHaveLength(mockRDSInstances.length);
+      }
+    });
+
+    it("should fall back to DB instances when cluster listing is denied", async () => {
+      const deniedClient = new MockRDSClient({
+        denyDescribeDBClusters: true,
+      }) as unknown as RDSClient;
+
+      const result = await getRDSInstances(deniedClient);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toHaveLength(mockRDSInstances.length);
+      }
+    });
+  });
+
+  describe("getElastiCacheEndpoints", () => {
+    it("should list replication group and standalone cluster endpoints", async () => {
+      const client = new MockElastiCacheClient({
+        replicationGroups: [
+          {
+            ReplicationGroupId: "orders-cache",
+            Status: "available",
+            Engine: "valkey",
+            ClusterEnabled: false,
+            NodeGroups: [
+              {
+                PrimaryEndpoint: {
+                  Address: "master.orders-cache.abc.apne1.cache.amazonaws.com",
+                  Port: 6379,
+                },
+                ReaderEndpoint: {
+                  Address: "replica.orders-cache.abc.apne1.cache.amazonaws.com",
+                  Port: 6379,
+                },
+              },
+            ],
+          },
+          {
+            ReplicationGroupId: "sessions-cache",
+            Status: "available",
+            ClusterEnabled: true,
+            ConfigurationEndpoint: {
+              Address:
+                "clustercfg.sessions-cache.abc.apne1.cache.amazonaws.com",
+              Port: 6379,
+            },
+          },
+        ],
+        cacheClusters: [
+          {
+            CacheClusterId: "orders-cache-001",
+            ReplicationGroupId: "orders-cache",
+            CacheClusterStatus: "available",
+            Engine: "valkey",
+            SecurityGroups: [{ SecurityGroupId: "sg-55555555" }],
+          },
+          {
+            CacheClusterId: "catalog-memcached",
+            CacheClusterStatus: "available",
+            Engine: "memcached",
+            ConfigurationEndpoint: {
+              Address: "catalog-memcached.abc.cfg.apne1.cache.amazonaws.com",
+            },
+          },
+        ],
+      }) as unknown as ElastiCacheClient;
+
+      const result = await getElastiCacheEndpoints(client);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(
+          result.data.map((target) => [
+            target.dbInstanceIdentifier,
+            target.endpointType,
+          ]),
+        ).toEqual([
+          ["catalog-memcached:configuration", "configuration"],
+          ["orders-cache:primary", "primary"],
+          ["orders-cache:reader", "reader"],
+          ["sessions-cache:configuration", "configuration"],
+        ]);
+        expect(result.data[1]).toMatchObject({
+          engine: "valkey",
+          port: 6379,
+          vpcSecurityGroups: ["sg-55555555"],
+          dbClusterIdentifier: "orders-cache",
+          targetType: "elasticache",
+        });
+        // ポート未設定時はエンジンの既定ポートを使う
+        expect(result.data[0]?.port).toBe(11211);
+      }
+    });
+
+    it("should handle AccessDenied error", async () => {
+      const client = new MockElastiCacheClient({
+        denyAccess: true,
+      }) as unknown as ElastiCacheClient;
+
+      const result = await getElastiCacheEndpoints(client);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain("Access denied to ElastiCache");
+      }
+    });
   });
 
   describe("checkECSExecCapability", () => {
-    it("should return true for clusters with exec capability", async () => {
+    const prodWebTaskArn = mockECSTasks[0].realTaskArn;
+
+    it("should return true when a service has exec enabled", async () => {
       const cluster = mockECSClusters[0];
-      const hasExec = await checkECSExecCapability(ecsClient, cluster);
+      const result = await checkECSExecCapability(ecsClient, cluster);
 
-      expect(hasExec).toBe(true);
+      expect(result).toEqual({ success: true, data: true });
     });
 
-    it("should return false for clusters without exec capability", async () => {
-      const mockClient = {
-        send: vi.fn().mockResolvedValue({
-          clusters: [
-            {
-              clusterName: "test-cluster",
-              configuration: {},
-            },
-          ],
-        }),
-      } satisfies MockClient;
-      const cluster = mockECSClusters[0];
+    it("should stop at the first service with exec enabled", async () => {
+      const mockClient = new MockECSClient();
+      const send = vi.spyOn(mockClient, "send");
+
+      await checkECSExecCapability(
+        mockClient as unknown as ECSClient,
+        mockECSClusters[0],
+      );
 
-      const hasExec = await checkECSExecCapability(mockClient, cluster);
-      expect(hasExec).toBe(true); // Default to true if no explicit config
+      const commands = send.mock.calls.map(
+        ([command]) => command.constructor.name,
+      );
+      expect(commands).not.toContain("ListTasksCommand");
+      expect(commands).not.toContain("DescribeTasksCommand");
     });
 
-    it("should return false on error", async () => {
+    it("should return true when only a running task has exec enabled", async () => {
+      const mockClient = new MockECSClient({
+        execDisabledServices: ["web-service"],
+      }) as unknown as ECSClient;
+
+      const result = await checkECSExecCapability(
+        mockClient,
+        mockECSClusters[0],
+      );
+      expect(result).toEqual({ success: true, data: true });
+    });
+
+    it("should return false when no service or task has exec enabled", async () => {
+      const mockClient = new MockECSClient({
+        execDisabledServices: ["web-service"],
+        execDisabledTaskArns: [prodWebTaskArn],
+      }) as unknown as ECSClient;
+
+      const result = await checkECSExecCapability(
+        mockClient,
+        mockECSClusters[0],
+      );
+      expect(result).toEqual({ success: true, data: false });
+    });
+
+    it("should return false for clusters without services or tasks", async () => {
+      const cluster = mockECSClusters.find(
+        (c) => c.clusterName === "prod-backend",
+      );
+      if (!cluster) throw new Error("prod-backend cluster not found");
+
+      const result = await checkECSExecCapability(ecsClient, cluster);
+      expect(result).toEqual({ success: true, data: false });
+    });
+
+    it("should return the error instead of false when the check fails", async () => {
       const mockClient = {
-        send: vi.fn().mockRejectedValue(new Error("Network error")),
+        send: vi.fn().mockRejectedValue(new Error("Rate exceeded")),
       } satisfies MockClient;
       const cluster = mockECSClusters[0];
 
-      const hasExec = await checkECSExecCapability(mockClient, cluster);
-      expect(hasExec).toBe(false);
+      const result = await checkECSExecCapability(mockClient, cluster);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain("Rate exceeded");
+      }
     });
   });
 
@@ -286,7 +506,8 @@ describe("AWS Services", () => {
 
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data).toHaveLength(8); // All mock clusters have exec capability
+        // prod-backend and staging-backend have no services or tasks
+        expect(result.data).toHaveLength(6);
         expect(result.data[0]).toMatchObject({
           clusterName: "prod-web",
           clusterArn: expect.stringContaining("arn:aws:ecs"),
@@ -295,50 +516,18 @@ describe("AWS Services", () => {
     });
 
     it("should filter out clusters without exec capability", async () => {
-      // Create a mock client that returns mixed results
-      const mockClient = {
-        send: vi
-          .fn()
-          .mockResolvedValueOnce({
-            // ListClustersCommand
-            clusterArns: [
-              "arn:aws:ecs:us-east-1:123456789012:cluster/test1",
-              "arn:aws:ecs:us-east-1:123456789012:cluster/test2",
-            ],
-          })
-          .mockResolvedValueOnce({
-            // DescribeClustersCommand
-            clusters: [
-              {
-                clusterName: "test1",
-                clusterArn: "arn:aws:ecs:us-east-1:123456789012:cluster/test1",
-              },
-              {
-                clusterName: "test2",
-                clusterArn: "arn:aws:ecs:us-east-1:123456789012:cluster/test2",
-              },
-            ],
-          })
-          .mockResolvedValueOnce({
-            // First exec check
-            clusters: [
-              {
-                configuration: {
-                  executeCommandConfiguration: { logging: "DEFAULT" },
-                },
-              },
-            ],
-          })
-          .mockRejectedValueOnce(new Error("No exec capability")), // Second exec check
-      } satisfies MockClient;
+      const mockClient = new MockECSClient({
+        execDisabledServices: ["web-service"],
+        execDisabledTaskArns: [mockECSTasks[0].realTaskArn],
+      }) as unknown as ECSClient;
 
-      const result = await getECSClustersWithExecCapability(
-        mockClient as unknown as ECSClient,
-      );
+      const result = await getECSClustersWithExecCapability(mockClient);
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data).toHaveLength(1);
-        expect(result.data[0].clusterName).toBe("test1");
+        expect(result.data.map((cluster) => cluster.clusterName)).not.toContain(
+          "prod-web",
+        );
+        expect(result.data).toHaveLength(5);
       }
     });
   });
@@ -372,6 +561,47 @@ describe("AWS Services", () => {
         expect(result.data).toEqual(runningTasks);
       }
     });
+
+    it("should mark tasks that can run ECS Exec as ready", async () => {
+      const result = await getECSTasksWithExecCapability(
+        ecsClient,
+        mockECSClusters[0],
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data[0]?.execReadiness?.status).toBe("ready");
+      }
+    });
+
+    it("should keep tasks that cannot run ECS Exec with the reason", async () => {
+      const [execDisabled, agentPending] = mockECSTasks;
+      const client = new MockECSClient({
+        execDisabledTaskArns: [execDisabled.realTaskArn],
+        agentPendingTaskArns: [agentPending.realTaskArn],
+      }) as unknown as ECSClient;
+
+      const disabledResult = await getECSTasksWithExecCapability(
+        client,
+        mockECSClusters[0],
+      );
+      const pendingResult = await getECSTasksWithExecCapability(
+        client,
+        mockECSClusters[1],
+      );
+
+      expect(disabledResult.success).toBe(true);
+      expect(pendingResult.success).toBe(true);
+      if (disabledResult.success && pendingResult.success) {
+        expect(disabledResult.data[0]?.execReadiness).toMatchObject({
+          status: "exec-disabled",
+        });
+        expect(pendingResult.data[0]?.execReadiness).toMatchObject({
+          status: "agent-not-running",
+          reason: expect.stringContaining("web-container: PENDING"),
+        });
+      }
+    });
   });
 
   describe("getECSTaskContainers", () => {
@@ -444,4 +674,296 @@ describe("AWS Services", () => {
       }
     });
   });
+
+  describe("getECSTaskContainerPorts", () => {
+    it("should return running containers with task definition port mappings", async () => {
+      const task = mockECSTasks[0];
+      if (!task) throw new Error("mock task missing");
+
+      const result = await getECSTaskContainerPorts({
+        ecsClient,
+        clusterName: task.clusterName,
+        taskArn: task.realTaskArn,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toHaveLength(1);
+        expect(result.data[0]?.containerName).toBe("web-container");
+        expect(result.data[0]?.runtimeId).toBe(task.runtimeId);
+        expect(result.data[0]?.portMappings).toEqual([
+          { containerPort: 8080, protocol: "tcp", name: "http" },
+          { containerPort: 9090, protocol: "tcp", name: undefined },
+        ]);
+      }
+    });
+
+    it("should keep containers without ports when the task definition cannot be read", async () => {
+      const error = new Error("Not authorized");
+      error.name = "AccessDeniedException";
+      const mockClient = {
+        send: vi
+          .fn()
+          .mockResolvedValueOnce({
+            tasks: [
+              {
+                taskArn: "task-arn",
+                taskDefinitionArn: "task-definition-arn",
+                containers: [
+                  {
+                    name: "app",
+                    runtimeId: "abc123-1234567890",
+                    lastStatus: "RUNNING",
+                  },
+                  {
+                    name: "init",
+                    runtimeId: "def456-1234567890",
+                    lastStatus: "STOPPED",
+                  },
+                ],
+              },
+            ],
+          })
+          .mockRejectedValueOnce(error),
+      } satisfies MockClient;
+
+      const result = await getECSTaskContainerPorts({
+        ecsClient: mockClient as unknown as ECSClient,
+        clusterName: "cluster" as ClusterName,
+        taskArn: "task-arn" as TaskArn,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toHaveLength(1);
+        expect(result.data[0]?.containerName).toBe("app");
+        expect(result.data[0]?.portMappings).toEqual([]);
+      }
+    });
+
+    it("should fail when the task does not exist", async () => {
+      const mockClient = {
+        send: vi.fn().mockResolvedValue({ tasks: [] }),
+      } satisfies MockClient;
+
+      const result = await getECSTaskContainerPorts({
+        ecsClient: mockClient as unknown as ECSClient,
+        clusterName: "cluster" as ClusterName,
+        taskArn: "task-arn" as TaskArn,
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("enableECSExecForService", () => {
+    const createClient = (enableExecuteCommand: boolean) =>
+      ({
+        send: vi.fn(async (command: object) =>
+          command.constructor.name === "DescribeServicesCommand"
+            ? { services: [{ serviceName: "api", enableExecuteCommand }] }
+            : {},
+        ),
+      }) satisfies MockClient;
+
+    it("should skip services that already have exec enabled", async () => {
+      const mockClient = createClient(true);
+
+      const result = await enableECSExecForService(
+        mockClient as unknown as ECSClient,
+        "prod-web",
+        "api",
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockClient.send).toHaveBeenCalledTimes(1);
+    });
+
+    it("should force a new deployment even when exec is already enabled", async () => {
+      const mockClient = createClient(true);
+
+      const result = await enableECSExecForService(
+        mockClient as unknown as ECSClient,
+        "prod-web",
+        "api",
+        { forceNewDeployment: true },
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.previousState).toBe(true);
+      }
+      const updateCommand = mockClient.send.mock.calls[1]?.[0];
+      expect(updateCommand?.constructor.name).toBe("UpdateServiceCommand");
+      expect(updateCommand?.input).toMatchObject({
+        enableExecuteCommand: true,
+        forceNewDeployment: true,
+      });
+    });
+  });
+
+  describe("setECSExecForService", () => {
+    it("should disable exec and report the previous state", async () => {
+      const mockClient = {
+        send: vi.fn(async (command: object) =>
+          command.constructor.name === "DescribeServicesCommand"
+            ? {
+                services: [{ serviceName: "api", enableExecuteCommand: true }],
+              }
+            : {},
+        ),
+      } satisfies MockClient;
+
+      const result = await setECSExecForService(
+        mockClient as unknown as ECSClient,
+        "prod-web",
+        "api",
+        false,
+      );
+
+      expect(result.success && result.data).toMatchObject({
+        previousState: true,
+        newState: false,
+      });
+      expect(mockClient.send.mock.calls[1]?.[0]?.input).toMatchObject({
+        enableExecuteCommand: false,
+      });
+    });
+  });
+
+  describe("pagination", () => {
+    const cluster = mockECSClusters[0];
+
+    it("should follow nextToken when listing clusters", async () => {
+      const pagedClient = new MockECSClient({
+        pageSize: 3,
+      }) as unknown as ECSClient;
+
+      const result = await getECSClusters(pagedClient);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toHaveLength(mockECSClusters.length);
+      }
+    });
+
+    it("should follow Marker when listing RDS instances", async () => {
+      const pagedClient = new MockRDSClient({
+        pageSize: 2,
+      }) as unknown as RDSClient;
+
+      const result = await getRDSInstances(pagedClient);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toHaveLength(mockRDSInstances.length);
+      }
+    });
+
+    it("should follow nextToken when listing tasks", async () => {
+      const pagedClient = new MockECSClient({
+        pageSize: 1,
+      }) as unknown as ECSClient;
+
+      const result = await getECSTasks(pagedClient, cluster);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toHaveLength(1);
+      }
+    });
+
+    it("should page services and describe them in chunks of 10", async () => {
+      const serviceArns = Array.from(
+        { length: 25 },
+        (_, i) =>
+          `arn:aws:ecs:ap-northeast-1:123456789012:service/prod-web/svc-${i}`,
+      );
+      const describeBatchSizes: number[] = [];
+      const mockClient = {
+        send: vi.fn(
+          (command: {
+            constructor: { name: string };
+            input: { nextToken?: string; services?: string[] };
+          }) => {
+            if (command.constructor.name === "ListServicesCommand") {
+              const offset = Number(command.input.nextToken ?? 0);
+              const end = offset + 10;
+              return Promise.resolve({
+                serviceArns: serviceArns.slice(offset, end),
+                nextToken: end < serviceArns.length ? String(end) : undefined,
+              });
+            }
+            const services = command.input.services ?? [];
+            describeBatchSizes.push(services.length);
+            return Promise.resolve({
+              services: services.map((arn) => ({
+                serviceArn: arn,
+                serviceName: arn.split("/").pop(),
+              })),
+            });
+          },
+        ),
+      } satisfies MockClient;
+
+      const result = await getECSServices(
+        mockClient as unknown as ECSClient,
+        cluster,
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toHaveLength(25);
+      }
+      expect(describeBatchSizes).toEqual([10, 10, 5]);
+    });
+
+    it("should describe tasks in chunks of 100", async () => {
+      const taskArns = Array.from(
+        { length: 150 },
+        (_, i) => `arn:aws:ecs:ap-northeast-1:123456789012:task/prod-web/t${i}`,
+      );
+      const describeBatchSizes: number[] = [];
+      const mockClient = {
+        send: vi.fn(
+          (command: {
+            constructor: { name: string };
+            input: { tasks?: string[] };
+          }) => {
+            switch (command.constructor.name) {
+              case "ListServicesCommand":
+                return Promise.resolve({
+                  serviceArns: [
+                    "arn:aws:ecs:ap-northeast-1:123456789012:service/prod-web/web",
+                  ],
+                });
+              case "ListTasksCommand":
+                return Promise.resolve({ taskArns });
+              default: {
+                const tasks = command.input.tasks ?? [];
+                describeBatchSizes.push(tasks.length);
+                return Promise.resolve({
+                  tasks: tasks.map((taskArn) => ({
+                    taskArn,
+                    lastStatus: "RUNNING",
+                    containers: [{ name: "web", runtimeId: "runtime" }],
+                  })),
+                });
+              }
+            }
+          },
+        ),
+      } satisfies MockClient;
+
+      const result = await getECSTasks(
+        mockClient as unknown as ECSClient,
+        cluster,
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toHaveLength(150);
+      }
+      expect(describeBatchSizes).toEqual([100, 50]);
+    });
+  });
 });
@@ -0,0 +1,119 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "bun:test";
+import chalk from "chalk";
+import { parse } from "valibot";
+import {
+  type ForwardState,
+  formatForwardStatusTable,
+  superviseForwards,
+} from "../../../src/core/connection/forward-supervisor.js";
+import * as session from "../../../src/session.js";
+import {
+  type Port,
+  RDSInstanceSchema,
+  type RegionName,
+  type TaskArn,
+} from "../../../src/types.js";
+
+const state = (overrides: Partial<ForwardState>): ForwardState => ({
+  name: "primary",
+  localPort: 8888,
+  remote: "primary.abc.ap-northeast-1.rds.amazonaws.com:5432",
+  taskArn: "ecs:api_abc123_0123456789abcdef" as TaskArn,
+  status: "active",
+  ...overrides,
+});
+
+describe("formatForwardStatusTable", () => {
+  beforeAll(() => {
+    // 色コードを除いて比較する
+    chalk.level = 0;
+  });
+
+  it("ヘッダーと各フォワードの行を列を揃えて出力する", () => {
+    const lines = formatForwardStatusTable([
+      state({}),
+      state({
+        name: "replica",
+        localPort: 8889,
+        remote: "replica.abc.ap-northeast-1.rds.amazonaws.com:5432",
+        status: "starting",
+      }),
+    ]);
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^NAME\s+LOCAL\s+REMOTE\s+STATUS$/);
+    expect(lines[1]).toContain("localhost:8888");
+    expect(lines[2]).toContain("localhost:8889");
+    expect(lines[1]?.indexOf("localhost")).toBe(lines[2]?.indexOf("localhost"));
+    expect(lines[2]?.endsWith("starting")).toBe(true);
+  });
+
+  it("詳細がある場合はステータスに併記する", () => {
+    const [, row] = formatForwardStatusTable([
+      state({ status: "failed", detail: "Access denied" }),
+    ]);
+
+    expect(row?.endsWith("failed (Access denied)")).toBe(true);
+  });
+});
+
+describe("superviseForwards", () => {
+  const rdsInstance = parse(RDSInstanceSchema, {
+    dbInstanceIdentifier: "primary",
+    endpoint: "primary.abc.ap-northeast-1.rds.amazonaws.com",
+    port: 5432,
+    engine: "postgres",
+    dbInstanceClass: "db.t3.micro",
+    dbInstanceStatus: "available",
+    allocatedStorage: 20,
+    availabilityZone: "ap-northeast-1a",
+    vpcSecurityGroups: [],
+  });
+  const forward = (name: string, localPort: number, keepAlive: boolean) => ({
+    name,
+    params: {
+      region: "ap-northeast-1" as RegionName,
+      taskArn: `ecs:api_${name}_0123456789abcdef` as TaskArn,
+      rdsInstance,
+      rdsPort: 5432 as Port,
+      localPort: localPort as Port,
+    },
+    keepAlive,
+    resolveTaskArn: async () => undefined,
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("--keep-aliveはフォワードごとに適用し、Ctrl+Cはセッションに伝える", async () => {
+    const runSession = vi
+      .spyOn(session, "runPortForwardingSession")
+      .mockImplementation(async (params, options) => {
+        if (params.localPort === 8888) {
+          return { kind: "closed", code: 0 };
+        }
+        // Ctrl+Cで中断されるまで接続を続ける
+        const signal = options?.signal;
+        if (!signal) throw new Error("signal is not passed");
+        await new Promise((resolve) =>
+          signal.addEventListener("abort", resolve, { once: true }),
+        );
+        return { kind: "user" };
+      });
+
+    const supervising = superviseForwards([
+      forward("primary", 8888, false),
+      forward("replica", 8889, true),
+    ]);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    process.emit("SIGINT");
+    const states = await supervising;
+
+    expect(states.map((state) => state.status)).toEqual(["exited", "stopped"]);
+    // keep-aliveでないフォワードは再接続しない
+    expect(
+      runSession.mock.calls.filter(([params]) => params.localPort === 8888),
+    ).toHaveLength(1);
+  });
+});
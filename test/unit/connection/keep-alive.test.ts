@@ -0,0 +1,102 @@
+import { describe, expect, it } from "bun:test";
+import {
+  getReconnectDelay,
+  keepSessionAlive,
+} from "../../../src/core/connection/keep-alive.js";
+import type { SessionExit } from "../../../src/session.js";
+import type { TaskArn } from "../../../src/types.js";
+
+const OLD_TASK = "ecs:api_old_0123456789abcdef" as TaskArn;
+const NEW_TASK = "ecs:api_new_0123456789abcdef" as TaskArn;
+const FAST_BACKOFF = { initialDelayMs: 1, maxDelayMs: 2 };
+
+describe("getReconnectDelay", () => {
+  it("試行回数ごとに待機時間を倍にし、上限で打ち止める", () => {
+    const backoff = { initialDelayMs: 1000, maxDelayMs: 5000 };
+
+    expect(getReconnectDelay(0, backoff)).toBe(1000);
+    expect(getReconnectDelay(1, backoff)).toBe(2000);
+    expect(getReconnectDelay(2, backoff)).toBe(4000);
+    expect(getReconnectDelay(3, backoff)).toBe(5000);
+  });
+});
+
+describe("keepSessionAlive", () => {
+  it("予期しない終了後にタスクを再解決して再接続する", async () => {
+    const exits: SessionExit[] = [
+      { kind: "closed", code: 0 },
+      { kind: "failed", reason: "Cannot connect to target", retryable: true },
+      { kind: "user" },
+    ];
+    const sessions: TaskArn[] = [];
+
+    const lastTaskArn = await keepSessionAlive({
+      taskArn: OLD_TASK,
+      runSession: async (taskArn) => {
+        sessions.push(taskArn);
+        return exits.shift() ?? { kind: "user" };
+      },
+      resolveTaskArn: async () => NEW_TASK,
+      signal: new AbortController().signal,
+      backoff: FAST_BACKOFF,
+    });
+
+    expect(sessions).toEqual([OLD_TASK, NEW_TASK, NEW_TASK]);
+    expect(lastTaskArn).toBe(NEW_TASK);
+  });
+
+  it("タスクを再解決できない場合は前回のタスクで再接続する", async () => {
+    const exits: SessionExit[] = [{ kind: "closed", code: 255 }];
+    const sessions: TaskArn[] = [];
+
+    await keepSessionAlive({
+      taskArn: OLD_TASK,
+      runSession: async (taskArn) => {
+        sessions.push(taskArn);
+        return exits.shift() ?? { kind: "user" };
+      },
+      resolveTaskArn: async () => {
+        throw new Error("ECS unavailable");
+      },
+      signal: new AbortController().signal,
+      backoff: FAST_BACKOFF,
+    });
+
+    expect(sessions).toEqual([OLD_TASK, OLD_TASK]);
+  });
+
+  it("再試行できない失敗はエラーとして扱う", async () => {
+    const promise = keepSessionAlive({
+      taskArn: OLD_TASK,
+      runSession: async () => ({
+        kind: "failed",
+        reason: "Access denied",
+        retryable: false,
+      }),
+      resolveTaskArn: async () => NEW_TASK,
+      signal: new AbortController().signal,
+      backoff: FAST_BACKOFF,
+    });
+
+    await expect(promise).rejects.toThrow("Access denied");
+  });
+
+  it("待機中に中断された場合は再接続しない", async () => {
+    const controller = new AbortController();
+    let sessionCount = 0;
+
+    await keepSessionAlive({
+      taskArn: OLD_TASK,
+      runSession: async () => {
+        sessionCount++;
+        setTimeout(() => controller.abort(), 5);
+        return { kind: "closed", code: 0 };
+      },
+      resolveTaskArn: async () => NEW_TASK,
+      signal: controller.signal,
+      backoff: { initialDelayMs: 1000, maxDelayMs: 1000 },
+    });
+
+    expect(sessionCount).toBe(1);
+  });
+});
@@ -0,0 +1,235 @@
+import { beforeAll, describe, expect, it, vi } from "bun:test";
+import type { ECSClient } from "@aws-sdk/client-ecs";
+import type { IAMClient } from "@aws-sdk/client-iam";
+import type { STSClient } from "@aws-sdk/client-sts";
+import chalk from "chalk";
+import {
+  checkCredentials,
+  checkTaskExec,
+  formatDoctorTable,
+} from "../../../src/core/doctor.js";
+import { SSM_MESSAGES_ACTIONS } from "../../../src/task-role-policy.js";
+
+const TASK_ROLE_ARN = "arn:aws:iam::123456789012:role/api-task-role";
+
+function createECSClient(task: Record<string, unknown>): ECSClient {
+  return {
+    send: vi.fn(async (command: object) => {
+      switch (command.constructor.name) {
+        case "DescribeTasksCommand":
+          return { tasks: [task] };
+        case "DescribeTaskDefinitionCommand":
+          return { taskDefinition: { taskRoleArn: TASK_ROLE_ARN } };
+        default:
+          throw new Error(`Unexpected command: ${command.constructor.name}`);
+      }
+    }),
+  } as unknown as ECSClient;
+}
+
+function createIAMClient(deniedActions: string[] = []): IAMClient {
+  return {
+    send: vi.fn(async () => ({
+      EvaluationResults: SSM_MESSAGES_ACTIONS.map((action) => ({
+        EvalActionName: action,
+        EvalDecision: deniedActions.includes(action)
+          ? "implicitDeny"
+          : "allowed",
+      })),
+    })),
+  } as unknown as IAMClient;
+}
+
+const execReadyTask = {
+  taskArn: "arn:aws:ecs:ap-northeast-1:123456789012:task/api/abc123",
+  taskDefinitionArn:
+    "arn:aws:ecs:ap-northeast-1:123456789012:task-definition/api:1",
+  enableExecuteCommand: true,
+  containers: [
+    {
+      name: "web",
+      managedAgents: [{ name: "ExecuteCommandAgent", lastStatus: "RUNNING" }],
+    },
+  ],
+};
+
+describe("checkTaskExec", () => {
+  it("ECS Execが使える状態のタスクはすべてpassになる", async () => {
+    const checks = await checkTaskExec(
+      {
+        ecsClient: createECSClient(execReadyTask),
+        iamClient: createIAMClient(),
+      },
+      "api",
+      "abc123",
+    );
+
+    expect(checks.map((check) => check.status)).toEqual([
+      "pass",
+      "pass",
+      "pass",
+    ]);
+    expect(checks[2]?.detail).toContain(TASK_ROLE_ARN);
+  });
+
+  it("enableExecuteCommandが無効でエージェントが無いタスクはfailになる", async () => {
+    const checks = await checkTaskExec(
+      {
+        ecsClient: createECSClient({
+          ...execReadyTask,
+          enableExecuteCommand: false,
+          containers: [{ name: "web", managedAgents: [] }],
+        }),
+        iamClient: createIAMClient(),
+      },
+      "api",
+      "abc123",
+    );
+
+    expect(checks[0]).toMatchObject({
+      name: "ECS Exec enabled",
+      status: "fail",
+    });
+    expect(checks[1]).toMatchObject({
+      name: "ExecuteCommandAgent",
+      status: "fail",
+    });
+    expect(checks[1]?.detail).toContain("web: MISSING");
+  });
+
+  it("一部のコンテナでのみエージェントが動いている場合はwarnになる", async () => {
+    const checks = await checkTaskExec(
+      {
+        ecsClient: createECSClient({
+          ...execReadyTask,
+          containers: [
+            ...execReadyTask.containers,
+            {
+              name: "sidecar",
+              managedAgents: [
+                { name: "ExecuteCommandAgent", lastStatus: "PENDING" },
+              ],
+            },
+          ],
+        }),
+        iamClient: createIAMClient(),
+      },
+      "api",
+      "abc123",
+    );
+
+    expect(checks[1]?.status).toBe("warn");
+    expect(checks[1]?.detail).toContain("sidecar (PENDING)");
+  });
+
+  it("タスクロールにssmmessagesの権限が無い場合は不足しているアクションを示す", async () => {
+    const checks = await checkTaskExec(
+      {
+        ecsClient: createECSClient(execReadyTask),
+        iamClient: createIAMClient(["ssmmessages:OpenDataChannel"]),
+      },
+      "api",
+      "abc123",
+    );
+
+    expect(checks[2]).toMatchObject({
+      name: "Task role permissions",
+      status: "fail",
+    });
+    expect(checks[2]?.detail).toContain("ssmmessages:OpenDataChannel");
+    expect(checks[2]?.detail).not.toContain("ssmmessages:CreateDataChannel");
+  });
+
+  it("ポリシーをシミュレーションできない場合はwarnに留める", async () => {
+    const iamClient = {
+      send: vi.fn(async () => {
+        const error = new Error("not authorized to perform SimulatePolicy");
+        error.name = "AccessDenied";
+        throw error;
+      }),
+    } as unknown as IAMClient;
+
+    const checks = await checkTaskExec(
+      { ecsClient: createECSClient(execReadyTask), iamClient },
+      "api",
+      "abc123",
+    );
+
+    expect(checks[2]?.status).toBe("warn");
+  });
+
+  it("タスクロールが無いタスクはfailになる", async () => {
+    const ecsClient = {
+      send: vi.fn(async (command: object) =>
+        command.constructor.name === "DescribeTasksCommand"
+          ? { tasks: [execReadyTask] }
+          : { taskDefinition: {} },
+      ),
+    } as unknown as ECSClient;
+
+    const checks = await checkTaskExec(
+      { ecsClient, iamClient: createIAMClient() },
+      "api",
+      "abc123",
+    );
+
+    expect(checks[2]).toMatchObject({
+      name: "Task role permissions",
+      status: "fail",
+    });
+  });
+});
+
+describe("checkCredentials", () => {
+  it("解決できた認証情報のARNを表示する", async () => {
+    const stsClient = {
+      send: vi.fn(async () => ({
+        Arn: "arn:aws:sts::123456789012:assumed-role/dev/alice",
+      })),
+    } as unknown as STSClient;
+
+    expect(await checkCredentials(stsClient)).toEqual({
+      name: "AWS credentials",
+      status: "pass",
+      detail: "arn:aws:sts::123456789012:assumed-role/dev/alice",
+    });
+  });
+
+  it("認証情報が解決できない場合はfailになる", async () => {
+    const stsClient = {
+      send: vi.fn(async () => {
+        throw new Error("Could not load credentials from any providers");
+      }),
+    } as unknown as STSClient;
+
+    const check = await checkCredentials(stsClient);
+    expect(check.status).toBe("fail");
+    expect(check.detail).toContain("Could not load credentials");
+  });
+});
+
+describe("formatDoctorTable", () => {
+  beforeAll(() => {
+    // 色コードを除いて比較する
+    chalk.level = 0;
+  });
+
+  it("ステータス・チェック名・詳細を列を揃えて出力する", () => {
+    const lines = formatDoctorTable([
+      { name: "AWS CLI", status: "pass", detail: "aws-cli/2.15.0" },
+      {
+        name: "Session Manager plugin",
+        status: "fail",
+        detail: "session-manager-plugin not found in PATH",
+      },
+    ]);
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^STATUS\s+CHECK\s+DETAIL$/);
+    expect(lines[1]?.startsWith("PASS")).toBe(true);
+    expect(lines[2]?.startsWith("FAIL")).toBe(true);
+    expect(lines[1]?.indexOf("aws-cli")).toBe(
+      lines[2]?.indexOf("session-manager-plugin not found"),
+    );
+  });
+});
@@ -1,15 +1,22 @@
 import { describe, expect, it } from "bun:test";
-import { parse } from "valibot";
+import { parse, safeParse } from "valibot";
 import {
   generateConnectDryRun,
   generateExecDryRun,
+  generateForwardDryRun,
 } from "../../../src/core/dry-run.js";
 import {
+  AWSCredentialOptionsSchema,
   type ClusterName,
+  ConnectOptionsSchema,
   type ContainerName,
+  type DBEndpoint,
+  ExecOptionsSchema,
+  ForwardOptionsSchema,
   type Port,
   RDSInstanceSchema,
   type RegionName,
+  type ServiceName,
   type TaskArn,
   type TaskId,
 } from "../../../src/types.js";
@@ -60,6 +67,152 @@ describe("Dry Run Functions", () => {
       expect(result.sessionInfo.rdsPort).toBe(5432);
       expect(result.sessionInfo.localPort).toBe(8888);
     });
+
+    it("should include credential options in connect dry run commands", () => {
+      const mockRDS = parse(RDSInstanceSchema, {
+        dbInstanceIdentifier: "test-rds",
+        endpoint: "test-rds.abc123.us-east-1.rds.amazonaws.com",
+        port: 5432,
+        engine: "postgres",
+        dbInstanceClass: "db.t3.micro",
+        dbInstanceStatus: "available",
+        allocatedStorage: 20,
+        availabilityZone: "us-east-1a",
+        vpcSecurityGroups: ["sg-123456"],
+      });
+      const credentials = parse(AWSCredentialOptionsSchema, {
+        profile: "staging",
+        roleArn: "arn:aws:iam::123456789012:role/ecs-pf-operator",
+        externalId: "ext-123",
+      });
+
+      const result = generateConnectDryRun({
+        region: "us-east-1" as RegionName,
+        cluster: "test-cluster" as ClusterName,
+        task: "test-task_abc123" as TaskId,
+        rdsInstance: mockRDS,
+        rdsPort: 5432 as Port,
+        localPort: 8888 as Port,
+        credentials,
+      });
+
+      expect(result.reproducibleCommand).toContain("--profile staging");
+      expect(result.reproducibleCommand).toContain(
+        "--role-arn arn:aws:iam::123456789012:role/ecs-pf-operator",
+      );
+      expect(result.reproducibleCommand).toContain("--external-id ext-123");
+      // ロールはAWS CLIのフラグで指定できないため、環境変数で渡される
+      expect(result.awsCommand).not.toContain("--profile");
+      expect(result.awsCommand).not.toContain("--role-arn");
+    });
+
+    it("should keep --target-type for ElastiCache targets", () => {
+      const mockCache = parse(RDSInstanceSchema, {
+        dbInstanceIdentifier: "orders-cache:primary",
+        endpoint: "master.orders-cache.abc.apne1.cache.amazonaws.com",
+        port: 6379,
+        engine: "redis",
+        dbInstanceClass: "cache.t3.micro",
+        dbInstanceStatus: "available",
+        allocatedStorage: 0,
+        availabilityZone: "ap-northeast-1a",
+        vpcSecurityGroups: [],
+        endpointType: "primary",
+        targetType: "elasticache",
+      });
+
+      const result = generateConnectDryRun({
+        region: "ap-northeast-1" as RegionName,
+        cluster: "test-cluster" as ClusterName,
+        task: "test-task_abc123" as TaskId,
+        rdsInstance: mockCache,
+        rdsPort: 6379 as Port,
+        localPort: 16379 as Port,
+      });
+
+      expect(result.reproducibleCommand).toContain(
+        "--target-type elasticache --rds orders-cache:primary",
+      );
+      expect(result.awsCommand).toContain(
+        "master.orders-cache.abc.apne1.cache.amazonaws.com",
+      );
+    });
+  });
+
+  describe("generateForwardDryRun", () => {
+    it("should forward to an arbitrary host and emit a forward command", () => {
+      const result = generateForwardDryRun({
+        region: "ap-northeast-1" as RegionName,
+        cluster: "prod-cluster" as ClusterName,
+        task: "abc123" as TaskId,
+        service: "api" as ServiceName,
+        host: "internal-alb-123.ap-northeast-1.elb.amazonaws.com" as DBEndpoint,
+        remotePort: 443 as Port,
+        localPort: 8443 as Port,
+      });
+
+      expect(result.awsCommand).toContain(
+        "--target ecs:prod-cluster_abc123_abc123",
+      );
+      expect(result.awsCommand).toContain(
+        '"host":["internal-alb-123.ap-northeast-1.elb.amazonaws.com"]',
+      );
+      expect(result.awsCommand).toContain('"portNumber":["443"]');
+      expect(result.reproducibleCommand).toContain(
+        "forward --region ap-northeast-1 --cluster prod-cluster --service api --host internal-alb-123.ap-northeast-1.elb.amazonaws.com --remote-port 443 --local-port 8443",
+      );
+      expect(result.sessionInfo.host).toBe(
+        "internal-alb-123.ap-northeast-1.elb.amazonaws.com" as DBEndpoint,
+      );
+      expect(result.sessionInfo.remotePort).toBe(443 as Port);
+    });
+
+    it("should forward to a port on the task itself without a host", () => {
+      const result = generateForwardDryRun({
+        region: "ap-northeast-1" as RegionName,
+        cluster: "prod-cluster" as ClusterName,
+        task: "abc123" as TaskId,
+        target: "ecs:prod-cluster_abc123_abc123-2531612879" as TaskArn,
+        container: "envoy" as ContainerName,
+        remotePort: 9901 as Port,
+        localPort: 19901 as Port,
+      });
+
+      expect(result.awsCommand).toContain(
+        "--target ecs:prod-cluster_abc123_abc123-2531612879",
+      );
+      expect(result.awsCommand).toContain(
+        "--document-name AWS-StartPortForwardingSession",
+      );
+      expect(result.awsCommand).not.toContain('"host"');
+      expect(result.reproducibleCommand).toContain(
+        "--on-task --container envoy --remote-port 9901 --local-port 19901",
+      );
+      expect(result.sessionInfo.host).toBeUndefined();
+      expect(result.sessionInfo.container).toBe("envoy" as ContainerName);
+    });
+
+    it("should reject --host together with --on-task", () => {
+      const result = safeParse(ForwardOptionsSchema, {
+        host: "10.0.12.34",
+        onTask: true,
+        remotePort: "9200",
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it("should accept an IP address as --host", () => {
+      const result = safeParse(ForwardOptionsSchema, {
+        host: "10.0.12.34",
+        remotePort: "9200",
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.output.remotePort).toBe(9200 as Port);
+      }
+    });
   });
 
   describe("generateExecDryRun", () => {
@@ -93,5 +246,61 @@ describe("Dry Run Functions", () => {
       expect(result.sessionInfo.container).toBe("web");
       expect(result.sessionInfo.command).toBe("/bin/bash");
     });
+
+    it("should pass a named profile to the AWS CLI command", () => {
+      const credentials = parse(AWSCredentialOptionsSchema, {
+        profile: "staging",
+      });
+
+      const result = generateExecDryRun({
+        region: "us-east-1" as RegionName,
+        cluster: "test-cluster" as ClusterName,
+        task: "arn:aws:ecs:us-east-1:123456789012:task/test-cluster/abc123" as TaskArn,
+        container: "web" as ContainerName,
+        command: "/bin/bash",
+        credentials,
+      });
+
+      expect(result.awsCommand).toContain("--profile staging");
+      expect(result.reproducibleCommand).toContain("--profile staging");
+    });
+
+    it("should emit the service form when the service is known", () => {
+      const result = generateExecDryRun({
+        region: "us-east-1" as RegionName,
+        cluster: "test-cluster" as ClusterName,
+        task: "arn:aws:ecs:us-east-1:123456789012:task/test-cluster/abc123" as TaskArn,
+        service: "api" as ServiceName,
+        pick: "least-loaded",
+        container: "web" as ContainerName,
+        command: "/bin/bash",
+      });
+
+      // The AWS CLI command still targets the resolved task
+      expect(result.awsCommand).toContain("--task arn:aws:ecs:");
+      expect(result.reproducibleCommand).toContain("--service api");
+      expect(result.reproducibleCommand).toContain("--pick least-loaded");
+      expect(result.reproducibleCommand).not.toContain("--task");
+    });
+  });
+
+  describe("credential options parsing", () => {
+    it("should reject --external-id without --role-arn", () => {
+      const result = safeParse(ConnectOptionsSchema, { externalId: "ext-123" });
+
+      expect(result.success).toBe(false);
+      expect(result.issues?.[0]?.message).toBe(
+        "--external-id requires --role-arn",
+      );
+    });
+
+    it("should reject a malformed role ARN", () => {
+      const result = safeParse(ExecOptionsSchema, {
+        roleArn: "arn:aws:iam::123:user/someone",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.issues?.[0]?.message).toBe("Invalid IAM role ARN format");
+    });
   });
 });
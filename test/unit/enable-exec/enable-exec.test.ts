@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from "bun:test";
+import type { ECSClient } from "@aws-sdk/client-ecs";
+import { waitForExecRollout } from "../../../src/aws-enable-exec.js";
+
+const TASK_ARN = "arn:aws:ecs:ap-northeast-1:123456789012:task/api/abc123";
+const TIMING = { intervalMs: 0, timeoutMs: 60_000 };
+
+interface DeploymentSnapshot {
+  rolloutState?: string;
+  rolloutStateReason?: string;
+  runningCount: number;
+  desiredCount: number;
+  draining?: boolean;
+}
+
+// DescribeServicesの呼び出しごとに順にスナップショットを返す（最後のものは繰り返す）
+function createECSClient(
+  snapshots: DeploymentSnapshot[],
+  task: Record<string, unknown> = {
+    taskArn: TASK_ARN,
+    enableExecuteCommand: true,
+    containers: [
+      {
+        name: "web",
+        managedAgents: [{ name: "ExecuteCommandAgent", lastStatus: "RUNNING" }],
+      },
+    ],
+  },
+): ECSClient {
+  let call = 0;
+  return {
+    send: vi.fn(async (command: object) => {
+      switch (command.constructor.name) {
+        case "DescribeServicesCommand": {
+          const snapshot = snapshots[Math.min(call++, snapshots.length - 1)];
+          return {
+            services: [
+              {
+                deployments: [
+                  { status: "PRIMARY", ...snapshot },
+                  ...(snapshot?.draining ? [{ status: "ACTIVE" }] : []),
+                ],
+              },
+            ],
+          };
+        }
+        case "ListTasksCommand":
+          return { taskArns: [TASK_ARN] };
+        case "DescribeTasksCommand":
+          return { tasks: [task] };
+        default:
+          throw new Error(`Unexpected command: ${command.constructor.name}`);
+      }
+    }),
+  } as unknown as ECSClient;
+}
+
+describe("waitForExecRollout", () => {
+  it("ロールアウト完了までポーリングし、新しいタスクでexecが使えるか確認する", async () => {
+    const ecsClient = createECSClient([
+      {
+        rolloutState: "IN_PROGRESS",
+        runningCount: 0,
+        desiredCount: 2,
+        draining: true,
+      },
+      {
+        rolloutState: "IN_PROGRESS",
+        runningCount: 2,
+        desiredCount: 2,
+        draining: true,
+      },
+      { rolloutState: "COMPLETED", runningCount: 2, desiredCount: 2 },
+    ]);
+
+    const rollout = await waitForExecRollout(
+      ecsClient,
+      "api",
+      "api-service",
+      TIMING,
+    );
+
+    expect(rollout).toEqual({
+      state: "completed",
+      detail: "2 new tasks running",
+      execTasksRunning: true,
+    });
+  });
+
+  it("デプロイが失敗した場合は理由を返す", async () => {
+    const rollout = await waitForExecRollout(
+      createECSClient([
+        {
+          rolloutState: "FAILED",
+          rolloutStateReason:
+            "ECS deployment circuit breaker: tasks failed to start.",
+          runningCount: 0,
+          desiredCount: 2,
+        },
+      ]),
+      "api",
+      "api-service",
+      TIMING,
+    );
+
+    expect(rollout.state).toBe("failed");
+    expect(rollout.detail).toContain("circuit breaker");
+    expect(rollout.execTasksRunning).toBe(false);
+  });
+
+  it("完了後もExecuteCommandAgentが起動していなければexecTasksRunningはfalse", async () => {
+    const rollout = await waitForExecRollout(
+      createECSClient(
+        [{ rolloutState: "COMPLETED", runningCount: 1, desiredCount: 1 }],
+        {
+          taskArn: TASK_ARN,
+          enableExecuteCommand: true,
+          containers: [
+            {
+              name: "web",
+              managedAgents: [
+                { name: "ExecuteCommandAgent", lastStatus: "PENDING" },
+              ],
+            },
+          ],
+        },
+      ),
+      "api",
+      "api-service",
+      TIMING,
+    );
+
+    expect(rollout.state).toBe("completed");
+    expect(rollout.execTasksRunning).toBe(false);
+  });
+
+  it("rolloutStateが無い場合は古いデプロイが無くなるまで待つ", async () => {
+    const ecsClient = createECSClient([
+      { runningCount: 1, desiredCount: 1, draining: true },
+      { runningCount: 1, desiredCount: 1 },
+    ]);
+
+    const rollout = await waitForExecRollout(
+      ecsClient,
+      "api",
+      "api-service",
+      TIMING,
+    );
+
+    expect(rollout.state).toBe("completed");
+  });
+
+  it("タイムアウトした場合はtimed-outを返す", async () => {
+    const rollout = await waitForExecRollout(
+      createECSClient([
+        { rolloutState: "IN_PROGRESS", runningCount: 0, desiredCount: 1 },
+      ]),
+      "api",
+      "api-service",
+      { intervalMs: 0, timeoutMs: 0 },
+    );
+
+    expect(rollout.state).toBe("timed-out");
+  });
+
+  it("無効化ではexecが残っているタスクがあるかを返す", async () => {
+    const rollout = await waitForExecRollout(
+      createECSClient([
+        { rolloutState: "COMPLETED", runningCount: 1, desiredCount: 1 },
+      ]),
+      "api",
+      "api-service",
+      TIMING,
+      false,
+    );
+
+    expect(rollout.state).toBe("completed");
+    expect(rollout.execTasksRunning).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  appendExecJournal,
+  getExecJournalFile,
+  getRevertableEntries,
+  loadExecJournal,
+} from "../../../src/exec-journal.js";
+import type { ExecJournalEntry } from "../../../src/types.js";
+
+const entry = (
+  id: string,
+  overrides: Partial<ExecJournalEntry> = {},
+): ExecJournalEntry => ({
+  id,
+  timestamp: "2024-01-01T00:00:00.000Z",
+  action: "enable",
+  account: "123456789012",
+  region: "ap-northeast-1",
+  cluster: "prod",
+  service: "api",
+  previousState: false,
+  newState: true,
+  ...overrides,
+});
+
+describe("exec-journal", () => {
+  let stateDir: string;
+  const originalHome = process.env.ECS_PF_HOME;
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "ecs-pf-exec-journal-"));
+    process.env.ECS_PF_HOME = stateDir;
+  });
+
+  afterEach(async () => {
+    if (originalHome === undefined) {
+      delete process.env.ECS_PF_HOME;
+    } else {
+      process.env.ECS_PF_HOME = originalHome;
+    }
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("ジャーナルがない場合は空配列を返す", async () => {
+    const result = await loadExecJournal();
+
+    expect(result.success && result.data).toEqual([]);
+  });
+
+  it("追記した変更を記録順に読み込める", async () => {
+    await appendExecJournal([entry("aaa111")]);
+    await appendExecJournal([
+      entry("bbb222", { action: "disable", previousState: true }),
+    ]);
+
+    const result = await loadExecJournal();
+
+    expect(result.success && result.data.map((e) => e.id)).toEqual([
+      "aaa111",
+      "bbb222",
+    ]);
+    const saved = JSON.parse(await readFile(getExecJournalFile(), "utf8"));
+    expect(saved.entries).toHaveLength(2);
+  });
+
+  it("壊れたジャーナルはエラーとして返す", async () => {
+    await writeFile(getExecJournalFile(), "{ not json");
+
+    const result = await loadExecJournal();
+
+    expect(result.success).toBe(false);
+  });
+
+  it("取り消し済みと状態が変わっていない変更を除き、新しい順に返す", () => {
+    const revertable = getRevertableEntries([
+      entry("aaa111"),
+      entry("bbb222", { service: "worker" }),
+      entry("ccc333", { previousState: true }),
+      entry("ddd444", {
+        action: "revert",
+        previousState: true,
+        newState: false,
+        revertOf: "aaa111",
+      }),
+    ]);
+
+    expect(revertable.map((e) => e.id)).toEqual(["ddd444", "bbb222"]);
+  });
+});
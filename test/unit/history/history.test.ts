@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parse, safeParse } from "valibot";
+import {
+  formatDuration,
+  getHistoryFile,
+  getLastConnection,
+  getReplayOptions,
+  loadHistory,
+  recordHistory,
+} from "../../../src/history.js";
+import {
+  ConnectOptionsSchema,
+  ExecOptionsSchema,
+  type HistoryEntry,
+  HistoryEntrySchema,
+} from "../../../src/types.js";
+
+const connectEntry = (
+  overrides: Partial<Omit<HistoryEntry, "id">> = {},
+): Omit<HistoryEntry, "id"> => {
+  const { id: _id, ...entry } = parse(HistoryEntrySchema, {
+    id: "-",
+    kind: "connect",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    durationMs: 90_000,
+    region: "ap-northeast-1",
+    cluster: "prod",
+    service: "api",
+    task: "abc123",
+    rds: "prod-db",
+    rdsPort: 5432,
+    localPort: 8888,
+    credentials: { profile: "prod" },
+    ...overrides,
+  });
+  return entry;
+};
+
+const execEntry = parse(HistoryEntrySchema, {
+  id: "exec01",
+  kind: "exec",
+  timestamp: "2024-01-02T00:00:00.000Z",
+  durationMs: 5_000,
+  region: "ap-northeast-1",
+  cluster: "prod",
+  service: "api",
+  task: "def456",
+  container: "web",
+  command: "/bin/bash",
+});
+
+describe("history", () => {
+  let stateDir: string;
+  const originalHome = process.env.ECS_PF_HOME;
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "ecs-pf-history-"));
+    process.env.ECS_PF_HOME = stateDir;
+  });
+
+  afterEach(async () => {
+    if (originalHome === undefined) {
+      delete process.env.ECS_PF_HOME;
+    } else {
+      process.env.ECS_PF_HOME = originalHome;
+    }
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("履歴ファイルがない場合は空配列を返す", async () => {
+    const result = await loadHistory();
+
+    expect(result.success && result.data).toEqual([]);
+  });
+
+  it("記録したセッションにIDを付けて記録順に読み込める", async () => {
+    const first = await recordHistory(connectEntry());
+    await recordHistory(connectEntry({ rds: "staging-db" }));
+
+    const result = await loadHistory();
+
+    expect(first.success && first.data.id).toMatch(/^[0-9a-f]{6}$/);
+    expect(result.success && result.data.map((e) => e.rds)).toEqual([
+      "prod-db",
+      "staging-db",
+    ]);
+    const saved = JSON.parse(await readFile(getHistoryFile(), "utf8"));
+    expect(saved.entries).toHaveLength(2);
+  });
+
+  it("古い履歴は上限を超えると削除される", async () => {
+    for (let i = 0; i < 201; i++) {
+      await recordHistory(connectEntry());
+    }
+
+    const result = await loadHistory();
+
+    expect(result.success && result.data).toHaveLength(200);
+  });
+});
+
+describe("getLastConnection", () => {
+  it("execを除いた最新の接続を返す", () => {
+    const older = { id: "old001", ...connectEntry() };
+    const newer = { id: "new001", ...connectEntry({ rds: "staging-db" }) };
+
+    expect(getLastConnection([older, newer, execEntry])).toBe(newer);
+    expect(getLastConnection([execEntry])).toBeUndefined();
+  });
+});
+
+describe("getReplayOptions", () => {
+  it("サービスがある場合はタスクを含めず、connectのオプションとして解釈できる", () => {
+    const options = getReplayOptions({ id: "a", ...connectEntry() });
+
+    expect(options.task).toBeUndefined();
+    const result = safeParse(ConnectOptionsSchema, options);
+    expect(result.success && result.output).toMatchObject({
+      region: "ap-northeast-1",
+      cluster: "prod",
+      service: "api",
+      rds: "prod-db",
+      rdsPort: 5432,
+      localPort: 8888,
+      profile: "prod",
+    });
+  });
+
+  it("サービスが無い場合は記録されたタスクを使う", () => {
+    const options = getReplayOptions({
+      id: "a",
+      ...connectEntry({ service: undefined }),
+    });
+
+    expect(options.task).toBe("abc123");
+  });
+
+  it("execの履歴はexecのオプションに変換される", () => {
+    const result = safeParse(ExecOptionsSchema, getReplayOptions(execEntry));
+
+    expect(result.success && result.output).toMatchObject({
+      service: "api",
+      container: "web",
+      command: "/bin/bash",
+    });
+  });
+});
+
+describe("formatDuration", () => {
+  it("接続時間を読みやすい単位で表示する", () => {
+    expect(formatDuration(5_000)).toBe("5s");
+    expect(formatDuration(90_000)).toBe("1m30s");
+    expect(formatDuration(3_900_000)).toBe("1h5m");
+    expect(formatDuration(undefined)).toBe("detached");
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, expect, it } from "bun:test";
-import { inferClustersFromRDSName } from "../../../src/inference/cluster-inference.js";
+import {
+  inferClustersFromRDSName,
+  scoreClustersFromRDSName,
+} from "../../../src/inference/cluster-inference.js";
 import { mockECSClusters } from "../../mock-data/index.js";
 
 describe("inferClustersFromRDSName", () => {
@@ -92,3 +95,32 @@ describe("inferClustersFromRDSName", () => {
     expect(result.slice(1)).toContain("prod-api");
   });
 });
+
+describe("scoreClustersFromRDSName", () => {
+  it("ルールごとの内訳を返し、その合計がスコアになる", () => {
+    const [best] = scoreClustersFromRDSName({
+      rdsName: "prod-api-aurora",
+      allClusters: mockECSClusters,
+    });
+
+    expect(best?.clusterName).toBe("prod-api");
+    expect(best?.breakdown).toContainEqual({
+      rule: "segment",
+      points: 30,
+      detail: 'Segment "prod"',
+    });
+    expect(best?.breakdown).toContainEqual({
+      rule: "env-indicator",
+      points: 25,
+      detail: 'Environment "prod"',
+    });
+    expect(best?.breakdown).toContainEqual({
+      rule: "pattern",
+      points: 20,
+      detail: 'Pattern "api"',
+    });
+    expect(
+      best?.breakdown.reduce((total, item) => total + item.points, 0),
+    ).toBe(best?.score);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatInferenceTable,
+  formatScoreExplanation,
+} from "../../../src/core/inference-report.js";
+import type { InferenceResult } from "../../../src/inference/index.js";
+import type { ClusterName } from "../../../src/types.js";
+import { mockECSClusters, mockECSTasks } from "../../mock-data/index.js";
+
+const cluster = mockECSClusters[0]; // prod-web
+const task = mockECSTasks[0]; // web-service
+
+const result: InferenceResult = {
+  cluster,
+  task,
+  confidence: "high",
+  method: "environment",
+  score: 115,
+  reason: "タスク定義の接続設定",
+  reasons: ["タスク定義の接続設定"],
+  breakdown: [
+    {
+      rule: "env-variable",
+      points: 100,
+      detail: "web: DB_HOST (environment) references the endpoint",
+    },
+    { rule: "network", points: 15, detail: "Security group allows 3306" },
+  ],
+  network: { verdict: "reachable", reason: "Security group allows 3306" },
+  clusterNaming: {
+    clusterName: "prod-web" as ClusterName,
+    score: 80,
+    breakdown: [
+      {
+        rule: "name",
+        points: 80,
+        detail: "Cluster name and RDS name share a prefix",
+      },
+    ],
+  },
+};
+
+describe("formatInferenceTable", () => {
+  it("候補を順位付きの表にする", () => {
+    expect(formatInferenceTable([result])).toEqual([
+      "#  SERVICE      CLUSTER   TASK          CONFIDENCE  METHOD       SCORE  NETWORK",
+      "1  web-service  prod-web  a1b2c3d4e5f6  high        environment  115    reachable",
+    ]);
+  });
+});
+
+describe("formatScoreExplanation", () => {
+  it("ルールごとの加点とクラスター名の照合結果を表示する", () => {
+    expect(formatScoreExplanation(result, 1)).toEqual([
+      "#1 web-service (prod-web/a1b2c3d4e5f6): 115 points, high confidence by environment",
+      "     +100  env-variable  web: DB_HOST (environment) references the endpoint",
+      "      +15  network       Security group allows 3306",
+      "  Network: reachable (Security group allows 3306)",
+      '  Cluster "prod-web" matched the RDS name with 80 points:',
+      "      +80  name  Cluster name and RDS name share a prefix",
+    ]);
+  });
+
+  it("名前が一致しないクラスターはその旨を表示する", () => {
+    const lines = formatScoreExplanation(
+      {
+        ...result,
+        method: "naming",
+        breakdown: [{ rule: "base", points: 25, detail: "Base score" }],
+        clusterNaming: undefined,
+        network: undefined,
+      },
+      2,
+    );
+
+    expect(lines.at(-1)).toBe(
+      '  Cluster "prod-web" does not match the RDS name, so its tasks were only scored by name',
+    );
+  });
+
+  it("名前が一致しないクラスターでもタスク定義の参照で一致した場合は名前だけの評価とは表示しない", () => {
+    const lines = formatScoreExplanation(
+      { ...result, clusterNaming: undefined, network: undefined },
+      2,
+    );
+
+    expect(lines.at(-1)).toBe(
+      '  Cluster "prod-web" does not match the RDS name, but the task definition references it',
+    );
+  });
+});
@@ -1,8 +1,10 @@
+import type { EC2Client } from "@aws-sdk/client-ec2";
 import { ECSClient } from "@aws-sdk/client-ecs";
 import { afterEach, beforeEach, describe, expect, it, vi } from "bun:test";
 import * as awsServices from "../../../src/aws-services.js";
 import * as clusterInference from "../../../src/inference/cluster-inference.js";
 import { inferECSTargets } from "../../../src/inference/main-inference.js";
+import * as networkAnalyzer from "../../../src/inference/network-analyzer.js";
 import * as taskScoring from "../../../src/inference/task-scoring.js";
 import type { ECSCluster } from "../../../src/types.js";
 import {
@@ -265,6 +267,116 @@ describe("inferECSTargets - All clusters search", () => {
     );
   });
 
+  it("推論外のクラスターでもタスク定義がRDSを参照していれば高信頼度になる", async () => {
+    const allClusters: ECSCluster[] = [
+      { ...mockECSClusters[0], clusterName: "prod-web" },
+      { ...mockECSClusters[1], clusterName: "shared-workers" }, // RDS名と無関係
+    ];
+    const workerTask = {
+      ...mockECSTasks[1],
+      serviceName: "worker",
+      displayName: "worker",
+    };
+    const otherTask = {
+      ...mockECSTasks[2],
+      serviceName: "cron",
+      displayName: "cron",
+    };
+
+    vi.spyOn(awsServices, "getECSClustersWithExecCapability").mockResolvedValue(
+      {
+        success: true,
+        data: allClusters,
+      },
+    );
+    vi.spyOn(awsServices, "getECSTasksWithExecCapability").mockImplementation(
+      async (_, cluster) => ({
+        success: true,
+        data:
+          cluster.clusterName === "shared-workers"
+            ? [workerTask, otherTask]
+            : [mockECSTasks[0]],
+      }),
+    );
+    vi.spyOn(taskScoring, "scoreTasksAgainstRDS").mockImplementation(
+      async ({ tasks, cluster }) =>
+        tasks
+          .filter((task) => task.serviceName === "worker")
+          .map((task) => ({
+            cluster,
+            task,
+            confidence: "high" as const,
+            method: "environment" as const,
+            score: 95,
+            reason: "タスク定義の接続設定",
+            matchDetails: ["DATABASE_URL"],
+          })),
+    );
+    vi.spyOn(taskScoring, "scoreTasksByNaming").mockImplementation(
+      ({ tasks, cluster }) =>
+        tasks.map((task) => ({
+          cluster,
+          task,
+          confidence: "medium" as const,
+          method: "naming" as const,
+          score: 40,
+          reason: "Name pattern match",
+        })),
+    );
+
+    const results = await inferECSTargets({
+      ecsClient,
+      selectedRDS: mockRDS,
+    });
+
+    const worker = results.find((r) => r.task.serviceName === "worker");
+    expect(worker?.confidence).toBe("high");
+    expect(worker?.method).toBe("environment");
+    expect(worker?.reasons).toEqual(["タスク定義の接続設定", "DATABASE_URL"]);
+
+    // 照合しなかったタスクは名前だけで低信頼度
+    const cron = results.find((r) => r.task.serviceName === "cron");
+    expect(cron?.confidence).toBe("low");
+    expect(cron?.method).toBe("naming");
+    expect(results[0].task.serviceName).toBe("worker");
+  });
+
+  it("推論外のクラスターで名前だけが一致するタスクは低信頼度のまま", async () => {
+    const allClusters: ECSCluster[] = [
+      { ...mockECSClusters[0], clusterName: "prod-web" },
+      { ...mockECSClusters[1], clusterName: "shared-workers" }, // RDS名と無関係
+    ];
+    // サービス名にRDS識別子を含むが、タスク定義は参照していない
+    const syncTask = {
+      ...mockECSTasks[1],
+      serviceName: "prod-web-db-sync",
+      displayName: "prod-web-db-sync",
+    };
+
+    vi.spyOn(awsServices, "getECSClustersWithExecCapability").mockResolvedValue(
+      {
+        success: true,
+        data: allClusters,
+      },
+    );
+    vi.spyOn(awsServices, "getECSTasksWithExecCapability").mockImplementation(
+      async (_, cluster) => ({
+        success: true,
+        data: cluster.clusterName === "shared-workers" ? [syncTask] : [],
+      }),
+    );
+
+    const results = await inferECSTargets({
+      ecsClient,
+      selectedRDS: mockRDS,
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].task.serviceName).toBe("prod-web-db-sync");
+    expect(results[0].method).toBe("naming");
+    expect(results[0].confidence).toBe("low");
+  });
+
   it("停止中のタスクも結果に含まれる（最後に配置）", async () => {
     const allClusters: ECSCluster[] = [mockECSClusters[0], mockECSClusters[1]];
 
@@ -453,4 +565,55 @@ describe("inferECSTargets - All clusters search", () => {
     expect(results[0].task).toEqual(mockECSTasks[0]);
     expect(results[1].task).toEqual(mockECSTasks[2]);
   });
+
+  it("到達不可と判定されたタスクは高スコアでも最後に回す", async () => {
+    vi.spyOn(clusterInference, "inferClustersFromRDSName").mockReturnValue([
+      mockECSClusters[0].clusterName,
+    ]);
+    vi.spyOn(awsServices, "getECSClustersWithExecCapability").mockResolvedValue({
+      success: true,
+      data: [mockECSClusters[0]],
+    });
+    vi.spyOn(awsServices, "getECSTasksWithExecCapability").mockResolvedValue({
+      success: true,
+      data: [mockECSTasks[0], mockECSTasks[1]],
+    });
+    vi.spyOn(taskScoring, "scoreTasksAgainstRDS").mockImplementation(
+      async ({ tasks, cluster }) =>
+        tasks.map((task, i) => ({
+          cluster,
+          task,
+          confidence: "high" as const,
+          method: "environment" as const,
+          score: i === 0 ? 95 : 80,
+          reason: "Match found",
+        })),
+    );
+    vi.spyOn(networkAnalyzer, "analyzeNetworkReachability").mockResolvedValue({
+      success: true,
+      data: new Map([
+        [
+          mockECSTasks[0].taskArn,
+          { verdict: "unreachable" as const, reason: "No ingress rule" },
+        ],
+        [
+          mockECSTasks[1].taskArn,
+          { verdict: "reachable" as const, reason: "sg-db allows sg-app" },
+        ],
+      ]),
+    });
+
+    const results = await inferECSTargets({
+      ecsClient,
+      ec2Client: {} as EC2Client,
+      selectedRDS: mockRDS,
+    });
+
+    expect(results.map((r) => r.task.taskArn)).toEqual([
+      mockECSTasks[1].taskArn,
+      mockECSTasks[0].taskArn,
+    ]);
+    expect(results[1].confidence).toBe("low");
+    expect(results[1].network?.verdict).toBe("unreachable");
+  });
 });
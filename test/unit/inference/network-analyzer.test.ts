@@ -0,0 +1,237 @@
+import { describe, expect, it } from "bun:test";
+import type { EC2Client } from "@aws-sdk/client-ec2";
+import type { InferenceResult } from "../../../src/inference/index.js";
+import {
+  analyzeNetworkReachability,
+  applyNetworkAssessment,
+  assessReachability,
+} from "../../../src/inference/network-analyzer.js";
+import type {
+  NetworkInterfaceInfo,
+  SecurityGroupInfo,
+  SecurityGroupIngressRule,
+} from "../../../src/types.js";
+import {
+  mockECSClusters,
+  mockECSTasks,
+  mockRDSInstances,
+} from "../../mock-data/index.js";
+import { EC2Client as MockEC2Client } from "../../mocks/ec2-client.mock.js";
+
+const rule = (
+  overrides: Partial<SecurityGroupIngressRule>,
+): SecurityGroupIngressRule => ({
+  protocol: "tcp",
+  fromPort: 3306,
+  toPort: 3306,
+  sourceGroupIds: [],
+  cidrs: [],
+  prefixListIds: [],
+  ...overrides,
+});
+
+const dbGroup = (
+  ingressRules: SecurityGroupIngressRule[],
+): SecurityGroupInfo => ({
+  groupId: "sg-db",
+  vpcId: "vpc-main",
+  ingressRules,
+});
+
+const taskEni: NetworkInterfaceInfo = {
+  networkInterfaceId: "eni-task",
+  vpcId: "vpc-main",
+  securityGroupIds: ["sg-app"],
+  privateIpAddress: "10.0.1.25",
+};
+
+describe("assessReachability", () => {
+  it("タスクのセキュリティグループを許可するルールがあれば到達可能", () => {
+    const result = assessReachability({
+      dbSecurityGroups: [dbGroup([rule({ sourceGroupIds: ["sg-app"] })])],
+      dbPort: 3306,
+      networkInterface: taskEni,
+    });
+
+    expect(result.verdict).toBe("reachable");
+    expect(result.reason).toBe("sg-db allows sg-app on port 3306");
+  });
+
+  it("タスクのIPを含むCIDRが許可されていれば到達可能", () => {
+    const result = assessReachability({
+      dbSecurityGroups: [dbGroup([rule({ cidrs: ["10.0.0.0/16"] })])],
+      dbPort: 3306,
+      networkInterface: taskEni,
+    });
+
+    expect(result.verdict).toBe("reachable");
+  });
+
+  it("ポートが違うルールしかなければ到達不可", () => {
+    const result = assessReachability({
+      dbSecurityGroups: [
+        dbGroup([
+          rule({ fromPort: 5432, toPort: 5432, sourceGroupIds: ["sg-app"] }),
+          rule({ protocol: "udp", cidrs: ["0.0.0.0/0"] }),
+        ]),
+      ],
+      dbPort: 3306,
+      networkInterface: taskEni,
+    });
+
+    expect(result.verdict).toBe("unreachable");
+  });
+
+  it("全プロトコル許可のルールはポートに関係なく許可する", () => {
+    const result = assessReachability({
+      dbSecurityGroups: [
+        dbGroup([rule({ protocol: "-1", sourceGroupIds: ["sg-app"] })]),
+      ],
+      dbPort: 5432,
+      networkInterface: taskEni,
+    });
+
+    expect(result.verdict).toBe("reachable");
+  });
+
+  it("別VPCではセキュリティグループ参照を許可とみなさない", () => {
+    const result = assessReachability({
+      dbSecurityGroups: [dbGroup([rule({ sourceGroupIds: ["sg-app"] })])],
+      dbPort: 3306,
+      networkInterface: { ...taskEni, vpcId: "vpc-other" },
+    });
+
+    expect(result.verdict).toBe("unreachable");
+    expect(result.reason).toContain("vpc-other");
+  });
+
+  it("DBサブネットグループのVPCがタスクと違えばセキュリティグループ参照を許可とみなさない", () => {
+    const result = assessReachability({
+      dbSecurityGroups: [dbGroup([rule({ sourceGroupIds: ["sg-app"] })])],
+      dbPort: 3306,
+      dbVpcId: "vpc-db",
+      networkInterface: taskEni,
+    });
+
+    expect(result.verdict).toBe("unreachable");
+    expect(result.reason).toContain("vpc-db");
+  });
+
+  it("プレフィックスリストのみのルールは判定不能とする", () => {
+    const result = assessReachability({
+      dbSecurityGroups: [dbGroup([rule({ prefixListIds: ["pl-123"] })])],
+      dbPort: 3306,
+      networkInterface: taskEni,
+    });
+
+    expect(result.verdict).toBe("unknown");
+  });
+
+  it("タスクのENIが分からない場合は判定不能とする", () => {
+    const result = assessReachability({
+      dbSecurityGroups: [dbGroup([])],
+      dbPort: 3306,
+    });
+
+    expect(result.verdict).toBe("unknown");
+  });
+});
+
+describe("analyzeNetworkReachability", () => {
+  it("DBのセキュリティグループとタスクのENIを取得して判定する", async () => {
+    const rds = { ...mockRDSInstances[0], vpcSecurityGroups: ["sg-db"] };
+    const reachableTask = {
+      ...mockECSTasks[0],
+      networkInterfaceId: "eni-app",
+    };
+    const blockedTask = {
+      ...mockECSTasks[1],
+      networkInterfaceId: "eni-batch",
+    };
+    const ec2Client = new MockEC2Client({
+      securityGroups: [
+        {
+          GroupId: "sg-db",
+          VpcId: "vpc-main",
+          IpPermissions: [
+            {
+              IpProtocol: "tcp",
+              FromPort: rds.port,
+              ToPort: rds.port,
+              UserIdGroupPairs: [{ GroupId: "sg-app" }],
+            },
+          ],
+        },
+      ],
+      networkInterfaces: [
+        {
+          NetworkInterfaceId: "eni-app",
+          VpcId: "vpc-main",
+          Groups: [{ GroupId: "sg-app" }],
+          PrivateIpAddress: "10.0.1.25",
+        },
+        {
+          NetworkInterfaceId: "eni-batch",
+          VpcId: "vpc-main",
+          Groups: [{ GroupId: "sg-batch" }],
+          PrivateIpAddress: "10.0.2.40",
+        },
+      ],
+    }) as unknown as EC2Client;
+
+    // 停止済みタスクのENIは既に削除されている
+    const stoppedTask = {
+      ...mockECSTasks[3],
+      networkInterfaceId: "eni-deleted",
+    };
+
+    const result = await analyzeNetworkReachability({
+      ec2Client,
+      rdsInstance: rds,
+      tasks: [reachableTask, blockedTask, mockECSTasks[2], stoppedTask],
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.get(reachableTask.taskArn)?.verdict).toBe("reachable");
+      expect(result.data.get(blockedTask.taskArn)?.verdict).toBe("unreachable");
+      expect(result.data.get(mockECSTasks[2].taskArn)?.verdict).toBe("unknown");
+      expect(result.data.get(stoppedTask.taskArn)?.verdict).toBe("unknown");
+    }
+  });
+});
+
+describe("applyNetworkAssessment", () => {
+  const baseResult: InferenceResult = {
+    cluster: mockECSClusters[0],
+    task: mockECSTasks[0],
+    confidence: "low",
+    method: "naming",
+    score: 40,
+    reason: "名前類似性関連",
+    reasons: ["名前類似性関連"],
+  };
+
+  it("到達可能な名前推論の結果をネットワーク推論に格上げする", () => {
+    const result = applyNetworkAssessment(baseResult, {
+      verdict: "reachable",
+      reason: "sg-db allows sg-app on port 3306",
+    });
+
+    expect(result.method).toBe("network");
+    expect(result.confidence).toBe("medium");
+    expect(result.score).toBe(55);
+    expect(result.reasons).toContain("sg-db allows sg-app on port 3306");
+  });
+
+  it("到達不可の結果は低信頼度に降格する", () => {
+    const result = applyNetworkAssessment(
+      { ...baseResult, confidence: "high", method: "environment" },
+      { verdict: "unreachable", reason: "No ingress rule" },
+    );
+
+    expect(result.confidence).toBe("low");
+    expect(result.method).toBe("environment");
+    expect(result.network?.verdict).toBe("unreachable");
+  });
+});
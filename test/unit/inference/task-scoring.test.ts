@@ -1,5 +1,9 @@
-import { describe, expect, it } from "bun:test";
-import { scoreTasksByNaming } from "../../../src/inference/task-scoring.js";
+import { describe, expect, it, vi } from "bun:test";
+import type { ECSClient } from "@aws-sdk/client-ecs";
+import {
+  scoreTasksAgainstRDS,
+  scoreTasksByNaming,
+} from "../../../src/inference/task-scoring.js";
 import {
   mockECSClusters,
   mockECSTasks,
@@ -79,6 +83,29 @@ describe("scoreTasksByNaming", () => {
     });
   });
 
+  it("ベーススコアと一致したルールの内訳を返す", async () => {
+    const results = await scoreTasksByNaming({
+      tasks: mockECSTasks.filter((t) => t.clusterName === "dev-app"),
+      cluster: mockECSClusters[2],
+      rdsInstance: mockRDSInstances[2], // dev-app-mysql
+    });
+
+    const [result] = results;
+    expect(result?.breakdown[0]).toEqual({
+      rule: "base",
+      points: 25,
+      detail: "Base score",
+    });
+    expect(result?.breakdown).toContainEqual({
+      rule: "segment",
+      points: 15,
+      detail: "Service name segment match: app",
+    });
+    expect(
+      result?.breakdown.reduce((total, item) => total + item.points, 0),
+    ).toBe(result?.score);
+  });
+
   it("空のタスクリストの場合は空配列を返す", async () => {
     const results = await scoreTasksByNaming({
       tasks: [],
@@ -124,3 +151,165 @@ describe("scoreTasksByNaming", () => {
     });
   });
 });
+
+describe("scoreTasksAgainstRDS", () => {
+  const prodWebCluster = mockECSClusters[0]; // prod-web
+  const prodWebDB = mockRDSInstances[0]; // prod-web-db
+  const analysisResults = { environment: [], naming: [], network: [] };
+  const webDefinitionArn =
+    "arn:aws:ecs:ap-northeast-1:123456789012:task-definition/web-service:7";
+  const apiDefinitionArn =
+    "arn:aws:ecs:ap-northeast-1:123456789012:task-definition/api-service:3";
+
+  // タスク定義ARNごとにコンテナ定義を返すECSクライアント
+  const createClient = () => {
+    const send = vi.fn(
+      async (command: { input: { taskDefinition?: string } }) => ({
+        taskDefinition: {
+          containerDefinitions:
+            command.input.taskDefinition === webDefinitionArn
+              ? [
+                  {
+                    name: "app",
+                    environment: [
+                      { name: "DB_HOST", value: prodWebDB.endpoint },
+                      { name: "LOG_LEVEL", value: "info" },
+                    ],
+                    secrets: [
+                      {
+                        name: "DB_PASSWORD",
+                        valueFrom:
+                          "arn:aws:secretsmanager:ap-northeast-1:123456789012:secret:prod-web-db-password",
+                      },
+                    ],
+                  },
+                ]
+              : [
+                  {
+                    name: "app",
+                    environment: [{ name: "PORT", value: "8080" }],
+                  },
+                ],
+        },
+      }),
+    );
+    return { send, client: { send } as unknown as ECSClient };
+  };
+
+  it("タスク定義がRDSエンドポイントを参照するタスクを高信頼度で返す", async () => {
+    const { client } = createClient();
+    const task = { ...mockECSTasks[0], taskDefinitionArn: webDefinitionArn };
+
+    const results = await scoreTasksAgainstRDS({
+      ecsClient: client,
+      tasks: [task],
+      cluster: prodWebCluster,
+      rdsInstance: prodWebDB,
+      analysisResults,
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]?.method).toBe("environment");
+    expect(results[0]?.confidence).toBe("high");
+    expect(results[0]?.score).toBe(100);
+    expect(results[0]?.reason).toBe("タスク定義の接続設定");
+    expect(results[0]?.matchDetails).toEqual([
+      "app: DB_HOST (environment) references the endpoint",
+      "app: DB_PASSWORD (secret) references prod-web-db",
+    ]);
+  });
+
+  it("接続先らしくないキーでもRDS識別子を参照していれば高信頼度で返す", async () => {
+    const send = vi.fn(async () => ({
+      taskDefinition: {
+        containerDefinitions: [
+          {
+            name: "app",
+            environment: [{ name: "PRIMARY_STORE", value: "prod-web-db" }],
+          },
+        ],
+      },
+    }));
+    const task = { ...mockECSTasks[1], taskDefinitionArn: apiDefinitionArn };
+
+    const results = await scoreTasksAgainstRDS({
+      ecsClient: { send } as unknown as ECSClient,
+      tasks: [task],
+      cluster: prodWebCluster,
+      rdsInstance: prodWebDB,
+      analysisResults,
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]?.confidence).toBe("high");
+    expect(results[0]?.score).toBe(80);
+    expect(results[0]?.matchDetails).toEqual([
+      "app: PRIMARY_STORE (environment) references prod-web-db",
+    ]);
+  });
+
+  it("参照のないタスク定義は名前からの推論にフォールバックする", async () => {
+    const { client } = createClient();
+    const task = { ...mockECSTasks[1], taskDefinitionArn: apiDefinitionArn };
+
+    const results = await scoreTasksAgainstRDS({
+      ecsClient: client,
+      tasks: [task],
+      cluster: prodWebCluster,
+      rdsInstance: prodWebDB,
+      analysisResults,
+    });
+
+    expect(results).toEqual([]);
+  });
+
+  it("同じタスク定義は一度だけ取得する", async () => {
+    const { send, client } = createClient();
+    const taskDefinitionCache = new Map();
+    const tasks = [
+      { ...mockECSTasks[0], taskDefinitionArn: webDefinitionArn },
+      { ...mockECSTasks[0], taskDefinitionArn: webDefinitionArn },
+      { ...mockECSTasks[1], taskDefinitionArn: apiDefinitionArn },
+    ];
+
+    await scoreTasksAgainstRDS({
+      ecsClient: client,
+      tasks,
+      cluster: prodWebCluster,
+      rdsInstance: prodWebDB,
+      analysisResults,
+      taskDefinitionCache,
+    });
+    // 別クラスターのスコアリングでも同じキャッシュを共有する
+    await scoreTasksAgainstRDS({
+      ecsClient: client,
+      tasks: [tasks[0]],
+      cluster: prodWebCluster,
+      rdsInstance: prodWebDB,
+      analysisResults,
+      taskDefinitionCache,
+    });
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("タスク定義を取得できない場合は名前から推論する", async () => {
+    const client = {
+      send: vi.fn().mockRejectedValue(new Error("AccessDenied")),
+    } as unknown as ECSClient;
+    const task = { ...mockECSTasks[0], taskDefinitionArn: webDefinitionArn };
+
+    const results = await scoreTasksAgainstRDS({
+      ecsClient: client,
+      tasks: [task],
+      cluster: prodWebCluster,
+      rdsInstance: prodWebDB,
+      analysisResults,
+    });
+
+    results.forEach((result) => {
+      expect(result.reason).toBe("データベース接続関連");
+      expect(result.matchDetails).toBeUndefined();
+    });
+  });
+});
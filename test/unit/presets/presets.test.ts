@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parse } from "valibot";
+import {
+  applyConnectPreset,
+  applyExecPreset,
+  findPresetFile,
+  loadPreset,
+  loadPresetOrGroup,
+} from "../../../src/presets.js";
+import {
+  ConnectOptionsSchema,
+  ExecOptionsSchema,
+  PresetSchema,
+} from "../../../src/types.js";
+
+describe("presets", () => {
+  let rootDir: string;
+  let nestedDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "ecs-pf-presets-"));
+    nestedDir = join(rootDir, "packages", "api");
+    await mkdir(nestedDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe("findPresetFile", () => {
+    it("カレントディレクトリから親方向にプリセットファイルを探す", async () => {
+      await writeFile(join(rootDir, ".ecs-pf.yaml"), "presets: {}\n");
+
+      expect(await findPresetFile(nestedDir)).toBe(
+        join(rootDir, ".ecs-pf.yaml"),
+      );
+    });
+
+    it("より近いディレクトリのファイルを優先する", async () => {
+      await writeFile(join(rootDir, ".ecs-pf.yaml"), "presets: {}\n");
+      await writeFile(join(nestedDir, ".ecs-pf.json"), '{"presets":{}}');
+
+      expect(await findPresetFile(nestedDir)).toBe(
+        join(nestedDir, ".ecs-pf.json"),
+      );
+    });
+  });
+
+  describe("loadPreset", () => {
+    it("YAML のプリセットを読み込みパースする", async () => {
+      await writeFile(
+        join(rootDir, ".ecs-pf.yaml"),
+        [
+          "presets:",
+          "  staging-db:",
+          "    region: ap-northeast-1",
+          "    cluster: staging",
+          "    service: api",
+          "    rds: staging-postgres",
+          "    rdsPort: 5432",
+          "    localPort: 15432",
+        ].join("\n"),
+      );
+
+      const result = await loadPreset("staging-db", nestedDir);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.preset.region).toBe("ap-northeast-1");
+      expect(result.data.preset.service).toBe("api");
+      expect(result.data.preset.rdsPort).toBe(5432);
+      expect(result.data.preset.localPort).toBe(15432);
+    });
+
+    it("JSON のプリセットを読み込む", async () => {
+      await writeFile(
+        join(rootDir, ".ecs-pf.json"),
+        JSON.stringify({
+          presets: { shell: { cluster: "prod", container: "web" } },
+        }),
+      );
+
+      const result = await loadPreset("shell", rootDir);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.preset.container).toBe("web");
+    });
+
+    it("存在しないプリセット名の場合は利用可能な名前を含むエラーを返す", async () => {
+      await writeFile(
+        join(rootDir, ".ecs-pf.json"),
+        JSON.stringify({ presets: { a: {}, b: {} } }),
+      );
+
+      const result = await loadPreset("missing", rootDir);
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error).toContain('Preset "missing" not found');
+      expect(result.error).toContain("a, b");
+    });
+
+    it("不正な値を含む場合はパスを含むエラーを返す", async () => {
+      await writeFile(
+        join(rootDir, ".ecs-pf.json"),
+        JSON.stringify({ presets: { bad: { rdsPort: "abc" } } }),
+      );
+
+      const result = await loadPreset("bad", rootDir);
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error).toContain("presets.bad.rdsPort");
+    });
+  });
+
+  describe("loadPresetOrGroup", () => {
+    const config = {
+      presets: {
+        primary: { cluster: "prod", rds: "prod-db" },
+        replica: { cluster: "prod", rds: "prod-db-replica" },
+      },
+      groups: { databases: ["primary", "replica"], broken: ["missing"] },
+    };
+
+    it("グループ名の場合はメンバーのプリセットを順に返す", async () => {
+      await writeFile(join(rootDir, ".ecs-pf.json"), JSON.stringify(config));
+
+      const result = await loadPresetOrGroup("databases", rootDir);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data.map((loaded) => loaded.name)).toEqual([
+        "primary",
+        "replica",
+      ]);
+    });
+
+    it("プリセット名の場合は単一のプリセットを返す", async () => {
+      await writeFile(join(rootDir, ".ecs-pf.json"), JSON.stringify(config));
+
+      const result = await loadPresetOrGroup("replica", rootDir);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0]?.preset.rds).toBe("prod-db-replica");
+    });
+
+    it("存在しないプリセットを参照するグループはエラーを返す", async () => {
+      await writeFile(join(rootDir, ".ecs-pf.json"), JSON.stringify(config));
+
+      const result = await loadPresetOrGroup("broken", rootDir);
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error).toContain('unknown preset "missing"');
+    });
+  });
+
+  describe("applyConnectPreset / applyExecPreset", () => {
+    const preset = parse(PresetSchema, {
+      region: "ap-northeast-1",
+      cluster: "staging",
+      service: "api",
+      rds: "staging-postgres",
+      rdsPort: 5432,
+      container: "web",
+      command: "/bin/sh",
+    });
+
+    it("CLI で指定された値をプリセットより優先する", () => {
+      const options = parse(ConnectOptionsSchema, {
+        region: "us-east-1",
+        localPort: "9999",
+      });
+
+      const merged = applyConnectPreset(preset, options);
+
+      expect(merged.region).toBe("us-east-1");
+      expect(merged.cluster).toBe("staging");
+      expect(merged.service).toBe("api");
+      expect(merged.rds).toBe("staging-postgres");
+      expect(merged.localPort).toBe(9999);
+    });
+
+    it("プリセットにない項目は未指定のまま残す", () => {
+      const options = parse(ExecOptionsSchema, {});
+
+      const merged = applyExecPreset(preset, options);
+
+      expect(merged.container).toBe("web");
+      expect(merged.command).toBe("/bin/sh");
+      expect(merged.task).toBeUndefined();
+    });
+  });
+});
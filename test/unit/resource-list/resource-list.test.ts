@@ -0,0 +1,175 @@
+import { describe, expect, it, vi } from "bun:test";
+import type { EC2Client } from "@aws-sdk/client-ec2";
+import type { ECSClient } from "@aws-sdk/client-ecs";
+import type { RDSClient } from "@aws-sdk/client-rds";
+import chalk from "chalk";
+import {
+  formatResourceTable,
+  type ListClients,
+  listResources,
+  validateListFilters,
+} from "../../../src/core/resource-list.js";
+import { EC2Client as MockEC2Client } from "../../mocks/ec2-client.mock.js";
+import { ECSClient as MockECSClient } from "../../mocks/ecs-client.mock.js";
+import { RDSClient as MockRDSClient } from "../../mocks/rds-client.mock.js";
+
+chalk.level = 0;
+
+function createClients(
+  ecsOptions: ConstructorParameters<typeof MockECSClient>[0] = {},
+): ListClients {
+  return {
+    ecsClient: new MockECSClient(ecsOptions) as unknown as ECSClient,
+    rdsClient: new MockRDSClient() as unknown as RDSClient,
+    ec2Client: new MockEC2Client() as unknown as EC2Client,
+  };
+}
+
+describe("listResources", () => {
+  it("--clusterで指定したクラスターのタスクだけを返す", async () => {
+    const result = await listResources("tasks", createClients(), {
+      cluster: "prod-web",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success || result.data.resource !== "tasks") return;
+    expect(result.data.items.map((task) => task.taskId)).toEqual([
+      "a1b2c3d4e5f6",
+    ]);
+    expect(result.data.items[0]?.runtimeId).toBe("0123456789abcdef");
+  });
+
+  it("--exec-enabledでECS Execが使えないタスクを除外する", async () => {
+    const result = await listResources(
+      "tasks",
+      createClients({
+        execDisabledTaskArns: [
+          "arn:aws:ecs:ap-northeast-1:123456789012:task/prod-web/a1b2c3d4e5f6",
+        ],
+      }),
+      { execEnabled: true },
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success || result.data.resource !== "tasks") return;
+    expect(result.data.items.map((task) => task.serviceName)).toEqual([
+      "api-service",
+      "app-service",
+      "api-backend",
+      "test-app",
+    ]);
+    expect(
+      result.data.items.every((task) => task.execReadiness?.status === "ready"),
+    ).toBe(true);
+  });
+
+  it("--exec-enabledでサービスにもタスクにもECS Execが無いクラスターを除外する", async () => {
+    const result = await listResources(
+      "clusters",
+      createClients({
+        execDisabledServices: ["web-service"],
+        execDisabledTaskArns: [
+          "arn:aws:ecs:ap-northeast-1:123456789012:task/prod-web/a1b2c3d4e5f6",
+        ],
+      }),
+      { execEnabled: true },
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success || result.data.resource !== "clusters") return;
+    expect(
+      result.data.items.map((cluster) => String(cluster.clusterName)),
+    ).toEqual([
+      "staging-api",
+      "dev-app",
+      "prod-api",
+      "staging-web",
+      "test-service",
+    ]);
+  });
+
+  it("キーワードはすべて含まれるものだけに絞り込む", async () => {
+    const result = await listResources("rds", createClients(), {
+      query: "postgres staging",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success || result.data.resource !== "rds") return;
+    expect(
+      result.data.items.map((rds) => String(rds.dbInstanceIdentifier)),
+    ).toEqual(["staging-api-postgres"]);
+  });
+
+  it("--statusは大文字小文字を区別せずに比較する", async () => {
+    const result = await listResources("services", createClients(), {
+      cluster: "staging-api",
+      status: "active",
+    });
+
+    expect(result.success).toBe(true);
+    if (!result.success || result.data.resource !== "services") return;
+    expect(result.data.items.map((service) => service.serviceName)).toEqual([
+      "api-service",
+    ]);
+  });
+
+  it("存在しないクラスターを指定するとエラーになる", async () => {
+    const result = await listResources("services", createClients(), {
+      cluster: "missing",
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'ECS cluster "missing" not found',
+    });
+  });
+});
+
+describe("validateListFilters", () => {
+  it("リソースに関係ないフィルターを拒否する", () => {
+    expect(
+      validateListFilters("rds", { cluster: "prod-web", execEnabled: true }),
+    ).toEqual({
+      success: false,
+      error: "--cluster, --exec-enabled cannot be used when listing rds",
+    });
+    expect(validateListFilters("regions", { status: "opted-in" }).success).toBe(
+      true,
+    );
+  });
+});
+
+describe("formatResourceTable", () => {
+  it("ECS Execを確認できなかったクラスターはunknownとして残す", async () => {
+    const ecsClient = new MockECSClient();
+    const send = ecsClient.send.bind(ecsClient);
+    vi.spyOn(ecsClient, "send").mockImplementation(async (command) => {
+      if (command.constructor.name === "ListServicesCommand") {
+        throw new Error("Rate exceeded");
+      }
+      return send(command);
+    });
+    const result = await listResources(
+      "clusters",
+      { ...createClients(), ecsClient: ecsClient as unknown as ECSClient },
+      { execEnabled: true, query: "prod-web" },
+    );
+    if (!result.success) throw new Error(result.error);
+    if (result.data.resource !== "clusters") return;
+
+    expect(result.data.items[0]?.execCheckError).toContain("Rate exceeded");
+    expect(formatResourceTable(result.data)[1]).toContain("prod-web  unknown");
+  });
+
+  it("サービスを実行数とExecの状態付きで表にする", async () => {
+    const result = await listResources("services", createClients(), {
+      cluster: "prod-web",
+    });
+    if (!result.success) throw new Error(result.error);
+
+    expect(formatResourceTable(result.data)).toEqual([
+      "CLUSTER   SERVICE      STATUS  RUNNING  EXEC",
+      "prod-web  web-service  ACTIVE  1/1      enabled",
+    ]);
+  });
+});
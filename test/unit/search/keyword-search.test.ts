@@ -1,5 +1,6 @@
 import { describe, expect, it } from "bun:test";
-import { keywordSearch } from "../../../src/search.js";
+import { keywordSearch, searchRDS, searchTasks } from "../../../src/search.js";
+import type { ECSTask, RDSInstance } from "../../../src/types.js";
 import {
   mockECSClusters,
   mockECSTasks,
@@ -126,3 +127,59 @@ describe("keywordSearch", () => {
     expect(results.length).toBe(expectedCount);
   });
 });
+
+describe("searchRDS", () => {
+  const auroraEndpoints = (["writer", "reader"] as const).map(
+    (endpointType): RDSInstance => ({
+      ...mockRDSInstances[3],
+      dbInstanceIdentifier: `orders-aurora:${endpointType}`,
+      dbClusterIdentifier: "orders-aurora",
+      endpointType,
+    }),
+  );
+  const targets = [...mockRDSInstances, ...auroraEndpoints];
+
+  it("writer/readerでクラスターエンドポイントを絞り込める", async () => {
+    const readers = await searchRDS(targets, "reader");
+
+    expect(readers).toHaveLength(1);
+    expect(readers[0]?.value).toBe(auroraEndpoints[1]);
+    expect(readers[0]?.name).toContain("[cluster reader]");
+
+    const writers = await searchRDS(targets, "orders writer");
+    expect(writers.map((item) => item.value)).toEqual([auroraEndpoints[0]]);
+  });
+});
+
+describe("searchTasks", () => {
+  const tasks: ECSTask[] = [
+    {
+      ...mockECSTasks[0],
+      execReadiness: {
+        status: "ready",
+        reason: "ExecuteCommandAgent is running",
+      },
+    },
+    {
+      ...mockECSTasks[1],
+      execReadiness: {
+        status: "exec-disabled",
+        reason: "ECS Exec is not enabled for this task",
+      },
+    },
+  ];
+
+  it("ECS Execを使えないタスクは理由付きで選択不可にする", async () => {
+    const items = await searchTasks(tasks, "");
+
+    expect(items[0]?.disabled).toBeUndefined();
+    expect(items[1]?.disabled).toBe("ECS Exec is not enabled for this task");
+  });
+
+  it("キーワード検索の結果でも選択不可のまま表示する", async () => {
+    const items = await searchTasks(tasks, "api");
+
+    expect(items).toHaveLength(1);
+    expect(items[0]?.disabled).toBe("ECS Exec is not enabled for this task");
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "bun:test";
+import type { SSMClient } from "@aws-sdk/client-ssm";
+import {
+  pickServiceTask,
+  resolveServiceTask,
+} from "../../../src/core/selection/service-task-selection.js";
+import type { ExecReadiness, TaskArn, TaskStatus } from "../../../src/types.js";
+import { SSMClient as MockSSMClient } from "../../mocks/ssm-client.mock.js";
+
+const task = (
+  id: string,
+  createdAt: string,
+  overrides: {
+    taskStatus?: string;
+    healthStatus?: string;
+    execReadiness?: ExecReadiness;
+  } = {},
+) => ({
+  taskArn: `ecs:api_${id}_0123456789abcdef` as TaskArn,
+  taskStatus: (overrides.taskStatus ?? "RUNNING") as TaskStatus,
+  healthStatus: overrides.healthStatus,
+  execReadiness: overrides.execReadiness,
+  createdAt: new Date(createdAt),
+});
+
+const older = task("older", "2024-01-01T00:00:00Z");
+const newer = task("newer", "2024-01-02T00:00:00Z");
+const unhealthy = task("unhealthy", "2024-01-03T00:00:00Z", {
+  healthStatus: "UNHEALTHY",
+});
+const stopping = task("stopping", "2024-01-04T00:00:00Z", {
+  taskStatus: "STOPPING",
+});
+
+describe("pickServiceTask", () => {
+  it("newest では最も新しい健全な RUNNING タスクを選ぶ", () => {
+    const picked = pickServiceTask(
+      [older, unhealthy, stopping, newer],
+      "newest",
+    );
+
+    expect(picked).toBe(newer);
+  });
+
+  it("least-loaded ではセッション数が最も少ないタスクを選ぶ", () => {
+    const counts = new Map([
+      [newer.taskArn, 3],
+      [older.taskArn, 1],
+    ]);
+
+    expect(pickServiceTask([older, newer], "least-loaded", counts)).toBe(older);
+  });
+
+  it("セッション数が同じ場合は新しいタスクを選ぶ", () => {
+    expect(pickServiceTask([older, newer], "least-loaded", new Map())).toBe(
+      newer,
+    );
+  });
+
+  it("最新のタスクが exec 可能でない場合は次に新しい ready のタスクを選ぶ", () => {
+    const ready = task("ready", "2024-01-02T00:00:00Z", {
+      execReadiness: {
+        status: "ready",
+        reason: "ExecuteCommandAgent is running",
+      },
+    });
+    const agentPending = task("pending", "2024-01-05T00:00:00Z", {
+      execReadiness: {
+        status: "agent-not-running",
+        reason: "ExecuteCommandAgent is not running (app: PENDING)",
+      },
+    });
+
+    expect(pickServiceTask([ready, agentPending], "newest")).toBe(ready);
+  });
+
+  it("候補がない場合は undefined を返す", () => {
+    expect(pickServiceTask([unhealthy, stopping], "newest")).toBeUndefined();
+  });
+});
+
+describe("resolveServiceTask", () => {
+  it("SSM のアクティブセッション数を使って選ぶ", async () => {
+    const ssmClient = new MockSSMClient({
+      activeSessions: { [newer.taskArn]: 2 },
+    }) as unknown as SSMClient;
+
+    const picked = await resolveServiceTask({
+      tasks: [older, newer],
+      strategy: "least-loaded",
+      ssmClient,
+    });
+
+    expect(picked).toBe(older);
+  });
+
+  it("セッション数を取得できない場合は newest にフォールバックする", async () => {
+    const ssmClient = new MockSSMClient({
+      denyDescribeSessions: true,
+    }) as unknown as SSMClient;
+
+    const picked = await resolveServiceTask({
+      tasks: [older, newer],
+      strategy: "least-loaded",
+      ssmClient,
+    });
+
+    expect(picked).toBe(newer);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "bun:test";
+import { parse } from "valibot";
+import {
+  buildSessionManagerPluginArgs,
+  buildStartSessionRequest,
+  classifySessionError,
+  runPortForwardingSession,
+} from "../../../src/session.js";
+import {
+  type Port,
+  RDSInstanceSchema,
+  type RegionName,
+  type TaskArn,
+} from "../../../src/types.js";
+
+const rdsInstance = parse(RDSInstanceSchema, {
+  dbInstanceIdentifier: "test-rds",
+  endpoint: "test-rds.abc123.ap-northeast-1.rds.amazonaws.com",
+  port: 5432,
+  engine: "postgres",
+  dbInstanceClass: "db.t3.micro",
+  dbInstanceStatus: "available",
+  allocatedStorage: 20,
+  availabilityZone: "ap-northeast-1a",
+  vpcSecurityGroups: [],
+});
+
+const sessionParams = {
+  region: "ap-northeast-1" as RegionName,
+  taskArn: "ecs:prod_abc123_0123456789abcdef" as TaskArn,
+  rdsInstance,
+  rdsPort: 5432 as Port,
+  localPort: 15432 as Port,
+};
+
+const namedError = (name: string, message = name) =>
+  Object.assign(new Error(message), { name });
+
+describe("buildStartSessionRequest", () => {
+  it("ポートフォワーディング用のドキュメントとパラメータを組み立てる", () => {
+    expect(buildStartSessionRequest(sessionParams)).toEqual({
+      Target: "ecs:prod_abc123_0123456789abcdef",
+      DocumentName: "AWS-StartPortForwardingSessionToRemoteHost",
+      Parameters: {
+        host: ["test-rds.abc123.ap-northeast-1.rds.amazonaws.com"],
+        portNumber: ["5432"],
+        localPortNumber: ["15432"],
+      },
+    });
+  });
+
+  it("onTask の場合はタスク自身のポートへ転送するドキュメントを使う", () => {
+    expect(
+      buildStartSessionRequest({
+        ...sessionParams,
+        rdsPort: 8080 as Port,
+        localPort: 18080 as Port,
+        onTask: true,
+      }),
+    ).toEqual({
+      Target: "ecs:prod_abc123_0123456789abcdef",
+      DocumentName: "AWS-StartPortForwardingSession",
+      Parameters: {
+        portNumber: ["8080"],
+        localPortNumber: ["18080"],
+      },
+    });
+  });
+});
+
+describe("buildSessionManagerPluginArgs", () => {
+  it("AWS CLI と同じ順序で引数を渡す", () => {
+    const request = buildStartSessionRequest(sessionParams);
+
+    const args = buildSessionManagerPluginArgs({
+      session: {
+        SessionId: "user-0123",
+        StreamUrl: "wss://ssmmessages.ap-northeast-1.amazonaws.com/v1/x",
+        TokenValue: "token",
+      },
+      request,
+      region: sessionParams.region,
+      profile: "staging",
+    });
+
+    expect(JSON.parse(args[0] ?? "")).toEqual({
+      SessionId: "user-0123",
+      StreamUrl: "wss://ssmmessages.ap-northeast-1.amazonaws.com/v1/x",
+      TokenValue: "token",
+    });
+    expect(args.slice(1, 4)).toEqual([
+      "ap-northeast-1",
+      "StartSession",
+      "staging",
+    ]);
+    expect(JSON.parse(args[4] ?? "")).toEqual(request);
+    expect(args[5]).toBe("https://ssm.ap-northeast-1.amazonaws.com");
+  });
+
+  it("プロファイル未指定の場合は空文字を渡す", () => {
+    const args = buildSessionManagerPluginArgs({
+      session: { SessionId: "s", StreamUrl: "u", TokenValue: "t" },
+      request: buildStartSessionRequest(sessionParams),
+      region: sessionParams.region,
+    });
+
+    expect(args[3]).toBe("");
+  });
+});
+
+describe("classifySessionError", () => {
+  it("TargetNotConnected は再試行可能な接続エラーとして扱う", () => {
+    expect(
+      classifySessionError(namedError("TargetNotConnected")),
+    ).toMatchObject({ reason: "Cannot connect to target", retryable: true });
+  });
+
+  it("AccessDeniedException は再試行しない", () => {
+    expect(
+      classifySessionError(namedError("AccessDeniedException")),
+    ).toMatchObject({ reason: "Access denied", retryable: false });
+  });
+
+  it("InvalidTarget はメッセージからも判定する", () => {
+    expect(
+      classifySessionError(
+        namedError("ValidationException", "InvalidTarget: task not found"),
+      ),
+    ).toMatchObject({ reason: "Invalid target", retryable: true });
+  });
+});
+
+describe("runPortForwardingSession", () => {
+  it("中断済みのシグナルではセッションを開始せずユーザー終了として返す", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const exit = await runPortForwardingSession(sessionParams, {
+      quiet: true,
+      signal: controller.signal,
+    });
+
+    expect(exit).toEqual({ kind: "user" });
+  });
+});
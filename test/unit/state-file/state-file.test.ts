@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import {
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { readStateFile, writeStateFile } from "../../../src/state-file.js";
+import { failure, type Result, success } from "../../../src/types.js";
+
+describe("writeStateFile", () => {
+  let stateDir: string;
+  let path: string;
+
+  const loadNumbers = async (): Promise<Result<number[], string>> => {
+    try {
+      return success(JSON.parse(await readFile(path, "utf8")).numbers);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        "code" in error &&
+        error.code === "ENOENT"
+      ) {
+        return success([]);
+      }
+      return failure(String(error));
+    }
+  };
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "ecs-pf-state-"));
+    path = join(stateDir, "nested", "numbers.json");
+  });
+
+  afterEach(async () => {
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("同時に更新しても他の更新を失わない", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        writeStateFile(path, loadNumbers, (numbers) => ({
+          numbers: [...numbers, index],
+        })),
+      ),
+    );
+
+    expect(results.every((result) => result.success)).toBe(true);
+    const numbersResult = await loadNumbers();
+    expect(
+      numbersResult.success && [...numbersResult.data].sort((a, b) => a - b),
+    ).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    // ロックファイルと一時ファイルは残らない
+    expect(await readdir(join(stateDir, "nested"))).toEqual(["numbers.json"]);
+  });
+
+  it("undefinedを返した場合はファイルを書き込まない", async () => {
+    const result = await writeStateFile(path, loadNumbers, () => undefined);
+
+    expect(result.success).toBe(true);
+    expect(await readdir(join(stateDir, "nested"))).toEqual([]);
+  });
+
+  it("終了したプロセスが残したロックは取り除く", async () => {
+    await writeStateFile(path, loadNumbers, () => ({ numbers: [1] }));
+    const lockPath = `${path}.lock`;
+    await writeFile(lockPath, "99999999");
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lockPath, old, old);
+
+    const result = await writeStateFile(path, loadNumbers, (numbers) => ({
+      numbers: [...numbers, 2],
+    }));
+
+    expect(result.success).toBe(true);
+    expect(await loadNumbers()).toEqual(success([1, 2]));
+  });
+
+  it("読み込みに失敗した場合は書き込まずにエラーを返す", async () => {
+    await writeStateFile(path, loadNumbers, () => ({ numbers: [1] }));
+    await writeFile(path, "{ not json");
+
+    const result = await writeStateFile(path, loadNumbers, () => ({
+      numbers: [],
+    }));
+
+    expect(result.success).toBe(false);
+    expect(await readFile(path, "utf8")).toBe("{ not json");
+  });
+});
+
+describe("readStateFile", () => {
+  let stateDir: string;
+  let path: string;
+
+  const parseNumbers = (raw: unknown): Result<number[], string> =>
+    Array.isArray(raw) && raw.every((value) => typeof value === "number")
+      ? success(raw)
+      : failure("Invalid numbers file");
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "ecs-pf-state-"));
+    path = join(stateDir, "numbers.json");
+  });
+
+  afterEach(async () => {
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("ファイルがない場合は空の値を返す", async () => {
+    expect(await readStateFile(path, parseNumbers, [])).toEqual(success([]));
+  });
+
+  it("内容を検証して返す", async () => {
+    await writeFile(path, "[1, 2]");
+
+    expect(await readStateFile(path, parseNumbers, [])).toEqual(
+      success([1, 2]),
+    );
+  });
+
+  it("JSONでない場合はエラーを返す", async () => {
+    await writeFile(path, "{ not json");
+
+    expect(await readStateFile(path, parseNumbers, [])).toEqual(
+      failure(`${path} is not valid JSON`),
+    );
+  });
+
+  it("形式が正しくない場合はパスを付けてエラーを返す", async () => {
+    await writeFile(path, '["1"]');
+
+    expect(await readStateFile(path, parseNumbers, [])).toEqual(
+      failure(`${path}: Invalid numbers file`),
+    );
+  });
+});
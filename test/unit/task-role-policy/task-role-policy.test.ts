@@ -0,0 +1,167 @@
+import { describe, expect, it } from "bun:test";
+import type { ECSClient } from "@aws-sdk/client-ecs";
+import type { IAMClient } from "@aws-sdk/client-iam";
+import {
+  applyExecTaskRolePolicy,
+  buildExecTaskRolePolicy,
+  checkServiceTaskRole,
+  EXEC_TASK_ROLE_POLICY_NAME,
+  formatPutRolePolicyCommand,
+  SSM_MESSAGES_ACTIONS,
+} from "../../../src/task-role-policy.js";
+import { ECSClient as MockECSClient } from "../../mocks/ecs-client.mock.js";
+import { IAMClient as MockIAMClient } from "../../mocks/iam-client.mock.js";
+
+const TASK_ROLE_ARN = "arn:aws:iam::123456789012:role/web-service-task-role";
+
+const createClients = (
+  ecsOptions: ConstructorParameters<typeof MockECSClient>[0] = {},
+  iamOptions: ConstructorParameters<typeof MockIAMClient>[0] = {},
+) => {
+  const iamClient = new MockIAMClient(iamOptions);
+  return {
+    ecsClient: new MockECSClient(ecsOptions) as unknown as ECSClient,
+    iamClient: iamClient as unknown as IAMClient,
+    mockIAMClient: iamClient,
+  };
+};
+
+describe("checkServiceTaskRole", () => {
+  it("サービスのタスク定義からタスクロールを解決し、権限が揃っていれば不足なしになる", async () => {
+    const { ecsClient, iamClient } = createClients();
+
+    const check = await checkServiceTaskRole(
+      { ecsClient, iamClient },
+      "prod-web",
+      "web-service",
+    );
+
+    expect(check).toEqual({
+      clusterName: "prod-web",
+      serviceName: "web-service",
+      taskRoleArn: TASK_ROLE_ARN,
+      missingActions: [],
+    });
+  });
+
+  it("許可されていないアクションをサービスごとに返す", async () => {
+    const { ecsClient, iamClient } = createClients(
+      {},
+      {
+        deniedActions: {
+          [TASK_ROLE_ARN]: [
+            "ssmmessages:CreateControlChannel",
+            "ssmmessages:OpenControlChannel",
+          ],
+        },
+      },
+    );
+
+    const check = await checkServiceTaskRole(
+      { ecsClient, iamClient },
+      "prod-web",
+      "web-service",
+    );
+
+    expect(check.missingActions).toEqual([
+      "ssmmessages:CreateControlChannel",
+      "ssmmessages:OpenControlChannel",
+    ]);
+  });
+
+  it("タスクロールが無い場合はすべてのアクションが不足になる", async () => {
+    const { ecsClient, iamClient } = createClients({
+      noTaskRoleFamilies: ["web-service"],
+    });
+
+    const check = await checkServiceTaskRole(
+      { ecsClient, iamClient },
+      "prod-web",
+      "web-service",
+    );
+
+    expect(check.taskRoleArn).toBeUndefined();
+    expect(check.missingActions).toEqual(SSM_MESSAGES_ACTIONS);
+  });
+
+  it("ポリシーをシミュレーションできない場合はエラーとして返す", async () => {
+    const { ecsClient, iamClient } = createClients(
+      {},
+      { denySimulation: true },
+    );
+
+    const check = await checkServiceTaskRole(
+      { ecsClient, iamClient },
+      "prod-web",
+      "web-service",
+    );
+
+    expect(check.error).toContain("iam:SimulatePrincipalPolicy");
+    expect(check.missingActions).toEqual([]);
+  });
+});
+
+describe("applyExecTaskRolePolicy", () => {
+  it("不足しているアクションだけを許可するインラインポリシーを追加する", async () => {
+    const { iamClient, mockIAMClient } = createClients();
+
+    const result = await applyExecTaskRolePolicy(iamClient, {
+      clusterName: "prod-web",
+      serviceName: "web-service",
+      taskRoleArn: TASK_ROLE_ARN,
+      missingActions: ["ssmmessages:OpenDataChannel"],
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockIAMClient.putPolicies).toHaveLength(1);
+    expect(mockIAMClient.putPolicies[0]).toMatchObject({
+      RoleName: "web-service-task-role",
+      PolicyName: EXEC_TASK_ROLE_POLICY_NAME,
+    });
+    expect(
+      JSON.parse(mockIAMClient.putPolicies[0]?.PolicyDocument ?? "{}"),
+    ).toEqual({
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Effect: "Allow",
+          Action: ["ssmmessages:OpenDataChannel"],
+          Resource: "*",
+        },
+      ],
+    });
+  });
+
+  it("タスクロールが無い場合は追加しない", async () => {
+    const { iamClient, mockIAMClient } = createClients();
+
+    const result = await applyExecTaskRolePolicy(iamClient, {
+      clusterName: "prod-web",
+      serviceName: "web-service",
+      missingActions: SSM_MESSAGES_ACTIONS,
+    });
+
+    expect(result.success).toBe(false);
+    expect(mockIAMClient.putPolicies).toHaveLength(0);
+  });
+});
+
+describe("formatPutRolePolicyCommand", () => {
+  it("ロール名とポリシー文書を含むAWS CLIコマンドを生成する", () => {
+    const command = formatPutRolePolicyCommand(
+      TASK_ROLE_ARN,
+      ["ssmmessages:OpenDataChannel"],
+      " --profile dev",
+    );
+
+    expect(command).toStartWith(
+      "aws iam put-role-policy --role-name web-service-task-role --policy-name ecs-pf-ecs-exec --policy-document '",
+    );
+    expect(command).toContain(
+      JSON.stringify(
+        JSON.parse(buildExecTaskRolePolicy(["ssmmessages:OpenDataChannel"])),
+      ),
+    );
+    expect(command).toEndWith("' --profile dev");
+  });
+});
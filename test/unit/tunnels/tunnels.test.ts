@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { type ChildProcess, spawn } from "node:child_process";
+import { once } from "node:events";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parse } from "valibot";
+import {
+  addTunnel,
+  getTunnelStateFile,
+  isProcessAlive,
+  isTunnelProcessAlive,
+  loadTunnels,
+  pruneStaleTunnels,
+  removeTunnels,
+  selectTunnels,
+} from "../../../src/tunnels.js";
+import { TunnelEntrySchema } from "../../../src/types.js";
+
+// Linux の pid_max を超えるため存在しないプロセス
+const DEAD_PID = 99_999_999;
+
+const tunnel = (id: string, pid: number, localPort: number) =>
+  parse(TunnelEntrySchema, {
+    id,
+    name: "prod-db",
+    session: {
+      region: "ap-northeast-1",
+      taskArn: "ecs:prod_abc123_0123456789abcdef",
+      rdsInstance: {
+        dbInstanceIdentifier: "prod-db",
+        endpoint: "prod-db.abc.ap-northeast-1.rds.amazonaws.com",
+        port: 5432,
+        engine: "postgres",
+        dbInstanceClass: "db.t3.micro",
+        dbInstanceStatus: "available",
+        allocatedStorage: 20,
+        availabilityZone: "ap-northeast-1a",
+        vpcSecurityGroups: [],
+      },
+      rdsPort: 5432,
+      localPort,
+    },
+    cluster: {
+      clusterName: "prod",
+      clusterArn: "arn:aws:ecs:ap-northeast-1:123456789012:cluster/prod",
+    },
+    service: "api",
+    pid,
+    startedAt: "2024-01-01T00:00:00.000Z",
+    logFile: `/tmp/${id}.log`,
+  });
+
+describe("tunnels", () => {
+  let stateDir: string;
+  let daemons: ChildProcess[] = [];
+  const originalHome = process.env.ECS_PF_HOME;
+
+  // tunnel-daemon と同じくコマンドラインにトンネルIDを含むプロセスを起動する
+  const startFakeDaemon = async (id: string): Promise<number> => {
+    const script = join(stateDir, "fake-daemon.js");
+    await writeFile(
+      script,
+      'process.stdout.write("ready\\n");\nsetTimeout(() => {}, 60_000);\n',
+    );
+    const child = spawn(process.execPath, [script, "tunnel-daemon", id], {
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+    daemons.push(child);
+    // 起動が終わるまで待つ（それまではコマンドラインが親プロセスのまま）
+    if (!child.stdout || !child.pid) {
+      throw new Error("Failed to start fake daemon");
+    }
+    await once(child.stdout, "data");
+    return child.pid;
+  };
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "ecs-pf-tunnels-"));
+    process.env.ECS_PF_HOME = stateDir;
+  });
+
+  afterEach(async () => {
+    for (const daemon of daemons) {
+      daemon.kill();
+    }
+    daemons = [];
+    if (originalHome === undefined) {
+      delete process.env.ECS_PF_HOME;
+    } else {
+      process.env.ECS_PF_HOME = originalHome;
+    }
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("状態ファイルがない場合は空配列を返す", async () => {
+    const result = await loadTunnels();
+
+    expect(result.success && result.data).toEqual([]);
+  });
+
+  it("トンネルを記録して削除できる", async () => {
+    await addTunnel(tunnel("aaa111", process.pid, 8888));
+    await addTunnel(tunnel("bbb222", process.pid, 8889));
+    await removeTunnels(["aaa111"]);
+
+    const result = await loadTunnels();
+
+    expect(result.success && result.data.map((t) => t.id)).toEqual(["bbb222"]);
+    const saved = JSON.parse(await readFile(getTunnelStateFile(), "utf8"));
+    expect(saved.tunnels).toHaveLength(1);
+  });
+
+  it("プロセスが終了したトンネルを検出して状態ファイルから取り除く", async () => {
+    await addTunnel(tunnel("alive1", await startFakeDaemon("alive1"), 8888));
+    await addTunnel(tunnel("dead01", DEAD_PID, 8889));
+    // pidが再利用され、別のプロセスになっている
+    await addTunnel(tunnel("reused", process.pid, 8890));
+
+    const result = await pruneStaleTunnels();
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.tunnels.map((t) => t.id)).toEqual(["alive1"]);
+    expect(result.data.stale.map((t) => t.id)).toEqual(["dead01", "reused"]);
+    const reloaded = await loadTunnels();
+    expect(reloaded.success && reloaded.data.map((t) => t.id)).toEqual([
+      "alive1",
+    ]);
+  });
+
+  it("壊れた状態ファイルはエラーを返す", async () => {
+    await writeFile(getTunnelStateFile(), "{ not json");
+
+    const result = await loadTunnels();
+
+    expect(result.success).toBe(false);
+  });
+
+  it("isProcessAlive は存在しないプロセスで false を返す", () => {
+    expect(isProcessAlive(process.pid)).toBe(true);
+    expect(isProcessAlive(DEAD_PID)).toBe(false);
+  });
+
+  it("isTunnelProcessAlive はコマンドラインにトンネルIDが無いプロセスを生存とみなさない", async () => {
+    const pid = await startFakeDaemon("abc123");
+
+    expect(isTunnelProcessAlive({ id: "abc123", pid })).toBe(true);
+    expect(isTunnelProcessAlive({ id: "def456", pid })).toBe(false);
+    expect(isTunnelProcessAlive({ id: "abc123", pid: process.pid })).toBe(
+      false,
+    );
+  });
+
+  describe("selectTunnels", () => {
+    const tunnels = [
+      tunnel("aaa111", process.pid, 8888),
+      tunnel("bbb222", process.pid, 8889),
+    ];
+
+    it("ID・ローカルポート・all で選択する", () => {
+      expect(selectTunnels(tunnels, "bbb222").map((t) => t.id)).toEqual([
+        "bbb222",
+      ]);
+      expect(selectTunnels(tunnels, "8888").map((t) => t.id)).toEqual([
+        "aaa111",
+      ]);
+      expect(selectTunnels(tunnels, "all")).toHaveLength(2);
+      expect(selectTunnels(tunnels, "missing")).toEqual([]);
+    });
+  });
+});
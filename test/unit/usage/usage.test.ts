@@ -0,0 +1,214 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import chalk from "chalk";
+import type { InferenceResult } from "../../../src/inference/index.js";
+import {
+  searchInferenceResults,
+  searchRDS,
+  searchRegions,
+} from "../../../src/search.js";
+import {
+  compareUsageRanks,
+  createUsageRanker,
+  getUsageFile,
+  loadUsage,
+  recordUsage,
+  setFavorite,
+} from "../../../src/usage.js";
+import { mockAWSRegions } from "../../mock-data/aws-regions.js";
+import {
+  mockECSClusters,
+  mockECSTasks,
+  mockRDSInstances,
+} from "../../mock-data/index.js";
+
+const NOW = new Date("2024-06-01T00:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("usage", () => {
+  let stateDir: string;
+  const originalHome = process.env.ECS_PF_HOME;
+
+  beforeAll(() => {
+    // 色コードを除いて比較する
+    chalk.level = 0;
+  });
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), "ecs-pf-usage-"));
+    process.env.ECS_PF_HOME = stateDir;
+  });
+
+  afterEach(async () => {
+    if (originalHome === undefined) {
+      delete process.env.ECS_PF_HOME;
+    } else {
+      process.env.ECS_PF_HOME = originalHome;
+    }
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it("利用回数と最終利用日時を記録する", async () => {
+    await recordUsage([{ kind: "region", name: "us-east-1" }], NOW);
+    await recordUsage(
+      [
+        { kind: "region", name: "us-east-1" },
+        { kind: "rds", name: "prod-db" },
+      ],
+      NOW,
+    );
+
+    const result = await loadUsage();
+
+    expect(result.success && result.data.usage).toEqual([
+      {
+        kind: "region",
+        name: "us-east-1",
+        count: 2,
+        lastUsed: NOW.toISOString(),
+      },
+      { kind: "rds", name: "prod-db", count: 1, lastUsed: NOW.toISOString() },
+    ]);
+  });
+
+  it("お気に入りを追加・削除できる", async () => {
+    await setFavorite("cluster", "prod-web", true);
+    await setFavorite("cluster", "prod-web", true);
+    await setFavorite("rds", "prod-db", true);
+    await setFavorite("rds", "prod-db", false);
+
+    const result = await loadUsage();
+
+    expect(result.success && result.data.favorites).toEqual([
+      { kind: "cluster", name: "prod-web" },
+    ]);
+  });
+
+  it("壊れた利用履歴ファイルはエラーとして返す", async () => {
+    await writeFile(getUsageFile(), "{ not json");
+
+    const result = await loadUsage();
+
+    expect(result.success).toBe(false);
+  });
+
+  it("お気に入りと最近使ったリージョンを先頭にマーク付きで表示する", async () => {
+    await recordUsage([{ kind: "region", name: "eu-west-1" }]);
+    await setFavorite("region", "us-west-2", true);
+
+    const items = await searchRegions(mockAWSRegions, "");
+
+    expect(items.map((item) => item.value).slice(0, 2)).toEqual([
+      "us-west-2",
+      "eu-west-1",
+    ]);
+    expect(items[0]?.name).toContain("★");
+    expect(items[1]?.name).toContain("↺");
+    expect(items[2]?.name).not.toMatch(/[★↺]/);
+  });
+
+  it("デフォルトのリージョンはお気に入りより前に表示する", async () => {
+    await setFavorite("region", "us-west-2", true);
+
+    const items = await searchRegions(mockAWSRegions, "", "eu-central-1");
+
+    expect(items.map((item) => item.value).slice(0, 2)).toEqual([
+      "eu-central-1",
+      "us-west-2",
+    ]);
+  });
+
+  it("よく使うRDSを先頭に表示する", async () => {
+    const [first, second] = mockRDSInstances;
+    if (!first || !second) throw new Error("mock data is missing");
+    await recordUsage([{ kind: "rds", name: second.dbInstanceIdentifier }]);
+
+    const items = await searchRDS([first, second], "");
+
+    expect(items[0]?.value).toBe(second);
+  });
+
+  it("推論結果は入力が空でも信頼度を利用履歴より優先して並べる", async () => {
+    const [cluster] = mockECSClusters;
+    const [webTask, apiTask, workerTask] = mockECSTasks;
+    if (!cluster || !webTask || !apiTask || !workerTask) {
+      throw new Error("mock data is missing");
+    }
+    const toResult = (
+      task: typeof webTask,
+      confidence: InferenceResult["confidence"],
+      score: number,
+    ): InferenceResult => ({
+      cluster,
+      task,
+      confidence,
+      method: "naming",
+      score,
+      reason: "名前の一致",
+      reasons: ["名前の一致"],
+    });
+    const lowUsed = toResult(apiTask, "low", 10);
+    const highLowScore = toResult(workerTask, "high", 50);
+    const highTopScore = toResult(webTask, "high", 90);
+    await recordUsage([{ kind: "service", name: apiTask.serviceName }]);
+
+    const emptyItems = await searchInferenceResults(
+      [lowUsed, highLowScore, highTopScore],
+      "",
+    );
+
+    expect(emptyItems.map((item) => item.value)).toEqual([
+      highTopScore,
+      highLowScore,
+      lowUsed,
+    ]);
+  });
+});
+
+describe("createUsageRanker", () => {
+  const store = {
+    usage: [
+      {
+        kind: "cluster" as const,
+        name: "old",
+        count: 8,
+        lastUsed: new Date(NOW.getTime() - 60 * DAY_MS).toISOString(),
+      },
+      {
+        kind: "cluster" as const,
+        name: "fresh",
+        count: 2,
+        lastUsed: NOW.toISOString(),
+      },
+    ],
+    favorites: [{ kind: "cluster" as const, name: "starred" }],
+  };
+
+  it("古い利用ほど重みが下がり、お気に入りは常に先頭になる", () => {
+    const rank = createUsageRanker(store, "cluster", NOW.getTime());
+    const names = ["unused", "old", "fresh", "starred"];
+
+    const sorted = [...names].sort((a, b) =>
+      compareUsageRanks(rank(a), rank(b)),
+    );
+
+    expect(sorted).toEqual(["starred", "fresh", "old", "unused"]);
+    expect(rank("old").recent).toBe(false);
+    expect(rank("fresh").recent).toBe(true);
+  });
+
+  it("別の種類の利用履歴は使わない", () => {
+    const rank = createUsageRanker(store, "rds", NOW.getTime());
+
+    expect(rank("fresh")).toEqual({ favorite: false, recent: false, score: 0 });
+  });
+});
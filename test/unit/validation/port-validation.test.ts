@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "bun:test";
 import * as net from "node:net";
 import {
+  allocateAvailablePort,
   areAllPortsInRange,
   findAvailablePort,
   getPortRange,
@@ -227,6 +228,43 @@ describe("findAvailablePort", () => {
   });
 });
 
+describe("allocateAvailablePort", () => {
+  let mockServer: MockServer;
+
+  beforeEach(() => {
+    mockServer = {
+      listen: vi.fn(),
+      close: vi.fn(),
+      on: vi.fn(),
+    };
+    (net.createServer as MockCreateServer).mockReturnValue(mockServer);
+    // 全てのポートが利用可能
+    mockServer.listen.mockImplementation(
+      (_port: number, _host: string, callback: () => void) => {
+        callback();
+      },
+    );
+    mockServer.close.mockImplementation((callback: () => void) => {
+      callback();
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("同じ実行内で割り当て済みのポートはスキップする", async () => {
+    const reserved = new Set<number>();
+
+    const first = await allocateAvailablePort(8888, reserved);
+    const second = await allocateAvailablePort(8888, reserved);
+
+    expect(first.success && Number(first.data)).toBe(8888);
+    expect(second.success && Number(second.data)).toBe(8889);
+    expect([...reserved]).toEqual([8888, 8889]);
+  });
+});
+
 describe("areAllPortsInRange", () => {
   it("全てのポートが有効範囲内の場合trueを返す", () => {
     expect(areAllPortsInRange([80, 443, 8080])).toBe(true);